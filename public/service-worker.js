@@ -106,9 +106,13 @@ self.addEventListener('sync', (event) => {
   }
 });
 
+// The outbox lives in the page (it needs the signed-in Supabase session),
+// so wake up any open windows and let them replay queued changes
 async function syncTasks() {
-  // Implement background sync logic here if needed
-  console.log('Syncing tasks...');
+  const windowClients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windowClients.forEach((client) => {
+    client.postMessage({ type: 'SYNC_OUTBOX' });
+  });
 }
 
 // Push notification handler
@@ -33,8 +33,10 @@ import SettingsModal from './components/SettingsModal';
 import PWAInstallPrompt from './components/PWAInstallPrompt';
 import OnboardingFlow from './components/OnboardingFlow';
 import AuthModal from './components/AuthModal';
-import { isFirstTimeUser, markOnboardingComplete } from './storage';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import { isFirstTimeUser, markOnboardingComplete, reconcileExpiredHolds, reconcileEventReminders, loadUserSettings } from './storage';
 import { loadSampleTasks } from './utils/sampleData';
+import { startBackgroundSync } from './lib/offlineQueue';
 
 type View = 'today' | 'tasks-events' | 'items' | 'journal' | 'analytics' | 'settings';
 
@@ -55,12 +57,12 @@ const AppContent: React.FC = () => {
   
   const { theme } = useTheme();
   const { avatar, username } = useUser();
-  const { user, loading: authLoading, isAuthenticated } = useAuth();
+  const { user, loading: authLoading, isAuthenticated, isGuest, setStorageMode } = useAuth();
 
   // Clear localStorage and test Supabase connection on mount
   useEffect(() => {
     const initialize = async () => {
-      // Clear old localStorage data (user must use Supabase now)
+      // Clear old localStorage data (data now lives in the storage adapter)
       const { clearLocalStorage } = await import('./storage');
       clearLocalStorage();
       
@@ -74,12 +76,40 @@ const AppContent: React.FC = () => {
     initialize();
   }, []);
 
-  // Show auth modal if user is not authenticated
+  // Replay offline changes when connectivity returns
+  useEffect(() => startBackgroundSync(), []);
+
+  // Load the saved time zone from storage - the local settings cache may not have it yet
+  useEffect(() => {
+    if (authLoading || (!user && !isGuest)) return;
+    loadUserSettings();
+  }, [authLoading, user, isGuest]);
+
+  // Clear expired holds and roll event reminders forward once storage is ready,
+  // and again when the day rolls over
+  useEffect(() => {
+    if (authLoading || (!user && !isGuest)) return;
+
+    const reconcile = () => {
+      // A view loaded while holds were being cleared shows them as still on hold; reload it
+      reconcileExpiredHolds()
+        .then(resumed => {
+          if (resumed.length > 0) setKey(prev => prev + 1);
+        })
+        .catch(error => console.error('Error clearing expired holds:', error));
+      reconcileEventReminders().catch(error => console.error('Error refreshing event reminders:', error));
+    };
+    reconcile();
+    const intervalId = setInterval(reconcile, 60 * 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [authLoading, user, isGuest]);
+
+  // Show auth modal if user is not authenticated (guests use local storage instead)
   useEffect(() => {
-    if (!authLoading && !isAuthenticated && !showOnboarding) {
+    if (!authLoading && !isAuthenticated && !isGuest && !showOnboarding) {
       setShowAuthModal(true);
     }
-  }, [authLoading, isAuthenticated, showOnboarding]);
+  }, [authLoading, isAuthenticated, isGuest, showOnboarding]);
 
   // Refresh the current view when switching back to it
   const handleNavigate = (view: View) => {
@@ -93,7 +123,7 @@ const AppContent: React.FC = () => {
     setShowOnboarding(false);
     
     // After onboarding, show auth modal if not signed in
-    if (!isAuthenticated) {
+    if (!isAuthenticated && !isGuest) {
       setShowAuthModal(true);
     }
     
@@ -191,9 +221,10 @@ const AppContent: React.FC = () => {
               Plan with the strength of a lion
             </p>
           </div>
-          <div className="user-badge" title={username}>
+          <div className="user-badge" title={isGuest ? `${username} (guest - data stored on this device)` : username}>
             <span className="user-avatar">{avatar.emoji}</span>
             <span className="user-name">{username}</span>
+            {isGuest && <span className="user-name" style={{ opacity: 0.7 }}>· Guest</span>}
           </div>
         </div>
         <nav className="nav">
@@ -253,6 +284,7 @@ const AppContent: React.FC = () => {
           </button>
         </nav>
         <div className="header-actions">
+          <SyncStatusIndicator />
           <button
             className="icon-button"
             onClick={() => setShowAbout(true)}
@@ -300,6 +332,12 @@ const AppContent: React.FC = () => {
         <AuthModal
           onClose={() => setShowAuthModal(false)}
           onSuccess={() => {
+            setStorageMode('supabase');
+            setShowAuthModal(false);
+            setKey(prev => prev + 1);
+          }}
+          onContinueAsGuest={() => {
+            setStorageMode('local');
             setShowAuthModal(false);
             setKey(prev => prev + 1);
           }}
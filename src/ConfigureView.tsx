@@ -1,16 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { Task, FrequencyType, IntervalUnit, Tag } from './types';
-import { loadData, addTask, updateTask, deleteTask, importSampleTasks, clearAllData, getTags } from './storage';
-import { generateId, getColorForTask } from './utils';
+import { Task, TaskCompletion, ChecklistItem, FrequencyType, IntervalUnit, Tag } from './types';
+import { loadData, addTask, updateTask, deleteTask, importSampleTasks, clearAllData, getTags, getResumeUpdates } from './storage';
+import { generateId, getColorForTask, getTodayString } from './utils';
+import { findCycleForParents, findPrerequisiteCycle, getPrerequisiteTasks } from './dependencies';
+import { buildICalendar, downloadICalendar } from './icalExport';
+import DependencyTree from './components/DependencyTree';
+import RecurrenceBuilder from './components/RecurrenceBuilder';
+import ChecklistEditor from './components/ChecklistEditor';
+import { DEFAULT_RRULE, validateRRule, parseRRule, describeRRule, formatRRule } from './rrule';
+import { parseCustomFrequency, compileCustomFrequency } from './customFrequency';
+import { getRRuleStart, nextOccurrences, isRepeatAfterCompletion, getDaysUntilDue, describeDueIn } from './recurrence';
 
 const ConfigureView: React.FC = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [completions, setCompletions] = useState<TaskCompletion[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [isDateOptionsExpanded, setIsDateOptionsExpanded] = useState(false);
   const [tags, setTags] = useState<Tag[]>([]);
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [treeTaskId, setTreeTaskId] = useState<string | null>(null);
   
   const [formData, setFormData] = useState({
     name: '',
@@ -26,12 +36,21 @@ const ConfigureView: React.FC = () => {
     intervalValue: 1,
     intervalUnit: 'days' as IntervalUnit,
     intervalStartDate: '',
+    repeatAfterCompletion: false,
+    rrule: DEFAULT_RRULE,
+    exDates: [] as string[],
+    targetValue: 0,
+    unit: '',
+    checklist: [] as ChecklistItem[],
+    autoCompleteChecklist: false,
     startDate: '',
     endDate: '',
     specificDate: '',
+    deadline: '',
     endTime: '',
     customBackgroundColor: '',
     dependentTaskIds: [] as string[],
+    prerequisiteTaskIds: [] as string[],
     onHold: false,
     holdStartDate: '',
     holdEndDate: '',
@@ -56,12 +75,32 @@ const ConfigureView: React.FC = () => {
     try {
       const data = await loadData();
       setTasks(data.tasks);
+      setCompletions(data.completions);
     } catch (error) {
       console.error('Error loading tasks:', error);
       alert('Error loading tasks. Please make sure you are signed in.');
     }
   };
 
+  /**
+   * Download scheduled tasks as an .ics file (count-based tasks have no fixed days and are left out)
+   */
+  const handleExportCalendar = async () => {
+    try {
+      const data = await loadData();
+      const content = buildICalendar({
+        tasks: data.tasks,
+        completions: data.completions,
+        vacations: data.vacations,
+        calendarName: 'Routine Ruby Tasks'
+      });
+      downloadICalendar(content, `routine-ruby-tasks-${getTodayString()}.ics`);
+    } catch (error: any) {
+      console.error('Error exporting calendar:', error);
+      alert(`Export failed: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -70,6 +109,40 @@ const ConfigureView: React.FC = () => {
       return;
     }
 
+    const cycle = findCycleForParents(editingId, formData.dependentTaskIds, tasks);
+    if (cycle) {
+      alert(`These dependencies would create a loop: ${describeCycle(cycle)}. Please remove one of them.`);
+      return;
+    }
+
+    const prerequisiteCycle = findPrerequisiteCycle(editingId, formData.prerequisiteTaskIds, tasks);
+    if (prerequisiteCycle) {
+      alert(`These prerequisites would lock each other: ${describeCycle(prerequisiteCycle)}. Please remove one of them.`);
+      return;
+    }
+
+    if (formData.frequency === 'rrule') {
+      const ruleError = validateRRule(formData.rrule);
+      if (ruleError) {
+        alert(`Please fix the recurrence rule: ${ruleError}`);
+        return;
+      }
+    }
+
+    if (formData.frequency === 'custom' && !formData.specificDate) {
+      try {
+        parseCustomFrequency(formData.customFrequency);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Custom frequency not understood');
+        return;
+      }
+    }
+
+    // Rule-based schedules are anchored at the start date, so it must not move between edits
+    const editedTask = tasks.find(t => t.id === editingId);
+    const isAnchored = formData.frequency === 'rrule' || (formData.frequency === 'custom' && !formData.specificDate);
+    const anchorDate = (editedTask && getRRuleStart(editedTask)) || getTodayString();
+
     const task: Task = {
       id: editingId || generateId(),
       name: formData.name,
@@ -85,21 +158,37 @@ const ConfigureView: React.FC = () => {
       frequencyPeriod: formData.frequency === 'count-based' ? formData.frequencyPeriod : undefined,
       intervalValue: formData.frequency === 'interval' ? formData.intervalValue : undefined,
       intervalUnit: formData.frequency === 'interval' ? formData.intervalUnit : undefined,
-      intervalStartDate: formData.frequency === 'interval' ? (formData.intervalStartDate || formData.startDate || new Date().toISOString().split('T')[0]) : undefined,
-      startDate: formData.startDate || undefined,
+      intervalStartDate: formData.frequency === 'interval' ? (formData.intervalStartDate || formData.startDate || getTodayString()) : undefined,
+      repeatAfterCompletion: formData.frequency === 'interval' ? formData.repeatAfterCompletion : undefined,
+      rrule: formData.frequency === 'rrule' ? formData.rrule : undefined,
+      exDates: formData.frequency === 'rrule' && formData.exDates.length > 0 ? formData.exDates : undefined,
+      targetValue: formData.targetValue > 0 ? formData.targetValue : undefined,
+      unit: formData.targetValue > 0 && formData.unit.trim() ? formData.unit.trim() : undefined,
+      checklist: formData.checklist
+        .map(item => ({ ...item, title: item.title.trim() }))
+        .filter(item => item.title), // Empty list clears a removed checklist
+      autoCompleteChecklist: formData.autoCompleteChecklist,
+      startDate: formData.startDate || (isAnchored ? anchorDate : undefined),
       endDate: formData.endDate || undefined,
       specificDate: formData.specificDate || undefined,
+      deadline: formData.specificDate && formData.deadline ? formData.deadline : null, // null clears a removed deadline
       endTime: formData.endTime || undefined,
       color: getColorForTask(tasks.length),
       customBackgroundColor: formData.customBackgroundColor || undefined,
       dependentTaskIds: formData.dependentTaskIds.length > 0 ? formData.dependentTaskIds : undefined,
+      prerequisiteTaskIds: formData.prerequisiteTaskIds, // Empty clears them
       onHold: formData.onHold || undefined,
-      holdStartDate: formData.onHold && formData.holdStartDate ? formData.holdStartDate : undefined,
+      holdStartDate: formData.onHold ? (formData.holdStartDate || (editedTask?.onHold ? editedTask.holdStartDate : getTodayString())) : undefined,
       holdEndDate: formData.onHold && formData.holdEndDate ? formData.holdEndDate : undefined,
       holdReason: formData.onHold && formData.holdReason ? formData.holdReason : undefined,
       createdAt: new Date().toISOString()
     };
 
+    // Taking a task off hold keeps the finished hold in its history
+    if (editedTask?.onHold && !formData.onHold) {
+      Object.assign(task, getResumeUpdates(editedTask, getTodayString()));
+    }
+
     try {
       if (editingId) {
         await updateTask(editingId, task);
@@ -120,7 +209,7 @@ const ConfigureView: React.FC = () => {
     setIsEditing(true);
     setEditingId(task.id);
     // Expand date options if task has any date options set
-    setIsDateOptionsExpanded(!!(task.startDate || task.endDate || task.specificDate || task.endTime));
+    setIsDateOptionsExpanded(!!(task.startDate || task.endDate || task.specificDate || task.deadline || task.endTime));
     setFormData({
       name: task.name,
       description: task.description || '',
@@ -135,12 +224,21 @@ const ConfigureView: React.FC = () => {
       intervalValue: task.intervalValue || 1,
       intervalUnit: task.intervalUnit || 'days',
       intervalStartDate: task.intervalStartDate || '',
+      repeatAfterCompletion: task.repeatAfterCompletion || false,
+      rrule: task.rrule || DEFAULT_RRULE,
+      exDates: task.exDates || [],
+      targetValue: task.targetValue || 0,
+      unit: task.unit || '',
+      checklist: task.checklist || [],
+      autoCompleteChecklist: task.autoCompleteChecklist || false,
       startDate: task.startDate || '',
       endDate: task.endDate || '',
       specificDate: task.specificDate || '',
+      deadline: task.deadline || '',
       endTime: task.endTime || '',
       customBackgroundColor: task.customBackgroundColor || '',
       dependentTaskIds: task.dependentTaskIds || [],
+      prerequisiteTaskIds: task.prerequisiteTaskIds || [],
       onHold: task.onHold || false,
       holdStartDate: task.holdStartDate || '',
       holdEndDate: task.holdEndDate || '',
@@ -172,12 +270,21 @@ const ConfigureView: React.FC = () => {
       intervalValue: 1,
       intervalUnit: 'days',
       intervalStartDate: '',
+      repeatAfterCompletion: false,
+      rrule: DEFAULT_RRULE,
+      exDates: [],
+      targetValue: 0,
+      unit: '',
+      checklist: [],
+      autoCompleteChecklist: false,
       startDate: '',
       endDate: '',
       specificDate: '',
+      deadline: '',
       endTime: '',
       customBackgroundColor: '',
       dependentTaskIds: [],
+      prerequisiteTaskIds: [],
       onHold: false,
       holdStartDate: '',
       holdEndDate: '',
@@ -212,6 +319,10 @@ const ConfigureView: React.FC = () => {
 
   const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+  const describeCycle = (cycle: string[]): string => {
+    return cycle.map(id => id === editingId ? (formData.name || 'this task') : tasks.find(t => t.id === id)?.name || id).join(' → ');
+  };
+
   const getFrequencyDisplay = (task: Task): string => {
     switch (task.frequency) {
       case 'daily':
@@ -226,14 +337,60 @@ const ConfigureView: React.FC = () => {
       case 'count-based':
         return `${task.frequencyCount} times per ${task.frequencyPeriod}`;
       case 'custom':
-        return task.customFrequency || 'Custom';
+        if (task.specificDate) return task.customFrequency || 'Custom';
+        return compileCustomFrequency(task.customFrequency || '')
+          ? task.customFrequency!
+          : `⚠️ "${task.customFrequency || ''}" not understood - edit to fix`;
       case 'interval':
-        return `Every ${task.intervalValue} ${task.intervalUnit}`;
+        return `Every ${task.intervalValue} ${task.intervalUnit}${task.repeatAfterCompletion ? ' after completion' : ''}`;
+      case 'rrule': {
+        if (!task.rrule || validateRRule(task.rrule)) return 'Custom rule';
+        return describeRRule(parseRRule(task.rrule));
+      }
       default:
         return task.frequency;
     }
   };
 
+  // Show how the custom frequency phrase was understood (or why it wasn't)
+  const renderCustomFrequencyInterpretation = () => {
+    if (!formData.customFrequency.trim()) {
+      return (
+        <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+          Try "every other Tuesday", "weekdays", "last day of the month", "first Monday in March" or "15th of every month"
+        </small>
+      );
+    }
+
+    try {
+      const rule = parseCustomFrequency(formData.customFrequency);
+      const previewTask: Task = {
+        id: 'preview',
+        name: '',
+        weightage: 1,
+        frequency: 'rrule',
+        rrule: formatRRule(rule),
+        startDate: formData.startDate || (editingId && getRRuleStart(tasks.find(t => t.id === editingId)!)) || getTodayString(),
+        createdAt: new Date().toISOString()
+      };
+      const nextDates = nextOccurrences(previewTask, getTodayString(), 3)
+        .map(date => new Date(date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }));
+
+      return (
+        <small style={{ color: '#059669', fontSize: '0.875rem' }}>
+          ✓ Understood as: {describeRRule(rule)}
+          {nextDates.length > 0 && ` (next: ${nextDates.join(', ')})`}
+        </small>
+      );
+    } catch (error) {
+      return (
+        <small style={{ color: '#dc2626', fontSize: '0.875rem' }}>
+          ⚠️ {error instanceof Error ? error.message : 'Not understood'}
+        </small>
+      );
+    }
+  };
+
   const getOrdinalSuffix = (day: number): string => {
     if (day > 3 && day < 21) return 'th';
     switch (day % 10) {
@@ -310,6 +467,15 @@ const ConfigureView: React.FC = () => {
         >
           {isImporting ? 'Loading...' : '📥 Load Sample Tasks'}
         </button>
+        {tasks.length > 0 && (
+          <button
+            className="btn-secondary"
+            onClick={handleExportCalendar}
+            title="Download as an iCalendar (.ics) file for Google Calendar, Outlook or Apple Calendar"
+          >
+            📆 Export Calendar
+          </button>
+        )}
       </div>
 
       {/* Tasks List */}
@@ -365,11 +531,26 @@ const ConfigureView: React.FC = () => {
                     <span className="event-priority-badge">
                       ⭐ Priority: {task.weightage}/10
                     </span>
+                    {!!task.targetValue && (
+                      <span className="event-notify-badge">
+                        🔢 Target: {task.targetValue}{task.unit ? ` ${task.unit}` : ''}/day
+                      </span>
+                    )}
+                    {!!task.checklist?.length && (
+                      <span className="event-notify-badge">
+                        ☑️ Checklist: {task.checklist.length} item{task.checklist.length > 1 ? 's' : ''}
+                      </span>
+                    )}
                     {task.specificDate && (
                       <span className="event-notify-badge">
                         🎯 One-time: {task.specificDate}
                       </span>
                     )}
+                    {task.specificDate && task.deadline && (
+                      <span className="event-notify-badge">
+                        🚩 Deadline: {task.deadline}
+                      </span>
+                    )}
                     {!task.specificDate && task.startDate && (
                       <span className="event-notify-badge">
                         📆 From: {task.startDate}
@@ -380,6 +561,19 @@ const ConfigureView: React.FC = () => {
                         📆 Until: {task.endDate}
                       </span>
                     )}
+                    {isRepeatAfterCompletion(task) && (() => {
+                      const daysUntilDue = getDaysUntilDue(task, getTodayString(), completions);
+                      return daysUntilDue !== null && (
+                        <span className="event-notify-badge">
+                          🔁 {describeDueIn(daysUntilDue)}
+                        </span>
+                      );
+                    })()}
+                    {!!task.prerequisiteTaskIds?.length && (
+                      <span className="event-notify-badge">
+                        🔒 After: {getPrerequisiteTasks(task, tasks).map(t => t.name).join(', ')}
+                      </span>
+                    )}
                     {task.onHold && (
                       <span className="event-hidden-badge" style={{ 
                         background: '#fee2e2', 
@@ -392,16 +586,29 @@ const ConfigureView: React.FC = () => {
                         ⏸️ On Hold
                       </span>
                     )}
+                    {!!task.holdHistory?.length && (
+                      <span
+                        className="event-notify-badge"
+                        title={task.holdHistory.map(p => `${p.startDate || '…'} – ${p.endDate}${p.reason ? ` (${p.reason})` : ''}`).join('\n')}
+                      >
+                        🕘 Paused {task.holdHistory.length}×
+                      </span>
+                    )}
                   </div>
                   
                   <div className="event-actions">
                     <button className="btn-edit" onClick={() => handleEdit(task)}>
                       ✏️ Edit
                     </button>
+                    <button className="btn-edit" onClick={() => setTreeTaskId(treeTaskId === task.id ? null : task.id)}>
+                      🔗 Dependencies
+                    </button>
                     <button className="btn-delete" onClick={() => handleDelete(task.id)}>
                       🗑️ Delete
                     </button>
                   </div>
+                  
+                  {treeTaskId === task.id && <DependencyTree taskId={task.id} tasks={tasks} />}
                 </div>
               );
             })}
@@ -561,11 +768,60 @@ const ConfigureView: React.FC = () => {
               <option value="monthly">Monthly</option>
               <option value="count-based">Count-Based (X times per period)</option>
               <option value="interval">Interval (Every X days/weeks/months/years)</option>
+              <option value="rrule">Advanced (e.g. last Friday, 2nd &amp; 4th Tuesday)</option>
               <option value="custom">Custom</option>
             </select>
           </div>
         </div>
 
+        <div className="form-row">
+          <div className="form-group">
+            <label>Daily Target (optional)</label>
+            <input
+              type="number"
+              min="0"
+              value={formData.targetValue || ''}
+              onChange={(e) => setFormData({ ...formData, targetValue: Math.max(0, parseInt(e.target.value) || 0) })}
+              placeholder="e.g., 8"
+            />
+            <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+              Log progress in steps; done once the target is reached
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label>Unit</label>
+            <input
+              type="text"
+              value={formData.unit}
+              onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+              placeholder="e.g., glasses, sets, pages"
+              disabled={!formData.targetValue}
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label>Checklist (optional)</label>
+          <ChecklistEditor
+            items={formData.checklist}
+            onChange={(checklist) => setFormData(prev => ({ ...prev, checklist }))}
+          />
+          {formData.checklist.length > 0 && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem', cursor: 'pointer', fontWeight: 'normal' }}>
+              <input
+                type="checkbox"
+                checked={formData.autoCompleteChecklist}
+                onChange={(e) => setFormData({ ...formData, autoCompleteChecklist: e.target.checked })}
+              />
+              Complete the task when every item is checked
+            </label>
+          )}
+          <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+            ☑️ Items are checked off day by day, e.g. "Pack gym bag": shoes, towel, water bottle
+          </small>
+        </div>
+
         {formData.frequency === 'weekly' && (
           <div className="form-group">
             <label>Select Days *</label>
@@ -675,7 +931,7 @@ const ConfigureView: React.FC = () => {
             </div>
 
             <div className="form-group">
-              <label>Start Date (Reference Point) *</label>
+              <label>{formData.repeatAfterCompletion ? 'First Due Date *' : 'Start Date (Reference Point) *'}</label>
               <input
                 type="date"
                 value={formData.intervalStartDate}
@@ -684,7 +940,23 @@ const ConfigureView: React.FC = () => {
                 style={{ padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', width: '100%' }}
               />
               <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
-                🗓️ Task will repeat every {formData.intervalValue} {formData.intervalUnit} from this date
+                {formData.repeatAfterCompletion
+                  ? `🗓️ Due on this date, then ${formData.intervalValue} ${formData.intervalUnit} after each completion`
+                  : `🗓️ Task will repeat every ${formData.intervalValue} ${formData.intervalUnit} from this date`}
+              </small>
+            </div>
+
+            <div className="form-group">
+              <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={formData.repeatAfterCompletion}
+                  onChange={(e) => setFormData({ ...formData, repeatAfterCompletion: e.target.checked })}
+                />
+                Repeat after completion
+              </label>
+              <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+                🔁 Count the next due date from when you last did it. Overdue tasks stay on Today until done
               </small>
             </div>
 
@@ -707,6 +979,16 @@ const ConfigureView: React.FC = () => {
           </div>
         )}
 
+        {formData.frequency === 'rrule' && (
+          <RecurrenceBuilder
+            rrule={formData.rrule}
+            exDates={formData.exDates}
+            startDate={formData.startDate || getTodayString()}
+            endDate={formData.endDate || undefined}
+            onChange={(rrule, exDates) => setFormData(prev => ({ ...prev, rrule, exDates }))}
+          />
+        )}
+
         {formData.frequency === 'custom' && (
           <div className="form-group">
             <label>Custom Frequency *</label>
@@ -714,12 +996,10 @@ const ConfigureView: React.FC = () => {
               type="text"
               value={formData.customFrequency}
               onChange={(e) => setFormData({ ...formData, customFrequency: e.target.value })}
-              placeholder="e.g., 1st of every month, 15th of every month"
+              placeholder="e.g., every other Tuesday, weekdays, last day of the month"
               required
             />
-            <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
-              Format: "1st of every month", "15th of every month", etc.
-            </small>
+            {renderCustomFrequencyInterpretation()}
           </div>
         )}
 
@@ -765,10 +1045,26 @@ const ConfigureView: React.FC = () => {
                   placeholder="YYYY-MM-DD"
                 />
                 <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
-                  🎯 For one-time tasks on a specific date (overrides frequency)
+                  🎯 For one-time tasks on a specific date (overrides frequency). Carries over as overdue until done
                 </small>
               </div>
 
+              {formData.specificDate && (
+                <div className="form-group">
+                  <label>Deadline (Optional)</label>
+                  <input
+                    type="date"
+                    value={formData.deadline}
+                    onChange={(e) => setFormData({ ...formData, deadline: e.target.value })}
+                    placeholder="YYYY-MM-DD"
+                    min={formData.specificDate}
+                  />
+                  <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+                    🚩 The hard cutoff, if later than the day you plan to do it
+                  </small>
+                </div>
+              )}
+
               {!formData.specificDate && (
                 <>
                   <div className="form-group">
@@ -913,66 +1209,75 @@ const ConfigureView: React.FC = () => {
                 padding: '0.75rem',
                 boxShadow: 'inset 0 2px 4px rgba(0, 0, 0, 0.05)'
               }}>
-                {tasks.filter(t => t.id !== editingId).map(task => (
-                  <label 
-                    key={task.id} 
-                    style={{ 
-                      display: 'flex', 
-                      alignItems: 'center', 
-                      gap: '0.75rem', 
-                      padding: '0.75rem', 
-                      background: formData.dependentTaskIds.includes(task.id) 
-                        ? 'linear-gradient(135deg, #0ea5e9 0%, #0284c7 100%)' 
-                        : 'white', 
-                      borderRadius: '8px', 
-                      cursor: 'pointer',
-                      border: formData.dependentTaskIds.includes(task.id) 
-                        ? '2px solid #0284c7' 
-                        : '2px solid #e2e8f0',
-                      transition: 'all 0.2s',
-                      boxShadow: formData.dependentTaskIds.includes(task.id) 
-                        ? '0 2px 6px rgba(14, 165, 233, 0.3)' 
-                        : '0 1px 2px rgba(0, 0, 0, 0.05)'
-                    }}
-                    onMouseEnter={(e) => {
-                      if (!formData.dependentTaskIds.includes(task.id)) {
-                        e.currentTarget.style.background = '#f1f5f9';
-                        e.currentTarget.style.borderColor = '#0ea5e9';
-                      }
-                    }}
-                    onMouseLeave={(e) => {
-                      if (!formData.dependentTaskIds.includes(task.id)) {
-                        e.currentTarget.style.background = 'white';
-                        e.currentTarget.style.borderColor = '#e2e8f0';
-                      }
-                    }}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={formData.dependentTaskIds.includes(task.id)}
-                      onChange={(e) => {
-                        if (e.target.checked) {
-                          setFormData({ ...formData, dependentTaskIds: [...formData.dependentTaskIds, task.id] });
-                        } else {
-                          setFormData({ ...formData, dependentTaskIds: formData.dependentTaskIds.filter(id => id !== task.id) });
+                {tasks.filter(t => t.id !== editingId).map(task => {
+                  // Choosing this parent would close a loop back to the task being edited
+                  const wouldCycle = !formData.dependentTaskIds.includes(task.id) &&
+                    !!findCycleForParents(editingId, [task.id], tasks);
+                  return (
+                    <label 
+                      key={task.id} 
+                      title={wouldCycle ? 'Would create a dependency loop' : undefined}
+                      style={{ 
+                        display: 'flex', 
+                        alignItems: 'center', 
+                        gap: '0.75rem', 
+                        padding: '0.75rem', 
+                        background: formData.dependentTaskIds.includes(task.id) 
+                          ? 'linear-gradient(135deg, #0ea5e9 0%, #0284c7 100%)' 
+                          : 'white', 
+                        borderRadius: '8px', 
+                        cursor: wouldCycle ? 'not-allowed' : 'pointer',
+                        opacity: wouldCycle ? 0.5 : 1,
+                        border: formData.dependentTaskIds.includes(task.id) 
+                          ? '2px solid #0284c7' 
+                          : '2px solid #e2e8f0',
+                        transition: 'all 0.2s',
+                        boxShadow: formData.dependentTaskIds.includes(task.id) 
+                          ? '0 2px 6px rgba(14, 165, 233, 0.3)' 
+                          : '0 1px 2px rgba(0, 0, 0, 0.05)'
+                      }}
+                      onMouseEnter={(e) => {
+                        if (!formData.dependentTaskIds.includes(task.id)) {
+                          e.currentTarget.style.background = '#f1f5f9';
+                          e.currentTarget.style.borderColor = '#0ea5e9';
                         }
                       }}
-                      style={{
-                        width: '18px',
-                        height: '18px',
-                        cursor: 'pointer',
-                        accentColor: '#0ea5e9'
+                      onMouseLeave={(e) => {
+                        if (!formData.dependentTaskIds.includes(task.id)) {
+                          e.currentTarget.style.background = 'white';
+                          e.currentTarget.style.borderColor = '#e2e8f0';
+                        }
                       }}
-                    />
-                    <span style={{ 
-                      fontSize: '0.9rem', 
-                      fontWeight: formData.dependentTaskIds.includes(task.id) ? 600 : 500,
-                      color: formData.dependentTaskIds.includes(task.id) ? 'white' : '#1e293b'
-                    }}>
-                      {task.name}
-                    </span>
-                  </label>
-                ))}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={formData.dependentTaskIds.includes(task.id)}
+                        disabled={wouldCycle}
+                        onChange={(e) => {
+                          if (e.target.checked) {
+                            setFormData({ ...formData, dependentTaskIds: [...formData.dependentTaskIds, task.id] });
+                          } else {
+                            setFormData({ ...formData, dependentTaskIds: formData.dependentTaskIds.filter(id => id !== task.id) });
+                          }
+                        }}
+                        style={{
+                          width: '18px',
+                          height: '18px',
+                          cursor: 'pointer',
+                          accentColor: '#0ea5e9'
+                        }}
+                      />
+                      <span style={{ 
+                        fontSize: '0.9rem', 
+                        fontWeight: formData.dependentTaskIds.includes(task.id) ? 600 : 500,
+                        color: formData.dependentTaskIds.includes(task.id) ? 'white' : '#1e293b'
+                      }}>
+                        {task.name}
+                        {wouldCycle && ' (would create a loop)'}
+                      </span>
+                    </label>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -992,6 +1297,80 @@ const ConfigureView: React.FC = () => {
           </div>
         </div>
 
+        {/* Prerequisite Tasks */}
+        <div style={{ 
+          marginTop: '1.5rem', 
+          padding: '1.5rem', 
+          background: 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)',
+          borderRadius: '12px',
+          border: '2px solid #64748b'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+            <span style={{ fontSize: '1.25rem' }}>🔒</span>
+            <h4 style={{ margin: 0, fontSize: '1.1rem', color: '#1e293b', fontWeight: 600 }}>
+              Must Be Done First
+            </h4>
+          </div>
+          
+          {tasks.filter(t => t.id !== editingId).length === 0 ? (
+            <div style={{ padding: '1rem', textAlign: 'center', color: '#64748b', fontSize: '0.875rem' }}>
+              No other tasks available
+            </div>
+          ) : (
+            <div style={{ 
+              display: 'flex', 
+              flexDirection: 'column', 
+              gap: '0.5rem', 
+              maxHeight: '200px', 
+              overflowY: 'auto',
+              background: 'white',
+              border: '1px solid #cbd5e1',
+              borderRadius: '8px', 
+              padding: '0.75rem'
+            }}>
+              {tasks.filter(t => t.id !== editingId).map(task => {
+                const isChosen = formData.prerequisiteTaskIds.includes(task.id);
+                // Requiring this task would lock the two tasks behind each other
+                const wouldCycle = !isChosen && !!findPrerequisiteCycle(editingId, [task.id], tasks);
+                return (
+                  <label 
+                    key={task.id}
+                    title={wouldCycle ? 'Would create a prerequisite loop' : undefined}
+                    style={{ 
+                      display: 'flex', 
+                      alignItems: 'center', 
+                      gap: '0.75rem', 
+                      cursor: wouldCycle ? 'not-allowed' : 'pointer',
+                      opacity: wouldCycle ? 0.5 : 1
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isChosen}
+                      disabled={wouldCycle}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        prerequisiteTaskIds: e.target.checked
+                          ? [...formData.prerequisiteTaskIds, task.id]
+                          : formData.prerequisiteTaskIds.filter(id => id !== task.id)
+                      })}
+                      style={{ width: '18px', height: '18px', cursor: 'pointer', accentColor: '#475569' }}
+                    />
+                    <span style={{ fontSize: '0.9rem', fontWeight: isChosen ? 600 : 500, color: '#1e293b' }}>
+                      {task.name}
+                      {wouldCycle && ' (would create a loop)'}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+          
+          <small style={{ display: 'block', marginTop: '0.75rem', color: '#475569', fontSize: '0.875rem' }}>
+            💡 This task stays locked on the dashboard until these are done that day (e.g. "Run" after "Stretch"). Prerequisites not scheduled that day don't block it.
+          </small>
+        </div>
+
         {/* Hold Task Options */}
         <div style={{ 
           marginTop: '1.5rem', 
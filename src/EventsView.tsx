@@ -4,14 +4,17 @@
  * Manages special occasions like birthdays, anniversaries, and holidays.
  * Features:
  * - View all events in a list/calendar format
- * - Add new events with date, frequency, and notification settings
+ * - Add new events with date, frequency (yearly, one-time, or a custom pattern
+ *   like "every 5 years" or "second Sunday in May"), and notification settings
+ * - Yearly events can follow the Chinese lunar, Hebrew or Hindu calendar
  * - Edit and delete existing events
- * - Import sample events
+ * - Import .ics calendars and .vcf contacts (reviewed before anything is saved) and sample events; export as .ics
  * - Shows upcoming events
+ * - Acknowledgment history per event (with un-acknowledge)
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Event, EventFrequencyType } from './types';
+import { Event, EventFrequencyType, EventAcknowledgment, CalendarSystem } from './types';
 import { 
   getEvents, 
   addEvent, 
@@ -19,10 +22,33 @@ import {
   deleteEvent,
   getUpcomingEvents,
   importSampleEvents,
-  getTags
+  getTags,
+  getEventAcknowledgments,
+  unacknowledgeEvent
 } from './storage';
 import { importFromICalendar, filterPersonalEvents } from './icalParser';
+import { buildICalendar, downloadICalendar } from './icalExport';
+import { importFromVCard } from './vcardParser';
+import { reviewEventImport, applyEventImport, ImportRow, ImportedEvent } from './services/eventImport';
+import ImportReviewModal from './components/ImportReviewModal';
 import { Tag } from './types';
+import { getTodayDate, getToday } from './dateService';
+import { addDays } from './dateMath';
+import { parseCustomFrequency } from './customFrequency';
+import { describeRRule } from './rrule';
+import { getEventOccurrences, getNextEventOccurrence, getEventLunarDate } from './eventOccurrences';
+import {
+  CALENDAR_SYSTEM_INFO,
+  HEBREW_MONTHS,
+  HINDU_MONTHS,
+  LEAP_MONTH_LABELS,
+  LunarDate,
+  describeLunarDate,
+  lunarOccurrencesBetween
+} from './lunarCalendars';
+
+// Custom events can repeat every few years; look this far ahead for their next date
+const CUSTOM_LOOKAHEAD_DAYS = 366 * 10;
 
 interface EventsViewProps {
   onNavigate?: (view: string) => void;
@@ -31,11 +57,15 @@ interface EventsViewProps {
 const EventsView: React.FC<EventsViewProps> = () => {
   const [events, setEvents] = useState<Event[]>([]);
   const [upcomingEvents, setUpcomingEvents] = useState<Array<{ event: Event; date: string; daysUntil: number }>>([]);
+  const [acknowledgments, setAcknowledgments] = useState<EventAcknowledgment[]>([]);
+  const [historyEventId, setHistoryEventId] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState('');
+  const [importReview, setImportReview] = useState<{ title: string; fileName: string; rows: ImportRow[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const contactsInputRef = useRef<HTMLInputElement>(null);
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [filterFrequency, setFilterFrequency] = useState<string>('all');
   const [searchText, setSearchText] = useState('');
@@ -49,7 +79,9 @@ const EventsView: React.FC<EventsViewProps> = () => {
     date: '',
     frequency: 'yearly' as EventFrequencyType,
     customFrequency: '',
-    year: new Date().getFullYear(),
+    calendarSystem: '' as CalendarSystem | '', // '' = Gregorian
+    isLeapMonth: false,
+    year: getTodayDate().getFullYear(),
     notifyDaysBefore: 0,
     priority: 5,
     hideFromDashboard: false,
@@ -77,25 +109,53 @@ const EventsView: React.FC<EventsViewProps> = () => {
       setEvents(allEvents);
       const upcoming = await getUpcomingEvents(30); // Get events within next 30 days
       setUpcomingEvents(upcoming);
+      setAcknowledgments(await getEventAcknowledgments());
     } catch (error) {
       console.error('Error loading events:', error);
       alert('Error loading events. Please make sure you are signed in.');
     }
   };
 
+  const handleUnacknowledge = async (eventId: string, date: string) => {
+    try {
+      await unacknowledgeEvent(eventId, date);
+      setAcknowledgments(await getEventAcknowledgments());
+    } catch (error) {
+      console.error('Error un-acknowledging event:', error);
+      alert('Error updating acknowledgment. Please try again.');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (formData.frequency === 'custom') {
+      try {
+        parseCustomFrequency(formData.customFrequency);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Custom frequency not understood');
+        return;
+      }
+    }
+    
+    // Only yearly events can follow another calendar; null switches an edited event back to Gregorian
+    const isLunar = formData.frequency === 'yearly' && !!formData.calendarSystem;
+    const eventData = {
+      ...formData,
+      calendarSystem: isLunar ? formData.calendarSystem as CalendarSystem : null,
+      isLeapMonth: isLunar && formData.isLeapMonth
+    };
     
     try {
       if (editingEvent) {
         await updateEvent(editingEvent.id, {
-          ...formData,
+          ...eventData,
           tags: selectedTagIds
         });
       } else {
         const newEvent: Event = {
           id: crypto.randomUUID(),
-          ...formData,
+          ...eventData,
           tags: selectedTagIds,
           createdAt: new Date().toISOString()
         };
@@ -120,7 +180,9 @@ const EventsView: React.FC<EventsViewProps> = () => {
       date: event.date,
       frequency: event.frequency,
       customFrequency: event.customFrequency || '',
-      year: event.year || new Date().getFullYear(),
+      calendarSystem: event.calendarSystem || '',
+      isLeapMonth: event.isLeapMonth || false,
+      year: event.year || getTodayDate().getFullYear(),
       notifyDaysBefore: event.notifyDaysBefore || 0,
       priority: event.priority || 5,
       hideFromDashboard: event.hideFromDashboard || false,
@@ -248,7 +310,9 @@ const EventsView: React.FC<EventsViewProps> = () => {
       date: '',
       frequency: 'yearly',
       customFrequency: '',
-      year: new Date().getFullYear(),
+      calendarSystem: '',
+      isLeapMonth: false,
+      year: getTodayDate().getFullYear(),
       notifyDaysBefore: 0,
       priority: 5,
       hideFromDashboard: false,
@@ -282,6 +346,16 @@ const EventsView: React.FC<EventsViewProps> = () => {
     fileInputRef.current?.click();
   };
 
+  const handleExportCalendar = () => {
+    try {
+      const content = buildICalendar({ events, calendarName: 'Routine Ruby Events' });
+      downloadICalendar(content, `routine-ruby-events-${getToday()}.ics`);
+    } catch (error: any) {
+      console.error('Error exporting calendar:', error);
+      alert(`Export failed: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
   const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -311,29 +385,7 @@ const EventsView: React.FC<EventsViewProps> = () => {
         return;
       }
 
-      setImportProgress(`Importing ${personalEvents.length} events...`);
-      
-      // Add all events
-      let importedCount = 0;
-      personalEvents.forEach(event => {
-        try {
-          const newEvent: Event = {
-            id: crypto.randomUUID(),
-            ...event,
-            createdAt: new Date().toISOString()
-          };
-          addEvent(newEvent);
-          importedCount++;
-        } catch (error) {
-          console.error('Error adding event:', event.name, error);
-        }
-      });
-
-      loadEvents();
-      setImportProgress('');
-      setIsImporting(false);
-      
-      alert(`Successfully imported ${importedCount} events!\n\nCategories found:\n- Birthdays\n- Anniversaries\n- Holidays\n- Memorials`);
+      await openImportReview('Import Calendar', file.name, personalEvents);
       
       // Reset file input
       if (fileInputRef.current) {
@@ -347,7 +399,82 @@ const EventsView: React.FC<EventsViewProps> = () => {
     }
   };
 
+  // Nothing is written until the user confirms the review
+  const openImportReview = async (title: string, fileName: string, importedEvents: ImportedEvent[]) => {
+    setImportProgress('Comparing with your events...');
+    const existingEvents = await getEvents();
+    setImportReview({ title, fileName, rows: reviewEventImport(importedEvents, existingEvents) });
+    setImportProgress('');
+    setIsImporting(false);
+  };
+
+  const handleContactsImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!/\.(vcf|vcard)$/i.test(file.name)) {
+      alert('Please select a valid contacts (.vcf) file');
+      return;
+    }
+
+    setIsImporting(true);
+    setImportProgress('Reading contacts...');
+
+    try {
+      const contactEvents = await importFromVCard(await file.text());
+
+      if (contactEvents.length === 0) {
+        alert('No birthdays or anniversaries found in the contacts file.');
+        setIsImporting(false);
+        setImportProgress('');
+        return;
+      }
+
+      await openImportReview('Import Contacts', file.name, contactEvents);
+    } catch (error) {
+      console.error('Error importing vCard:', error);
+      alert('Failed to import contacts file. Please make sure it\'s a valid .vcf file.');
+      setIsImporting(false);
+      setImportProgress('');
+    } finally {
+      if (contactsInputRef.current) {
+        contactsInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleConfirmImport = async (acceptedRows: ImportRow[]) => {
+    setIsImporting(true);
+    try {
+      const result = await applyEventImport(acceptedRows);
+      await loadEvents();
+      setImportReview(null);
+      alert(`Imported ${result.added} new and updated ${result.updated} existing event${result.updated === 1 ? '' : 's'}.` +
+        (result.failed > 0 ? `\n\n${result.failed} could not be saved - see the console for details.` : ''));
+    } catch (error) {
+      console.error('Error importing events:', error);
+      alert('Failed to import events. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const formatEventDate = (event: Event): string => {
+    const lunarDate = getEventLunarDate(event);
+    if (lunarDate) {
+      // Lunar dates land on a different day each year
+      const nextDate = getNextEventOccurrence(event, getToday(), 400);
+      if (!nextDate) return describeLunarDate(lunarDate);
+      const [year, month, day] = nextDate.split('-').map(Number);
+      return `${describeLunarDate(lunarDate)} (next: ${new Date(year, month - 1, day).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })})`;
+    }
+    if (event.frequency === 'custom') {
+      // Custom events store their first date; show the next one from today
+      const nextDate = getNextEventOccurrence(event, getToday(), CUSTOM_LOOKAHEAD_DAYS);
+      if (!nextDate) return `${event.date} (no upcoming date)`;
+      const [year, month, day] = nextDate.split('-').map(Number);
+      return `Next: ${new Date(year, month - 1, day).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`;
+    }
     if (event.frequency === 'yearly') {
       const [month, day] = event.date.split('-');
       const date = new Date(2000, parseInt(month) - 1, parseInt(day));
@@ -365,9 +492,100 @@ const EventsView: React.FC<EventsViewProps> = () => {
     }
   };
 
+  // Month, day (or tithi) and leap month pickers for a yearly event on a lunar calendar
+  const renderLunarDatePicker = (calendar: CalendarSystem) => {
+    const [month = 1, day = 1] = formData.date.split('-').map(Number);
+    const setDate = (newMonth: number, newDay: number) => {
+      setFormData({ ...formData, date: `${String(newMonth).padStart(2, '0')}-${String(newDay).padStart(2, '0')}` });
+    };
+
+    const monthNames = calendar === 'hebrew' ? HEBREW_MONTHS
+      : calendar === 'hindu' ? HINDU_MONTHS
+      : Array.from({ length: 12 }, (_, i) => `Month ${i + 1}`);
+    const dayLabel = (d: number): string => {
+      if (calendar !== 'hindu') return String(d);
+      if (d === 15) return 'Purnima (full moon)';
+      if (d === 30) return 'Amavasya (new moon)';
+      return d < 15 ? `Shukla ${d}` : `Krishna ${d - 15}`;
+    };
+    // Hebrew only has a leap month (Adar I) before Adar
+    const canBeLeap = calendar !== 'hebrew' || month === 12;
+
+    const lunarDate: LunarDate = { calendar, month, day, isLeapMonth: canBeLeap && formData.isLeapMonth };
+    const from = getToday();
+    const [nextDate] = lunarOccurrencesBetween(lunarDate, from, addDays(from, 400));
+
+    return (
+      <div className="form-group">
+        <label>Date * ({CALENDAR_SYSTEM_INFO[calendar].label}{calendar === 'hindu' ? ', amanta months' : ''})</label>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <select value={month} onChange={(e) => setDate(Number(e.target.value), day)}>
+            {monthNames.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+          </select>
+          <select value={day} onChange={(e) => setDate(month, Number(e.target.value))}>
+            {Array.from({ length: 30 }, (_, i) => i + 1).map(d => <option key={d} value={d}>{dayLabel(d)}</option>)}
+          </select>
+        </div>
+        {canBeLeap && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 'normal', marginTop: '0.5rem' }}>
+            <input
+              type="checkbox"
+              checked={formData.isLeapMonth}
+              onChange={(e) => setFormData({ ...formData, isLeapMonth: e.target.checked })}
+            />
+            {LEAP_MONTH_LABELS[calendar]}
+          </label>
+        )}
+        <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+          {describeLunarDate(lunarDate)}{nextDate && ` - next on ${new Date(nextDate + 'T00:00:00').toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`}
+        </small>
+      </div>
+    );
+  };
+
+  // Show how the custom frequency phrase was understood (or why it wasn't)
+  const renderCustomFrequencyInterpretation = () => {
+    if (!formData.customFrequency.trim()) {
+      return (
+        <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+          Try "every 5 years", "every month", "second Sunday in May" or "fourth Thursday in November"
+        </small>
+      );
+    }
+
+    try {
+      const rule = parseCustomFrequency(formData.customFrequency);
+      const previewEvent: Event = {
+        id: 'preview',
+        name: '',
+        date: formData.date || getToday(),
+        frequency: 'custom',
+        customFrequency: formData.customFrequency,
+        createdAt: new Date().toISOString()
+      };
+      const from = previewEvent.date > getToday() ? previewEvent.date : getToday();
+      const nextDates = getEventOccurrences(previewEvent, from, addDays(from, CUSTOM_LOOKAHEAD_DAYS))
+        .slice(0, 3)
+        .map(date => new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }));
+
+      return (
+        <small style={{ color: '#059669', fontSize: '0.875rem' }}>
+          ✓ Understood as: {describeRRule(rule)}
+          {nextDates.length > 0 && ` (next: ${nextDates.join(', ')})`}
+        </small>
+      );
+    } catch (error) {
+      return (
+        <small style={{ color: '#dc2626', fontSize: '0.875rem' }}>
+          ⚠️ {error instanceof Error ? error.message : 'Not understood'}
+        </small>
+      );
+    }
+  };
+
   const getYearsInfo = (event: Event): string | null => {
     if (!event.year) return null;
-    const currentYear = new Date().getFullYear();
+    const currentYear = getTodayDate().getFullYear();
     const years = currentYear - event.year;
     if (years > 0) {
       return `(${years} ${event.category === 'Birthday' ? 'years old' : 'years'})`;
@@ -450,6 +668,23 @@ const EventsView: React.FC<EventsViewProps> = () => {
         >
           📤 {isImporting ? importProgress : 'Import Calendar'}
         </button>
+        <button
+          className="btn-secondary"
+          onClick={() => contactsInputRef.current?.click()}
+          disabled={isImporting}
+          title="Import birthdays and anniversaries from your phone's contacts (.vcf file)"
+        >
+          👥 Import Contacts
+        </button>
+        {events.length > 0 && (
+          <button
+            className="btn-secondary"
+            onClick={handleExportCalendar}
+            title="Download as an iCalendar (.ics) file for Google Calendar, Outlook or Apple Calendar"
+          >
+            📆 Export Calendar
+          </button>
+        )}
         {events.length === 0 && (
           <button className="btn-secondary" onClick={handleImportSample}>
             📥 Import Sample Events
@@ -462,6 +697,13 @@ const EventsView: React.FC<EventsViewProps> = () => {
           style={{ display: 'none' }}
           onChange={handleFileImport}
         />
+        <input
+          ref={contactsInputRef}
+          type="file"
+          accept=".vcf,.vcard,text/vcard"
+          style={{ display: 'none' }}
+          onChange={handleContactsImport}
+        />
       </div>
 
       {/* Filter Section */}
@@ -542,8 +784,8 @@ const EventsView: React.FC<EventsViewProps> = () => {
             >
               <option value="all">All Frequencies</option>
               <option value="yearly">Yearly</option>
-              <option value="monthly">Monthly</option>
               <option value="one-time">One-time</option>
+              <option value="custom">Custom</option>
             </select>
           </div>
           
@@ -677,7 +919,12 @@ const EventsView: React.FC<EventsViewProps> = () => {
                 <label>Frequency *</label>
                 <select
                   value={formData.frequency}
-                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as EventFrequencyType })}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    frequency: e.target.value as EventFrequencyType,
+                    // A lunar MM-DD means nothing to the other frequencies
+                    ...(formData.calendarSystem ? { calendarSystem: '' as const, date: '', isLeapMonth: false } : {})
+                  })}
                 >
                   <option value="yearly">Yearly (Recurring)</option>
                   <option value="one-time">One-Time Event</option>
@@ -685,19 +932,43 @@ const EventsView: React.FC<EventsViewProps> = () => {
                 </select>
               </div>
 
-              <div className="form-group">
-                <label>
-                  Date * 
-                  {formData.frequency === 'yearly' ? ' (MM-DD)' : ' (YYYY-MM-DD)'}
-                </label>
-                <input
-                  type={formData.frequency === 'yearly' ? 'text' : 'date'}
-                  required
-                  value={formData.date}
-                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                  placeholder={formData.frequency === 'yearly' ? '03-15' : '2025-12-31'}
-                />
-              </div>
+              {formData.frequency === 'yearly' && (
+                <div className="form-group">
+                  <label>Calendar</label>
+                  <select
+                    value={formData.calendarSystem}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      calendarSystem: e.target.value as CalendarSystem | '',
+                      date: e.target.value ? '01-01' : '', // Lunar dates are picked, not typed
+                      isLeapMonth: false
+                    })}
+                  >
+                    <option value="">Gregorian</option>
+                    {(Object.keys(CALENDAR_SYSTEM_INFO) as CalendarSystem[]).map(system => (
+                      <option key={system} value={system}>{CALENDAR_SYSTEM_INFO[system].icon} {CALENDAR_SYSTEM_INFO[system].label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {formData.frequency === 'yearly' && formData.calendarSystem ? (
+                renderLunarDatePicker(formData.calendarSystem)
+              ) : (
+                <div className="form-group">
+                  <label>
+                    Date * 
+                    {formData.frequency === 'yearly' ? ' (MM-DD)' : formData.frequency === 'custom' ? ' (first date, YYYY-MM-DD)' : ' (YYYY-MM-DD)'}
+                  </label>
+                  <input
+                    type={formData.frequency === 'yearly' ? 'text' : 'date'}
+                    required
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    placeholder={formData.frequency === 'yearly' ? '03-15' : '2025-12-31'}
+                  />
+                </div>
+              )}
             </div>
 
             {formData.frequency === 'custom' && (
@@ -709,6 +980,7 @@ const EventsView: React.FC<EventsViewProps> = () => {
                   onChange={(e) => setFormData({ ...formData, customFrequency: e.target.value })}
                   placeholder="e.g., Every 5 years"
                 />
+                {renderCustomFrequencyInterpretation()}
               </div>
             )}
 
@@ -953,7 +1225,9 @@ const EventsView: React.FC<EventsViewProps> = () => {
                   
                   <div className="event-meta">
                     <span className="event-frequency-badge">
-                      {event.frequency === 'yearly' ? '🔄 Yearly' : '⚡ One-Time'}
+                      {event.frequency === 'yearly'
+                        ? `🔄 Yearly${event.calendarSystem ? ` · ${CALENDAR_SYSTEM_INFO[event.calendarSystem].icon} ${CALENDAR_SYSTEM_INFO[event.calendarSystem].label}` : ''}`
+                        : event.frequency === 'custom' ? `🔁 ${event.customFrequency || 'Custom'}` : '⚡ One-Time'}
                     </span>
                     {event.notifyDaysBefore > 0 && (
                       <span className="event-notify-badge">
@@ -977,6 +1251,40 @@ const EventsView: React.FC<EventsViewProps> = () => {
                     )}
                   </div>
                   
+                  {(() => {
+                    const history = acknowledgments
+                      .filter(a => a.eventId === event.id)
+                      .sort((a, b) => b.date.localeCompare(a.date));
+                    if (history.length === 0) return null;
+                    const isOpen = historyEventId === event.id;
+                    
+                    return (
+                      <div className="event-ack-history">
+                        <button
+                          className="event-ack-toggle"
+                          onClick={() => setHistoryEventId(isOpen ? null : event.id)}
+                        >
+                          👁️ Acknowledged {history.length} time{history.length > 1 ? 's' : ''} {isOpen ? '▲' : '▼'}
+                        </button>
+                        {isOpen && (
+                          <ul>
+                            {history.map(ack => (
+                              <li key={ack.date}>
+                                <span>
+                                  {new Date(ack.date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                                  <small> · seen {new Date(ack.acknowledgedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</small>
+                                </span>
+                                <button onClick={() => handleUnacknowledge(ack.eventId, ack.date)} title="Show this reminder again">
+                                  ↩️ Undo
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })()}
+                  
                   <div className="event-actions">
                     <button className="btn-edit" onClick={() => handleEdit(event)}>
                       ✏️ Edit
@@ -993,6 +1301,17 @@ const EventsView: React.FC<EventsViewProps> = () => {
           );
         })()}
       </div>
+
+      {importReview && (
+        <ImportReviewModal
+          title={importReview.title}
+          sourceName={importReview.fileName}
+          rows={importReview.rows}
+          isSaving={isImporting}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setImportReview(null)}
+        />
+      )}
     </div>
   );
 };
@@ -11,16 +11,20 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { Task, TaskCompletion } from './types';
+import { Task, TaskCompletion, CompletionStatus, Vacation } from './types';
 import { loadData } from './storage';
 import { formatDate } from './utils';
+import { occursOn } from './recurrence';
+import { isQuantitative, isCompletionDone, getCompletionStatus, getStreakEffect, getCompletionScore, getQuantityStats, formatQuantity, COMPLETION_STATUS_INFO } from './taskProgress';
 import HabitTrackingGrid from './components/HabitTrackingGrid';
+import { getTodayDate } from './dateService';
 
 type ViewMode = 'list' | 'bar' | 'pie' | 'line' | 'grid';
 
 const HistoryView: React.FC = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [completions, setCompletions] = useState<TaskCompletion[]>([]);
+  const [vacations, setVacations] = useState<Vacation[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
 
   useEffect(() => {
@@ -32,6 +36,7 @@ const HistoryView: React.FC = () => {
       const data = await loadData();
       setTasks(data.tasks);
       setCompletions(data.completions);
+      setVacations(data.vacations);
     } catch (error) {
       console.error('Error loading history:', error);
       alert('Error loading history. Please make sure you are signed in.');
@@ -42,47 +47,21 @@ const HistoryView: React.FC = () => {
     return completions.filter(c => c.taskId === taskId);
   };
 
-  const calculateCompletionRate = (task: Task): number => {
-    const last30Days = getLast30Days();
-    const taskCompletions = getTaskCompletions(task.id);
-    
-    const expectedDays = last30Days.filter(date => {
-      const dateObj = new Date(date);
-      const dayOfWeek = dateObj.getDay();
-      const dayOfMonth = dateObj.getDate();
-      
-      switch (task.frequency) {
-        case 'daily':
-          return true;
-        case 'weekly':
-          return task.daysOfWeek?.includes(dayOfWeek) || false;
-        case 'monthly':
-          return task.dayOfMonth === dayOfMonth;
-        case 'custom':
-          if (task.customFrequency) {
-            const monthMatch = task.customFrequency.match(/(\d+)(st|nd|rd|th)\s+of\s+every\s+month/i);
-            if (monthMatch) {
-              const day = parseInt(monthMatch[1]);
-              return dayOfMonth === day;
-            }
-          }
-          return false;
-        default:
-          return false;
-      }
-    });
-
-    const completedDays = taskCompletions.filter(c => 
-      last30Days.includes(c.date)
-    ).length;
+  // Count-based tasks have no fixed days, so they aren't expected on any particular date (nor are vacation days)
+  const isScheduledOn = (task: Task, date: string): boolean => {
+    return task.frequency !== 'count-based' && occursOn(task, date, vacations, completions);
+  };
 
-    if (expectedDays.length === 0) return 0;
-    return Math.round((completedDays / expectedDays.length) * 100);
+  // Partial days (including quantitative days below target) count in part; excused days aren't counted
+  const calculateCompletionRate = (task: Task): number => {
+    const expectedDays = getLast30Days().filter(date => isScheduledOn(task, date));
+    const { counted, credit } = getCompletionScore(task.id, expectedDays, completions);
+    return counted > 0 ? Math.round((credit / counted) * 100) : 0;
   };
 
   const getLast30Days = (): string[] => {
     const days: string[] = [];
-    const today = new Date();
+    const today = getTodayDate();
     
     for (let i = 0; i < 30; i++) {
       const date = new Date(today);
@@ -93,9 +72,10 @@ const HistoryView: React.FC = () => {
     return days;
   };
 
-  const getRecentCompletions = (task: Task, days: number = 7): { date: string; completed: boolean }[] => {
-    const result: { date: string; completed: boolean }[] = [];
-    const today = new Date();
+  // status is null for missed days
+  const getRecentCompletions = (task: Task, days: number = 7): { date: string; status: CompletionStatus | null; reason?: string }[] => {
+    const result: { date: string; status: CompletionStatus | null; reason?: string }[] = [];
+    const today = getTodayDate();
     const taskCompletions = getTaskCompletions(task.id);
     
     for (let i = days - 1; i >= 0; i--) {
@@ -103,34 +83,9 @@ const HistoryView: React.FC = () => {
       date.setDate(date.getDate() - i);
       const dateStr = formatDate(date);
       
-      const dayOfWeek = date.getDay();
-      const dayOfMonth = date.getDate();
-      let shouldShow = false;
-      
-      switch (task.frequency) {
-        case 'daily':
-          shouldShow = true;
-          break;
-        case 'weekly':
-          shouldShow = task.daysOfWeek?.includes(dayOfWeek) || false;
-          break;
-        case 'monthly':
-          shouldShow = task.dayOfMonth === dayOfMonth;
-          break;
-        case 'custom':
-          if (task.customFrequency) {
-            const monthMatch = task.customFrequency.match(/(\d+)(st|nd|rd|th)\s+of\s+every\s+month/i);
-            if (monthMatch) {
-              const day = parseInt(monthMatch[1]);
-              shouldShow = dayOfMonth === day;
-            }
-          }
-          break;
-      }
-      
-      if (shouldShow) {
-        const completed = taskCompletions.some(c => c.date === dateStr);
-        result.push({ date: dateStr, completed });
+      if (isScheduledOn(task, dateStr)) {
+        const completion = taskCompletions.find(c => c.date === dateStr);
+        result.push({ date: dateStr, status: completion ? getCompletionStatus(completion) : null, reason: completion?.reason });
       }
     }
     
@@ -138,7 +93,7 @@ const HistoryView: React.FC = () => {
   };
 
   const getTotalCompletions = (): number => {
-    return completions.length;
+    return completions.filter(isCompletionDone).length;
   };
 
   const getTaskTimeStats = (taskId: string): { total: number; average: number; count: number } => {
@@ -180,33 +135,19 @@ const HistoryView: React.FC = () => {
     let streak = 0;
     
     for (const date of last30Days) {
-      const tasksForDay = tasks.filter(task => {
-        const dateObj = new Date(date);
-        const dayOfWeek = dateObj.getDay();
-        const dayOfMonth = dateObj.getDate();
-        
-        switch (task.frequency) {
-          case 'daily':
-            return true;
-          case 'weekly':
-            return task.daysOfWeek?.includes(dayOfWeek) || false;
-          case 'monthly':
-            return task.dayOfMonth === dayOfMonth;
-          default:
-            return false;
-        }
-      });
+      const tasksForDay = tasks.filter(task => isScheduledOn(task, date));
       
       if (tasksForDay.length === 0) continue;
       
-      const completedForDay = tasksForDay.filter(task => 
-        completions.some(c => c.taskId === task.id && c.date === date)
-      ).length;
+      // Any missed task breaks the streak; partial, skipped and excused tasks don't
+      const effects = tasksForDay.map(task =>
+        getStreakEffect(completions.find(c => c.taskId === task.id && c.date === date))
+      );
       
-      if (completedForDay === tasksForDay.length) {
-        streak++;
-      } else {
+      if (effects.includes('break')) {
         break;
+      } else if (effects.includes('extend')) {
+        streak++;
       }
     }
     
@@ -218,14 +159,14 @@ const HistoryView: React.FC = () => {
    */
   const getDailyCompletionData = () => {
     const last14Days = [];
-    const today = new Date();
+    const today = getTodayDate();
     
     for (let i = 13; i >= 0; i--) {
       const date = new Date(today);
       date.setDate(date.getDate() - i);
       const dateStr = formatDate(date);
       
-      const completionsForDay = completions.filter(c => c.date === dateStr).length;
+      const completionsForDay = completions.filter(c => c.date === dateStr && isCompletionDone(c)).length;
       const label = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
       
       last14Days.push({ date: dateStr, count: completionsForDay, label });
@@ -520,12 +461,53 @@ const HistoryView: React.FC = () => {
                     </div>
                   </div>
                   <span style={{ minWidth: '100px', color: '#6b7280', fontSize: '0.875rem' }}>
-                    {getTaskCompletions(task.id).filter(c => 
-                      getLast30Days().includes(c.date)
-                    ).length} completions
+                    {isQuantitative(task)
+                      ? `${formatQuantity(getQuantityStats(task, completions, getLast30Days()).total, task)} logged`
+                      : `${getTaskCompletions(task.id).filter(c => 
+                          getLast30Days().includes(c.date) && isCompletionDone(c)
+                        ).length} completions`}
                   </span>
                 </div>
 
+                {/* Quantity Statistics */}
+                {isQuantitative(task) && (() => {
+                  const quantityStats = getQuantityStats(task, completions, getLast30Days());
+                  if (quantityStats.loggedDays === 0) return null;
+                  return (
+                    <div style={{
+                      marginTop: '0.75rem',
+                      padding: '0.75rem',
+                      background: '#f5f3ff',
+                      borderRadius: '6px',
+                      border: '1px solid #ddd6fe'
+                    }}>
+                      <div style={{ display: 'flex', gap: '1.5rem', fontSize: '0.875rem', flexWrap: 'wrap' }}>
+                        <div>
+                          <span style={{ color: '#6d28d9', fontWeight: 600 }}>🔢 Total:</span>
+                          <span style={{ marginLeft: '0.5rem', color: '#4c1d95', fontWeight: 600 }}>
+                            {formatQuantity(quantityStats.total, task)}
+                          </span>
+                        </div>
+                        <div>
+                          <span style={{ color: '#6d28d9', fontWeight: 600 }}>📊 Average:</span>
+                          <span style={{ marginLeft: '0.5rem', color: '#4c1d95', fontWeight: 600 }}>
+                            {quantityStats.average} / {formatQuantity(task.targetValue!, task)} per day
+                          </span>
+                        </div>
+                        <div>
+                          <span style={{ color: '#6d28d9', fontWeight: 600 }}>🏆 Best day:</span>
+                          <span style={{ marginLeft: '0.5rem', color: '#4c1d95', fontWeight: 600 }}>
+                            {formatQuantity(quantityStats.best, task)}
+                          </span>
+                        </div>
+                        <div style={{ color: '#5b21b6', fontSize: '0.8rem', opacity: 0.8 }}>
+                          ({quantityStats.loggedDays} days logged)
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })()}
+
                 {/* Time Statistics */}
                 {(() => {
                   const timeStats = getTaskTimeStats(task.id);
@@ -570,10 +552,10 @@ const HistoryView: React.FC = () => {
                       {recentCompletions.map((item, index) => (
                         <div
                           key={index}
-                          className={`completion-dot ${item.completed ? 'completed' : 'missed'}`}
-                          title={`${item.date}: ${item.completed ? 'Completed' : 'Missed'}`}
+                          className={`completion-dot ${item.status === 'done' ? 'completed' : item.status || 'missed'}`}
+                          title={`${item.date}: ${item.status ? COMPLETION_STATUS_INFO[item.status].label : 'Missed'}${item.reason ? ` (${item.reason})` : ''}`}
                         >
-                          {item.completed ? '✓' : '○'}
+                          {item.status === 'done' ? '✓' : item.status ? COMPLETION_STATUS_INFO[item.status].icon : '○'}
                         </div>
                       ))}
                     </div>
@@ -16,6 +16,7 @@ import { Task, TaskCompletion } from './types';
 import { getTasks, getTaskHistory } from './storage';
 import { getTodayString } from './utils';
 import TagAnalytics from './components/TagAnalytics';
+import { getTodayDate } from './dateService';
 
 interface TaskInsight {
   task: Task;
@@ -89,7 +90,7 @@ const InsightsView: React.FC = () => {
   };
 
   const getStartDate = (): string => {
-    const date = new Date();
+    const date = getTodayDate();
     date.setDate(date.getDate() - getPeriodDays());
     return getTodayString(date);
   };
@@ -218,7 +219,7 @@ const InsightsView: React.FC = () => {
     // Count expected tasks per day
     const periodDays = getPeriodDays();
     for (let i = 0; i < periodDays; i++) {
-      const date = new Date();
+      const date = getTodayDate();
       date.setDate(date.getDate() - i);
       const dayName = dayNames[date.getDay()];
       const data = dayCounts.get(dayName)!;
@@ -7,12 +7,21 @@
  * - Apple Reminders integration
  * - Todoist integration
  * - IFTTT/Zapier webhooks
- * - Import/Export functionality
+ * - Full-account backup & restore (merge or replace, with a preview first)
  */
 
 import React, { useState, useEffect } from 'react';
-import { Task } from './types';
-import { getTasks, addTask } from './storage';
+import {
+  BackupFile,
+  RestoreMode,
+  RestoreSummary,
+  BackupCollection,
+  BACKUP_COLLECTION_LABELS,
+  createBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup
+} from './services/backupService';
 
 interface Integration {
   id: string;
@@ -77,6 +86,10 @@ const IntegrationsView: React.FC = () => {
   });
   const [importData, setImportData] = useState('');
   const [showImportModal, setShowImportModal] = useState(false);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestoreSummary | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
 
   // Load saved integrations from localStorage
   useEffect(() => {
@@ -137,61 +150,87 @@ const IntegrationsView: React.FC = () => {
     saveIntegrations(updated);
   };
 
-  const handleImport = () => {
+  const closeImportModal = () => {
+    setShowImportModal(false);
+    setImportData('');
+    setPendingBackup(null);
+    setRestorePreview(null);
+  };
+
+  // Editing the input or switching mode invalidates the preview
+  const resetPreview = () => {
+    setPendingBackup(null);
+    setRestorePreview(null);
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportData(await file.text());
+    resetPreview();
+    e.target.value = '';
+  };
+
+  const handlePreview = async () => {
     if (!importData.trim()) {
-      alert('Please paste JSON data to import');
+      alert('Please choose a backup file or paste JSON data to import');
       return;
     }
 
     try {
-      const tasks: Task[] = JSON.parse(importData);
-      
-      if (!Array.isArray(tasks)) {
-        throw new Error('Invalid format');
-      }
+      const backup = parseBackup(importData);
+      setIsRestoring(true);
+      setPendingBackup(backup);
+      setRestorePreview(await previewRestore(backup, restoreMode));
+    } catch (error: any) {
+      alert(error?.message || 'Invalid backup. Please check your data and try again.');
+      resetPreview();
+    } finally {
+      setIsRestoring(false);
+    }
+  };
 
-      // Validate and import tasks
-      let imported = 0;
-      tasks.forEach(task => {
-        if (task.name && task.weightage !== undefined) {
-          const newTask: Task = {
-            id: crypto.randomUUID(),
-            name: task.name,
-            description: task.description,
-            category: task.category,
-            weightage: task.weightage,
-            frequency: task.frequency || 'daily',
-            color: task.color,
-            createdAt: new Date().toISOString()
-          };
-          addTask(newTask);
-          imported++;
-        }
-      });
-
-      alert(`Successfully imported ${imported} task(s)!`);
-      setShowImportModal(false);
-      setImportData('');
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+    if (restoreMode === 'replace' && !confirm('Replace deletes all current data in this account before restoring. Continue?')) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const summary = await restoreBackup(pendingBackup, restoreMode);
+      const added = Object.values(summary.collections).reduce((sum, diff) => sum + diff.added, 0);
+      const updated = Object.values(summary.collections).reduce((sum, diff) => sum + diff.updated, 0);
+      alert(`Restore complete: ${added} added, ${updated} updated.`);
+      closeImportModal();
       window.dispatchEvent(new Event('storage'));
-    } catch (e) {
-      alert('Invalid JSON format. Please check your data and try again.');
+    } catch (error: any) {
+      console.error('Error restoring backup:', error);
+      alert(`Restore failed: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setIsRestoring(false);
     }
   };
 
-  const handleExport = () => {
-    const tasks = getTasks();
-    const json = JSON.stringify(tasks, null, 2);
-    
-    // Create a blob and download
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `myday-tasks-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExport = async () => {
+    try {
+      const backup = await createBackup();
+      const json = JSON.stringify(backup, null, 2);
+      
+      // Create a blob and download
+      const blob = new Blob([json], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `routine-ruby-backup-${backup.exportedAt.slice(0, 10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error exporting backup:', error);
+      alert(`Export failed: ${error?.message || 'Unknown error'}`);
+    }
   };
 
   const formatLastSync = (dateStr?: string) => {
@@ -218,10 +257,10 @@ const IntegrationsView: React.FC = () => {
         </div>
         <div style={{ display: 'flex', gap: '0.75rem' }}>
           <button onClick={() => setShowImportModal(true)} className="btn-secondary">
-            📥 Import Tasks
+            📥 Restore Backup
           </button>
           <button onClick={handleExport} className="btn-secondary">
-            📤 Export Tasks
+            📤 Export Backup
           </button>
         </div>
       </div>
@@ -324,26 +363,97 @@ const IntegrationsView: React.FC = () => {
         </div>
       )}
 
-      {/* Import Modal */}
+      {/* Restore Modal */}
       {showImportModal && (
-        <div className="modal-overlay" onClick={() => setShowImportModal(false)}>
+        <div className="modal-overlay" onClick={closeImportModal}>
           <div className="modal-content import-modal" onClick={(e) => e.stopPropagation()}>
             <div className="modal-header">
-              <h2>📥 Import Tasks</h2>
-              <button className="modal-close" onClick={() => setShowImportModal(false)}>×</button>
+              <h2>📥 Restore Backup</h2>
+              <button className="modal-close" onClick={closeImportModal}>×</button>
             </div>
             <div style={{ padding: '1.5rem' }}>
-              <p style={{ marginBottom: '1rem', color: '#6b7280' }}>Paste JSON data from another app or exported file</p>
+              <p style={{ marginBottom: '1rem', color: '#6b7280' }}>
+                Choose a backup file or paste JSON. Older task-only exports are also accepted.
+              </p>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleBackupFile}
+                style={{ marginBottom: '1rem' }}
+              />
               <textarea
                 className="import-textarea"
                 placeholder='[{"name": "Task name", "weightage": 5, "frequency": "daily", "category": "Work"}]'
                 value={importData}
-                onChange={(e) => setImportData(e.target.value)}
+                onChange={(e) => { setImportData(e.target.value); resetPreview(); }}
                 rows={10}
               />
+
+              <div className="restore-mode-options">
+                <label>
+                  <input
+                    type="radio"
+                    name="restoreMode"
+                    checked={restoreMode === 'merge'}
+                    onChange={() => { setRestoreMode('merge'); resetPreview(); }}
+                  />
+                  Merge – keep current data, add and update from the backup
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="restoreMode"
+                    checked={restoreMode === 'replace'}
+                    onChange={() => { setRestoreMode('replace'); resetPreview(); }}
+                  />
+                  Replace – delete current data, then restore the backup
+                </label>
+              </div>
+
+              {restorePreview && pendingBackup && (
+                <div className="restore-preview">
+                  <h4>Preview (nothing has been written yet)</h4>
+                  <small>Backup from {new Date(pendingBackup.exportedAt).toLocaleString()}</small>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th></th>
+                        <th>Add</th>
+                        <th>Update</th>
+                        <th>Unchanged</th>
+                        <th>Remove</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollection[]).map(key => {
+                        const diff = restorePreview.collections[key];
+                        return (
+                          <tr key={key}>
+                            <td>{BACKUP_COLLECTION_LABELS[key]}</td>
+                            <td>{diff.added}</td>
+                            <td>{diff.updated}</td>
+                            <td>{diff.unchanged}</td>
+                            <td className={diff.removed > 0 ? 'removed' : ''}>{diff.removed}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {restorePreview.settingsChanged && <small>Settings will be updated from the backup.</small>}
+                </div>
+              )}
+
               <div className="form-actions">
-                <button onClick={handleImport} className="btn-primary">Import</button>
-                <button onClick={() => setShowImportModal(false)} className="btn-secondary">
+                {restorePreview ? (
+                  <button onClick={handleRestore} className="btn-primary" disabled={isRestoring}>
+                    {isRestoring ? 'Restoring...' : 'Restore'}
+                  </button>
+                ) : (
+                  <button onClick={handlePreview} className="btn-primary" disabled={isRestoring}>
+                    {isRestoring ? 'Checking...' : 'Preview Changes'}
+                  </button>
+                )}
+                <button onClick={closeImportModal} className="btn-secondary">
                   Cancel
                 </button>
               </div>
@@ -370,7 +480,7 @@ const IntegrationsView: React.FC = () => {
           </div>
           <div className="info-card">
             <h4>📱 Pro Tip</h4>
-            <p>Export your tasks regularly to backup your data. Import/Export works with any JSON-compatible app!</p>
+            <p>Export a backup regularly. It covers tasks, history, events, journal, routines, items, tags and settings, and can be restored into any account.</p>
           </div>
         </div>
       </div>
@@ -27,6 +27,8 @@ import {
   getTags,
   importSampleItems
 } from './storage';
+import { getToday } from './dateService';
+import { daysBetween } from './dateMath';
 
 interface ItemsViewProps {
   onNavigate?: (view: string) => void;
@@ -197,10 +199,8 @@ const ItemsView: React.FC<ItemsViewProps> = () => {
 
   const formatExpirationDate = (dateStr?: string): string => {
     if (!dateStr) return 'No expiration';
-    const date = new Date(dateStr);
-    const today = new Date();
-    const diffTime = date.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const date = new Date(dateStr + 'T00:00:00');
+    const diffDays = daysBetween(getToday(), dateStr);
     
     if (diffDays < 0) return `Expired ${Math.abs(diffDays)} days ago`;
     if (diffDays === 0) return 'Expires today!';
@@ -20,10 +20,11 @@ import {
   getTags
 } from './storage';
 import { formatDate } from './utils';
+import { getTodayDate } from './dateService';
 
 const JournalView: React.FC = () => {
   const [entries, setEntries] = useState<JournalEntry[]>([]);
-  const [selectedDate, setSelectedDate] = useState<string>(formatDate(new Date()));
+  const [selectedDate, setSelectedDate] = useState<string>(formatDate(getTodayDate()));
   const [currentEntry, setCurrentEntry] = useState<JournalEntry | null>(null);
   const [content, setContent] = useState('');
   const [mood, setMood] = useState<'great' | 'good' | 'okay' | 'bad' | 'terrible' | undefined>();
@@ -148,7 +149,7 @@ const JournalView: React.FC = () => {
 
   const goToNextDay = () => {
     const date = new Date(selectedDate + 'T00:00:00');
-    const today = new Date();
+    const today = getTodayDate();
     if (date < today) {
       date.setDate(date.getDate() + 1);
       setSelectedDate(formatDate(date));
@@ -156,7 +157,7 @@ const JournalView: React.FC = () => {
   };
 
   const goToToday = () => {
-    setSelectedDate(formatDate(new Date()));
+    setSelectedDate(formatDate(getTodayDate()));
   };
 
   const filteredEntries = entries.filter(entry => 
@@ -165,7 +166,7 @@ const JournalView: React.FC = () => {
     entry.date.includes(searchTerm)
   );
 
-  const isToday = selectedDate === formatDate(new Date());
+  const isToday = selectedDate === formatDate(getTodayDate());
   const canGoNext = !isToday;
 
   return (
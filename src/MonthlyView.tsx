@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Task, TaskCompletion, Event } from './types';
-import { loadData, completeTask, isTaskCompletedToday } from './storage';
-import { formatDate, shouldTaskShowToday, getWeekBounds, getMonthBounds } from './utils';
+import { Task, TaskCompletion, TaskSpillover, Vacation, Event } from './types';
+import { loadData, completeTask, setCompletionStatus, uncompleteTask, isTaskCompletedToday, isTaskSpilledOver } from './storage';
+import { formatDate } from './utils';
+import { occursOn, isPeriodTargetMet } from './recurrence';
+import { isCompletionDone } from './taskProgress';
 import DayDetailsModal from './components/DayDetailsModal';
+import { getTodayDate } from './dateService';
+import { eventOccursOn } from './eventOccurrences';
 
 interface MonthlyViewProps {
   onNavigate?: (view: string) => void;
@@ -10,9 +14,11 @@ interface MonthlyViewProps {
 }
 
 const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard }) => {
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(getTodayDate());
   const [tasks, setTasks] = useState<Task[]>([]);
   const [completions, setCompletions] = useState<TaskCompletion[]>([]);
+  const [spillovers, setSpillovers] = useState<TaskSpillover[]>([]);
+  const [vacations, setVacations] = useState<Vacation[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [completedTaskIds, setCompletedTaskIds] = useState<Set<string>>(new Set());
@@ -26,11 +32,15 @@ const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard
       const data = await loadData();
       setTasks(data.tasks);
       setCompletions(data.completions);
+      setSpillovers(data.spillovers);
+      setVacations(data.vacations);
       setEvents(data.events);
     } catch (error) {
       console.error('Error loading monthly data:', error);
       setTasks([]);
       setCompletions([]);
+      setSpillovers([]);
+      setVacations([]);
       setEvents([]);
     }
   };
@@ -66,77 +76,33 @@ const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard
 
   const getTasksForDate = (date: Date): Task[] => {
     const dateStr = formatDate(date);
-    const dayOfWeek = date.getDay();
-    const dayOfMonth = date.getDate();
     
     return tasks.filter(task => {
-      if (task.frequency === 'daily') {
+      // Moved onto this date from another day
+      if (spillovers.some(s => s.taskId === task.id && s.toDate === dateStr)) {
         return true;
-      } else if (task.frequency === 'weekly') {
-        return task.daysOfWeek?.includes(dayOfWeek) || false;
-      } else if (task.frequency === 'monthly') {
-        return task.dayOfMonth === dayOfMonth;
-      } else if (task.frequency === 'count-based') {
-        // For count-based tasks, only show if not yet completed the required number of times in the period
-        if (task.frequencyCount && task.frequencyPeriod) {
-          // Get period bounds
-          let periodBounds;
-          if (task.frequencyPeriod === 'week') {
-            periodBounds = getWeekBounds(date);
-          } else {
-            periodBounds = getMonthBounds(date);
-          }
-          
-          // Count completions in this period
-          const completionsInPeriod = completions.filter(
-            c => c.taskId === task.id && 
-                 c.date >= periodBounds.start && 
-                 c.date <= periodBounds.end
-          ).length;
-          
-          // Only show if not yet completed the required number of times
-          return completionsInPeriod < task.frequencyCount;
-        }
-        return true; // Fallback: show if frequencyCount/frequencyPeriod not set
-      } else if (task.frequency === 'custom') {
-        if (task.customFrequency) {
-          const monthMatch = task.customFrequency.match(/(\d+)(st|nd|rd|th)\s+of\s+every\s+month/i);
-          if (monthMatch) {
-            const day = parseInt(monthMatch[1]);
-            return dayOfMonth === day;
-          }
-        }
       }
-      return false;
+      
+      // Moved away from this date (still shown if it was done anyway)
+      if (isTaskSpilledOver(task.id, dateStr, spillovers) && !isTaskCompletedToday(task.id, dateStr, completions)) {
+        return false;
+      }
+      
+      // Count-based tasks drop off once the period's target is met
+      return occursOn(task, dateStr, vacations, completions) && !isPeriodTargetMet(task, dateStr, completions);
     });
   };
 
   const getCompletionsForDate = (date: Date): TaskCompletion[] => {
     const dateStr = formatDate(date);
-    return completions.filter(c => c.date === dateStr);
+    return completions.filter(c => c.date === dateStr && isCompletionDone(c));
   };
 
   const getEventsForDate = (date: Date): Event[] => {
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const mmdd = `${month}-${day}`;
     const fullDate = formatDate(date);
     
-    return events.filter(event => {
-      if (event.hideFromDashboard) return false;
-      
-      // Yearly events (birthdays, anniversaries)
-      if (event.frequency === 'yearly') {
-        return event.date === mmdd;
-      }
-      
-      // One-time events
-      if (event.frequency === 'one-time') {
-        return event.date === fullDate;
-      }
-      
-      return false;
-    });
+    // Yearly events (birthdays, anniversaries) and one-time events
+    return events.filter(event => !event.hideFromDashboard && eventOccursOn(event, fullDate));
   };
 
   const getCompletionRate = (date: Date): number => {
@@ -147,7 +113,7 @@ const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard
     const tasksForDayIds = new Set(tasksForDay.map(t => t.id));
     const dateStr = formatDate(date);
     const completedCount = completions.filter(
-      c => c.date === dateStr && tasksForDayIds.has(c.taskId)
+      c => c.date === dateStr && tasksForDayIds.has(c.taskId) && isCompletionDone(c)
     ).length;
     
     return Math.round((completedCount / tasksForDay.length) * 100);
@@ -169,11 +135,11 @@ const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard
   };
 
   const goToToday = () => {
-    setCurrentDate(new Date());
+    setCurrentDate(getTodayDate());
   };
 
   const isToday = (date: Date): boolean => {
-    const today = new Date();
+    const today = getTodayDate();
     return date.getDate() === today.getDate() &&
            date.getMonth() === today.getMonth() &&
            date.getFullYear() === today.getFullYear();
@@ -349,6 +315,7 @@ const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard
             tasks={getTasksForDate(selectedDateObj)}
             events={events}
             completedTaskIds={mergedCompletedTaskIds}
+            completions={completions.filter(c => c.date === selectedDate)}
             onClose={() => {
               setSelectedDate(null);
               setCompletedTaskIds(new Set()); // Reset in-memory completions when modal closes
@@ -358,6 +325,19 @@ const MonthlyView: React.FC<MonthlyViewProps> = ({ onNavigate, onBackToDashboard
               setCompletedTaskIds(prev => new Set(prev).add(taskId));
               await loadMonthData();
             }}
+            onSetTaskStatus={async (taskId, status, reason) => {
+              try {
+                if (status) {
+                  await setCompletionStatus(taskId, selectedDate, status, reason);
+                } else {
+                  await uncompleteTask(taskId, selectedDate);
+                }
+              } catch (error) {
+                console.error('Error updating task status:', error);
+                alert('Failed to update task. Please try again.');
+              }
+              await loadMonthData();
+            }}
           />
         );
       })()}
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { Task, Event } from './types';
+import { Task, Event, CompletionStatus, ChecklistItem } from './types';
+import { COMPLETION_STATUS_INFO } from './taskProgress';
+import ChecklistEditor from './components/ChecklistEditor';
 
 interface TaskActionModalProps {
   task?: Task | null;
@@ -7,28 +9,67 @@ interface TaskActionModalProps {
   itemType: 'task' | 'event';
   onComplete: (durationMinutes?: number) => void;
   onMoveToNextDay: () => void;
+  isAcknowledged?: boolean; // Event already acknowledged for this date
+  onUnacknowledge?: () => void;
   onCancel: () => void;
   onStartTimer?: () => void;
+  status?: CompletionStatus; // Current partial/skipped/excused mark
+  statusReason?: string;
+  onSetStatus?: (status: Exclude<CompletionStatus, 'done'> | null, reason?: string) => void; // null clears the mark
+  checkedItemIds?: string[]; // Checklist items ticked on this day
+  onToggleChecklistItem?: (itemId: string) => void;
+  onChecklistChange?: (checklist: ChecklistItem[]) => void; // Saves an edited checklist on the task
 }
 
+const MARKABLE_STATUSES: { status: Exclude<CompletionStatus, 'done'>; hint: string }[] = [
+  { status: 'partial', hint: 'Did some of it' },
+  { status: 'skipped', hint: 'Chose not to' },
+  { status: 'excused', hint: 'Sick, travel...' }
+];
+
 const TaskActionModal: React.FC<TaskActionModalProps> = ({
   task,
   event,
   itemType,
   onComplete,
   onMoveToNextDay,
+  isAcknowledged,
+  onUnacknowledge,
   onCancel,
-  onStartTimer
+  onStartTimer,
+  status,
+  statusReason,
+  onSetStatus,
+  checkedItemIds,
+  onToggleChecklistItem,
+  onChecklistChange
 }) => {
   const item = task || event;
   const [showTimeInput, setShowTimeInput] = useState(false);
+  const [reason, setReason] = useState(statusReason || '');
   const [hours, setHours] = useState(0);
   const [minutes, setMinutes] = useState(0);
+  // Kept locally so ticks and edits show right away while they save
+  const [checklist, setChecklist] = useState<ChecklistItem[]>(task?.checklist || []);
+  const [checked, setChecked] = useState<string[]>(checkedItemIds || []);
+  const [isEditingChecklist, setIsEditingChecklist] = useState(false);
   
   if (!item) return null;
   
   const isEvent = itemType === 'event';
 
+  const handleToggleItem = (itemId: string) => {
+    setChecked(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]);
+    onToggleChecklistItem?.(itemId);
+  };
+
+  const handleFinishEditing = () => {
+    const cleaned = checklist.map(item => ({ ...item, title: item.title.trim() })).filter(item => item.title);
+    setChecklist(cleaned);
+    onChecklistChange?.(cleaned);
+    setIsEditingChecklist(false);
+  };
+
   const handleComplete = () => {
     if (!isEvent && showTimeInput) {
       const totalMinutes = (hours * 60) + minutes;
@@ -69,6 +110,49 @@ const TaskActionModal: React.FC<TaskActionModalProps> = ({
             </button>
           )}
 
+          {/* Checklist - Only for tasks */}
+          {!isEvent && onToggleChecklistItem && (checklist.length > 0 || onChecklistChange) && (
+            <div style={{
+              marginBottom: '1rem',
+              padding: '1rem',
+              background: '#f3f4f6',
+              borderRadius: '8px'
+            }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <span style={{ fontWeight: 600, color: '#374151' }}>
+                  ☑️ Checklist {checklist.length > 0 && `(${checked.filter(id => checklist.some(item => item.id === id)).length}/${checklist.length})`}
+                </span>
+                {onChecklistChange && (
+                  <button
+                    onClick={isEditingChecklist ? handleFinishEditing : () => setIsEditingChecklist(true)}
+                    style={{ padding: '0.25rem 0.5rem', fontSize: '0.8rem', background: 'none', border: 'none', color: '#667eea', textDecoration: 'underline', cursor: 'pointer' }}
+                  >
+                    {isEditingChecklist ? 'Save checklist' : checklist.length > 0 ? 'Edit' : 'Add a checklist'}
+                  </button>
+                )}
+              </div>
+
+              {isEditingChecklist ? (
+                <ChecklistEditor items={checklist} onChange={setChecklist} />
+              ) : checklist.map(item => (
+                <label
+                  key={item.id}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0', cursor: 'pointer' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked.includes(item.id)}
+                    onChange={() => handleToggleItem(item.id)}
+                    style={{ cursor: 'pointer' }}
+                  />
+                  <span style={{ color: checked.includes(item.id) ? '#9ca3af' : '#374151', textDecoration: checked.includes(item.id) ? 'line-through' : 'none' }}>
+                    {item.title}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
           {/* Time Tracking Toggle */}
           {!isEvent && (
             <div style={{
@@ -175,17 +259,88 @@ const TaskActionModal: React.FC<TaskActionModalProps> = ({
             </div>
           )}
           
+          {/* Partial / skipped / excused - Only for tasks */}
+          {!isEvent && onSetStatus && (
+            <div style={{
+              marginBottom: '1rem',
+              padding: '1rem',
+              background: '#f3f4f6',
+              borderRadius: '8px'
+            }}>
+              <div style={{ fontWeight: 600, color: '#374151', marginBottom: '0.5rem' }}>
+                📝 Didn't do it fully?
+              </div>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional)"
+                style={{
+                  width: '100%',
+                  padding: '0.5rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  fontSize: '0.9rem',
+                  marginBottom: '0.5rem',
+                  boxSizing: 'border-box'
+                }}
+              />
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {MARKABLE_STATUSES.map(({ status: option, hint }) => (
+                  <button
+                    key={option}
+                    onClick={() => onSetStatus(option, reason)}
+                    title={hint}
+                    style={{
+                      flex: 1,
+                      padding: '0.5rem',
+                      fontSize: '0.85rem',
+                      background: status === option ? '#667eea' : '#e5e7eb',
+                      color: status === option ? 'white' : '#374151',
+                      border: 'none',
+                      borderRadius: '6px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {COMPLETION_STATUS_INFO[option].icon} {COMPLETION_STATUS_INFO[option].label}
+                  </button>
+                ))}
+              </div>
+              {status && (
+                <button
+                  onClick={() => onSetStatus(null)}
+                  style={{ marginTop: '0.5rem', padding: '0.25rem 0.5rem', fontSize: '0.8rem', background: 'none', border: 'none', color: '#6b7280', textDecoration: 'underline', cursor: 'pointer' }}
+                >
+                  Clear {COMPLETION_STATUS_INFO[status].label.toLowerCase()} mark
+                </button>
+              )}
+            </div>
+          )}
+          
           <div className="modal-actions">
-            <button 
-              className="modal-btn modal-btn-complete"
-              onClick={handleComplete}
-            >
-              <span className="btn-icon-large">{isEvent ? '👁️' : '✓'}</span>
-              <span className="btn-text">
-                <strong>{isEvent ? 'Mark as Acknowledged' : 'Mark as Complete'}</strong>
-                <small>{isEvent ? 'I have seen this reminder' : 'I finished this task today'}</small>
-              </span>
-            </button>
+            {isEvent && isAcknowledged && onUnacknowledge ? (
+              <button 
+                className="modal-btn modal-btn-move"
+                onClick={onUnacknowledge}
+              >
+                <span className="btn-icon-large">↩️</span>
+                <span className="btn-text">
+                  <strong>Un-acknowledge</strong>
+                  <small>Show this reminder again</small>
+                </span>
+              </button>
+            ) : (
+              <button 
+                className="modal-btn modal-btn-complete"
+                onClick={handleComplete}
+              >
+                <span className="btn-icon-large">{isEvent ? '👁️' : '✓'}</span>
+                <span className="btn-text">
+                  <strong>{isEvent ? 'Mark as Acknowledged' : 'Mark as Complete'}</strong>
+                  <small>{isEvent ? 'I have seen this reminder' : 'I finished this task today'}</small>
+                </span>
+              </button>
+            )}
             
             {!isEvent && (
               <button 
@@ -11,6 +11,7 @@ import React, { useState, useEffect } from 'react';
 import { Task } from './types';
 import { loadData, completeTask } from './storage';
 import { getTodayString } from './utils';
+import { getCurrentTime } from './dateService';
 import CountdownTimer from './components/CountdownTimer';
 
 type TimerMode = 'select' | 'task-endtime' | 'task-duration' | 'standalone';
@@ -81,22 +82,14 @@ const TimerView: React.FC<TimerViewProps> = ({ onClose }) => {
       return;
     }
 
-    const now = new Date();
+    // End times are wall-clock times in the user's time zone
     const [hours, minutes] = task.endTime.split(':').map(Number);
-    const endTime = new Date(now);
-    endTime.setHours(hours, minutes, 0, 0);
+    const [nowHours, nowMinutes] = getCurrentTime().split(':').map(Number);
+    let diffMinutes = (hours * 60 + minutes) - (nowHours * 60 + nowMinutes);
 
     // If end time is in the past today, assume it's tomorrow
-    if (endTime <= now) {
-      endTime.setDate(endTime.getDate() + 1);
-    }
-
-    const diffMs = endTime.getTime() - now.getTime();
-    const diffMinutes = Math.ceil(diffMs / (1000 * 60));
-
     if (diffMinutes <= 0) {
-      alert('Task end time has already passed!');
-      return;
+      diffMinutes += 24 * 60;
     }
 
     setTimerConfig({
@@ -146,17 +139,7 @@ const TimerView: React.FC<TimerViewProps> = ({ onClose }) => {
     if (timerConfig?.task && timerConfig.task.id !== 'standalone') {
       try {
         const today = getTodayString();
-        await completeTask(timerConfig.task.id, today, durationMinutes);
-        
-        // Check for dependent tasks and auto-complete them
-        const data = await loadData();
-        const dependentTasks = data.tasks.filter(t => 
-          t.dependentTaskIds && t.dependentTaskIds.includes(timerConfig.task!.id)
-        );
-        
-        for (const depTask of dependentTasks) {
-          await completeTask(depTask.id, today);
-        }
+        await completeTask(timerConfig.task.id, today, durationMinutes); // Also auto-completes dependent tasks
         
         alert(`✅ Task completed! ${durationMinutes ? `Time: ${Math.floor(durationMinutes / 60)}h ${durationMinutes % 60}m` : ''}`);
       } catch (error) {
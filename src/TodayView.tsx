@@ -7,23 +7,31 @@
  * - Overall completion streak (global)
  * - Per-task completion streaks (shown in each card)
  * - Per-task missed count (shown in each card)
+ * - Tasks moved from another day ("move to next day") and per-task spillover counts
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Task, Event, AppData } from './types';
-import { getTodayString, getTasksForToday, formatDate, getWeekBounds, getMonthBounds, shouldTaskShowToday } from './utils';
-import { loadData, completeTask, isTaskCompletedToday, getTaskSpilloversForDate, moveTaskToNextDay, getCompletionCountForPeriod, saveTaskOrder, loadTaskOrder, getUpcomingEvents, acknowledgeEvent, isEventAcknowledged } from './storage';
+import { Task, Event, AppData, CompletionStatus, ChecklistItem } from './types';
+import { getTodayString, formatDate } from './utils';
+import { occursOn, isPeriodTargetMet, isRepeatAfterCompletion, getOverdueDays, getDaysUntilDue, describeDueIn, describeDeadline } from './recurrence';
+import { addDays, daysBetween } from './dateMath';
+import { isQuantitative, getLoggedValue, formatQuantity, getStreakEffect, COMPLETION_STATUS_INFO, hasChecklist, getCheckedItemIds } from './taskProgress';
+import { loadData, updateTask, getUnlockedTaskIds, unlockTaskForDay, completeTask, logTaskProgress, toggleChecklistItem, setCompletionStatus, uncompleteTask, isTaskCompletedToday, isTaskSpilledOver, getTaskSpilloverCount, moveTaskToNextDay, getCompletionCountForPeriod, saveTaskOrder, loadTaskOrder, getUpcomingEvents, acknowledgeEvent, unacknowledgeEvent, isEventAcknowledged } from './storage';
 import TaskActionModal from './TaskActionModal';
 import CountdownTimer from './components/CountdownTimer';
 import ProgressAndReviewModal from './components/ProgressAndReviewModal';
 import SmartCoachSection from './components/SmartCoachSection';
 import { getUnderperformingTasks, isInsightDismissed, TaskInsight } from './services/aiInsights';
+import { getCascadeTaskIds, getPendingPrerequisites, orderByPrerequisites } from './dependencies';
 import LayoutSelector from './components/LayoutSelector';
 import { DashboardLayout } from './types';
-import { getDashboardLayout, setDashboardLayout, bulkHoldTasks, bulkUnholdTasks } from './storage';
+import { getDashboardLayout, setDashboardLayout, bulkHoldTasks, bulkUnholdTasks, reconcileExpiredHolds, getPreviousVisitDate, saveUserSettings } from './storage';
 import { useAuth } from './contexts/AuthContext';
 import MonthlyView from './MonthlyView';
 import WeatherWidget from './components/WeatherWidget';
+import VacationPlanner from './components/VacationPlanner';
+import { isVacationActiveOn, vacationAppliesTo } from './vacations';
+import { getTodayDate, toZonedDateString, getTimeZone, getDeviceTimeZone, isAwayFromHomeZone } from './dateService';
 
 type DashboardItem = {
   type: 'task' | 'event';
@@ -38,6 +46,15 @@ type DashboardItem = {
   color?: string;
   daysUntil?: number;
   eventDate?: string; // Formatted event date for display
+  movedFrom?: string; // YYYY-MM-DD - source date for tasks moved onto this date
+  loggedValue?: number; // Progress logged on the selected date (tasks with a target)
+  checkedItemIds?: string[]; // Checklist items ticked on the selected date
+  status?: CompletionStatus; // Partial/skipped/excused mark on the selected date
+  statusReason?: string;
+  daysUntilDue?: number; // Repeat-after-completion tasks: negative when overdue
+  overdueDays?: number; // Carried over to today this many days after it was due
+  daysToDeadline?: number; // Negative once the deadline has passed
+  lockedBy?: string[]; // Names of prerequisites not yet done on the selected date
 };
 
 interface TodayViewProps {
@@ -45,9 +62,10 @@ interface TodayViewProps {
 }
 
 const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
-  const { user, loading: authLoading } = useAuth();
+  const { user, isGuest, loading: authLoading } = useAuth();
   const [viewMode, setViewMode] = useState<'dashboard' | 'monthly'>('dashboard');
   const [items, setItems] = useState<DashboardItem[]>([]);
+  const [overdueItems, setOverdueItems] = useState<DashboardItem[]>([]);
   const [selectedItem, setSelectedItem] = useState<DashboardItem | null>(null);
   const [currentStreak, setCurrentStreak] = useState(0);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -61,9 +79,25 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
   const [dashboardLayout, setDashboardLayoutState] = useState<DashboardLayout>(getDashboardLayout());
   const [isLoading, setIsLoading] = useState(true);
   const [appData, setAppData] = useState<AppData | null>(null);
+  const [resumeNoticeDismissed, setResumeNoticeDismissed] = useState(false);
+  const [previousVisit] = useState(getPreviousVisitDate);
+  const [travelNoticeDismissed, setTravelNoticeDismissed] = useState(false);
   const [selectedDate, setSelectedDate] = useState<string>(getTodayString());
   const today = getTodayString();
 
+  // Travelling: make the device's zone the one days follow
+  const handleUseDeviceTimeZone = async () => {
+    try {
+      await saveUserSettings({ timeZone: getDeviceTimeZone() });
+      setTravelNoticeDismissed(true);
+      setSelectedDate(getTodayString());
+      await loadItems();
+    } catch (error) {
+      console.error('Error saving time zone:', error);
+      alert('Failed to update time zone. Please try again.');
+    }
+  };
+
   const handleLayoutChange = async (layout: DashboardLayout) => {
     try {
       await setDashboardLayout(layout);
@@ -73,52 +107,6 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     }
   };
 
-  /**
-   * Helper function to check if a date matches an interval-based task schedule
-   */
-  const isIntervalMatch = (task: Task, dateStr: string): boolean => {
-    if (!task.intervalValue || !task.intervalUnit || !task.intervalStartDate) {
-      return false;
-    }
-    
-    const startDate = new Date(task.intervalStartDate);
-    const checkDate = new Date(dateStr);
-    
-    const diffInMs = checkDate.getTime() - startDate.getTime();
-    const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
-    
-    if (diffInDays < 0) return false; // Before start date
-    
-    switch (task.intervalUnit) {
-      case 'days':
-        return diffInDays % task.intervalValue === 0;
-        
-      case 'weeks':
-        const diffInWeeks = Math.floor(diffInDays / 7);
-        return diffInWeeks % task.intervalValue === 0 && (diffInDays % 7 === 0);
-        
-      case 'months':
-        const startMonth = startDate.getMonth();
-        const startYear = startDate.getFullYear();
-        const checkMonth = checkDate.getMonth();
-        const checkYear = checkDate.getFullYear();
-        const monthsDiff = (checkYear - startYear) * 12 + (checkMonth - startMonth);
-        
-        return checkDate.getDate() === startDate.getDate() && 
-               monthsDiff % task.intervalValue === 0;
-        
-      case 'years':
-        const yearsDiff = checkDate.getFullYear() - startDate.getFullYear();
-        
-        return checkDate.getDate() === startDate.getDate() &&
-               checkDate.getMonth() === startDate.getMonth() &&
-               yearsDiff % task.intervalValue === 0;
-        
-      default:
-        return false;
-    }
-  };
-
   // Track previous selectedDate to prevent unnecessary reloads
   const prevSelectedDateRef = useRef<string>('');
   const hasLoadedRef = useRef<boolean>(false);
@@ -133,67 +121,22 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     prevSelectedDateRef.current = selectedDate;
     
     const init = async () => {
-      // Only load data if user is authenticated
-      if (!authLoading && user) {
+      // Only load data if user is authenticated or using local guest storage
+      if (!authLoading && (user || isGuest)) {
+        // Expired holds must be cleared before the dashboard reads tasks
+        await reconcileExpiredHolds().catch(error => console.error('Error clearing expired holds:', error));
         await loadItems();
         await calculateStreak();
         await loadAIInsights();
         hasLoadedRef.current = true;
-      } else if (!authLoading && !user) {
+      } else if (!authLoading && !user && !isGuest) {
         // User is not authenticated, set loading to false
         setIsLoading(false);
         hasLoadedRef.current = false; // Reset when user logs out
       }
     };
     init();
-  }, [authLoading, user, selectedDate]);
-
-  // Helper function to check if task should show on a specific date
-  const shouldTaskShowOnDate = (task: Task, dateStr: string): boolean => {
-    const date = new Date(dateStr + 'T00:00:00');
-    const dayOfWeek = date.getDay();
-    const dayOfMonth = date.getDate();
-
-    // Check if task is on hold
-    if (task.onHold && task.holdStartDate) {
-      if (dateStr >= task.holdStartDate) {
-        if (!task.holdEndDate || dateStr <= task.holdEndDate) {
-          return false;
-        }
-      }
-    }
-
-    // Check start date
-    if (task.startDate && dateStr < task.startDate) {
-      return false;
-    }
-
-    // Check end date
-    if (task.endDate && dateStr > task.endDate) {
-      return false;
-    }
-
-    // Check specific date
-    if (task.specificDate) {
-      return dateStr === task.specificDate;
-    }
-
-    // Check frequency
-    switch (task.frequency) {
-      case 'daily':
-        return true;
-      case 'weekly':
-        return task.daysOfWeek?.includes(dayOfWeek) || false;
-      case 'monthly':
-        return task.dayOfMonth === dayOfMonth;
-      case 'count-based':
-        return true;
-      case 'interval':
-        return isIntervalMatch(task, dateStr);
-      default:
-        return false;
-    }
-  };
+  }, [authLoading, user, isGuest, selectedDate]);
 
   const loadItems = async () => {
     try {
@@ -202,35 +145,24 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
       setAppData(data); // Store data in state
       
       // Get tasks for selected date (not just today)
-      let dateTasks = data.tasks.filter(task => shouldTaskShowOnDate(task, selectedDate));
+      // Overdue one-time and repeat-after-completion tasks carry over to Today until done
+      const isViewingToday = selectedDate === getTodayString();
+      let dateTasks = data.tasks.filter(task =>
+        occursOn(task, selectedDate, data.vacations, data.completions) ||
+        (isViewingToday && getOverdueDays(task, selectedDate, data.completions, data.vacations, data.spillovers) !== null)
+      );
       
       // Filter out count-based tasks that have already been completed the required number of times
-      const selectedDateObj = new Date(selectedDate + 'T00:00:00');
-      dateTasks = dateTasks.filter(task => {
-        if (task.frequency === 'count-based' && task.frequencyCount && task.frequencyPeriod) {
-          // Get period bounds
-          let periodBounds;
-          if (task.frequencyPeriod === 'week') {
-            periodBounds = getWeekBounds(selectedDateObj);
-          } else {
-            periodBounds = getMonthBounds(selectedDateObj);
-          }
-          
-          // Count completions in this period
-          const completionsInPeriod = data.completions.filter(
-            c => c.taskId === task.id && 
-                 c.date >= periodBounds.start && 
-                 c.date <= periodBounds.end
-          ).length;
-          
-          // Only show if not yet completed the required number of times
-          return completionsInPeriod < task.frequencyCount;
-        }
-        return true; // Show all non-count-based tasks
-      });
+      dateTasks = dateTasks.filter(task => !isPeriodTargetMet(task, selectedDate, data.completions));
       
-      // Get spillover tasks
-      const spillovers = await getTaskSpilloversForDate(selectedDate);
+      // Tasks moved away from this date only show here if they were done anyway
+      dateTasks = dateTasks.filter(task =>
+        !isTaskSpilledOver(task.id, selectedDate, data.spillovers) ||
+        isTaskCompletedToday(task.id, selectedDate, data.completions)
+      );
+      
+      // Get spillover tasks (moved onto this date)
+      const spillovers = data.spillovers.filter(s => s.toDate === selectedDate);
       const spilloverTaskIds = spillovers.map(s => s.taskId);
       const spilloverTasks = data.tasks.filter(t => spilloverTaskIds.includes(t.id));
       
@@ -241,6 +173,15 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
       // Get events for selected date (show events on that specific date)
       const upcomingEvents = (await getUpcomingEvents(0, selectedDate)).filter(({ event }) => !event.hideFromDashboard);
       
+      // Prerequisites on today's list lock a task until they're done, unless the user unlocked it
+      const doneTaskIds = new Set(combinedTasks.filter(t => isTaskCompletedToday(t.id, selectedDate, data.completions)).map(t => t.id));
+      const unlockedTaskIds = getUnlockedTaskIds(selectedDate);
+      const getLockedBy = (task: Task): string[] | undefined => {
+        if (doneTaskIds.has(task.id) || unlockedTaskIds.includes(task.id)) return undefined;
+        const pending = getPendingPrerequisites(task, combinedTasks, doneTaskIds);
+        return pending.length > 0 ? pending.map(t => t.name) : undefined;
+      };
+      
       // Convert tasks to dashboard items
       const taskItems: DashboardItem[] = combinedTasks.map(task => ({
         type: 'task',
@@ -251,11 +192,32 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
         category: task.category,
         isCompleted: isTaskCompletedToday(task.id, selectedDate, data.completions),
         weightage: task.weightage,
-        color: task.color
+        color: task.color,
+        movedFrom: spillovers.find(s => s.taskId === task.id)?.fromDate,
+        loggedValue: isQuantitative(task) ? getLoggedValue(task, selectedDate, data.completions) : undefined,
+        checkedItemIds: hasChecklist(task) ? getCheckedItemIds(task, data.completions.find(c => c.taskId === task.id && c.date === selectedDate)) : undefined,
+        status: data.completions.find(c => c.taskId === task.id && c.date === selectedDate)?.status,
+        statusReason: data.completions.find(c => c.taskId === task.id && c.date === selectedDate)?.reason,
+        daysUntilDue: isRepeatAfterCompletion(task) ? getDaysUntilDue(task, selectedDate, data.completions) ?? undefined : undefined,
+        overdueDays: isViewingToday ? getOverdueDays(task, selectedDate, data.completions, data.vacations, data.spillovers) ?? undefined : undefined,
+        daysToDeadline: task.deadline ? daysBetween(selectedDate, task.deadline) : undefined,
+        lockedBy: getLockedBy(task)
       }));
+
+      // Open overdue tasks get their own section, oldest and heaviest first
+      const overdueTaskItems = taskItems
+        .filter(item => item.overdueDays !== undefined && !item.isCompleted && !item.status)
+        .sort((a, b) => b.overdueDays! - a.overdueDays! || b.weightage - a.weightage);
+      setOverdueItems(overdueTaskItems);
     
     // Helper function to format event date for display
-    const formatEventDateForCard = (event: Event): string => {
+    const formatEventDateForCard = (event: Event, daysUntil: number): string => {
+      if (event.frequency === 'custom' || event.calendarSystem) {
+        // Custom events store their first date and lunar ones a date in another calendar;
+        // show the occurrence this card is for
+        const [year, month, day] = addDays(selectedDate, daysUntil).split('-').map(Number);
+        return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+      }
       if (event.frequency === 'yearly') {
         const [month, day] = event.date.split('-');
         const date = new Date(2000, parseInt(month) - 1, parseInt(day));
@@ -277,15 +239,15 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
       name: event.name,
       description: event.description,
       category: event.category,
-      isCompleted: isEventAcknowledged(event.id, selectedDate),
+      isCompleted: isEventAcknowledged(event.id, selectedDate, data.eventAcknowledgments),
       weightage: event.priority || 5,
       color: event.color,
       daysUntil,
-      eventDate: formatEventDateForCard(event) // Add formatted event date
+      eventDate: formatEventDateForCard(event, daysUntil) // Add formatted event date
     }));
     
     // Combine tasks and events into main dashboard items
-    let allItems = [...taskItems, ...eventItems];
+    let allItems = [...taskItems.filter(item => !overdueTaskItems.includes(item)), ...eventItems];
     
     // Apply custom order if exists (only for tasks)
     const savedOrder = loadTaskOrder();
@@ -293,6 +255,9 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
       allItems = applyCustomOrderToItems(allItems, savedOrder);
     }
     
+    // Chained tasks always follow their prerequisites
+    allItems = orderByPrerequisites(allItems, item => item.task);
+    
     setItems(allItems);
     } catch (error: any) {
       // Silently ignore authentication errors (user not signed in yet)
@@ -328,28 +293,23 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
       const data = await loadData();
       const allTasks = data.tasks;
       const allCompletions = data.completions;
+      const allSpillovers = data.spillovers;
     
     let streak = 0;
-    let checkDate = new Date();
+    let checkDate = getTodayDate();
     checkDate.setDate(checkDate.getDate() - 1);
     
     for (let i = 0; i < 30; i++) {
       const dateStr = formatDate(checkDate);
       
       const scheduledTasks = allTasks.filter(task => {
-        const dayOfWeek = checkDate.getDay();
-        const dayOfMonth = checkDate.getDate();
-        
-        switch (task.frequency) {
-          case 'daily':
-            return true;
-          case 'weekly':
-            return task.daysOfWeek?.includes(dayOfWeek) || false;
-          case 'monthly':
-            return task.dayOfMonth === dayOfMonth;
-          default:
-            return false;
+        // Moved to another day: doesn't break the streak here
+        if (isTaskSpilledOver(task.id, dateStr, allSpillovers)) {
+          return false;
         }
+        
+        // Count-based tasks have no fixed days, so they don't count towards the daily streak
+        return task.frequency !== 'count-based' && occursOn(task, dateStr, data.vacations, allCompletions);
       });
       
       if (scheduledTasks.length === 0) {
@@ -357,14 +317,15 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
         continue;
       }
       
-      const completedCount = scheduledTasks.filter(task =>
-        allCompletions.some(c => c.taskId === task.id && c.date === dateStr)
-      ).length;
+      // Any missed task breaks the streak; partial, skipped and excused tasks don't
+      const effects = scheduledTasks.map(task =>
+        getStreakEffect(allCompletions.find(c => c.taskId === task.id && c.date === dateStr))
+      );
       
-      if (completedCount === scheduledTasks.length) {
-        streak++;
-      } else {
+      if (effects.includes('break')) {
         break;
+      } else if (effects.includes('extend')) {
+        streak++;
       }
       
       checkDate.setDate(checkDate.getDate() - 1);
@@ -415,17 +376,14 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     
     const allCompletions = appData.completions;
     let streak = 0;
-    let checkDate = new Date();
+    let checkDate = getTodayDate();
     checkDate.setDate(checkDate.getDate() - 1); // Start from yesterday
     
     // Get task creation date
-    const taskCreatedDate = task.createdAt ? new Date(task.createdAt) : null;
-    const taskCreatedDateStr = taskCreatedDate ? formatDate(taskCreatedDate) : null;
+    const taskCreatedDateStr = task.createdAt ? toZonedDateString(new Date(task.createdAt)) : null;
     
     for (let i = 0; i < 30; i++) {
       const dateStr = formatDate(checkDate);
-      const dayOfWeek = checkDate.getDay();
-      const dayOfMonth = checkDate.getDate();
       
       // Stop if we've gone before task was created
       if (taskCreatedDateStr && dateStr < taskCreatedDateStr) {
@@ -437,54 +395,18 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
         break;
       }
       
-      // Skip if after task's end date
-      if (task.endDate && dateStr > task.endDate) {
+      // Skip if task wasn't scheduled (includes hold and vacation days, and days after the end date)
+      if (!occursOn(task, dateStr, appData.vacations, allCompletions)) {
         checkDate.setDate(checkDate.getDate() - 1);
         continue;
       }
       
-      // Skip days when task was on hold (hold days don't break streak)
-      if (task.onHold && task.holdStartDate) {
-        if (dateStr >= task.holdStartDate) {
-          if (!task.holdEndDate || dateStr <= task.holdEndDate) {
-            checkDate.setDate(checkDate.getDate() - 1);
-            continue;
-          }
-        }
-      }
-      
-      let shouldHaveBeenDone = false;
-      
-      switch (task.frequency) {
-        case 'daily':
-          shouldHaveBeenDone = true;
-          break;
-        case 'weekly':
-          shouldHaveBeenDone = task.daysOfWeek?.includes(dayOfWeek) || false;
-          break;
-        case 'monthly':
-          shouldHaveBeenDone = task.dayOfMonth === dayOfMonth;
-          break;
-        case 'count-based':
-          shouldHaveBeenDone = true; // Count-based tasks are always active
-          break;
-        case 'interval':
-          shouldHaveBeenDone = isIntervalMatch(task, dateStr);
-          break;
-      }
+      const effect = getStreakEffect(allCompletions.find(c => c.taskId === taskId && c.date === dateStr));
       
-      // Skip if task wasn't scheduled
-      if (!shouldHaveBeenDone) {
-        checkDate.setDate(checkDate.getDate() - 1);
-        continue;
-      }
-      
-      const wasCompleted = allCompletions.some(c => c.taskId === taskId && c.date === dateStr);
-      
-      if (wasCompleted) {
+      if (effect === 'extend') {
         streak++;
-      } else {
-        break; // Streak broken
+      } else if (effect === 'break' && !isTaskSpilledOver(taskId, dateStr, appData.spillovers)) {
+        break; // Streak broken (moving a task to another day doesn't break it)
       }
       
       checkDate.setDate(checkDate.getDate() - 1);
@@ -506,66 +428,25 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     let missedCount = 0;
     
     // Get task creation date (only check days after task was created)
-    const taskCreatedDate = task.createdAt ? new Date(task.createdAt) : null;
-    const taskCreatedDateStr = taskCreatedDate ? formatDate(taskCreatedDate) : null;
+    const taskCreatedDateStr = task.createdAt ? toZonedDateString(new Date(task.createdAt)) : null;
     
     for (let i = 1; i <= 7; i++) {
-      const checkDate = new Date();
+      const checkDate = getTodayDate();
       checkDate.setDate(checkDate.getDate() - i);
       const dateStr = formatDate(checkDate);
-      const dayOfWeek = checkDate.getDay();
-      const dayOfMonth = checkDate.getDate();
       
       // Skip if date is before task was created
       if (taskCreatedDateStr && dateStr < taskCreatedDateStr) {
         continue;
       }
       
-      // Skip if date is before task's start date
-      if (task.startDate && dateStr < task.startDate) {
-        continue;
-      }
-      
-      // Skip if date is after task's end date
-      if (task.endDate && dateStr > task.endDate) {
-        continue;
-      }
-      
-      // Skip if task was on hold on this date
-      if (task.onHold && task.holdStartDate) {
-        if (dateStr >= task.holdStartDate) {
-          // If no holdEndDate or date is before holdEndDate, task was on hold
-          if (!task.holdEndDate || dateStr <= task.holdEndDate) {
-            continue;
-          }
-        }
-      }
-      
-      let shouldHaveBeenDone = false;
-      
-      switch (task.frequency) {
-        case 'daily':
-          shouldHaveBeenDone = true;
-          break;
-        case 'weekly':
-          shouldHaveBeenDone = task.daysOfWeek?.includes(dayOfWeek) || false;
-          break;
-        case 'monthly':
-          shouldHaveBeenDone = task.dayOfMonth === dayOfMonth;
-          break;
-        case 'count-based':
-          shouldHaveBeenDone = true; // Check all days for count-based
-          break;
-        case 'interval':
-          shouldHaveBeenDone = isIntervalMatch(task, dateStr);
-          break;
-      }
-      
-      if (shouldHaveBeenDone) {
-        const wasCompleted = allCompletions.some(c => c.taskId === taskId && c.date === dateStr);
-        const wasSpilledOver = allSpillovers.some(s => s.taskId === taskId && s.fromDate === dateStr);
+      // Start/end dates, holds and frequency are all handled by the recurrence engine
+      if (occursOn(task, dateStr, appData.vacations, allCompletions)) {
+        // Partial, skipped and excused days were accounted for, so only days with nothing recorded are missed
+        const wasRecorded = allCompletions.some(c => c.taskId === taskId && c.date === dateStr);
+        const wasSpilledOver = isTaskSpilledOver(taskId, dateStr, allSpillovers);
         
-        if (!wasCompleted && !wasSpilledOver) {
+        if (!wasRecorded && !wasSpilledOver) {
           missedCount++;
         }
       }
@@ -574,6 +455,16 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     return missedCount;
   };
 
+  /**
+   * How often a task was moved to another day (last 30 days)
+   */
+  const getTaskSpilloverCount30Days = (taskId: string): number => {
+    if (!appData) return 0;
+    const since = getTodayDate();
+    since.setDate(since.getDate() - 30);
+    return getTaskSpilloverCount(taskId, appData.spillovers, formatDate(since));
+  };
+
   const findMissedTasks = () => {
     // This function is kept for backward compatibility but no longer displays separate alerts
     // Individual task stats are now shown on each card
@@ -631,33 +522,62 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
 
   const handleItemClick = (item: DashboardItem) => {
     if (isReorderMode) return; // Don't open modal in reorder mode
-    if (item.isCompleted) return;
+    if (item.isCompleted && item.type === 'task') {
+      handleUncomplete(item);
+      return;
+    }
+    if (item.lockedBy) {
+      if (!confirm(`🔒 "${item.name}" comes after: ${item.lockedBy.join(', ')}.\n\nDo it anyway?`)) return;
+      handleUnlock(item);
+      item = { ...item, lockedBy: undefined };
+    }
     setSelectedItem(item);
   };
 
+  /**
+   * Override a task's prerequisites for the selected date
+   */
+  const handleUnlock = (item: DashboardItem) => {
+    unlockTaskForDay(item.id, selectedDate);
+    const unlock = (list: DashboardItem[]) => list.map(i => i.id === item.id ? { ...i, lockedBy: undefined } : i);
+    setItems(unlock);
+    setOverdueItems(unlock);
+  };
+
+  /**
+   * Undo a completion, optionally together with the tasks it auto-completed
+   */
+  const handleUncomplete = async (item: DashboardItem) => {
+    if (!item.task || !appData) return;
+    if (!confirm(`Mark "${item.name}" as not done?`)) return;
+    
+    const autoCompleted = getCascadeTaskIds(item.task.id, appData.tasks)
+      .filter(id => appData.completions.some(c => c.taskId === id && c.date === selectedDate && c.autoCompleted));
+    const cascade = autoCompleted.length > 0 &&
+      confirm(`Also undo ${autoCompleted.length} dependent task${autoCompleted.length > 1 ? 's' : ''} that auto-completed with it?`);
+    
+    try {
+      await uncompleteTask(item.task.id, selectedDate, cascade);
+    } catch (error) {
+      console.error('Error undoing completion:', error);
+      alert('Failed to update task. Please try again.');
+    }
+    await loadItems();
+    await calculateStreak();
+  };
+
   const handleComplete = async (durationMinutes?: number) => {
     if (!selectedItem) return;
     
     if (selectedItem.type === 'task' && selectedItem.task) {
-      const completedTaskId = selectedItem.task.id;
-      await completeTask(completedTaskId, today, durationMinutes);
-      
-      // Check for dependent tasks and auto-complete them
-      if (appData) {
-        const dependentTasks = appData.tasks.filter(t => 
-          t.dependentTaskIds && t.dependentTaskIds.includes(completedTaskId)
-        );
-      
-        for (const depTask of dependentTasks) {
-          // Only auto-complete if the dependent task shows today
-          if (shouldTaskShowToday(depTask)) {
-            await completeTask(depTask.id, today);
-          }
-        }
-      }
-      
+      await completeTask(selectedItem.task.id, selectedDate, durationMinutes); // Also auto-completes dependent tasks
     } else if (selectedItem.type === 'event' && selectedItem.event) {
-      acknowledgeEvent(selectedItem.event.id, today);
+      try {
+        await acknowledgeEvent(selectedItem.event.id, selectedDate);
+      } catch (error) {
+        console.error('Error acknowledging event:', error);
+        alert('Failed to acknowledge event. Please try again.');
+      }
     }
     
     setSelectedItem(null);
@@ -665,6 +585,103 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     await calculateStreak();
   };
 
+  /**
+   * Log one step of progress (or take one back) on a task with a numeric target
+   */
+  const handleLogProgress = async (item: DashboardItem, delta: number) => {
+    if (!item.task) return;
+    
+    try {
+      await logTaskProgress(item.task.id, selectedDate, delta); // Reaching the target also completes dependents
+    } catch (error) {
+      console.error('Error logging progress:', error);
+      alert('Failed to log progress. Please try again.');
+    }
+    await loadItems();
+    await calculateStreak();
+  };
+
+  /**
+   * Mark the selected task partial, skipped or excused for the day, or clear the mark
+   */
+  const handleSetStatus = async (status: Exclude<CompletionStatus, 'done'> | null, reason?: string) => {
+    if (!selectedItem || !selectedItem.task) return;
+    
+    try {
+      if (status) {
+        await setCompletionStatus(selectedItem.task.id, selectedDate, status, reason);
+      } else {
+        await uncompleteTask(selectedItem.task.id, selectedDate);
+      }
+    } catch (error) {
+      console.error('Error updating task status:', error);
+      alert('Failed to update task. Please try again.');
+    }
+    setSelectedItem(null);
+    await loadItems();
+    await calculateStreak();
+  };
+
+  // Ticks save one at a time so quick clicks don't overwrite each other
+  const checklistSaveRef = useRef<Promise<void>>(Promise.resolve());
+
+  const handleToggleChecklistItem = (itemId: string) => {
+    if (!selectedItem || !selectedItem.task) return;
+    const taskId = selectedItem.task.id;
+    
+    checklistSaveRef.current = checklistSaveRef.current
+      .then(() => toggleChecklistItem(taskId, selectedDate, itemId))
+      .catch(error => {
+        console.error('Error updating checklist:', error);
+        alert('Failed to update checklist. Please try again.');
+      })
+      .then(async () => {
+        await loadItems();
+        await calculateStreak();
+      });
+  };
+
+  const handleChecklistChange = async (checklist: ChecklistItem[]) => {
+    if (!selectedItem || !selectedItem.task) return;
+    
+    try {
+      await updateTask(selectedItem.task.id, { checklist });
+    } catch (error) {
+      console.error('Error saving checklist:', error);
+      alert('Failed to save checklist. Please try again.');
+    }
+    await loadItems();
+  };
+
+  /**
+   * Drop an overdue one-time task without doing it (recorded as skipped today)
+   */
+  const handleDismissOverdue = async (item: DashboardItem) => {
+    if (!item.task) return;
+    if (!confirm(`Dismiss "${item.name}"? It will stop carrying over.`)) return;
+    
+    try {
+      await setCompletionStatus(item.task.id, selectedDate, 'skipped', 'Dismissed while overdue');
+    } catch (error) {
+      console.error('Error dismissing task:', error);
+      alert('Failed to update task. Please try again.');
+    }
+    await loadItems();
+  };
+
+  const handleUnacknowledge = async () => {
+    if (!selectedItem || selectedItem.type !== 'event' || !selectedItem.event) return;
+    
+    try {
+      await unacknowledgeEvent(selectedItem.event.id, selectedDate);
+    } catch (error) {
+      console.error('Error un-acknowledging event:', error);
+      alert('Failed to un-acknowledge event. Please try again.');
+    }
+    setSelectedItem(null);
+    await loadItems();
+  };
+
   const handleStartTimer = () => {
     if (selectedItem && selectedItem.type === 'task' && selectedItem.task) {
       setTimerTask(selectedItem.task);
@@ -675,20 +692,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
 
   const handleTimerComplete = async (durationMinutes: number) => {
     if (timerTask) {
-      await completeTask(timerTask.id, today, durationMinutes);
-      
-      // Check for dependent tasks
-      if (appData) {
-        const dependentTasks = appData.tasks.filter(t => 
-          t.dependentTaskIds && t.dependentTaskIds.includes(timerTask.id)
-        );
-        
-        for (const depTask of dependentTasks) {
-          if (shouldTaskShowToday(depTask)) {
-            await completeTask(depTask.id, today);
-          }
-        }
-      }
+      await completeTask(timerTask.id, selectedDate, durationMinutes); // Also auto-completes dependent tasks
     }
     
     setShowTimer(false);
@@ -702,17 +706,21 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
     setTimerTask(null);
   };
 
-  const handleMoveToNextDay = () => {
+  const handleMoveToNextDay = async () => {
     if (!selectedItem) return;
     
     // Only tasks can be moved to next day
     if (selectedItem.type === 'task' && selectedItem.task) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const tomorrowStr = formatDate(tomorrow);
-      moveTaskToNextDay(selectedItem.task.id, today, tomorrowStr);
+      const nextDay = new Date(selectedDate + 'T00:00:00');
+      nextDay.setDate(nextDay.getDate() + 1);
+      try {
+        await moveTaskToNextDay(selectedItem.task.id, selectedDate, formatDate(nextDay));
+      } catch (error) {
+        console.error('Error moving task to next day:', error);
+        alert('Failed to move task. Please try again.');
+      }
       setSelectedItem(null);
-      loadItems();
+      await loadItems();
     }
   };
 
@@ -802,7 +810,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
   };
 
   const formatDateLong = () => {
-    const date = new Date();
+    const date = getTodayDate();
     const options: Intl.DateTimeFormatOptions = { 
       weekday: 'long', 
       year: 'numeric', 
@@ -982,6 +990,98 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
         </div>
       </div>
 
+      {appData && (() => {
+        const activeVacations = appData.vacations.filter(v => isVacationActiveOn(v, selectedDate));
+        if (activeVacations.length === 0) return null;
+        const pausedCount = appData.tasks.filter(task => activeVacations.some(v => vacationAppliesTo(v, task))).length;
+        const lastDay = activeVacations.reduce((latest, v) => v.endDate > latest ? v.endDate : latest, selectedDate);
+        return (
+          <div style={{ background: '#e0f2fe', border: '2px solid #38bdf8', borderRadius: '12px', padding: '1rem', marginBottom: '1.5rem', textAlign: 'center' }}>
+            <p style={{ margin: 0, color: '#075985', fontWeight: 600 }}>
+              🏖️ {activeVacations.map(v => v.name || 'Vacation').join(', ')}: {pausedCount} task{pausedCount !== 1 ? 's' : ''} paused until {new Date(lastDay + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </p>
+          </div>
+        );
+      })()}
+
+      {!travelNoticeDismissed && isAwayFromHomeZone() && (
+        <div style={{ background: '#ede9fe', border: '2px solid #a78bfa', borderRadius: '12px', padding: '1rem', marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
+          <p style={{ margin: 0, flex: 1, color: '#5b21b6', fontWeight: 600 }}>
+            🧳 This device is on {getDeviceTimeZone().replace(/_/g, ' ')} time, but your days follow {getTimeZone().replace(/_/g, ' ')}.
+          </p>
+          <button
+            onClick={handleUseDeviceTimeZone}
+            style={{ padding: '0.5rem 0.75rem', background: '#7c3aed', color: 'white', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+          >
+            Switch to local time
+          </button>
+          <button
+            onClick={() => setTravelNoticeDismissed(true)}
+            style={{ padding: '0.5rem 0.75rem', background: 'white', color: '#5b21b6', border: '1px solid #a78bfa', borderRadius: '6px', cursor: 'pointer' }}
+          >
+            Keep {getTimeZone().replace(/_/g, ' ')}
+          </button>
+        </div>
+      )}
+
+      {appData && !resumeNoticeDismissed && selectedDate === today && (() => {
+        // Holds that ended since the last visit, not just today, so days away don't hide them
+        const resumedTasks = appData.tasks.filter(task => task.holdHistory?.some(p =>
+          p.resumedOn <= today && (p.resumedOn === today || (!!previousVisit && p.resumedOn > previousVisit))
+        ));
+        if (resumedTasks.length === 0) return null;
+        return (
+          <div style={{ background: '#dcfce7', border: '2px solid #22c55e', borderRadius: '12px', padding: '1rem', marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+            <p style={{ margin: 0, flex: 1, color: '#166534', fontWeight: 600 }}>
+              ▶️ Resumed since your last visit: {resumedTasks.map(task => task.name).join(', ')}
+            </p>
+            <button
+              onClick={() => setResumeNoticeDismissed(true)}
+              title="Dismiss"
+              style={{ background: 'none', border: 'none', color: '#166534', fontSize: '1.1rem', cursor: 'pointer' }}
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })()}
+
+      {overdueItems.length > 0 && (
+        <div className="overdue-section">
+          <h3 className="overdue-section-title">🕒 Overdue ({overdueItems.length})</h3>
+          {overdueItems.map(item => (
+            <div
+              key={item.id}
+              className="overdue-item"
+              onClick={() => handleItemClick(item)}
+              style={{ borderLeftColor: item.color || '#ef4444' }}
+            >
+              <div className="overdue-item-main">
+                <span className="overdue-item-name">{item.lockedBy && '🔒 '}{item.name}</span>
+                <span className="task-stat-badge missed-badge">
+                  <span className="badge-icon">⏰</span>
+                  <span className="badge-text">{describeDueIn(-item.overdueDays!)}</span>
+                </span>
+                {item.daysToDeadline !== undefined && (
+                  <span className={`task-stat-badge ${item.daysToDeadline < 0 ? 'missed-badge' : 'due-badge'}`}>
+                    <span className="badge-icon">{item.daysToDeadline < 0 ? '🚨' : '🎯'}</span>
+                    <span className="badge-text">{describeDeadline(item.daysToDeadline)}</span>
+                  </span>
+                )}
+              </div>
+              {item.task?.specificDate && (
+                <button
+                  className="overdue-dismiss"
+                  onClick={(e) => { e.stopPropagation(); handleDismissOverdue(item); }}
+                >
+                  Dismiss
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {isReorderMode && (
         <div className="reorder-instructions" style={{ background: '#eff6ff', border: '2px solid #3b82f6', borderRadius: '12px', padding: '1rem', marginBottom: '1.5rem', textAlign: 'center' }}>
           <p style={{ margin: 0, color: '#1e40af', fontWeight: 600 }}>
@@ -990,7 +1090,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
         </div>
       )}
 
-      {items.length === 0 ? (
+      {items.length === 0 && overdueItems.length === 0 ? (
         <div className="no-tasks">
           <h3>No tasks or events scheduled for today</h3>
           <p>Start by adding some tasks to track your daily goals</p>
@@ -998,12 +1098,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
             Add Tasks
           </button>
         </div>
-      ) : items.length === 0 ? (
-        <div className="no-tasks">
-          <h3>No tasks scheduled for today</h3>
-          <p>All items are events - check the Important Dates section above</p>
-        </div>
-      ) : (
+      ) : items.length === 0 ? null : (
         <>
 
           <div className={`tasks-grid layout-${dashboardLayout}`}>
@@ -1025,6 +1120,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
             const isCountBasedComplete = progress && progress.current >= progress.target;
             const taskStreak = item.type === 'task' ? getTaskStreak(item.id) : 0;
             const missedCount = item.type === 'task' ? getTaskMissedCount(item.id) : 0;
+            const spilloverCount = item.type === 'task' ? getTaskSpilloverCount30Days(item.id) : 0;
             
             // Get category icon for both tasks and events
             const getCategoryIcon = () => {
@@ -1082,7 +1178,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
             return (
               <div
                 key={item.id}
-                className={`task-card ${item.isCompleted || isCountBasedComplete ? 'completed' : ''} ${isReorderMode ? 'reorder-mode' : ''} ${priorityClass} ${extraClasses}`}
+                className={`task-card ${item.isCompleted || isCountBasedComplete ? 'completed' : ''} ${item.lockedBy ? 'locked' : ''} ${isReorderMode ? 'reorder-mode' : ''} ${priorityClass} ${extraClasses}`}
                 style={{
                   ...getItemStyle(item),
                   cursor: isReorderMode ? 'move' : 'pointer',
@@ -1164,7 +1260,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
                       {((item.type === 'event' && item.event && 
                          (item.event.frequency === 'yearly' || item.event.frequency === 'custom')) ||
                         (item.type === 'task' && item.task && 
-                         (['daily', 'weekly', 'monthly', 'count-based', 'interval'].includes(item.task.frequency) ||
+                         (['daily', 'weekly', 'monthly', 'count-based', 'interval', 'rrule'].includes(item.task.frequency) ||
                           (item.task.frequency === 'custom' && !item.task.specificDate)))) && (
                         <span style={{ fontSize: '0.7rem', marginLeft: '0.15rem' }} title="Recurring">🔄</span>
                       )}
@@ -1240,6 +1336,56 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
                       {item.category}
                     </div>
                   )}
+                  {item.type === 'task' && item.task && isQuantitative(item.task) && !isReorderMode && !item.lockedBy && (
+                    <div className="quantity-tracker" onClick={(e) => e.stopPropagation()}>
+                      <button
+                        className="quantity-btn"
+                        onClick={() => handleLogProgress(item, -1)}
+                        disabled={!item.loggedValue}
+                        title="Remove one"
+                      >
+                        −
+                      </button>
+                      <div className="quantity-progress">
+                        <div className="quantity-bar">
+                          <div
+                            className="quantity-fill"
+                            style={{ width: `${Math.min(100, ((item.loggedValue || 0) / item.task.targetValue!) * 100)}%` }}
+                          />
+                        </div>
+                        <span className="quantity-label">
+                          {item.loggedValue || 0} / {formatQuantity(item.task.targetValue!, item.task)}
+                        </span>
+                      </div>
+                      <button
+                        className="quantity-btn"
+                        onClick={() => handleLogProgress(item, 1)}
+                        title="Add one"
+                      >
+                        +
+                      </button>
+                    </div>
+                  )}
+                  {item.type === 'task' && item.task && hasChecklist(item.task) && (
+                    <div className="checklist-progress">
+                      <div className="quantity-bar">
+                        <div
+                          className="quantity-fill"
+                          style={{ width: `${((item.checkedItemIds?.length || 0) / item.task.checklist!.length) * 100}%` }}
+                        />
+                      </div>
+                      <span className="quantity-label">
+                        ☑️ {item.checkedItemIds?.length || 0} / {item.task.checklist!.length}
+                      </span>
+                    </div>
+                  )}
+                  {/* A half-ticked checklist already shows its progress */}
+                  {item.type === 'task' && item.status && !(item.status === 'partial' && item.checkedItemIds?.length) && (
+                    <div className={`task-status task-status-${item.status}`} title={item.statusReason}>
+                      {COMPLETION_STATUS_INFO[item.status].icon} {COMPLETION_STATUS_INFO[item.status].label}
+                      {item.statusReason && <span className="task-status-reason">: {item.statusReason}</span>}
+                    </div>
+                  )}
                   {progress && (
                     <div className="task-progress">
                       <span className={isCountBasedComplete ? 'progress-complete' : 'progress-pending'}>
@@ -1251,6 +1397,12 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
                   {/* Stats Badges (for both tasks and events) */}
                   <div className="task-stats">
                     {/* Task stats */}
+                    {item.type === 'task' && item.lockedBy && (
+                      <div className="task-stat-badge locked-badge" title="Click to do it anyway">
+                        <span className="badge-icon">🔒</span>
+                        <span className="badge-text">After {item.lockedBy.join(', ')}</span>
+                      </div>
+                    )}
                     {item.type === 'task' && taskStreak > 0 && (
                       <div className="task-stat-badge streak-badge">
                         <span className="badge-icon">🔥</span>
@@ -1263,6 +1415,32 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
                         <span className="badge-text">{missedCount} missed in last 7 days</span>
                       </div>
                     )}
+                    {item.type === 'task' && item.daysToDeadline !== undefined && !item.isCompleted && (
+                      <div className={`task-stat-badge ${item.daysToDeadline < 0 ? 'missed-badge' : 'due-badge'}`}>
+                        <span className="badge-icon">{item.daysToDeadline < 0 ? '🚨' : '🎯'}</span>
+                        <span className="badge-text">{describeDeadline(item.daysToDeadline)}</span>
+                      </div>
+                    )}
+                    {item.type === 'task' && item.daysUntilDue !== undefined && (
+                      <div className={`task-stat-badge ${item.daysUntilDue < 0 ? 'missed-badge' : 'due-badge'}`}>
+                        <span className="badge-icon">{item.daysUntilDue < 0 ? '⏰' : '🔁'}</span>
+                        <span className="badge-text">{describeDueIn(item.daysUntilDue)}</span>
+                      </div>
+                    )}
+                    {item.type === 'task' && item.movedFrom && (
+                      <div className="task-stat-badge spillover-badge">
+                        <span className="badge-icon">↪️</span>
+                        <span className="badge-text">
+                          Moved from {new Date(item.movedFrom + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        </span>
+                      </div>
+                    )}
+                    {item.type === 'task' && spilloverCount > 1 && (
+                      <div className="task-stat-badge spillover-badge">
+                        <span className="badge-icon">⏭️</span>
+                        <span className="badge-text">Moved {spilloverCount}x in last 30 days</span>
+                      </div>
+                    )}
                     {/* Event days until badge */}
                     {item.type === 'event' && item.daysUntil !== undefined && (
                       <div className={`task-stat-badge ${item.daysUntil === 0 ? 'event-today-badge' : 'event-upcoming-badge'}`}>
@@ -1291,8 +1469,16 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
           itemType={selectedItem.type}
           onComplete={handleComplete}
           onMoveToNextDay={handleMoveToNextDay}
+          isAcknowledged={selectedItem.type === 'event' && selectedItem.isCompleted}
+          onUnacknowledge={handleUnacknowledge}
           onCancel={handleCancel}
           onStartTimer={selectedItem.type === 'task' ? handleStartTimer : undefined}
+          status={selectedItem.status}
+          statusReason={selectedItem.statusReason}
+          onSetStatus={selectedItem.type === 'task' ? handleSetStatus : undefined}
+          checkedItemIds={selectedItem.checkedItemIds}
+          onToggleChecklistItem={selectedItem.type === 'task' ? handleToggleChecklistItem : undefined}
+          onChecklistChange={selectedItem.type === 'task' ? handleChecklistChange : undefined}
         />
       )}
 
@@ -1347,7 +1533,7 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
         <div className="modal-overlay" onClick={() => setShowBulkHoldModal(false)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ maxWidth: '500px' }}>
             <div className="modal-header" style={{ background: 'linear-gradient(135deg, #f97316 0%, #fb923c 100%)', color: 'white' }}>
-              <h2>⏸️ Bulk Hold/Unhold Tasks</h2>
+              <h2>⏸️ Hold Tasks & Vacations</h2>
               <button className="modal-close" onClick={() => setShowBulkHoldModal(false)} style={{ color: 'white' }}>×</button>
             </div>
             <div style={{ padding: '1.5rem' }}>
@@ -1356,6 +1542,19 @@ const TodayView: React.FC<TodayViewProps> = ({ onNavigate }) => {
               </p>
 
               <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {/* Scheduled Vacations Section */}
+                {appData && (
+                  <VacationPlanner
+                    tasks={appData.tasks}
+                    tags={appData.tags}
+                    vacations={appData.vacations}
+                    onChange={async () => {
+                      await loadItems();
+                      await calculateStreak();
+                    }}
+                  />
+                )}
+
                 {/* Hold All Tasks Section */}
                 <div style={{ padding: '1rem', background: '#fef3c7', borderRadius: '8px', border: '1px solid #fbbf24' }}>
                   <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.75rem', color: '#92400e' }}>
@@ -0,0 +1,222 @@
+/**
+ * Astronomy
+ *
+ * Low-precision positions of the sun and moon, new moons and sunrise, enough to
+ * place lunar calendar dates on the right day without a network lookup.
+ * Formulas follow Meeus, "Astronomical Algorithms" (2nd ed.): new moons are
+ * good to about a minute, sun and moon longitudes to a few hundredths of a
+ * degree for 1900-2100.
+ *
+ * Instants are Julian Days in Universal Time unless a name says otherwise.
+ */
+
+const DEG = Math.PI / 180;
+
+// Julian Day of 1970-01-01 00:00 UT, where dateMath day numbers start
+const UNIX_EPOCH_JD = 2440587.5;
+const J2000 = 2451545.0;
+
+export const MEAN_SYNODIC_MONTH = 29.530588861;
+
+const sin = (degrees: number): number => Math.sin(degrees * DEG);
+const cos = (degrees: number): number => Math.cos(degrees * DEG);
+
+export const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+// Signed difference a - b in (-180, 180]
+const angleDifference = (a: number, b: number): number => {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? diff - 360 : diff;
+};
+
+/**
+ * Terrestrial minus universal time in days. Polynomial fit for 2005-2050
+ * (Espenak & Meeus); a minute off either way doesn't move a calendar day.
+ */
+const deltaT = (jd: number): number => {
+  const t = (jd - J2000) / 365.25;
+  return (62.92 + 0.32217 * t + 0.005589 * t * t) / 86400;
+};
+
+// ===== DAYS =====
+
+// Calendar day (dateMath day number) an instant falls on at a UTC offset in hours
+export const toLocalDayNumber = (jd: number, utcOffsetHours: number): number => {
+  return Math.floor(jd + utcOffsetHours / 24 - UNIX_EPOCH_JD);
+};
+
+// Instant of local midnight starting a calendar day at a UTC offset in hours
+export const localMidnight = (dayNumber: number, utcOffsetHours: number): number => {
+  return dayNumber + UNIX_EPOCH_JD - utcOffsetHours / 24;
+};
+
+// ===== SUN =====
+
+/**
+ * Apparent geocentric longitude of the sun in degrees (Meeus ch. 25)
+ */
+export const sunLongitude = (jd: number): number => {
+  const T = (jd + deltaT(jd) - J2000) / 36525;
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = 357.52911 + 35999.05029 * T - 0.0001537 * T * T;
+  const C = (1.914602 - 0.004817 * T - 0.000014 * T * T) * sin(M)
+    + (0.019993 - 0.000101 * T) * sin(2 * M)
+    + 0.000289 * sin(3 * M);
+  const omega = 125.04 - 1934.136 * T;
+  return normalizeDegrees(L0 + C - 0.00569 - 0.00478 * sin(omega));
+};
+
+/**
+ * First instant at or after `jd` when the sun reaches a longitude
+ * (e.g. 270 for the December solstice)
+ */
+export const nextSolarLongitude = (jd: number, longitude: number): number => {
+  // The sun moves a little under a degree a day
+  let t = jd + normalizeDegrees(longitude - sunLongitude(jd)) / 0.9856;
+  for (let i = 0; i < 5; i++) {
+    t += angleDifference(longitude, sunLongitude(t)) / 0.9856;
+  }
+  return t;
+};
+
+/**
+ * Lahiri ayanamsa in degrees: how far the sidereal zodiac used by Hindu
+ * calendars trails the tropical one
+ */
+export const ayanamsa = (jd: number): number => {
+  return 23.853 + 1.3966 * (jd - J2000) / 36525;
+};
+
+// ===== MOON =====
+
+// Periodic terms of the moon's longitude: multiples of D, M, M', F and the coefficient (1e-6 degrees)
+const MOON_LONGITUDE_TERMS: Array<[number, number, number, number, number]> = [
+  [0, 0, 1, 0, 6288774], [2, 0, -1, 0, 1274027], [2, 0, 0, 0, 658314], [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116], [0, 0, 0, 2, -114332], [2, 0, -2, 0, 58793], [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322], [2, -1, 0, 0, 45758], [0, 1, -1, 0, -40923], [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383], [2, 0, 0, -2, 15327], [0, 0, 1, 2, -12528], [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675], [0, 0, 3, 0, 10034], [4, 0, -2, 0, 8548], [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766], [1, 0, -1, 0, -5163], [1, 1, 0, 0, 4987], [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994], [4, 0, 0, 0, 3861], [2, 0, -3, 0, 3665], [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602], [2, -1, -2, 0, 2390], [1, 0, 1, 0, -2348], [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120], [0, 2, 0, 0, -2069], [2, -2, -1, 0, 2048], [2, 0, 1, -2, -1773],
+  [2, 0, 0, 2, -1595], [4, -1, -1, 0, 1215], [0, 0, 2, 2, -1110], [3, 0, -1, 0, -892],
+  [2, 1, 1, 0, -810], [4, -1, -2, 0, 759], [0, 2, -1, 0, -713], [2, 2, -1, 0, -700],
+  [2, 1, -2, 0, 691], [2, -1, 0, -2, 596], [4, 0, 1, 0, 549], [0, 0, 4, 0, 537],
+  [4, -1, 0, 0, 520], [1, 0, -2, 0, -487]
+];
+
+/**
+ * Geocentric longitude of the moon in degrees (Meeus ch. 47, main terms)
+ */
+export const moonLongitude = (jd: number): number => {
+  const T = (jd + deltaT(jd) - J2000) / 36525;
+  const L = 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T;
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T * T;
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T * T;
+  const Mp = 134.9633964 + 477198.8675055 * T + 0.0087414 * T * T;
+  const F = 93.2720950 + 483202.0175233 * T - 0.0036539 * T * T;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+  let sum = 0;
+  for (const [d, m, mp, f, coefficient] of MOON_LONGITUDE_TERMS) {
+    // Terms involving the sun's anomaly shrink with the earth's orbital eccentricity
+    const eccentricity = Math.abs(m) === 2 ? E * E : Math.abs(m) === 1 ? E : 1;
+    sum += coefficient * eccentricity * sin(d * D + m * M + mp * Mp + f * F);
+  }
+
+  // Venus, Jupiter and the flattening of the earth
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.290 * T;
+  sum += 3958 * sin(A1) + 1962 * sin(L - F) + 318 * sin(A2);
+
+  return normalizeDegrees(L + sum / 1000000);
+};
+
+// How far the moon is ahead of the sun: 0 at new moon, 180 at full moon
+export const lunarPhase = (jd: number): number => {
+  return normalizeDegrees(moonLongitude(jd) - sunLongitude(jd));
+};
+
+/**
+ * First instant at or after `jd` when the moon is `phase` degrees ahead of the sun
+ */
+export const nextLunarPhase = (jd: number, phase: number): number => {
+  // The moon gains about 12.19 degrees a day on the sun
+  let t = jd + normalizeDegrees(phase - lunarPhase(jd)) / 12.19;
+  for (let i = 0; i < 5; i++) {
+    t += angleDifference(phase, lunarPhase(t)) / 12.19;
+  }
+  return t;
+};
+
+// ===== NEW MOONS =====
+
+/**
+ * Instant of the k-th new moon after the one of 2000-01-06 (Meeus ch. 49)
+ */
+const newMoon = (k: number): number => {
+  const T = k / 1236.85;
+  const jde = 2451550.09766 + MEAN_SYNODIC_MONTH * k
+    + 0.00015437 * T * T - 0.00000015 * T * T * T + 0.00000000073 * T * T * T * T;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const M = 2.5534 + 29.1053567 * k - 0.0000014 * T * T;
+  const Mp = 201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T * T * T;
+  const F = 160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T * T * T;
+  const omega = 124.7746 - 1.56375588 * k + 0.0020672 * T * T;
+
+  const correction =
+    -0.4072 * sin(Mp) + 0.17241 * E * sin(M) + 0.01608 * sin(2 * Mp) + 0.01039 * sin(2 * F)
+    + 0.00739 * E * sin(Mp - M) - 0.00514 * E * sin(Mp + M) + 0.00208 * E * E * sin(2 * M)
+    - 0.00111 * sin(Mp - 2 * F) - 0.00057 * sin(Mp + 2 * F) + 0.00056 * E * sin(2 * Mp + M)
+    - 0.00042 * sin(3 * Mp) + 0.00042 * E * sin(M + 2 * F) + 0.00038 * E * sin(M - 2 * F)
+    - 0.00024 * E * sin(2 * Mp - M) - 0.00017 * sin(omega) - 0.00007 * sin(Mp + 2 * M)
+    + 0.00004 * sin(2 * Mp - 2 * F) + 0.00004 * sin(3 * M) + 0.00003 * sin(Mp + M - 2 * F)
+    + 0.00003 * sin(2 * Mp + 2 * F) - 0.00003 * sin(Mp + M + 2 * F) + 0.00003 * sin(Mp - M + 2 * F)
+    - 0.00002 * sin(Mp - M - 2 * F) - 0.00002 * sin(3 * Mp + M) + 0.00002 * sin(4 * Mp)
+    + 0.000325 * sin(299.77 + 0.107408 * k - 0.009173 * T * T);
+
+  const jdeCorrected = jde + correction;
+  return jdeCorrected - deltaT(jdeCorrected);
+};
+
+// First new moon at or after an instant
+export const newMoonAtOrAfter = (jd: number): number => {
+  let k = Math.floor((jd - 2451550.09766) / MEAN_SYNODIC_MONTH) - 1;
+  while (newMoon(k) < jd) k++;
+  return newMoon(k);
+};
+
+// Last new moon before an instant
+export const newMoonBefore = (jd: number): number => {
+  let k = Math.ceil((jd - 2451550.09766) / MEAN_SYNODIC_MONTH) + 1;
+  while (newMoon(k) >= jd) k--;
+  return newMoon(k);
+};
+
+// ===== SUNRISE =====
+
+/**
+ * Instant of sunrise on a calendar day (local to the longitude) at a place.
+ * NOAA's approximation, good to a minute or two away from the poles.
+ */
+export const sunrise = (dayNumber: number, latitude: number, longitude: number): number => {
+  // Fraction of the year in radians, at local noon
+  const date = new Date(dayNumber * 86400000);
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const gamma = 2 * Math.PI / 365 * ((dayNumber * 86400000 - startOfYear) / 86400000);
+
+  const equationOfTime = 229.18 * (0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma)
+    - 0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma)); // Minutes
+  const declination = 0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma)
+    - 0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma)
+    - 0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma); // Radians
+
+  // The sun's upper edge on the horizon, allowing for refraction
+  const cosHourAngle = (Math.cos(90.833 * DEG) - Math.sin(latitude * DEG) * Math.sin(declination))
+    / (Math.cos(latitude * DEG) * Math.cos(declination));
+  const hourAngle = Math.acos(Math.max(-1, Math.min(1, cosHourAngle))) / DEG;
+
+  const minutesUtc = 720 - 4 * (longitude + hourAngle) - equationOfTime;
+  return dayNumber + UNIX_EPOCH_JD + minutesUtc / 1440;
+};
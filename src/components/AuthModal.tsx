@@ -1,18 +1,20 @@
 /**
  * Authentication Modal Component
  * 
- * Handles user sign-up and sign-in for Supabase
+ * Handles user sign-up and sign-in for Supabase,
+ * or continuing as a guest with local storage
  */
 
 import React, { useState } from 'react';
-import { signIn, signUp } from '../lib/supabase';
+import { signIn, signUp, isSupabaseConfigured } from '../lib/supabase';
 
 interface AuthModalProps {
   onClose: () => void;
   onSuccess: () => void;
+  onContinueAsGuest?: () => void;
 }
 
-const AuthModal: React.FC<AuthModalProps> = ({ onClose, onSuccess }) => {
+const AuthModal: React.FC<AuthModalProps> = ({ onClose, onSuccess, onContinueAsGuest }) => {
   const [mode, setMode] = useState<'signin' | 'signup' | 'reset'>('signin');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -346,6 +348,29 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onSuccess }) => {
               </>
             )}
           </div>
+
+          {onContinueAsGuest && (
+            <div style={{
+              marginTop: '1.5rem',
+              paddingTop: '1rem',
+              borderTop: '1px solid #e5e7eb',
+              textAlign: 'center'
+            }}>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={onContinueAsGuest}
+                style={{ width: '100%', padding: '0.75rem' }}
+              >
+                Continue as Guest
+              </button>
+              <small style={{ color: '#6b7280', marginTop: '0.5rem', display: 'block' }}>
+                {isSupabaseConfigured()
+                  ? 'Your data stays on this device and works offline.'
+                  : 'Cloud sync is not configured. Your data stays on this device.'}
+              </small>
+            </div>
+          )}
         </form>
       </div>
     </div>
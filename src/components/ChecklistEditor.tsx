@@ -0,0 +1,93 @@
+/**
+ * Checklist Editor Component
+ *
+ * Add, rename, reorder and remove a task's checklist items. Used in the task
+ * form and in the task action modal.
+ */
+
+import React, { useState } from 'react';
+import { ChecklistItem } from '../types';
+import { generateId } from '../utils';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.25rem 0.5rem',
+  background: '#e5e7eb',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '0.8rem'
+};
+
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ items, onChange }) => {
+  const [newTitle, setNewTitle] = useState('');
+
+  const addItem = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    onChange([...items, { id: generateId(), title }]);
+    setNewTitle('');
+  };
+
+  const renameItem = (id: string, title: string) => {
+    onChange(items.map(item => item.id === id ? { ...item, title } : item));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {items.map((item, index) => (
+        <div key={item.id} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+          <span style={{ color: '#9ca3af', fontSize: '0.8rem', width: '1.5rem', textAlign: 'right' }}>{index + 1}.</span>
+          <input
+            type="text"
+            value={item.title}
+            onChange={(e) => renameItem(item.id, e.target.value)}
+            style={{ flex: 1, padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px' }}
+          />
+          <button type="button" onClick={() => moveItem(index, -1)} disabled={index === 0} title="Move up" style={buttonStyle}>↑</button>
+          <button type="button" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} title="Move down" style={buttonStyle}>↓</button>
+          <button
+            type="button"
+            onClick={() => onChange(items.filter(i => i.id !== item.id))}
+            title="Remove"
+            style={{ ...buttonStyle, background: '#fee2e2', color: '#991b1b' }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '0.25rem' }}>
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault(); // Don't submit the surrounding form
+              addItem();
+            }
+          }}
+          placeholder="Add an item (e.g., Water bottle)"
+          style={{ flex: 1, padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px' }}
+        />
+        <button type="button" onClick={addItem} disabled={!newTitle.trim()} style={buttonStyle}>
+          + Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChecklistEditor;
@@ -84,7 +84,7 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
 
   useEffect(() => {
     if (isRunning && !isPaused) {
-      intervalRef.current = setInterval(() => {
+      intervalRef.current = window.setInterval(() => {
         if (mode === 'countdown') {
           setRemainingSeconds(prev => {
             if (prev <= 1) {
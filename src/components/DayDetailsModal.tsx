@@ -6,16 +6,21 @@
  */
 
 import React, { useState } from 'react';
-import { Task, Event } from '../types';
+import { Task, Event, TaskCompletion, CompletionStatus } from '../types';
 import { getTodayString } from '../utils';
+import { COMPLETION_STATUS_INFO } from '../taskProgress';
+import { getNextEventOccurrence } from '../eventOccurrences';
+import { daysBetween } from '../dateMath';
 
 interface DayDetailsModalProps {
   date: string; // YYYY-MM-DD format
   tasks: Task[];
   events: Event[];
   completedTaskIds: Set<string>;
+  completions?: TaskCompletion[]; // This date's completion rows (for partial/skipped/excused marks)
   onClose: () => void;
   onCompleteTask: (taskId: string) => void;
+  onSetTaskStatus?: (taskId: string, status: Exclude<CompletionStatus, 'done'> | null, reason?: string) => void; // null clears the mark
 }
 
 const DayDetailsModal: React.FC<DayDetailsModalProps> = ({
@@ -23,8 +28,10 @@ const DayDetailsModal: React.FC<DayDetailsModalProps> = ({
   tasks,
   events,
   completedTaskIds,
+  completions = [],
   onClose,
-  onCompleteTask
+  onCompleteTask,
+  onSetTaskStatus
 }) => {
   const [editMode, setEditMode] = useState(false); // Reset each time modal opens
   const dateObj = new Date(date + 'T00:00:00');
@@ -40,29 +47,10 @@ const DayDetailsModal: React.FC<DayDetailsModalProps> = ({
 
   // Calculate days until each event and filter to show advance reminders
   const getEventWithDaysUntil = (event: Event) => {
-    const selectedDateObj = new Date(date + 'T00:00:00');
-    const selectedYear = selectedDateObj.getFullYear();
-    const selectedMonth = selectedDateObj.getMonth() + 1;
-    const selectedDay = selectedDateObj.getDate();
-    
-    let eventDate: Date;
-    
-    if (event.frequency === 'yearly') {
-      // For yearly events, date is in MM-DD format
-      const [month, day] = event.date.split('-').map(Number);
-      eventDate = new Date(selectedYear, month - 1, day);
-      
-      // If event already passed this year, consider next year
-      if (eventDate < selectedDateObj) {
-        eventDate = new Date(selectedYear + 1, month - 1, day);
-      }
-    } else {
-      // For one-time events, date is in YYYY-MM-DD format
-      eventDate = new Date(event.date + 'T00:00:00');
-    }
-    
-    const diffTime = eventDate.getTime() - selectedDateObj.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    // Next occurrence on or after this day (Feb 29 falls on Feb 28 in non-leap years,
+    // custom events follow their repeat pattern)
+    const nextDate = getNextEventOccurrence(event, date);
+    const diffDays = nextDate ? daysBetween(date, nextDate) : -1;
     
     return {
       event,
@@ -71,6 +59,18 @@ const DayDetailsModal: React.FC<DayDetailsModalProps> = ({
     };
   };
 
+  const getTaskRecord = (taskId: string) => completions.find(c => c.taskId === taskId);
+
+  const handleStatusChange = (taskId: string, value: string) => {
+    if (!onSetTaskStatus) return;
+    if (!value) {
+      onSetTaskStatus(taskId, null);
+      return;
+    }
+    const reason = prompt('Reason (optional)') ?? undefined;
+    onSetTaskStatus(taskId, value as Exclude<CompletionStatus, 'done'>, reason);
+  };
+
   const eventsWithReminders = events.map(getEventWithDaysUntil);
   const todayEvents = eventsWithReminders.filter(e => e.daysUntil === 0);
   const upcomingReminders = eventsWithReminders.filter(e => e.showAsReminder);
@@ -319,53 +319,82 @@ const DayDetailsModal: React.FC<DayDetailsModalProps> = ({
                       📋 Pending ({incompleteTasks.length})
                     </h4>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                      {incompleteTasks.map((task) => (
-                        <div
-                          key={task.id}
-                          style={{
-                            background: 'linear-gradient(135deg, #f9fafb 0%, #f3f4f6 100%)',
-                            border: `2px solid ${task.color || '#667eea'}`,
-                            borderRadius: '12px',
-                            padding: '1rem',
-                            display: 'flex',
-                            alignItems: 'center',
-                            gap: '1rem'
-                          }}
-                        >
-                          {canEdit ? (
-                            <input
-                              type="checkbox"
-                              checked={false}
-                              onChange={() => onCompleteTask(task.id)}
-                              style={{
-                                width: '20px',
-                                height: '20px',
-                                cursor: 'pointer',
-                                flexShrink: 0
-                              }}
-                            />
-                          ) : (
-                            <span style={{ fontSize: '2rem', flexShrink: 0 }}>📋</span>
-                          )}
-                          <div style={{ flex: 1 }}>
-                            <div style={{ 
-                              fontWeight: 600, 
-                              color: '#1f2937',
-                              marginBottom: '0.25rem'
-                            }}>
-                              {task.name}
-                            </div>
-                            {task.description && (
+                      {incompleteTasks.map((task) => {
+                        const status = getTaskRecord(task.id)?.status;
+                        const reason = getTaskRecord(task.id)?.reason;
+                        return (
+                          <div
+                            key={task.id}
+                            style={{
+                              background: 'linear-gradient(135deg, #f9fafb 0%, #f3f4f6 100%)',
+                              border: `2px solid ${task.color || '#667eea'}`,
+                              borderRadius: '12px',
+                              padding: '1rem',
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: '1rem'
+                            }}
+                          >
+                            {canEdit ? (
+                              <input
+                                type="checkbox"
+                                checked={false}
+                                onChange={() => onCompleteTask(task.id)}
+                                style={{
+                                  width: '20px',
+                                  height: '20px',
+                                  cursor: 'pointer',
+                                  flexShrink: 0
+                                }}
+                              />
+                            ) : (
+                              <span style={{ fontSize: '2rem', flexShrink: 0 }}>📋</span>
+                            )}
+                            <div style={{ flex: 1 }}>
                               <div style={{ 
-                                fontSize: '0.875rem', 
-                                color: '#6b7280'
+                                fontWeight: 600, 
+                                color: '#1f2937',
+                                marginBottom: '0.25rem'
                               }}>
-                                {task.description}
+                                {task.name}
                               </div>
+                              {task.description && (
+                                <div style={{ 
+                                  fontSize: '0.875rem', 
+                                  color: '#6b7280'
+                                }}>
+                                  {task.description}
+                                </div>
+                              )}
+                              {status && !canEdit && (
+                                <div className={`task-status task-status-${status}`} style={{ display: 'inline-block' }}>
+                                  {COMPLETION_STATUS_INFO[status].icon} {COMPLETION_STATUS_INFO[status].label}
+                                  {reason && <span className="task-status-reason">: {reason}</span>}
+                                </div>
+                              )}
+                            </div>
+                            {canEdit && onSetTaskStatus && (
+                              <select
+                                value={status || ''}
+                                onChange={(e) => handleStatusChange(task.id, e.target.value)}
+                                title={reason}
+                                style={{
+                                  padding: '0.25rem 0.5rem',
+                                  border: '1px solid #d1d5db',
+                                  borderRadius: '6px',
+                                  fontSize: '0.85rem',
+                                  flexShrink: 0
+                                }}
+                              >
+                                <option value="">Missed</option>
+                                <option value="partial">{COMPLETION_STATUS_INFO.partial.icon} Partial</option>
+                                <option value="skipped">{COMPLETION_STATUS_INFO.skipped.icon} Skipped</option>
+                                <option value="excused">{COMPLETION_STATUS_INFO.excused.icon} Excused</option>
+                              </select>
                             )}
                           </div>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </div>
                 )}
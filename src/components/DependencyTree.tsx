@@ -0,0 +1,59 @@
+/**
+ * Dependency Tree
+ *
+ * Shows which tasks auto-complete a task (parents) and which tasks it
+ * auto-completes in turn (dependents), as nested lists.
+ */
+
+import React from 'react';
+import { Task } from '../types';
+import { buildDependencyTree, DependencyTreeNode } from '../dependencies';
+
+interface DependencyTreeProps {
+  taskId: string;
+  tasks: Task[];
+}
+
+const TreeBranch: React.FC<{ nodes: DependencyTreeNode[] }> = ({ nodes }) => (
+  <ul>
+    {nodes.map(node => (
+      <li key={node.task.id}>
+        <span className={node.isCycle ? 'dependency-cycle' : ''}>
+          {node.task.name}
+          {node.isCycle && ' ↻ cycle'}
+        </span>
+        {node.children.length > 0 && <TreeBranch nodes={node.children} />}
+      </li>
+    ))}
+  </ul>
+);
+
+const DependencyTree: React.FC<DependencyTreeProps> = ({ taskId, tasks }) => {
+  const dependents = buildDependencyTree(taskId, tasks, 'dependents');
+  const parents = buildDependencyTree(taskId, tasks, 'parents');
+
+  if (!dependents || !parents) return null;
+
+  if (dependents.children.length === 0 && parents.children.length === 0) {
+    return <div className="dependency-tree empty">No dependencies</div>;
+  }
+
+  return (
+    <div className="dependency-tree">
+      {parents.children.length > 0 && (
+        <div>
+          <strong>⬆️ Auto-completed by</strong>
+          <TreeBranch nodes={parents.children} />
+        </div>
+      )}
+      {dependents.children.length > 0 && (
+        <div>
+          <strong>⬇️ Completing it also completes</strong>
+          <TreeBranch nodes={dependents.children} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DependencyTree;
@@ -7,6 +7,8 @@
 import React, { useState, useEffect } from 'react';
 import { Item } from '../types';
 import { getItems, updateItem } from '../storage';
+import { getToday } from '../dateService';
+import { daysBetween } from '../dateMath';
 
 interface GiftCardsModalProps {
   onClose: () => void;
@@ -59,10 +61,8 @@ const GiftCardsModal: React.FC<GiftCardsModalProps> = ({ onClose }) => {
 
   const formatExpirationDate = (dateStr?: string): string => {
     if (!dateStr) return 'No expiration';
-    const date = new Date(dateStr);
-    const today = new Date();
-    const diffTime = date.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const date = new Date(dateStr + 'T00:00:00');
+    const diffDays = daysBetween(getToday(), dateStr);
     
     if (diffDays < 0) return `Expired ${Math.abs(diffDays)} days ago`;
     if (diffDays === 0) return 'Expires today!';
@@ -127,7 +127,7 @@ const GiftCardsModal: React.FC<GiftCardsModalProps> = ({ onClose }) => {
                 {card.expirationDate && (
                   <div className="giftcard-detail-item">
                     <span className="detail-label">Expires:</span>
-                    <span className={`detail-value ${new Date(card.expirationDate) < new Date() ? 'expired' : ''}`}>
+                    <span className={`detail-value ${card.expirationDate < getToday() ? 'expired' : ''}`}>
                       {formatExpirationDate(card.expirationDate)}
                     </span>
                   </div>
@@ -8,12 +8,18 @@
  * - Full year display
  * - User-selectable tasks to track
  * - Hover tooltips with details
+ * - Vacation days shown separately and left out of the stats
  */
 
 import React, { useState, useEffect } from 'react';
 import { Task, TaskCompletion } from '../types';
-import { getTasks, getTaskHistory } from '../storage';
+import { getTasks, getTaskHistory, getVacations } from '../storage';
 import { getTodayString } from '../utils';
+import { isCompletionDone } from '../taskProgress';
+import { isOnVacation } from '../vacations';
+import { getTodayDate } from '../dateService';
+
+const VACATION_COLOR = '#bae6fd';
 
 interface HabitTrackingGridProps {
   daysToShow?: number; // Default: 365 (full year)
@@ -26,6 +32,7 @@ interface DayData {
   totalTasks: number;
   isToday: boolean;
   isFuture: boolean;
+  isVacation?: boolean; // Every selected task was paused by a vacation
 }
 
 const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365 }) => {
@@ -68,14 +75,15 @@ const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365
 
   const calculateGridData = async () => {
     try {
-      const completions = await getTaskHistory();
+      const [completions, vacations] = await Promise.all([getTaskHistory(), getVacations()]);
+      const selectedTasks = tasks.filter(t => selectedTaskIds.includes(t.id));
       const today = getTodayString();
       const data: DayData[] = [];
 
       // Group completions by date and task
       const completionsByDate = new Map<string, Set<string>>();
       completions.forEach(c => {
-        if (selectedTaskIds.includes(c.taskId)) {
+        if (selectedTaskIds.includes(c.taskId) && isCompletionDone(c)) {
           if (!completionsByDate.has(c.date)) {
             completionsByDate.set(c.date, new Set());
           }
@@ -85,13 +93,15 @@ const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365
 
       // Generate data for each day
       for (let i = daysToShow - 1; i >= 0; i--) {
-        const date = new Date();
+        const date = getTodayDate();
         date.setDate(date.getDate() - i);
         const dateStr = getTodayString(date);
       
+      // Tasks paused by a vacation aren't expected that day
+      const activeTasks = selectedTasks.filter(task => !isOnVacation(task, dateStr, vacations));
       const completedTaskIds = completionsByDate.get(dateStr) || new Set();
-      const completedCount = completedTaskIds.size;
-      const totalTasks = selectedTaskIds.length;
+      const completedCount = activeTasks.filter(task => completedTaskIds.has(task.id)).length;
+      const totalTasks = activeTasks.length;
       const completionRate = totalTasks > 0 ? (completedCount / totalTasks) * 100 : 0;
 
       data.push({
@@ -100,7 +110,8 @@ const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365
         completedCount,
         totalTasks,
         isToday: dateStr === today,
-        isFuture: dateStr > today
+        isFuture: dateStr > today,
+        isVacation: selectedTasks.length > 0 && totalTasks === 0
       });
     }
 
@@ -207,11 +218,12 @@ const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365
   }
 
   const getStats = () => {
-    const totalDays = gridData.filter(d => !d.isFuture && d.date).length;
-    const perfectDays = gridData.filter(d => d.completionRate === 100 && !d.isFuture).length;
-    const activeDays = gridData.filter(d => d.completionRate > 0 && !d.isFuture).length;
+    const trackedDays = gridData.filter(d => !d.isFuture && d.date && !d.isVacation);
+    const totalDays = trackedDays.length;
+    const perfectDays = trackedDays.filter(d => d.completionRate === 100).length;
+    const activeDays = trackedDays.filter(d => d.completionRate > 0).length;
     const avgCompletion = totalDays > 0 
-      ? Math.round(gridData.reduce((sum, d) => sum + (d.isFuture ? 0 : d.completionRate), 0) / totalDays)
+      ? Math.round(trackedDays.reduce((sum, d) => sum + d.completionRate, 0) / totalDays)
       : 0;
 
     return { totalDays, perfectDays, activeDays, avgCompletion };
@@ -312,12 +324,12 @@ const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365
                       key={`${weekIndex}-${dayIndex}`}
                       className={`grid-day ${day.isToday ? 'today' : ''} ${!day.date ? 'empty' : ''}`}
                       style={{
-                        backgroundColor: day.date ? getColorIntensity(day.completionRate) : 'transparent',
+                        backgroundColor: !day.date ? 'transparent' : day.isVacation ? VACATION_COLOR : getColorIntensity(day.completionRate),
                         border: day.isToday ? '2px solid #1f2937' : '1px solid rgba(27, 31, 35, 0.06)'
                       }}
                       onMouseEnter={() => day.date && setHoveredDay(day)}
                       onMouseLeave={() => setHoveredDay(null)}
-                      title={day.date ? `${formatDateForTooltip(day.date)}: ${day.completedCount}/${day.totalTasks} (${Math.round(day.completionRate)}%)` : ''}
+                      title={!day.date ? '' : day.isVacation ? `${formatDateForTooltip(day.date)}: On vacation` : `${formatDateForTooltip(day.date)}: ${day.completedCount}/${day.totalTasks} (${Math.round(day.completionRate)}%)`}
                     />
                   ))}
                 </div>
@@ -334,16 +346,24 @@ const HabitTrackingGrid: React.FC<HabitTrackingGridProps> = ({ daysToShow = 365
             <div className="legend-box" style={{ backgroundColor: '#30a14e' }} />
             <div className="legend-box" style={{ backgroundColor: '#216e39' }} />
             <span>More</span>
+            <div className="legend-box" style={{ backgroundColor: VACATION_COLOR, marginLeft: '0.75rem' }} />
+            <span>Vacation</span>
           </div>
 
           {/* Tooltip */}
           {hoveredDay && (
             <div className="habit-tooltip">
               <div className="tooltip-date">{formatDateForTooltip(hoveredDay.date)}</div>
-              <div className="tooltip-stats">
-                {hoveredDay.completedCount} of {hoveredDay.totalTasks} tasks completed
-              </div>
-              <div className="tooltip-percentage">{Math.round(hoveredDay.completionRate)}% completion rate</div>
+              {hoveredDay.isVacation ? (
+                <div className="tooltip-stats">🏖️ On vacation</div>
+              ) : (
+                <>
+                  <div className="tooltip-stats">
+                    {hoveredDay.completedCount} of {hoveredDay.totalTasks} tasks completed
+                  </div>
+                  <div className="tooltip-percentage">{Math.round(hoveredDay.completionRate)}% completion rate</div>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,135 @@
+/**
+ * Import Review Modal Component
+ *
+ * Shows what an event import would do before anything is written: counts of
+ * new/updated/unchanged/duplicate events and a row per event to accept or skip.
+ */
+
+import React, { useState } from 'react';
+import {
+  ImportRow,
+  ImportRowStatus,
+  IMPORT_STATUS_INFO,
+  canAcceptRow,
+  isAcceptedByDefault,
+  countImportRows
+} from '../services/eventImport';
+
+interface ImportReviewModalProps {
+  title: string; // e.g. "Import Calendar"
+  sourceName?: string; // File name, shown under the title
+  rows: ImportRow[];
+  isSaving?: boolean;
+  onConfirm: (acceptedRows: ImportRow[]) => void;
+  onCancel: () => void;
+}
+
+const STATUS_ORDER: ImportRowStatus[] = ['new', 'updated', 'duplicate', 'unchanged'];
+
+const ImportReviewModal: React.FC<ImportReviewModalProps> = ({ title, sourceName, rows, isSaving, onConfirm, onCancel }) => {
+  const [acceptedKeys, setAcceptedKeys] = useState<Set<string>>(
+    () => new Set(rows.filter(isAcceptedByDefault).map(row => row.key))
+  );
+  const counts = countImportRows(rows);
+  const sortedRows = [...rows].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  const acceptedRows = rows.filter(row => acceptedKeys.has(row.key) && canAcceptRow(row));
+
+  const toggleRow = (key: string) => {
+    const next = new Set(acceptedKeys);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setAcceptedKeys(next);
+  };
+
+  const describeRow = (row: ImportRow): string => {
+    switch (row.status) {
+      case 'updated':
+        return `Changes: ${row.changedFields.join(', ')}`;
+      case 'duplicate':
+        return row.existing
+          ? `Looks like "${row.existing.name}" - accept to link them${row.changedFields.length > 0 ? ` and update ${row.changedFields.join(', ')}` : ''}`
+          : 'Appears earlier in this file';
+      case 'unchanged':
+        return 'Already up to date';
+      default:
+        return row.event.category || '';
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content import-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>🔍 {title}</h2>
+          <button className="modal-close" onClick={onCancel}>×</button>
+        </div>
+        <div style={{ padding: '1.5rem' }}>
+          <div className="restore-preview">
+            <h4>Review (nothing has been written yet)</h4>
+            {sourceName && <small>{sourceName}</small>}
+            <table>
+              <thead>
+                <tr>
+                  {STATUS_ORDER.map(status => (
+                    <th key={status}>{IMPORT_STATUS_INFO[status].icon} {IMPORT_STATUS_INFO[status].label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  {STATUS_ORDER.map(status => <td key={status}>{counts[status]}</td>)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="import-review-rows">
+            {sortedRows.map(row => {
+              const canAccept = canAcceptRow(row);
+              return (
+                <label key={row.key} className={`import-review-row import-review-${row.status}`}>
+                  <input
+                    type="checkbox"
+                    checked={canAccept && acceptedKeys.has(row.key)}
+                    disabled={!canAccept}
+                    onChange={() => toggleRow(row.key)}
+                  />
+                  <div className="import-review-details">
+                    <div>
+                      <strong>{row.event.name}</strong>
+                      <span className="import-review-date">
+                        {row.event.date}{row.event.frequency === 'custom' && row.event.customFrequency ? ` · ${row.event.customFrequency}` : ''}
+                      </span>
+                    </div>
+                    <small>{describeRow(row)}</small>
+                  </div>
+                  <span className="import-review-status">
+                    {IMPORT_STATUS_INFO[row.status].icon} {IMPORT_STATUS_INFO[row.status].label}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="form-actions">
+            <button
+              onClick={() => onConfirm(acceptedRows)}
+              className="btn-primary"
+              disabled={isSaving || acceptedRows.length === 0}
+            >
+              {isSaving ? 'Importing...' : `Import ${acceptedRows.length} event${acceptedRows.length === 1 ? '' : 's'}`}
+            </button>
+            <button onClick={onCancel} className="btn-secondary" disabled={isSaving}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReviewModal;
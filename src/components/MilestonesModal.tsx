@@ -7,6 +7,9 @@
 import React, { useState, useEffect } from 'react';
 import { Task, Event, Tag } from '../types';
 import { getTasks, getEvents, getTags } from '../storage';
+import { getTodayDate, getToday } from '../dateService';
+import { getEventLunarDate, getNextEventOccurrence } from '../eventOccurrences';
+import { daysBetween } from '../dateMath';
 
 interface MilestonesModalProps {
   onClose: () => void;
@@ -59,22 +62,22 @@ const MilestonesModal: React.FC<MilestonesModalProps> = ({ onClose }) => {
           // Determine date based on task type
           if (task.specificDate) {
             dateStr = task.specificDate;
-            const date = new Date(task.specificDate);
-            const today = new Date();
+            const date = new Date(task.specificDate + 'T00:00:00');
+            const today = getTodayDate();
             today.setHours(0, 0, 0, 0);
             date.setHours(0, 0, 0, 0);
             daysRemaining = Math.ceil((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
           } else if (task.endDate) {
             dateStr = task.endDate;
-            const date = new Date(task.endDate);
-            const today = new Date();
+            const date = new Date(task.endDate + 'T00:00:00');
+            const today = getTodayDate();
             today.setHours(0, 0, 0, 0);
             date.setHours(0, 0, 0, 0);
             daysRemaining = Math.ceil((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
           } else if (task.startDate) {
             dateStr = task.startDate;
-            const date = new Date(task.startDate);
-            const today = new Date();
+            const date = new Date(task.startDate + 'T00:00:00');
+            const today = getTodayDate();
             today.setHours(0, 0, 0, 0);
             date.setHours(0, 0, 0, 0);
             daysRemaining = Math.ceil((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
@@ -101,7 +104,12 @@ const MilestonesModal: React.FC<MilestonesModalProps> = ({ onClose }) => {
           let daysRemaining = 0;
 
           // Parse event date (MM-DD for yearly, YYYY-MM-DD for one-time)
-          if (event.frequency === 'yearly') {
+          const lunarDate = getEventLunarDate(event) ? getNextEventOccurrence(event, getToday(), 400) : null;
+          if (lunarDate) {
+            // Lunar calendar dates move each year
+            dateStr = lunarDate;
+            daysRemaining = daysBetween(getToday(), lunarDate);
+          } else if (event.frequency === 'yearly') {
             // For yearly events, use this year's date
             const dateParts = event.date.split('-');
             let month: string, day: string;
@@ -116,7 +124,7 @@ const MilestonesModal: React.FC<MilestonesModalProps> = ({ onClose }) => {
               return; // Invalid date format
             }
             
-            const today = new Date();
+            const today = getTodayDate();
             const currentYear = today.getFullYear();
             const eventDate = new Date(currentYear, parseInt(month) - 1, parseInt(day));
             
@@ -135,8 +143,8 @@ const MilestonesModal: React.FC<MilestonesModalProps> = ({ onClose }) => {
           } else {
             // One-time event
             dateStr = event.date;
-            const date = new Date(event.date);
-            const today = new Date();
+            const date = new Date(event.date + 'T00:00:00');
+            const today = getTodayDate();
             today.setHours(0, 0, 0, 0);
             date.setHours(0, 0, 0, 0);
             daysRemaining = Math.ceil((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
@@ -10,9 +10,11 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { Task, TaskCompletion } from '../types';
-import { getTasks, getTaskHistory } from '../storage';
+import { getTasks, getTaskHistory, getVacations } from '../storage';
 import { getTodayString } from '../utils';
+import { isCompletionDone } from '../taskProgress';
+import { getStreaks } from '../streaks';
+import { getTodayDate } from '../dateService';
 
 interface MotivationalSectionProps {
   collapsed?: boolean;
@@ -58,21 +60,21 @@ const MotivationalSection: React.FC<MotivationalSectionProps> = ({ collapsed = f
 
   const calculateStats = async () => {
     try {
-      const tasks = await getTasks();
-      const completions = await getTaskHistory();
+      const [tasks, history, vacations] = await Promise.all([getTasks(), getTaskHistory(), getVacations()]);
+      const completions = history.filter(isCompletionDone);
       
       if (tasks.length === 0 || completions.length === 0) {
         return;
       }
 
-    // Calculate streaks
-    const { currentStreak, longestStreak, perfectDays } = calculateStreaks(tasks, completions);
+    // Calculate streaks (partial, skipped and excused days keep them; vacation days are passed over)
+    const { currentStreak, longestStreak, perfectDays } = getStreaks(tasks, history, vacations, getTodayString());
     
     // Total completions
     const totalCompletions = completions.length;
     
     // Completion rate (last 30 days)
-    const thirtyDaysAgo = new Date();
+    const thirtyDaysAgo = getTodayDate();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     const thirtyDaysAgoStr = getTodayString(thirtyDaysAgo);
     
@@ -98,67 +100,6 @@ const MotivationalSection: React.FC<MotivationalSectionProps> = ({ collapsed = f
     }
   };
 
-  const calculateStreaks = (tasks: Task[], completions: TaskCompletion[]) => {
-    // Group completions by date
-    const completionsByDate = new Map<string, Set<string>>();
-    completions.forEach(c => {
-      const date = c.completedAt;
-      if (!completionsByDate.has(date)) {
-        completionsByDate.set(date, new Set());
-      }
-      completionsByDate.get(date)!.add(c.taskId);
-    });
-
-    // Sort dates
-    const dates = Array.from(completionsByDate.keys()).sort();
-    
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-    let perfectDays = 0;
-    
-    const today = getTodayString();
-    
-    // Calculate streaks backwards from today
-    for (let i = 0; i < 365; i++) {
-      const checkDate = new Date();
-      checkDate.setDate(checkDate.getDate() - i);
-      const dateStr = getTodayString(checkDate);
-      
-      const completedTaskIds = completionsByDate.get(dateStr);
-      
-      if (completedTaskIds && completedTaskIds.size > 0) {
-        tempStreak++;
-        
-        // Check if it's a perfect day (all tasks completed)
-        const tasksForDay = tasks.filter(t => {
-          // Simple check - in real app, check if task was due that day
-          return true;
-        });
-        
-        if (completedTaskIds.size >= tasksForDay.length && tasksForDay.length > 0) {
-          perfectDays++;
-        }
-        
-        if (i === 0 || tempStreak === currentStreak + 1) {
-          currentStreak = tempStreak;
-        }
-        
-        longestStreak = Math.max(longestStreak, tempStreak);
-      } else {
-        if (i === 0) {
-          // Today has no completions yet, check yesterday
-          continue;
-        } else {
-          // Streak broken
-          tempStreak = 0;
-        }
-      }
-    }
-    
-    return { currentStreak, longestStreak, perfectDays };
-  };
-
   const calculateBadges = (
     currentStreak: number, 
     longestStreak: number, 
@@ -189,7 +130,7 @@ const MotivationalSection: React.FC<MotivationalSectionProps> = ({ collapsed = f
   };
 
   const getDailyQuote = () => {
-    const today = new Date();
+    const today = getTodayDate();
     const dayOfYear = Math.floor((today.getTime() - new Date(today.getFullYear(), 0, 0).getTime()) / 86400000);
     const quoteIndex = dayOfYear % MOTIVATIONAL_QUOTES.length;
     return MOTIVATIONAL_QUOTES[quoteIndex];
@@ -9,8 +9,12 @@
 
 import React, { useState, useEffect } from 'react';
 import { Task, TaskCompletion } from '../types';
-import { getTasks, getTaskHistory } from '../storage';
+import { getTasks, getTaskHistory, getVacations } from '../storage';
 import { getTodayString } from '../utils';
+import { isCompletionDone } from '../taskProgress';
+import { getStreaks } from '../streaks';
+import { addDays } from '../dateMath';
+import { getTodayDate } from '../dateService';
 
 interface ProgressAndReviewModalProps {
   isOpen: boolean;
@@ -70,73 +74,16 @@ const ProgressAndReviewModal: React.FC<ProgressAndReviewModalProps> = ({ isOpen,
 
   const loadStats = async () => {
     try {
-      const completions = await getTaskHistory();
-      
-      // Calculate current streak
-      const sortedDates = [...new Set(completions.map(c => c.date))].sort().reverse();
-      let streak = 0;
+      const [tasks, history, vacations] = await Promise.all([getTasks(), getTaskHistory(), getVacations()]);
+      const completions = history.filter(isCompletionDone);
       const today = getTodayString();
-      
-      for (let i = 0; i < sortedDates.length; i++) {
-        const expectedDate = new Date();
-        expectedDate.setDate(expectedDate.getDate() - i);
-        const expectedDateStr = getTodayString(expectedDate);
-        
-        if (sortedDates[i] === expectedDateStr) {
-          streak++;
-        } else {
-          break;
-        }
-      }
 
-      // Calculate longest streak
-      let longestStreak = 0;
-      let tempStreak = 0;
-      let prevDate: Date | null = null;
-      
-      sortedDates.forEach(dateStr => {
-        const currentDate = new Date(dateStr);
-        if (prevDate) {
-          const diffDays = Math.floor((prevDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-          if (diffDays === 1) {
-            tempStreak++;
-          } else {
-            longestStreak = Math.max(longestStreak, tempStreak);
-            tempStreak = 1;
-          }
-        } else {
-          tempStreak = 1;
-        }
-        prevDate = currentDate;
-      });
-      longestStreak = Math.max(longestStreak, tempStreak);
-
-      // Calculate perfect days (all tasks completed)
-      const tasks = await getTasks();
-      const completionsByDate = new Map<string, Set<string>>();
-      completions.forEach(c => {
-        if (!completionsByDate.has(c.date)) {
-          completionsByDate.set(c.date, new Set());
-        }
-        completionsByDate.get(c.date)!.add(c.taskId);
-      });
-
-      let perfectDays = 0;
-      completionsByDate.forEach((taskIds, date) => {
-        if (taskIds.size >= tasks.length && tasks.length > 0) {
-          perfectDays++;
-        }
-      });
+      // Partial, skipped and excused days keep a streak without extending it; vacation days are passed over
+      const { currentStreak: streak, longestStreak, perfectDays } = getStreaks(tasks, history, vacations, today);
 
       // Calculate last 7 and 30 days
-      const today_date = new Date();
-      const last7Date = new Date();
-      last7Date.setDate(today_date.getDate() - 7);
-      const last30Date = new Date();
-      last30Date.setDate(today_date.getDate() - 30);
-
-      const last7DaysCompletions = completions.filter(c => new Date(c.date) >= last7Date).length;
-      const last30DaysCompletions = completions.filter(c => new Date(c.date) >= last30Date).length;
+      const last7DaysCompletions = completions.filter(c => c.date >= addDays(today, -7)).length;
+      const last30DaysCompletions = completions.filter(c => c.date >= addDays(today, -30)).length;
 
       setStats({
         currentStreak: streak,
@@ -154,14 +101,14 @@ const ProgressAndReviewModal: React.FC<ProgressAndReviewModalProps> = ({ isOpen,
   const calculateReviewData = async () => {
     try {
       const tasks = await getTasks();
-      const completions = await getTaskHistory();
+      const completions = (await getTaskHistory()).filter(isCompletionDone);
       
       if (tasks.length === 0) {
         return;
       }
 
-      const today = new Date();
-      const startDate = new Date();
+      const today = getTodayDate();
+      const startDate = getTodayDate();
       if (reviewPeriod === 'week') {
         startDate.setDate(today.getDate() - 7);
       } else {
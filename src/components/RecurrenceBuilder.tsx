@@ -0,0 +1,401 @@
+/**
+ * Recurrence Builder
+ *
+ * Edits an RRULE (plus skipped dates) for a task with point-and-click controls,
+ * a raw rule field for anything the controls don't cover, and a preview of
+ * the next ten dates.
+ */
+
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { parseRRule, formatRRule, describeRRule, validateRRule, RRule, RRuleFrequency, RRuleWeekday } from '../rrule';
+import { nextOccurrences } from '../recurrence';
+import { getTodayString } from '../utils';
+
+interface RecurrenceBuilderProps {
+  rrule: string;
+  exDates: string[];
+  startDate: string; // DTSTART (YYYY-MM-DD)
+  endDate?: string;
+  onChange: (rrule: string, exDates: string[]) => void;
+}
+
+type DayMode = 'start' | 'monthDays' | 'weekdays';
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ordinals: { value: number; label: string }[] = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' }
+];
+const frequencyUnits: Record<RRuleFrequency, string> = { DAILY: 'day(s)', WEEKLY: 'week(s)', MONTHLY: 'month(s)', YEARLY: 'year(s)' };
+
+const presets: { label: string; rule: string }[] = [
+  { label: 'Weekdays', rule: 'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: 'Last Friday of the month', rule: 'FREQ=MONTHLY;BYDAY=-1FR' },
+  { label: '2nd & 4th Tuesday', rule: 'FREQ=MONTHLY;BYDAY=2TU,4TU' },
+  { label: 'Last weekday of the month', rule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' }
+];
+
+const toggle = <T,>(list: T[], value: T): T[] => {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+};
+
+const RecurrenceBuilder: React.FC<RecurrenceBuilderProps> = ({ rrule, exDates, startDate, endDate, onChange }) => {
+  const [newExDate, setNewExDate] = useState('');
+
+  const error = validateRRule(rrule);
+  const rule: RRule | null = error ? null : parseRRule(rrule);
+
+  const updateRule = (changes: Partial<RRule>) => {
+    if (!rule) return;
+    onChange(formatRRule({ ...rule, ...changes }), exDates);
+  };
+
+  // Controls ----------------------------------------------------------------
+
+  const dayMode: DayMode = rule?.byMonthDay?.length ? 'monthDays' : rule?.byDay?.length ? 'weekdays' : 'start';
+  const selectedWeekdays = [...new Set((rule?.byDay || []).map(d => d.weekday))];
+  const selectedOrdinals = [...new Set((rule?.byDay || []).filter(d => d.ordinal).map(d => d.ordinal!))];
+
+  // BYDAY is every selected ordinal × every selected weekday (no ordinal = every such weekday)
+  const buildByDay = (days: number[], nths: number[]): RRuleWeekday[] | undefined => {
+    if (days.length === 0) return undefined;
+    const sortedDays = [...days].sort((a, b) => a - b);
+    if (nths.length === 0) return sortedDays.map(weekday => ({ weekday }));
+    return [...nths].sort((a, b) => (a < 0 ? 99 : a) - (b < 0 ? 99 : b))
+      .flatMap(ordinal => sortedDays.map(weekday => ({ weekday, ordinal })));
+  };
+
+  const handleFrequencyChange = (freq: RRuleFrequency) => {
+    if (!rule) return;
+    // Ordinals and month filters only make sense for some frequencies
+    onChange(formatRRule({
+      ...rule,
+      freq,
+      byDay: freq === 'DAILY' || freq === 'WEEKLY' ? rule.byDay?.map(d => ({ weekday: d.weekday })) : rule.byDay,
+      byMonth: freq === 'YEARLY' ? rule.byMonth : undefined,
+      bySetPos: freq === 'MONTHLY' || freq === 'YEARLY' ? rule.bySetPos : undefined
+    }), exDates);
+  };
+
+  const handleDayModeChange = (mode: DayMode) => {
+    updateRule({
+      byMonthDay: mode === 'monthDays' ? [parseInt(startDate.slice(8, 10)) || 1] : undefined,
+      byDay: mode === 'weekdays' ? [{ weekday: new Date(startDate + 'T00:00:00').getDay(), ordinal: 1 }] : undefined,
+      bySetPos: undefined
+    });
+  };
+
+  const handleEndChange = (mode: 'never' | 'count' | 'until') => {
+    updateRule({
+      count: mode === 'count' ? rule?.count || 10 : undefined,
+      until: mode === 'until' ? rule?.until || endDate || startDate : undefined
+    });
+  };
+
+  const handleAddExDate = () => {
+    if (!newExDate || exDates.includes(newExDate)) return;
+    onChange(rrule, [...exDates, newExDate].sort());
+    setNewExDate('');
+  };
+
+  // Preview -----------------------------------------------------------------
+
+  const today = getTodayString();
+  const previewTask: Task = {
+    id: 'preview',
+    name: '',
+    weightage: 1,
+    frequency: 'rrule',
+    rrule,
+    exDates,
+    startDate,
+    endDate: endDate || undefined,
+    createdAt: new Date().toISOString()
+  };
+  const preview = rule ? nextOccurrences(previewTask, startDate > today ? startDate : today, 10) : [];
+
+  const endMode = rule?.count ? 'count' : rule?.until ? 'until' : 'never';
+
+  return (
+    <div style={{
+      marginTop: '1rem',
+      padding: '1rem',
+      background: 'linear-gradient(135deg, #34d39920 0%, #14b8a620 100%)',
+      borderRadius: '8px',
+      border: '1px solid #14b8a640'
+    }}>
+      <h4 style={{ margin: '0 0 1rem 0', fontSize: '1rem', color: '#0f766e' }}>
+        🔁 Recurrence Rule
+      </h4>
+
+      <div className="form-group">
+        <label>Quick Presets</label>
+        <div className="weekday-selector">
+          {presets.map(preset => (
+            <button
+              key={preset.rule}
+              type="button"
+              className={`weekday-btn ${rrule === preset.rule ? 'selected' : ''}`}
+              onClick={() => onChange(preset.rule, exDates)}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rule && (
+        <>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Repeat Every *</label>
+              <input
+                type="number"
+                min="1"
+                max="999"
+                value={rule.interval}
+                onChange={(e) => updateRule({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="form-group">
+              <label>Unit *</label>
+              <select value={rule.freq} onChange={(e) => handleFrequencyChange(e.target.value as RRuleFrequency)}>
+                {(Object.keys(frequencyUnits) as RRuleFrequency[]).map(freq => (
+                  <option key={freq} value={freq}>{frequencyUnits[freq]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {(rule.freq === 'DAILY' || rule.freq === 'WEEKLY') && (
+            <div className="form-group">
+              <label>{rule.freq === 'DAILY' ? 'Only On (optional)' : 'On Days'}</label>
+              <div className="weekday-selector">
+                {weekdays.map((day, index) => (
+                  <button
+                    key={day}
+                    type="button"
+                    className={`weekday-btn ${selectedWeekdays.includes(index) ? 'selected' : ''}`}
+                    onClick={() => updateRule({ byDay: buildByDay(toggle(selectedWeekdays, index), []) })}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {rule.freq === 'YEARLY' && (
+            <div className="form-group">
+              <label>In Months (optional)</label>
+              <div className="weekday-selector">
+                {months.map((month, index) => (
+                  <button
+                    key={month}
+                    type="button"
+                    className={`weekday-btn ${rule.byMonth?.includes(index + 1) ? 'selected' : ''}`}
+                    onClick={() => {
+                      const byMonth = toggle(rule.byMonth || [], index + 1).sort((a, b) => a - b);
+                      updateRule({ byMonth: byMonth.length > 0 ? byMonth : undefined });
+                    }}
+                  >
+                    {month}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && (
+            <>
+              <div className="form-group">
+                <label>On</label>
+                <select value={dayMode} onChange={(e) => handleDayModeChange(e.target.value as DayMode)}>
+                  <option value="start">Same day as the start date</option>
+                  <option value="monthDays">Days of the month (e.g. 1st, 15th, last)</option>
+                  <option value="weekdays">Weekdays (e.g. 2nd Tuesday, last Friday)</option>
+                </select>
+              </div>
+
+              {dayMode === 'monthDays' && (
+                <div className="form-group">
+                  <label>Days of the Month</label>
+                  <div className="weekday-selector">
+                    {[...Array.from({ length: 31 }, (_, i) => i + 1), -1].map(day => (
+                      <button
+                        key={day}
+                        type="button"
+                        className={`weekday-btn ${rule.byMonthDay?.includes(day) ? 'selected' : ''}`}
+                        onClick={() => {
+                          const byMonthDay = toggle(rule.byMonthDay || [], day);
+                          updateRule({ byMonthDay: byMonthDay.length > 0 ? byMonthDay.sort((a, b) => (a < 0 ? 99 : a) - (b < 0 ? 99 : b)) : undefined });
+                        }}
+                      >
+                        {day === -1 ? 'Last' : day}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {dayMode === 'weekdays' && (
+                <>
+                  <div className="form-group">
+                    <label>Which (none selected = every)</label>
+                    <div className="weekday-selector">
+                      {ordinals.map(ordinal => (
+                        <button
+                          key={ordinal.value}
+                          type="button"
+                          className={`weekday-btn ${selectedOrdinals.includes(ordinal.value) ? 'selected' : ''}`}
+                          onClick={() => updateRule({ byDay: buildByDay(selectedWeekdays, toggle(selectedOrdinals, ordinal.value)) })}
+                        >
+                          {ordinal.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="form-group">
+                    <label>Weekdays</label>
+                    <div className="weekday-selector">
+                      {weekdays.map((day, index) => (
+                        <button
+                          key={day}
+                          type="button"
+                          className={`weekday-btn ${selectedWeekdays.includes(index) ? 'selected' : ''}`}
+                          onClick={() => updateRule({ byDay: buildByDay(toggle(selectedWeekdays, index), selectedOrdinals) })}
+                        >
+                          {day}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {dayMode !== 'start' && (
+                <div className="form-group">
+                  <label>Of Those, Keep</label>
+                  <select
+                    value={rule.bySetPos?.length === 1 ? rule.bySetPos[0] : 0}
+                    onChange={(e) => {
+                      const position = parseInt(e.target.value);
+                      updateRule({ bySetPos: position ? [position] : undefined });
+                    }}
+                  >
+                    <option value={0}>All matches</option>
+                    {ordinals.map(ordinal => (
+                      <option key={ordinal.value} value={ordinal.value}>Only the {ordinal.label.toLowerCase()} match</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>Ends</label>
+              <select value={endMode} onChange={(e) => handleEndChange(e.target.value as 'never' | 'count' | 'until')}>
+                <option value="never">Never</option>
+                <option value="count">After a number of times</option>
+                <option value="until">On a date</option>
+              </select>
+            </div>
+            {endMode === 'count' && (
+              <div className="form-group">
+                <label>Occurrences</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={rule.count}
+                  onChange={(e) => updateRule({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                />
+              </div>
+            )}
+            {endMode === 'until' && (
+              <div className="form-group">
+                <label>Last Date</label>
+                <input
+                  type="date"
+                  value={rule.until}
+                  onChange={(e) => e.target.value && updateRule({ until: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="form-group">
+        <label>Skip Dates (holidays, exceptions)</label>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input type="date" value={newExDate} onChange={(e) => setNewExDate(e.target.value)} />
+          <button type="button" className="weekday-btn" onClick={handleAddExDate} disabled={!newExDate}>
+            + Skip
+          </button>
+        </div>
+        {exDates.length > 0 && (
+          <div className="weekday-selector" style={{ marginTop: '0.5rem' }}>
+            {exDates.map(date => (
+              <button
+                key={date}
+                type="button"
+                className="weekday-btn"
+                title="Remove"
+                onClick={() => onChange(rrule, exDates.filter(d => d !== date))}
+              >
+                {date} ✕
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>Rule (RFC 5545)</label>
+        <input
+          type="text"
+          value={rrule}
+          onChange={(e) => onChange(e.target.value.toUpperCase(), exDates)}
+          placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+          style={{ fontFamily: 'monospace' }}
+        />
+        {error ? (
+          <small style={{ color: '#dc2626', fontSize: '0.875rem' }}>⚠️ {error}</small>
+        ) : (
+          <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>{rule && describeRRule(rule)}</small>
+        )}
+      </div>
+
+      <div style={{
+        marginTop: '1rem',
+        padding: '0.75rem',
+        background: '#ccfbf1',
+        borderRadius: '6px',
+        fontSize: '0.875rem',
+        color: '#115e59'
+      }}>
+        <strong>📋 Next {preview.length || ''} Dates:</strong>
+        {preview.length > 0 ? (
+          <ul style={{ marginTop: '0.5rem', marginBottom: 0, paddingLeft: '1.5rem' }}>
+            {preview.map(date => (
+              <li key={date}>
+                {new Date(date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p style={{ margin: '0.5rem 0 0 0' }}>{error ? 'Fix the rule to see upcoming dates.' : 'No upcoming dates.'}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceBuilder;
@@ -14,7 +14,9 @@ import React, { useState, useEffect } from 'react';
 import { Task, TaskCompletion } from '../types';
 import { getTasks, getTaskHistory } from '../storage';
 import { getTodayString } from '../utils';
+import { isCompletionDone } from '../taskProgress';
 import Portal from './Portal';
+import { getTodayDate } from '../dateService';
 
 interface ReviewOverlayProps {
   isOpen: boolean;
@@ -47,15 +49,15 @@ const ReviewOverlay: React.FC<ReviewOverlayProps> = ({ isOpen, onClose, period =
   const calculateReviewData = async () => {
     try {
       const tasks = await getTasks();
-      const completions = await getTaskHistory();
+      const completions = (await getTaskHistory()).filter(isCompletionDone);
       
       if (tasks.length === 0) {
         return;
       }
 
     // Determine date range
-    const today = new Date();
-    const startDate = new Date();
+    const today = getTodayDate();
+    const startDate = getTodayDate();
     if (currentPeriod === 'week') {
       startDate.setDate(today.getDate() - 7);
     } else {
@@ -11,6 +11,7 @@ import { useUser } from '../contexts/UserContext';
 import { avatars, AVATAR_CATEGORIES } from '../constants/avatars';
 import { DashboardLayout } from '../types';
 import { getUserSettings, saveUserSettings } from '../storage';
+import { getDeviceTimeZone, listTimeZones } from '../dateService';
 
 interface SettingsModalProps {
   show: boolean;
@@ -27,6 +28,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
   const [showAvatarPicker, setShowAvatarPicker] = useState(false);
   const [dashboardLayout, setDashboardLayout] = useState<DashboardLayout>('uniform');
   const [location, setLocation] = useState<{ zipCode?: string; city?: string; country?: string }>({});
+  const [timeZone, setTimeZone] = useState(''); // Empty = follow the device
 
   // Load settings from storage
   React.useEffect(() => {
@@ -35,6 +37,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
         const settings = await getUserSettings();
         setDashboardLayout(settings.dashboardLayout);
         setLocation(settings.location || {});
+        setTimeZone(settings.timeZone || '');
       } catch (error) {
         console.error('Error loading settings:', error);
       }
@@ -50,7 +53,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
     try {
       await setUsername(editingUsername);
       await setEmail(editingEmail);
-      await saveUserSettings({ dashboardLayout, location });
+      await saveUserSettings({ dashboardLayout, location, timeZone: timeZone || null });
       onClose();
       // Note: Layout and theme changes apply immediately via context
       // No reload needed - preserves navigation state
@@ -214,6 +217,27 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
               </div>
             </div>
 
+            {/* Time Zone */}
+            <div style={{ background: 'linear-gradient(to right, #ede9fe, #ddd6fe)', borderRadius: '1rem', padding: '1.5rem', marginBottom: '1.5rem', border: '1px solid #c4b5fd' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+                <span style={{ fontSize: '1.5rem' }}>🌐</span>
+                <h3 style={{ fontSize: '1.25rem', fontWeight: 'bold', margin: 0 }}>Time Zone</h3>
+              </div>
+              <p style={{ fontSize: '0.875rem', color: '#6b7280', marginBottom: '1rem' }}>
+                Your days start and end at midnight in this zone. Pick a home zone to keep your schedule steady while travelling
+              </p>
+              <select
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                style={{ width: '100%', padding: '0.5rem 1rem', border: '1px solid #d1d5db', borderRadius: '0.5rem', fontSize: '1rem' }}
+              >
+                <option value="">Follow this device ({getDeviceTimeZone()})</option>
+                {listTimeZones().map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Dashboard Layout */}
             <div style={{ background: 'linear-gradient(to right, #dbeafe, #bfdbfe)', borderRadius: '1rem', padding: '1.5rem', marginBottom: '1.5rem', border: '1px solid #93c5fd' }}>
               <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
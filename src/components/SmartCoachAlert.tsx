@@ -90,6 +90,9 @@ const SmartCoachAlert: React.FC<SmartCoachAlertProps> = ({ insight, onApply, onD
         
         <p style={{ margin: 0, fontSize: '0.95rem', opacity: 0.95, lineHeight: '1.5' }}>
           You've completed this task <strong>{insight.currentMetrics.completedCount} of {insight.currentMetrics.attemptedCount} times</strong> over the last {insight.currentMetrics.weeksAnalyzed} weeks.
+          {insight.currentMetrics.spilloverCount > 0 && (
+            <> It was moved to the next day <strong>{insight.currentMetrics.spilloverCount} time{insight.currentMetrics.spilloverCount > 1 ? 's' : ''}</strong>.</>
+          )}
         </p>
       </div>
 
@@ -0,0 +1,44 @@
+/**
+ * Sync Status Indicator
+ * 
+ * Header badge showing offline state and changes waiting in the
+ * offline write queue. Hidden when everything is synced.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { getSyncStatus, subscribeToSyncStatus, syncOutbox, SyncStatus } from '../lib/offlineQueue';
+
+const SyncStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  if (status.online && status.pending === 0 && !status.syncing) {
+    return null;
+  }
+
+  const label = !status.online
+    ? status.pending > 0 ? `Offline · ${status.pending} pending` : 'Offline'
+    : status.syncing ? 'Syncing…' : `${status.pending} pending sync`;
+
+  const title = !status.online
+    ? 'You are offline. Changes are saved on this device and will sync when you reconnect.'
+    : status.conflicts > 0
+      ? `${status.conflicts} change(s) were skipped because a newer version exists on the server. Click to retry sync.`
+      : 'Changes are waiting to sync. Click to retry now.';
+
+  return (
+    <button
+      className={`sync-status-indicator ${status.online ? 'pending' : 'offline'}`}
+      onClick={() => syncOutbox()}
+      disabled={!status.online || status.syncing}
+      title={title}
+      aria-label={label}
+    >
+      <span>{!status.online ? '📴' : status.syncing ? '🔄' : '⏳'}</span>
+      <span>{label}</span>
+    </button>
+  );
+};
+
+export default SyncStatusIndicator;
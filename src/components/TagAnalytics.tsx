@@ -11,6 +11,7 @@
 import React, { useState, useEffect } from 'react';
 import { Tag, JournalEntry } from '../types';
 import { getTags, getJournalEntries } from '../storage';
+import { getTodayDate } from '../dateService';
 
 interface TagCount {
   tag: Tag;
@@ -48,7 +49,7 @@ const TagAnalytics: React.FC = () => {
     
     // Determine how many months back to analyze
     const monthsBack = selectedPeriod === '3m' ? 3 : selectedPeriod === '6m' ? 6 : 12;
-    const today = new Date();
+    const today = getTodayDate();
     const months: MonthData[] = [];
     
     // Generate month list
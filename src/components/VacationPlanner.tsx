@@ -0,0 +1,220 @@
+/**
+ * Vacation Planner Component
+ *
+ * Schedule vacations ahead of time. Covered tasks pause on the vacation's
+ * days and resume by themselves afterwards; paused days don't count as missed.
+ */
+
+import React, { useState } from 'react';
+import { Task, Tag, Vacation } from '../types';
+import { saveVacation, deleteVacation } from '../storage';
+import { getTodayString } from '../utils';
+
+interface VacationPlannerProps {
+  tasks: Task[];
+  tags: Tag[];
+  vacations: Vacation[];
+  onChange: () => void; // Called after a vacation is scheduled or removed
+}
+
+type Scope = 'all' | 'tags' | 'tasks';
+
+const formatDay = (date: string): string => {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const VacationPlanner: React.FC<VacationPlannerProps> = ({ tasks, tags, vacations, onChange }) => {
+  const today = getTodayString();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState('');
+  const [scope, setScope] = useState<Scope>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Past vacations stay stored so history keeps excluding those days
+  const currentVacations = vacations.filter(v => v.endDate >= today);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const describeScope = (vacation: Vacation): string => {
+    const parts: string[] = [];
+    if (vacation.taskIds?.length) {
+      parts.push(`${vacation.taskIds.length} task${vacation.taskIds.length > 1 ? 's' : ''}`);
+    }
+    if (vacation.tagIds?.length) {
+      parts.push(vacation.tagIds.map(id => tags.find(t => t.id === id)?.name || 'Unknown tag').join(', '));
+    }
+    return parts.length > 0 ? parts.join(' + ') : 'All tasks';
+  };
+
+  const handleSchedule = async () => {
+    if (scope !== 'all' && selectedIds.length === 0) {
+      alert(scope === 'tags' ? 'Please choose at least one tag' : 'Please choose at least one task');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveVacation({
+        name,
+        startDate,
+        endDate,
+        taskIds: scope === 'tasks' ? selectedIds : undefined,
+        tagIds: scope === 'tags' ? selectedIds : undefined
+      });
+      setName('');
+      setEndDate('');
+      setSelectedIds([]);
+      onChange();
+    } catch (error: any) {
+      console.error('Error scheduling vacation:', error);
+      alert(error?.message || 'Failed to schedule vacation. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (vacation: Vacation) => {
+    const isActive = vacation.startDate <= today;
+    const message = isActive
+      ? 'End this vacation now? Days already passed stay excused.'
+      : 'Cancel this vacation?';
+    if (!confirm(message)) return;
+
+    try {
+      if (isActive) {
+        // Keep the days already taken so they still don't count as missed
+        const yesterday = new Date(today + 'T00:00:00');
+        yesterday.setDate(yesterday.getDate() - 1);
+        const lastDay = getTodayString(yesterday);
+        if (lastDay >= vacation.startDate) {
+          await saveVacation({ ...vacation, endDate: lastDay });
+        } else {
+          await deleteVacation(vacation.id);
+        }
+      } else {
+        await deleteVacation(vacation.id);
+      }
+      onChange();
+    } catch (error) {
+      console.error('Error removing vacation:', error);
+      alert('Failed to update vacation. Please try again.');
+    }
+  };
+
+  const choices = scope === 'tags'
+    ? tags.map(tag => ({ id: tag.id, label: tag.name }))
+    : tasks.map(task => ({ id: task.id, label: task.name }));
+
+  return (
+    <div style={{ padding: '1rem', background: '#e0f2fe', borderRadius: '8px', border: '1px solid #38bdf8' }}>
+      <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.75rem', color: '#075985' }}>
+        🏖️ Schedule a Vacation
+      </h3>
+      <p style={{ fontSize: '0.875rem', color: '#0c4a6e', marginBottom: '1rem' }}>
+        Tasks pause automatically for these dates and resume afterwards. Vacation days don't break streaks or lower completion rates.
+      </p>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional, e.g., Beach trip)"
+          style={{ padding: '0.5rem', border: '1px solid #38bdf8', borderRadius: '4px' }}
+        />
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            style={{ flex: 1, padding: '0.5rem', border: '1px solid #38bdf8', borderRadius: '4px' }}
+          />
+          <span style={{ color: '#0c4a6e' }}>to</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            style={{ flex: 1, padding: '0.5rem', border: '1px solid #38bdf8', borderRadius: '4px' }}
+          />
+        </div>
+        <select
+          value={scope}
+          onChange={(e) => { setScope(e.target.value as Scope); setSelectedIds([]); }}
+          style={{ padding: '0.5rem', border: '1px solid #38bdf8', borderRadius: '4px' }}
+        >
+          <option value="all">All tasks</option>
+          <option value="tags">Tasks with these tags</option>
+          <option value="tasks">Only these tasks</option>
+        </select>
+        {scope !== 'all' && (
+          <div style={{ maxHeight: '150px', overflowY: 'auto', background: 'white', borderRadius: '4px', padding: '0.5rem' }}>
+            {choices.length === 0 ? (
+              <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>
+                {scope === 'tags' ? 'No tags yet' : 'No tasks yet'}
+              </div>
+            ) : choices.map(choice => (
+              <label key={choice.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem', padding: '0.25rem 0', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(choice.id)}
+                  onChange={() => toggleSelected(choice.id)}
+                />
+                {choice.label}
+              </label>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={handleSchedule}
+          disabled={isSaving || !startDate || !endDate}
+          style={{
+            padding: '0.75rem',
+            background: '#0ea5e9',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            fontWeight: 600,
+            cursor: isSaving || !startDate || !endDate ? 'not-allowed' : 'pointer',
+            opacity: isSaving || !startDate || !endDate ? 0.6 : 1
+          }}
+        >
+          🏖️ Schedule Vacation
+        </button>
+      </div>
+
+      {currentVacations.length > 0 && (
+        <div style={{ marginTop: '1rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {currentVacations.map(vacation => (
+            <div
+              key={vacation.id}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem 0.75rem', background: 'white', borderRadius: '6px', fontSize: '0.875rem' }}
+            >
+              <div style={{ flex: 1 }}>
+                <div style={{ fontWeight: 600, color: '#075985' }}>
+                  {vacation.startDate <= today ? '🟢 ' : ''}{vacation.name || 'Vacation'}
+                </div>
+                <div style={{ color: '#6b7280' }}>
+                  {formatDay(vacation.startDate)} – {formatDay(vacation.endDate)} • {describeScope(vacation)}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(vacation)}
+                title={vacation.startDate <= today ? 'End now' : 'Cancel'}
+                style={{ padding: '0.25rem 0.5rem', background: '#fee2e2', color: '#991b1b', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                {vacation.startDate <= today ? 'End' : 'Cancel'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VacationPlanner;
@@ -2,17 +2,22 @@
  * Authentication Context
  * 
  * Manages user authentication state throughout the app
- * Provides current user, loading state, and auth functions
+ * Provides current user, loading state, auth functions and the
+ * storage mode (Supabase account vs. local guest mode)
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { getSupabaseClient, getCurrentUser, signOut, onAuthStateChange } from '../lib/supabase';
+import { getStorageMode, setStorageMode as persistStorageMode, StorageMode } from '../lib/storageAdapter';
 import type { User } from '@supabase/supabase-js';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   isAuthenticated: boolean;
+  isGuest: boolean; // Using local IndexedDB storage without an account
+  storageMode: StorageMode;
+  setStorageMode: (mode: StorageMode) => void;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -22,6 +27,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [storageMode, setStorageModeState] = useState<StorageMode>(getStorageMode());
 
   // Load current user on mount
   useEffect(() => {
@@ -66,6 +72,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const handleSetStorageMode = (mode: StorageMode) => {
+    persistStorageMode(mode);
+    setStorageModeState(getStorageMode());
+  };
+
   const refreshUser = async () => {
     try {
       const currentUser = await getCurrentUser();
@@ -80,6 +91,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     user,
     loading,
     isAuthenticated: !!user,
+    isGuest: storageMode === 'local',
+    storageMode,
+    setStorageMode: handleSetStorageMode,
     signOut: handleSignOut,
     refreshUser
   };
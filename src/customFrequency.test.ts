@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { compileCustomFrequency, parseCustomFrequency } from './customFrequency';
+
+describe('compileCustomFrequency', () => {
+  it.each([
+    // Every N days/weeks/months/years
+    ['daily', 'FREQ=DAILY'],
+    ['every day', 'FREQ=DAILY'],
+    ['weekly', 'FREQ=WEEKLY'],
+    ['monthly', 'FREQ=MONTHLY'],
+    ['yearly', 'FREQ=YEARLY'],
+    ['every other week', 'FREQ=WEEKLY;INTERVAL=2'],
+    ['every 5 years', 'FREQ=YEARLY;INTERVAL=5'],
+
+    // Weekdays
+    ['weekdays', 'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR'],
+    ['on weekends', 'FREQ=WEEKLY;BYDAY=SA,SU'],
+    ['tuesdays', 'FREQ=WEEKLY;BYDAY=TU'],
+    ['every other Tuesday', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'],
+    ['every 3 fridays', 'FREQ=WEEKLY;INTERVAL=3;BYDAY=FR'],
+    ['every monday and thursday', 'FREQ=WEEKLY;BYDAY=MO,TH'],
+    ['Every Monday, Wednesday, and Friday', 'FREQ=WEEKLY;BYDAY=MO,WE,FR'],
+    ['every 2 weeks on mon & thu', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'],
+
+    // Days of the month
+    ['1st of every month', 'FREQ=MONTHLY;BYMONTHDAY=1'],
+    ['1st and 15th of the month', 'FREQ=MONTHLY;BYMONTHDAY=1,15'],
+    ['last day of the month', 'FREQ=MONTHLY;BYMONTHDAY=-1'],
+    ['2nd and 4th Tuesday of the month', 'FREQ=MONTHLY;BYDAY=2TU,4TU'],
+    ['last friday of the month', 'FREQ=MONTHLY;BYDAY=-1FR'],
+    ['first weekday of the month', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1'],
+    ['every 3 months on the 15th', 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15'],
+    ['every month on the 2nd sunday', 'FREQ=MONTHLY;BYDAY=2SU'],
+    ['monthly on the last friday', 'FREQ=MONTHLY;BYDAY=-1FR'],
+
+    // Days of the year
+    ['first Monday in March', 'FREQ=YEARLY;BYMONTH=3;BYDAY=1MO'],
+    ['second sunday in may', 'FREQ=YEARLY;BYMONTH=5;BYDAY=2SU'],
+    ['March 15', 'FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15'],
+    ['15th of March', 'FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15'],
+    ['last day of February', 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1'],
+    ['1st of jan and jul', 'FREQ=YEARLY;BYMONTH=1,7;BYMONTHDAY=1'],
+    ['every year on march 15', 'FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15'],
+    ['yearly on march 15', 'FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15'],
+    ['every year on 4th thursday in november', 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH']
+  ])('%s', (phrase, expected) => {
+    expect(compileCustomFrequency(phrase)).toBe(expected);
+  });
+
+  it.each([
+    'whenever',
+    'every blue moon',
+    'fortnightly',
+    'every other',
+    'every 0 days',
+    'on the 15th',
+    '32nd of the month',
+    'every month on the 0th',
+    'march 32'
+  ])('rejects %s', phrase => {
+    expect(compileCustomFrequency(phrase)).toBeNull();
+  });
+});
+
+describe('parseCustomFrequency', () => {
+  it('asks for a phrase when empty', () => {
+    expect(() => parseCustomFrequency('  ')).toThrow('Please describe how often the task repeats');
+  });
+
+  it('explains what it understands when it can\'t parse a phrase', () => {
+    expect(() => parseCustomFrequency('whenever I feel like it')).toThrow(/Couldn't understand "whenever I feel like it"\. Try something like/);
+  });
+});
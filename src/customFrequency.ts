@@ -0,0 +1,230 @@
+/**
+ * Custom Frequency Parser
+ *
+ * Turns the phrases users type into a task's customFrequency ("every other
+ * Tuesday", "weekdays", "last day of the month", "first Monday in March", ...)
+ * into an RRULE, so custom tasks are scheduled by the same engine as rrule tasks.
+ * Phrases it can't understand are rejected with an error instead of silently
+ * never matching.
+ */
+
+import { RRule, RRuleFrequency, RRuleWeekday, formatRRule } from './rrule';
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12
+};
+
+const ORDINAL_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1 };
+const COUNT_WORDS: Record<string, number> = { other: 2, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12 };
+const UNIT_FREQUENCIES: Record<string, RRuleFrequency> = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+const WORKDAYS: RRuleWeekday[] = [1, 2, 3, 4, 5].map(weekday => ({ weekday }));
+
+type DaySpec = Pick<RRule, 'byDay' | 'byMonthDay' | 'bySetPos'>;
+
+const makeRule = (freq: RRuleFrequency, changes: Partial<RRule> = {}): RRule => ({
+  freq,
+  interval: 1,
+  weekStart: 1,
+  ...changes
+});
+
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/&/g, ' and ').replace(/[,.]/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+// Words of a list, without the "and"/"or" between items
+const listWords = (text: string): string[] => {
+  return text.split(' ').filter(word => word && word !== 'and' && word !== 'or');
+};
+
+// Parse every word or fail as a whole
+const parseAll = (words: string[], parse: (word: string) => number | null): number[] | null => {
+  if (words.length === 0) return null;
+  const values = words.map(parse);
+  return values.every(v => v !== null) ? (values as number[]) : null;
+};
+
+const parseWeekday = (word: string): number | null => {
+  return WEEKDAYS[word] ?? WEEKDAYS[word.replace(/s$/, '')] ?? null; // "tuesdays" → "tuesday"
+};
+
+const parseMonth = (word: string): number | null => MONTHS[word] ?? null;
+
+const parseCount = (word: string): number | null => {
+  if (/^\d+$/.test(word)) return parseInt(word) || null;
+  return COUNT_WORDS[word] ?? null;
+};
+
+const parseOrdinal = (word: string): number | null => {
+  const match = word.match(/^(\d)(st|nd|rd|th)$/);
+  if (match) return parseInt(match[1]) || null;
+  return ORDINAL_WORDS[word] ?? null;
+};
+
+// "15th", "15", "first", "last" → day of month (-1 = last)
+const parseMonthDay = (word: string): number | null => {
+  const match = word.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (match) {
+    const day = parseInt(match[1]);
+    return day >= 1 && day <= 31 ? day : null;
+  }
+  return ORDINAL_WORDS[word] ?? null;
+};
+
+/**
+ * Which days within a month: "15th", "1st and 15th", "last day",
+ * "2nd and 4th tuesday", "last friday", "first weekday"
+ */
+const parseDaySpec = (text: string): DaySpec | null => {
+  const words = listWords(text.replace(/^(every|each|on) /, '').replace(/^the /, ''));
+  if (words.length === 0) return null;
+
+  const dayWords = words[words.length - 1] === 'day' || words[words.length - 1] === 'days' ? words.slice(0, -1) : words;
+  const monthDays = parseAll(dayWords, parseMonthDay);
+  if (monthDays) return { byMonthDay: monthDays };
+
+  const weekdayIndex = words.findIndex(word => word === 'weekday' || parseWeekday(word) !== null);
+  if (weekdayIndex === -1) return null;
+
+  const ordinals = weekdayIndex > 0 ? parseAll(words.slice(0, weekdayIndex), parseOrdinal) : [];
+  if (!ordinals) return null;
+
+  const rest = words.slice(weekdayIndex);
+  if (rest.length === 1 && rest[0] === 'weekday') {
+    return ordinals.length > 0 ? { byDay: WORKDAYS, bySetPos: ordinals } : { byDay: WORKDAYS };
+  }
+
+  const weekdays = parseAll(rest, parseWeekday);
+  if (!weekdays) return null;
+
+  return {
+    byDay: ordinals.length > 0
+      ? ordinals.flatMap(ordinal => weekdays.map(weekday => ({ weekday, ordinal })))
+      : weekdays.map(weekday => ({ weekday }))
+  };
+};
+
+/**
+ * Which days within a year: "march 15", "15th of march", "first monday in march",
+ * "last day of february", "1st of jan and jul"
+ */
+const parseYearSpec = (text: string): Partial<RRule> | null => {
+  const dateMatch = text.match(/^(?:on )?([a-z]+) (\d{1,2})(?:st|nd|rd|th)?$/);
+  if (dateMatch && parseMonth(dateMatch[1])) {
+    const day = parseMonthDay(dateMatch[2]);
+    return day ? { byMonth: [parseMonth(dateMatch[1])!], byMonthDay: [day] } : null;
+  }
+
+  const scopedMatch = text.match(/^(.+) (?:of|in) ([a-z ]+)$/);
+  if (scopedMatch) {
+    const months = parseAll(listWords(scopedMatch[2]), parseMonth);
+    const days = parseDaySpec(scopedMatch[1]);
+    if (months && days) return { byMonth: months.sort((a, b) => a - b), ...days };
+  }
+
+  return null;
+};
+
+const interpret = (phrase: string): RRule | null => {
+  let match: RegExpMatchArray | null;
+
+  if (/^(every ?day|each day|daily)$/.test(phrase)) return makeRule('DAILY');
+  if (/^((every|on) )?(weekdays?|week days)$/.test(phrase)) return makeRule('DAILY', { byDay: WORKDAYS });
+  if (/^((every|on) )?weekends?$/.test(phrase)) return makeRule('WEEKLY', { byDay: [{ weekday: 6 }, { weekday: 0 }] });
+  if (/^(weekly|monthly|yearly|annually)$/.test(phrase)) {
+    return makeRule(({ weekly: 'WEEKLY', monthly: 'MONTHLY', yearly: 'YEARLY', annually: 'YEARLY' } as const)[phrase as 'weekly']);
+  }
+
+  // "every other week", "every 3 months on the 15th", "every year on march 15"
+  match = phrase.match(/^every (?:([a-z0-9]+) )?(day|week|month|year)s?(?: on (.+))?$/);
+  if (match) {
+    const interval = match[1] ? parseCount(match[1]) : 1;
+    if (!interval) return null;
+    const freq = UNIT_FREQUENCIES[match[2]];
+    if (!match[3]) return makeRule(freq, { interval });
+
+    const weekdays = freq === 'WEEKLY' ? parseAll(listWords(match[3]), parseWeekday) : null;
+    const spec = freq === 'WEEKLY'
+      ? weekdays && { byDay: weekdays.map(weekday => ({ weekday })) }
+      : freq === 'MONTHLY' ? parseDaySpec(match[3])
+      : freq === 'YEARLY' ? parseYearSpec(match[3])
+      : null;
+    return spec ? makeRule(freq, { interval, ...spec }) : null;
+  }
+
+  // "monthly on the 15th", "yearly on march 15"
+  match = phrase.match(/^(monthly|yearly|annually) on (.+)$/);
+  if (match) {
+    const spec = match[1] === 'monthly' ? parseDaySpec(match[2]) : parseYearSpec(match[2]);
+    return spec ? makeRule(match[1] === 'monthly' ? 'MONTHLY' : 'YEARLY', spec) : null;
+  }
+
+  // "1st of every month", "last day of the month", "2nd and 4th tuesday of the month"
+  match = phrase.match(/^(.+) (?:of|in) (?:the |every |each )?month$/);
+  if (match) {
+    const spec = parseDaySpec(match[1]);
+    return spec ? makeRule('MONTHLY', spec) : null;
+  }
+
+  // "first monday in march", "march 15", "15th of march"
+  const yearSpec = parseYearSpec(phrase.replace(/^(every|each) /, ''));
+  if (yearSpec) return makeRule('YEARLY', yearSpec);
+
+  // "tuesdays", "every monday and thursday", "every other tuesday", "every 3 fridays"
+  let rest = phrase.replace(/^(every|each|on) /, '');
+  let interval = 1;
+  const [firstWord] = rest.split(' ');
+  if (rest.includes(' ') && parseCount(firstWord)) {
+    interval = parseCount(firstWord)!;
+    rest = rest.slice(firstWord.length + 1);
+  }
+  const weekdays = parseAll(listWords(rest), parseWeekday);
+  if (weekdays) return makeRule('WEEKLY', { interval, byDay: weekdays.map(weekday => ({ weekday })) });
+
+  return null;
+};
+
+/**
+ * Interpret a custom frequency phrase. Throws an Error with examples when it can't.
+ */
+export const parseCustomFrequency = (text: string): RRule => {
+  const phrase = normalize(text);
+  if (!phrase) {
+    throw new Error('Please describe how often the task repeats');
+  }
+
+  const rule = interpret(phrase);
+  if (!rule) {
+    throw new Error(`Couldn't understand "${text.trim()}". Try something like "every other Tuesday", "weekdays", "last day of the month" or "first Monday in March".`);
+  }
+  return rule;
+};
+
+// Phrases are compiled once, since views check tasks one day at a time
+const compiledPhrases = new Map<string, string | null>();
+
+/**
+ * The RRULE for a custom frequency phrase, or null if it isn't understood
+ */
+export const compileCustomFrequency = (text: string): string | null => {
+  if (!compiledPhrases.has(text)) {
+    try {
+      compiledPhrases.set(text, formatRRule(parseCustomFrequency(text)));
+    } catch {
+      compiledPhrases.set(text, null);
+    }
+  }
+  return compiledPhrases.get(text)!;
+};
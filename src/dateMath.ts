@@ -0,0 +1,43 @@
+/**
+ * Calendar Day Math
+ *
+ * Pure helpers for 'YYYY-MM-DD' strings. Everything is computed on calendar
+ * days (UTC), so results don't shift with the device time zone or daylight saving.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarDay {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  weekday: number; // 0-6 for Sunday-Saturday
+  dayNumber: number; // Days since 1970-01-01
+}
+
+export const parseDay = (date: string): CalendarDay => {
+  const [year, month, day] = date.split('-').map(Number);
+  const dayNumber = Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+  return { year, month, day, weekday: (((dayNumber + 4) % 7) + 7) % 7, dayNumber };
+};
+
+export const toDateString = (dayNumber: number): string => {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+};
+
+export const makeDate = (year: number, month: number, day: number): string => {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+export const addDays = (date: string, days: number): string => {
+  return toDateString(parseDay(date).dayNumber + days);
+};
+
+// Number of days from one date to another (negative if `to` is earlier)
+export const daysBetween = (from: string, to: string): number => {
+  return parseDay(to).dayNumber - parseDay(from).dayNumber;
+};
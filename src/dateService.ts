@@ -0,0 +1,113 @@
+/**
+ * Date Service
+ *
+ * The one place that decides what "today" is. Days follow the user's time zone
+ * setting (UserSettings.timeZone), or the device zone when none is set, so every
+ * module agrees on where a day starts and ends - even while travelling.
+ *
+ * Stored dates (completions, spillovers, reminders) are plain 'YYYY-MM-DD'
+ * strings taken in that zone when recorded. They are never re-derived from
+ * timestamps, so changing zones doesn't move past completions to another day.
+ */
+
+let activeTimeZone: string | undefined;
+
+export const getDeviceTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Unset (or unknown) zones fall back to following the device
+export const setTimeZone = (timeZone?: string | null): void => {
+  activeTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+};
+
+export const getTimeZone = (): string => {
+  return activeTimeZone || getDeviceTimeZone();
+};
+
+// True when days follow a fixed zone that differs from where the device is now
+export const isAwayFromHomeZone = (): boolean => {
+  return !!activeTimeZone && activeTimeZone !== getDeviceTimeZone();
+};
+
+// IANA zone names for pickers; older browsers only get the current zones
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as any).supportedValuesOf;
+  if (typeof supportedValuesOf === 'function') {
+    return supportedValuesOf('timeZone');
+  }
+  return Array.from(new Set([getDeviceTimeZone(), getTimeZone(), 'UTC']));
+};
+
+// Calendar date of an instant in the given zone
+export const toZonedDateString = (instant: Date, timeZone: string = getTimeZone()): string => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// Milliseconds the zone is ahead of UTC at an instant
+const getZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * The instant a wall-clock date ('YYYY-MM-DD') and time ('HH:mm' or 'HH:mm:ss')
+ * happen in a zone - e.g. a calendar event defined in another zone
+ */
+export const zonedTimeToInstant = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Offset at the first guess, then again in case a DST change lies in between
+  const guess = wallClock - getZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getZoneOffset(guess, timeZone));
+};
+
+export const getToday = (): string => {
+  return toZonedDateString(new Date());
+};
+
+/**
+ * Local-midnight Date carrying today's calendar date. For code that does
+ * Date arithmetic (setDate, getDay...) and formats the result with formatDate.
+ */
+export const getTodayDate = (): Date => {
+  return new Date(getToday() + 'T00:00:00');
+};
+
+// Current wall-clock time in the active zone as HH:mm
+export const getCurrentTime = (): string => {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: getTimeZone(),
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(new Date());
+};
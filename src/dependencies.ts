@@ -0,0 +1,195 @@
+/**
+ * Task Dependencies
+ *
+ * A task's dependentTaskIds lists its parent tasks: completing a parent
+ * auto-completes the task. These helpers walk that graph with visited sets,
+ * so a cycle (A → B → A) is reported instead of looping forever.
+ *
+ * prerequisiteTaskIds is the blocking direction: the task stays locked on the
+ * Today view until those tasks are done that day ("Stretch" before "Run").
+ */
+
+import { Task } from './types';
+
+export interface DependencyTreeNode {
+  task: Task;
+  children: DependencyTreeNode[];
+  isCycle: boolean; // Task already appears higher up in this branch (children not expanded)
+}
+
+// Tasks auto-completed directly when this task is completed
+export const getDependentTasks = (taskId: string, tasks: Task[]): Task[] => {
+  return tasks.filter(t => t.id !== taskId && t.dependentTaskIds?.includes(taskId));
+};
+
+// Tasks whose completion auto-completes this task
+export const getParentTasks = (task: Task, tasks: Task[]): Task[] => {
+  const parentIds = task.dependentTaskIds || [];
+  return tasks.filter(t => t.id !== task.id && parentIds.includes(t.id));
+};
+
+/**
+ * Every task auto-completed (directly or transitively) by completing taskId,
+ * each exactly once, nearest first. The task itself is never included.
+ */
+export const getCascadeTaskIds = (taskId: string, tasks: Task[]): string[] => {
+  const visited = new Set<string>([taskId]);
+  const order: string[] = [];
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dependent of getDependentTasks(current, tasks)) {
+      if (!visited.has(dependent.id)) {
+        visited.add(dependent.id);
+        order.push(dependent.id);
+        queue.push(dependent.id);
+      }
+    }
+  }
+
+  return order;
+};
+
+/**
+ * Check the parents chosen for a task being edited.
+ * Returns the cycle as task ids (e.g. [A, B, A]) or null if the graph stays acyclic.
+ */
+export const findCycleForParents = (taskId: string | null, parentIds: string[], tasks: Task[]): string[] | null => {
+  // A new task has no dependents yet, so it can't close a loop
+  if (!taskId) return null;
+  if (parentIds.includes(taskId)) return [taskId, taskId];
+
+  // A cycle exists if a chosen parent is auto-completed (transitively) by this task
+  const previous = new Map<string, string>();
+  const visited = new Set<string>([taskId]);
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const dependent of getDependentTasks(current, tasks)) {
+      if (visited.has(dependent.id)) continue;
+      visited.add(dependent.id);
+      previous.set(dependent.id, current);
+
+      if (parentIds.includes(dependent.id)) {
+        const path = [dependent.id];
+        let step = dependent.id;
+        while (step !== taskId) {
+          step = previous.get(step)!;
+          path.unshift(step);
+        }
+        return [...path, taskId];
+      }
+      queue.push(dependent.id);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the tree of tasks around a task for display:
+ * 'dependents' = what completing it auto-completes, 'parents' = what auto-completes it
+ */
+export const buildDependencyTree = (
+  taskId: string,
+  tasks: Task[],
+  direction: 'dependents' | 'parents' = 'dependents'
+): DependencyTreeNode | null => {
+  const build = (task: Task, ancestors: Set<string>): DependencyTreeNode => {
+    if (ancestors.has(task.id)) {
+      return { task, children: [], isCycle: true };
+    }
+    const path = new Set(ancestors).add(task.id);
+    const next = direction === 'dependents' ? getDependentTasks(task.id, tasks) : getParentTasks(task, tasks);
+    return { task, children: next.map(t => build(t, path)), isCycle: false };
+  };
+
+  const root = tasks.find(t => t.id === taskId);
+  return root ? build(root, new Set()) : null;
+};
+
+// Tasks that must be done before this one unlocks
+export const getPrerequisiteTasks = (task: Task, tasks: Task[]): Task[] => {
+  const prerequisiteIds = task.prerequisiteTaskIds || [];
+  return tasks.filter(t => t.id !== task.id && prerequisiteIds.includes(t.id));
+};
+
+/**
+ * Check the prerequisites chosen for a task being edited.
+ * Returns the cycle as task ids (e.g. [A, B, A]) or null if every chain ends.
+ */
+export const findPrerequisiteCycle = (taskId: string | null, prerequisiteIds: string[], tasks: Task[]): string[] | null => {
+  // A new task isn't anyone's prerequisite yet, so it can't close a loop
+  if (!taskId) return null;
+  if (prerequisiteIds.includes(taskId)) return [taskId, taskId];
+
+  // A cycle exists if a chosen prerequisite (transitively) requires this task
+  const previous = new Map<string, string>();
+  const visited = new Set<string>(prerequisiteIds);
+  const queue = [...prerequisiteIds];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const task = tasks.find(t => t.id === current);
+    for (const prerequisiteId of task?.prerequisiteTaskIds || []) {
+      if (prerequisiteId === taskId) {
+        const path = [current];
+        let step = current;
+        while (previous.has(step)) {
+          step = previous.get(step)!;
+          path.unshift(step);
+        }
+        return [taskId, ...path, taskId];
+      }
+      if (visited.has(prerequisiteId)) continue;
+      visited.add(prerequisiteId);
+      previous.set(prerequisiteId, current);
+      queue.push(prerequisiteId);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Prerequisites still blocking a task on a day. Only tasks on that day's
+ * list (dayTasks) can block - a prerequisite that isn't scheduled doesn't
+ * lock the task - and they stop blocking once done (doneIds).
+ */
+export const getPendingPrerequisites = (task: Task, dayTasks: Task[], doneIds: Set<string>): Task[] => {
+  return getPrerequisiteTasks(task, dayTasks).filter(t => !doneIds.has(t.id));
+};
+
+/**
+ * Reorder so every task comes after its prerequisites, keeping the given
+ * order otherwise. Items without a task (events) stay where they are relative
+ * to the rest; a prerequisite cycle is left in its original order.
+ */
+export const orderByPrerequisites = <T>(items: T[], getTask: (item: T) => Task | undefined): T[] => {
+  const byTaskId = new Map<string, T>();
+  items.forEach(item => {
+    const task = getTask(item);
+    if (task) byTaskId.set(task.id, item);
+  });
+
+  const ordered: T[] = [];
+  const placed = new Set<T>();
+  const visiting = new Set<T>();
+
+  const place = (item: T) => {
+    if (placed.has(item) || visiting.has(item)) return;
+    visiting.add(item);
+    for (const prerequisiteId of getTask(item)?.prerequisiteTaskIds || []) {
+      const prerequisite = byTaskId.get(prerequisiteId);
+      if (prerequisite) place(prerequisite);
+    }
+    visiting.delete(item);
+    placed.add(item);
+    ordered.push(item);
+  };
+
+  items.forEach(place);
+  return ordered;
+};
@@ -0,0 +1,95 @@
+/**
+ * Event Occurrences
+ *
+ * Pure helpers for the calendar days an event falls on:
+ * - Yearly events store MM-DD (older rows may still carry YYYY-MM-DD)
+ * - One-time events store YYYY-MM-DD
+ * - Custom events store their first date (YYYY-MM-DD) and repeat by their
+ *   customFrequency phrase ("every 5 years", "every month on the 15th",
+ *   "second sunday in may"), compiled by the same parser as custom tasks
+ * - Yearly events with a calendarSystem store MM-DD in that calendar and move
+ *   to a different Gregorian day each year (see lunarCalendars.ts)
+ * Feb 29 events are observed on Feb 28 in non-leap years.
+ */
+
+import { Event } from './types';
+import { addDays, daysInMonth, makeDate, parseDay } from './dateMath';
+import { compileCustomFrequency } from './customFrequency';
+import { expandRRule, parseRRule, rruleOccursOn } from './rrule';
+import { LunarDate, lunarOccurrencesBetween } from './lunarCalendars';
+
+const FULL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// The month and day of a yearly event, or null when the date is malformed
+export const getEventMonthDay = (date: string): { month: number; day: number } | null => {
+  const parts = date.split('-').map(Number);
+  const [month, day] = parts.length === 3 ? parts.slice(1) : parts;
+  if (parts.length < 2 || parts.length > 3 || isNaN(month) || isNaN(day)) return null;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return { month, day };
+};
+
+/**
+ * The date a yearly MM-DD falls on in a given year. Days the month doesn't
+ * have (Feb 29 outside leap years) move back to its last day.
+ */
+export const getYearlyOccurrence = (date: string, year: number): string | null => {
+  const monthDay = getEventMonthDay(date);
+  if (!monthDay) return null;
+  return makeDate(year, monthDay.month, Math.min(monthDay.day, daysInMonth(year, monthDay.month)));
+};
+
+// The lunar date of a yearly event kept in another calendar, or null for Gregorian ones
+export const getEventLunarDate = (event: Event): LunarDate | null => {
+  if (event.frequency !== 'yearly' || !event.calendarSystem) return null;
+  const [month, day] = event.date.split('-').map(Number);
+  if (isNaN(month) || isNaN(day)) return null;
+  return { calendar: event.calendarSystem, month, day, isLeapMonth: event.isLeapMonth };
+};
+
+// The RRULE a custom event repeats by, or null when its phrase or first date is unusable
+export const getCustomEventRRule = (event: Event): string | null => {
+  if (event.frequency !== 'custom' || !event.customFrequency || !FULL_DATE.test(event.date)) return null;
+  return compileCustomFrequency(event.customFrequency);
+};
+
+/**
+ * Dates from `from` through `through` (inclusive, YYYY-MM-DD) the event falls on
+ */
+export const getEventOccurrences = (event: Event, from: string, through: string): string[] => {
+  if (event.frequency === 'one-time') {
+    return event.date >= from && event.date <= through ? [event.date] : [];
+  }
+
+  if (event.frequency === 'custom') {
+    const rule = getCustomEventRRule(event);
+    if (!rule || through < event.date) return [];
+    return expandRRule(parseRRule(rule), event.date, through).dates.filter(date => date >= from);
+  }
+
+  if (event.calendarSystem) {
+    const lunarDate = getEventLunarDate(event);
+    return lunarDate ? lunarOccurrencesBetween(lunarDate, from, through) : [];
+  }
+
+  const dates: string[] = [];
+  for (let year = parseDay(from).year; year <= parseDay(through).year; year++) {
+    const date = getYearlyOccurrence(event.date, year);
+    if (date && date >= from && date <= through) dates.push(date);
+  }
+  return dates;
+};
+
+export const eventOccursOn = (event: Event, date: string): boolean => {
+  if (event.frequency === 'custom') {
+    // Cached expansion, since the calendar checks one day at a time
+    const rule = getCustomEventRRule(event);
+    return !!rule && rruleOccursOn(rule, event.date, date);
+  }
+  return getEventOccurrences(event, date, date).length > 0;
+};
+
+// The first date on or after `from` the event falls on, looking up to `maxDays` ahead
+export const getNextEventOccurrence = (event: Event, from: string, maxDays: number = 366): string | null => {
+  return getEventOccurrences(event, from, addDays(from, maxDays))[0] || null;
+};
@@ -0,0 +1,161 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Event, Task } from './types';
+import { buildICalendar } from './icalExport';
+import { convertICalEventsToEvents, parseICalendar, unfoldLines } from './icalParser';
+import { setTimeZone } from './dateService';
+
+beforeAll(() => {
+  setTimeZone('America/New_York');
+});
+
+const makeEvent = (changes: Partial<Event>): Event => ({
+  id: 'event-1',
+  name: 'Event',
+  date: '04-12',
+  frequency: 'yearly',
+  year: 2024,
+  createdAt: '2024-01-01T08:00:00.000Z',
+  ...changes
+});
+
+// 2024-01-01 is a Monday
+const makeTask = (changes: Partial<Task>): Task => ({
+  id: 'task-1',
+  name: 'Task',
+  weightage: 5,
+  frequency: 'daily',
+  startDate: '2024-01-01',
+  createdAt: '2024-01-01T08:00:00.000Z',
+  ...changes
+});
+
+// The unfolded content lines of the first VEVENT
+const eventLines = (content: string): string[] => {
+  const lines = unfoldLines(content);
+  return lines.slice(lines.indexOf('BEGIN:VEVENT'), lines.indexOf('END:VEVENT') + 1);
+};
+
+const property = (content: string, name: string): string | undefined => {
+  return eventLines(content).find(line => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+};
+
+describe('buildICalendar', () => {
+  it('folds lines at 75 octets without splitting multi-byte characters', () => {
+    const name = 'Célébration 🎂 de l’anniversaire de Zoë — 祖母の誕生日パーティー 🎉 avec toute la famille';
+    const content = buildICalendar({ events: [makeEvent({ name })] });
+
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    for (const line of content.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      // A split surrogate pair wouldn't survive encoding
+      expect(decoder.decode(encoder.encode(line))).toBe(line);
+    }
+    expect(content.split('\r\n').some(line => line.startsWith(' '))).toBe(true);
+    expect(property(content, 'SUMMARY')).toBe(`SUMMARY:${name}`);
+  });
+
+  it('ends every line with CRLF', () => {
+    const content = buildICalendar({ events: [makeEvent({})] });
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(content.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('escapes text values', () => {
+    const content = buildICalendar({
+      events: [makeEvent({ name: 'Dinner; drinks, cake', description: 'Path C:\\party\nBring a gift', category: 'Birthday' })]
+    });
+    expect(property(content, 'SUMMARY')).toBe('SUMMARY:Dinner\\; drinks\\, cake');
+    expect(property(content, 'DESCRIPTION')).toBe('DESCRIPTION:Path C:\\\\party\\nBring a gift');
+  });
+
+  it('starts a Feb 29 yearly event in a leap year', () => {
+    const content = buildICalendar({ events: [makeEvent({ date: '02-29', year: 2025 })] });
+    expect(property(content, 'DTSTART')).toBe('DTSTART;VALUE=DATE:20240229');
+    expect(property(content, 'RRULE')).toBe('RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29,-1;BYSETPOS=1');
+  });
+
+  it.each([
+    [28, 'FREQ=MONTHLY;BYMONTHDAY=28'],
+    [29, 'FREQ=MONTHLY;BYMONTHDAY=29,-1;BYSETPOS=1'],
+    [30, 'FREQ=MONTHLY;BYMONTHDAY=30,-1;BYSETPOS=1'],
+    [31, 'FREQ=MONTHLY;BYMONTHDAY=31,-1;BYSETPOS=1']
+  ])('falls back to the last day of shorter months for day %s', (dayOfMonth, expected) => {
+    const content = buildICalendar({ tasks: [makeTask({ frequency: 'monthly', dayOfMonth })] });
+    expect(property(content, 'RRULE')).toBe(`RRULE:${expected}`);
+  });
+
+  it('keeps the anchor day of month intervals', () => {
+    const content = buildICalendar({
+      tasks: [makeTask({ frequency: 'interval', intervalValue: 2, intervalUnit: 'months', startDate: '2024-01-31' })]
+    });
+    expect(property(content, 'RRULE')).toBe('RRULE:FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=31,-1;BYSETPOS=1');
+  });
+
+  it('ends a task on its end date with UNTIL', () => {
+    const content = buildICalendar({ tasks: [makeTask({ endDate: '2024-06-30' })] });
+    expect(property(content, 'RRULE')).toBe('RRULE:FREQ=DAILY;UNTIL=20240630');
+  });
+
+  it('keeps COUNT instead of adding UNTIL', () => {
+    const content = buildICalendar({
+      tasks: [makeTask({ frequency: 'rrule', rrule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=5', endDate: '2024-06-30' })]
+    });
+    expect(property(content, 'RRULE')).toBe('RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=5');
+  });
+
+  it('writes a task\'s excluded dates', () => {
+    const content = buildICalendar({
+      tasks: [makeTask({ frequency: 'rrule', rrule: 'FREQ=WEEKLY;BYDAY=MO', exDates: ['2024-01-08', '2024-01-15'] })]
+    });
+    expect(property(content, 'EXDATE')).toBe('EXDATE;VALUE=DATE:20240108,20240115');
+  });
+
+  it.each([
+    [undefined, false],
+    [0, false],
+    [3, true]
+  ])('adds an alarm for notifyDaysBefore %s: %s', (notifyDaysBefore, hasAlarm) => {
+    const lines = eventLines(buildICalendar({ events: [makeEvent({ notifyDaysBefore })] }));
+    expect(lines.includes('BEGIN:VALARM')).toBe(hasAlarm);
+    if (hasAlarm) expect(lines).toContain(`TRIGGER:-P${notifyDaysBefore}D`);
+  });
+});
+
+describe('round trip through parseICalendar', () => {
+  const events = [
+    makeEvent({ id: 'birthday', name: 'Zoë’s birthday 🎂, with cake; lots of it', category: 'Birthday', date: '04-12', year: 1990, notifyDaysBefore: 2 }),
+    makeEvent({ id: 'leap', name: 'Leap day', date: '02-29', year: 2024, notifyDaysBefore: 1 }),
+    makeEvent({ id: 'party', name: 'Party', description: 'Bring snacks,\ndrinks', frequency: 'one-time', date: '2024-07-04', year: undefined, notifyDaysBefore: 5 })
+  ];
+  const content = buildICalendar({ events });
+
+  it('reads back the same entries', () => {
+    expect(parseICalendar(content).map(event => ({ summary: event.summary, date: event.dtstart.date, rrule: event.rrule }))).toEqual([
+      { summary: 'Zoë’s birthday 🎂, with cake; lots of it', date: '1990-04-12', rrule: 'FREQ=YEARLY;BYMONTH=4;BYMONTHDAY=12' },
+      { summary: 'Leap day', date: '2024-02-29', rrule: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29,-1;BYSETPOS=1' },
+      { summary: 'Party', date: '2024-07-04', rrule: undefined }
+    ]);
+  });
+
+  // Categories are detected from the name on import, so they aren't compared
+  it('converts back to the same events', () => {
+    const summarize = (list: Omit<Event, 'id' | 'createdAt'>[]) => list.map(event => ({
+      name: event.name,
+      description: event.description,
+      date: event.date,
+      frequency: event.frequency,
+      year: event.year,
+      notifyDaysBefore: event.notifyDaysBefore
+    }));
+    expect(summarize(convertICalEventsToEvents(parseICalendar(content)))).toEqual(summarize(events));
+  });
+
+  it('keeps our UIDs so a re-import updates the same events', () => {
+    expect(convertICalEventsToEvents(parseICalendar(content)).map(event => event.sourceUid)).toEqual([
+      'event-birthday@routine-ruby',
+      'event-leap@routine-ruby',
+      'event-party@routine-ruby'
+    ]);
+  });
+});
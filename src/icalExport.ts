@@ -0,0 +1,292 @@
+/**
+ * iCalendar Exporter
+ *
+ * Builds a VCALENDAR (RFC 5545) from events and scheduled tasks for Google
+ * Calendar, Outlook or Apple Calendar:
+ * - Yearly events repeat with RRULE:FREQ=YEARLY, custom events with their
+ *   compiled phrase, lunar calendar events with RDATEs for the next 20 years;
+ *   a notifyDaysBefore above 0 becomes a VALARM
+ * - Recurring tasks are written as one RRULE each (not expanded day by day),
+ *   starting on their first scheduled date and ending on their end date
+ *
+ * UIDs come from our ids, which never change (imported events keep their
+ * original UID), so importing a newer export updates entries in the other
+ * calendar instead of duplicating them.
+ */
+
+import { Event, Task, TaskCompletion, Vacation } from './types';
+import { formatRRule, parseRRule, WEEKDAY_CODES } from './rrule';
+import { compileCustomFrequency } from './customFrequency';
+import { getCustomEventRRule, getEventLunarDate, getEventOccurrences } from './eventOccurrences';
+import { nextOccurrences, getRRuleStart, isRepeatAfterCompletion, getFloatingDueDate } from './recurrence';
+import { addDays, parseDay } from './dateMath';
+import { getToday } from './dateService';
+
+const PRODUCT_ID = '-//Routine Ruby//Calendar Export//EN';
+const UID_DOMAIN = 'routine-ruby';
+
+// How far past a custom event's stored date to look for its first occurrence
+const CUSTOM_START_SEARCH_DAYS = 366 * 10;
+
+// Lunar calendar events are written out date by date this far ahead
+const LUNAR_EXPORT_DAYS = 366 * 20;
+
+// Content lines are folded at 75 octets (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+// Break long lines without splitting a multi-byte character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (date: string): string => date.replace(/-/g, '');
+
+const toICalTimestamp = (instant: Date): string => {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Day-of-month rule that falls on the month's last day when the day doesn't
+ * exist, like the app does (the 31st → Apr 30, Feb 29 → Feb 28)
+ */
+const monthDayRule = (day: number): string => {
+  return day <= 28 ? `BYMONTHDAY=${day}` : `BYMONTHDAY=${day},-1;BYSETPOS=1`;
+};
+
+interface ICalEntry {
+  uid: string;
+  summary: string;
+  description?: string;
+  category?: string;
+  start: string; // YYYY-MM-DD - entries are all-day
+  rrule?: string;
+  rDates?: string[]; // Extra dates for entries no rule can describe
+  exDates?: string[];
+  alarmDaysBefore?: number;
+}
+
+const formatEntry = (entry: ICalEntry, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${entry.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toICalDate(entry.start)}`,
+    `DTEND;VALUE=DATE:${toICalDate(addDays(entry.start, 1))}`,
+    `SUMMARY:${escapeText(entry.summary)}`
+  ];
+  if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  if (entry.category) lines.push(`CATEGORIES:${escapeText(entry.category)}`);
+  if (entry.rrule) lines.push(`RRULE:${entry.rrule}`);
+  if (entry.rDates?.length) lines.push(`RDATE;VALUE=DATE:${entry.rDates.map(toICalDate).join(',')}`);
+  if (entry.exDates?.length) lines.push(`EXDATE;VALUE=DATE:${entry.exDates.map(toICalDate).join(',')}`);
+  lines.push('TRANSP:TRANSPARENT');
+
+  // No reminder ahead of the day means no alarm at all
+  if (entry.alarmDaysBefore && entry.alarmDaysBefore > 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(entry.summary)}`,
+      `TRIGGER:-P${entry.alarmDaysBefore}D`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// ===== EVENTS =====
+
+/**
+ * Yearly events store MM-DD; they start in their recorded year (or this year).
+ * Feb 29 needs a leap year to start in.
+ */
+const getYearlyStart = (event: Event): string => {
+  let year = event.year || parseDay(getToday()).year;
+  if (event.date === '02-29') {
+    while (!(year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0))) year--;
+  }
+  return `${year}-${event.date}`;
+};
+
+// Our UID for an event; imported events keep the UID of their original entry
+export const getEventUid = (event: Event): string => {
+  return event.sourceUid || `event-${event.id}@${UID_DOMAIN}`;
+};
+
+// The event id inside one of our own UIDs (a re-imported export), if it is one
+export const getEventIdFromUid = (uid: string): string | null => {
+  const match = uid.match(new RegExp(`^event-(.+)@${UID_DOMAIN}$`));
+  return match ? match[1] : null;
+};
+
+const eventToEntry = (event: Event): ICalEntry | null => {
+  const base = {
+    uid: getEventUid(event),
+    summary: event.name,
+    description: event.description,
+    category: event.category,
+    alarmDaysBefore: event.notifyDaysBefore
+  };
+
+  // Lunar dates follow no Gregorian rule; list the coming years' dates instead
+  if (getEventLunarDate(event)) {
+    const today = getToday();
+    const [start, ...rDates] = getEventOccurrences(event, today, addDays(today, LUNAR_EXPORT_DAYS));
+    return start ? { ...base, start, rDates } : null;
+  }
+
+  if (event.frequency === 'yearly') {
+    const start = getYearlyStart(event);
+    const [, month, day] = start.split('-').map(Number);
+    return { ...base, start, rrule: `FREQ=YEARLY;BYMONTH=${month};${monthDayRule(day)}` };
+  }
+
+  // One-time and custom events carry a full date; custom ones repeat by their phrase
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(event.date)) return null;
+  const rrule = getCustomEventRRule(event);
+  if (!rrule) return { ...base, start: event.date };
+
+  // DTSTART always counts as an occurrence, so start on the first real one
+  // (the stored date of "second Sunday in May" needn't be a Sunday)
+  const [start] = getEventOccurrences(event, event.date, addDays(event.date, CUSTOM_START_SEARCH_DAYS));
+  return start ? { ...base, start, rrule } : null;
+};
+
+// ===== TASKS =====
+
+// The repeat rule for a task's frequency, or null when it has no fixed days
+const getTaskRRule = (task: Task, start: string): string | null => {
+  // Month and year intervals keep the anchor's day, even where a month was shorter
+  const { month, day } = parseDay(task.intervalStartDate || task.startDate || start);
+
+  switch (task.frequency) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return task.daysOfWeek?.length
+        ? `FREQ=WEEKLY;BYDAY=${task.daysOfWeek.map(d => WEEKDAY_CODES[d]).join(',')}`
+        : null;
+    case 'monthly':
+      return task.dayOfMonth ? `FREQ=MONTHLY;${monthDayRule(task.dayOfMonth)}` : null;
+    case 'interval': {
+      if (!task.intervalValue) return null;
+      const interval = task.intervalValue > 1 ? `;INTERVAL=${task.intervalValue}` : '';
+      switch (task.intervalUnit) {
+        case 'days': return `FREQ=DAILY${interval}`;
+        case 'weeks': return `FREQ=WEEKLY${interval}`;
+        case 'months': return `FREQ=MONTHLY${interval};${monthDayRule(day)}`;
+        case 'years': return `FREQ=YEARLY${interval};BYMONTH=${month};${monthDayRule(day)}`;
+        default: return null;
+      }
+    }
+    case 'custom':
+      return task.customFrequency ? compileCustomFrequency(task.customFrequency) : null;
+    case 'rrule':
+      try {
+        return task.rrule ? formatRRule(parseRRule(task.rrule)) : null;
+      } catch {
+        return null;
+      }
+    default:
+      return null; // Count-based tasks have no fixed days
+  }
+};
+
+const taskToEntry = (task: Task, completions: TaskCompletion[], vacations: Vacation[]): ICalEntry | null => {
+  const base = {
+    uid: `task-${task.id}@${UID_DOMAIN}`,
+    summary: task.name,
+    description: task.description,
+    category: task.category
+  };
+
+  if (task.specificDate) {
+    return { ...base, start: task.specificDate };
+  }
+
+  // Repeat-after-completion tasks have no fixed grid; export the next due date
+  if (isRepeatAfterCompletion(task)) {
+    const dueDate = getFloatingDueDate(task, completions);
+    return dueDate ? { ...base, start: dueDate } : null;
+  }
+
+  // Start on the first real occurrence so DTSTART matches the rule
+  const [start] = nextOccurrences(task, task.startDate || getRRuleStart(task) || getToday(), 1, vacations);
+  const rule = start ? getTaskRRule(task, start) : null;
+  if (!start || !rule) return null;
+
+  // UNTIL can't be combined with COUNT
+  const rrule = task.endDate && !/COUNT=/.test(rule) ? `${rule};UNTIL=${toICalDate(task.endDate)}` : rule;
+  return { ...base, start, rrule, exDates: task.frequency === 'rrule' ? task.exDates : undefined };
+};
+
+/**
+ * Build the .ics content. Pass completions so repeat-after-completion tasks
+ * land on their current due date.
+ */
+export const buildICalendar = ({
+  events = [],
+  tasks = [],
+  completions = [],
+  vacations = [],
+  calendarName = 'Routine Ruby'
+}: {
+  events?: Event[];
+  tasks?: Task[];
+  completions?: TaskCompletion[];
+  vacations?: Vacation[];
+  calendarName?: string;
+}): string => {
+  const stamp = toICalTimestamp(new Date());
+  const entries = [
+    ...events.map(eventToEntry),
+    ...tasks.map(task => taskToEntry(task, completions, vacations))
+  ].filter((entry): entry is ICalEntry => !!entry);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...entries.flatMap(entry => formatEntry(entry, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadICalendar = (content: string, fileName: string): void => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
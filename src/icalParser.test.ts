@@ -0,0 +1,92 @@
+import { readFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { importFromICalendar, parseICalendar } from './icalParser';
+import { setTimeZone } from './dateService';
+
+// Trimmed real exports, with CRLF line endings and folded lines as written by each app
+const readFixture = (name: string): string => {
+  return readFileSync(new URL(`./__fixtures__/ical/${name}`, import.meta.url), 'utf8');
+};
+
+beforeAll(() => {
+  setTimeZone('America/New_York');
+});
+
+const summarize = (events: Awaited<ReturnType<typeof importFromICalendar>>) => events.map(event => ({
+  name: event.name,
+  category: event.category,
+  date: event.date,
+  frequency: event.frequency,
+  customFrequency: event.customFrequency,
+  year: event.year,
+  notifyDaysBefore: event.notifyDaysBefore
+}));
+
+describe('Google Calendar export', () => {
+  const content = readFixture('google.ics');
+
+  it('skips cancelled events and edited instances of a series', () => {
+    expect(parseICalendar(content).map(event => event.summary)).toEqual([
+      "Mom's Birthday",
+      "New Year's Eve call with Sam",
+      'Book club'
+    ]);
+  });
+
+  it('unescapes and unfolds descriptions', () => {
+    const [birthday] = parseICalendar(content);
+    expect(birthday.description).toBe('Bring cake, candles and the card from the top drawer\nCall Aunt Ruth first');
+    expect(birthday.uid).toBe('4k3j2h1g0f9e8d7c6b5a@google.com');
+  });
+
+  it('converts events', async () => {
+    expect(summarize(await importFromICalendar(content))).toEqual([
+      // "9am the day before" on an all-day event
+      { name: "Mom's Birthday", category: 'Birthday', date: '04-12', frequency: 'yearly', customFrequency: undefined, year: 1990, notifyDaysBefore: 1 },
+      // 10pm in Los Angeles is already New Year's Day in New York
+      { name: "New Year's Eve call with Sam", category: 'Holiday', date: '2025-01-01', frequency: 'one-time', customFrequency: undefined, year: undefined, notifyDaysBefore: 0 },
+      { name: 'Book club', category: 'Special Event', date: '2024-01-14', frequency: 'custom', customFrequency: 'every month on the 2nd sunday', year: 2024, notifyDaysBefore: 3 }
+    ]);
+  });
+});
+
+describe('Outlook export', () => {
+  const content = readFixture('outlook.ics');
+
+  it('reads parameters on SUMMARY and folded UIDs', () => {
+    const [anniversary] = parseICalendar(content);
+    expect(anniversary.summary).toBe('Wedding Anniversary');
+    expect(anniversary.uid).toBe('040000008200E00074C5B7101A82E0080000000010D7A3E2C1D7D901000000000000000010000000A1B2C3D4E5F60718293A4B5C6D7E8F90');
+  });
+
+  it('converts events', async () => {
+    expect(summarize(await importFromICalendar(content))).toEqual([
+      // BYMONTH/BYMONTHDAY matching the start date is still a plain yearly repeat
+      { name: 'Wedding Anniversary', category: 'Anniversary', date: '06-20', frequency: 'yearly', customFrequency: undefined, year: 2015, notifyDaysBefore: 1 },
+      // Windows zone name
+      { name: 'Election night watch party', category: 'Special Event', date: '2024-11-06', frequency: 'one-time', customFrequency: undefined, year: undefined, notifyDaysBefore: 0 },
+      // Series that ended in 2019 imports as its first date
+      { name: 'Team standup', category: 'Special Event', date: '2019-09-03', frequency: 'one-time', customFrequency: undefined, year: undefined, notifyDaysBefore: 3 }
+    ]);
+  });
+});
+
+describe('Apple Calendar export', () => {
+  const content = readFixture('apple.ics');
+
+  it('ignores silent placeholder alarms', () => {
+    const [birthday, dentist] = parseICalendar(content);
+    expect(birthday.alarms).toEqual([]);
+    expect(dentist.alarms).toEqual([{ trigger: '-P1D', isAbsolute: false, relatedToEnd: false }]);
+  });
+
+  it('converts events', async () => {
+    expect(summarize(await importFromICalendar(content))).toEqual([
+      { name: "Grandpa's Birthday", category: 'Birthday', date: '02-29', frequency: 'yearly', customFrequency: undefined, year: 2000, notifyDaysBefore: 3 },
+      { name: 'Dentist', category: 'Special Event', date: '2025-03-14', frequency: 'one-time', customFrequency: undefined, year: undefined, notifyDaysBefore: 1 },
+      // 3:30 UTC on New Year's Day is still New Year's Eve in New York
+      { name: 'Fireworks on the roof', category: 'Special Event', date: '2024-12-31', frequency: 'one-time', customFrequency: undefined, year: undefined, notifyDaysBefore: 3 },
+      { name: 'Thanksgiving dinner', category: 'Holiday', date: '2023-11-23', frequency: 'custom', customFrequency: 'every year on 4th thursday in november', year: 2023, notifyDaysBefore: 3 }
+    ]);
+  });
+});
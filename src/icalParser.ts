@@ -1,112 +1,404 @@
 /**
  * iCalendar Parser Utility
- * 
- * Parses iCalendar (.ics) files from Google Calendar and other sources
- * Extracts events and converts them to our Event format
+ *
+ * Parses iCalendar (.ics) files (RFC 5545) from Google Calendar, Outlook, Apple
+ * Calendar and other sources, and converts their events to our Event format:
+ * - Folded lines are unfolded and TEXT values unescaped (\, \; \n \\)
+ * - Times with a TZID or in UTC land on the right day in the user's time zone;
+ *   all-day dates and floating times are taken as-is
+ * - VALARM triggers become notifyDaysBefore
+ * - Yearly RRULEs stay yearly; other rules (weekly, monthly, every N years,
+ *   nth weekday) become a 'custom' frequency phrase
  */
 
 import { Event, EventFrequencyType } from './types';
+import { parseRRule, expandRRule, RRule } from './rrule';
+import { compileCustomFrequency } from './customFrequency';
+import { daysBetween } from './dateMath';
+import { isValidTimeZone, toZonedDateString, zonedTimeToInstant, getToday } from './dateService';
 
-interface ICalEvent {
+export interface ICalDateValue {
+  date: string; // YYYY-MM-DD as written
+  time?: string; // HH:mm:ss - absent for all-day (VALUE=DATE) values
+  tzid?: string;
+  utc?: boolean; // Written with a trailing Z
+}
+
+export interface ICalAlarm {
+  trigger: string; // Duration ("-PT15M") or, when isAbsolute, a UTC date-time
+  isAbsolute: boolean;
+  relatedToEnd: boolean; // TRIGGER;RELATED=END
+}
+
+export interface ICalEvent {
   summary: string;
   description?: string;
-  dtstart: string;
-  dtend?: string;
+  dtstart: ICalDateValue;
+  dtend?: ICalDateValue;
   rrule?: string;
-  uid: string;
+  uid?: string;
+  alarms: ICalAlarm[];
 }
 
+export interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Outlook writes Windows zone names; these are the common ones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'UTC': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'E. Europe Standard Time': 'Europe/Bucharest',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Atlantic Standard Time': 'America/Halifax',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney'
+};
+
+const WEEKDAY_WORDS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_WORDS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Bulk imports without their own alarm still get a heads-up
+const DEFAULT_NOTIFY_DAYS = 3;
+
+// ===== PARSING =====
+// Content lines share their syntax with vCard, whose parser reuses these
+
+/**
+ * Split into content lines, joining folded lines: a line starting with a space
+ * or tab continues the previous one (the single whitespace is dropped)
+ */
+export const unfoldLines = (content: string): string[] => {
+  const lines: string[] = [];
+  for (const line of content.split(/\r\n|\n|\r/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.substring(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+  return lines;
+};
+
+// Split on a separator, except inside double-quoted parameter values
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
 /**
- * Parse iCalendar content and extract events
+ * "DTSTART;TZID=Europe/Berlin:20260105T090000" → name, parameters and value.
+ * The value starts after the first colon that isn't inside a quoted parameter.
+ */
+export const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.substring(0, colon), ';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.substring(0, eq).trim().toUpperCase()] = param.substring(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.trim().toUpperCase(), params, value: line.substring(colon + 1) };
+};
+
+export const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+// 20260105, 20260105T090000 or 20260105T090000Z
+const parseDateValue = (value: string, params: Record<string, string> = {}): ICalDateValue | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4] || params.VALUE === 'DATE') return { date };
+  return { date, time: `${match[4]}:${match[5]}:${match[6]}`, utc: !!match[7], tzid: params.TZID };
+};
+
+/**
+ * Parse iCalendar content and extract events. Components other than VEVENT
+ * (VTIMEZONE, VTODO...) are skipped, as are cancelled events and the edited
+ * instances of a series (RECURRENCE-ID), which would otherwise duplicate it.
  */
 export const parseICalendar = (icalContent: string): ICalEvent[] => {
   const events: ICalEvent[] = [];
-  const lines = icalContent.split(/\r?\n/);
-  
-  let inEvent = false;
-  let currentEvent: Partial<ICalEvent> = {};
-  let lastProperty = '';
-  
-  for (let i = 0; i < lines.length; i++) {
-    let line = lines[i].trim();
-    
-    // Handle line continuation (lines starting with space)
-    if (line.startsWith(' ') && lastProperty) {
-      line = line.substring(1);
-      // Append to previous property
-      if (lastProperty === 'SUMMARY' && currentEvent.summary) {
-        currentEvent.summary += line;
-      } else if (lastProperty === 'DESCRIPTION' && currentEvent.description) {
-        currentEvent.description += line;
+  const components: string[] = [];
+  let currentEvent: Partial<ICalEvent> & { alarms: ICalAlarm[] } = { alarms: [] };
+  let currentAlarm: ICalAlarm | null = null;
+  let alarmAction = '';
+  let isSkipped = false;
+
+  for (const rawLine of unfoldLines(icalContent)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      components.push(line.value.trim().toUpperCase());
+      if (components[components.length - 1] === 'VEVENT') {
+        currentEvent = { alarms: [] };
+        isSkipped = false;
+      }
+      if (components[components.length - 1] === 'VALARM') {
+        currentAlarm = null;
+        alarmAction = '';
       }
       continue;
     }
-    
-    if (line === 'BEGIN:VEVENT') {
-      inEvent = true;
-      currentEvent = {};
-    } else if (line === 'END:VEVENT' && inEvent) {
-      if (currentEvent.summary && currentEvent.dtstart && currentEvent.uid) {
+
+    if (line.name === 'END') {
+      const component = components.pop();
+      // Apple adds silent placeholder alarms (ACTION:NONE, triggering in 1976)
+      if (component === 'VALARM' && components[components.length - 1] === 'VEVENT' && currentAlarm && alarmAction !== 'NONE') {
+        currentEvent.alarms.push(currentAlarm);
+      }
+      if (component === 'VEVENT' && !isSkipped && currentEvent.summary && currentEvent.dtstart) {
         events.push(currentEvent as ICalEvent);
       }
-      inEvent = false;
-      currentEvent = {};
-    } else if (inEvent) {
-      if (line.startsWith('SUMMARY:')) {
-        currentEvent.summary = line.substring(8);
-        lastProperty = 'SUMMARY';
-      } else if (line.startsWith('DESCRIPTION:')) {
-        currentEvent.description = line.substring(12);
-        lastProperty = 'DESCRIPTION';
-      } else if (line.startsWith('DTSTART')) {
-        const match = line.match(/DTSTART[^:]*:(.*)/);
-        if (match) {
-          currentEvent.dtstart = match[1];
-        }
-        lastProperty = 'DTSTART';
-      } else if (line.startsWith('DTEND')) {
-        const match = line.match(/DTEND[^:]*:(.*)/);
-        if (match) {
-          currentEvent.dtend = match[1];
-        }
-        lastProperty = 'DTEND';
-      } else if (line.startsWith('RRULE:')) {
-        currentEvent.rrule = line.substring(6);
-        lastProperty = 'RRULE';
-      } else if (line.startsWith('UID:')) {
-        currentEvent.uid = line.substring(4);
-        lastProperty = 'UID';
-      } else {
-        lastProperty = '';
+      continue;
+    }
+
+    const component = components[components.length - 1];
+    const parent = components[components.length - 2];
+
+    if (component === 'VALARM' && parent === 'VEVENT') {
+      if (line.name === 'TRIGGER') {
+        currentAlarm = {
+          trigger: line.value.trim(),
+          isAbsolute: line.params.VALUE === 'DATE-TIME',
+          relatedToEnd: line.params.RELATED === 'END'
+        };
+      } else if (line.name === 'ACTION') {
+        alarmAction = line.value.trim().toUpperCase();
       }
+      continue;
+    }
+    if (component !== 'VEVENT') continue;
+
+    switch (line.name) {
+      case 'SUMMARY':
+        currentEvent.summary = unescapeText(line.value).trim();
+        break;
+      case 'DESCRIPTION':
+        currentEvent.description = unescapeText(line.value).trim() || undefined;
+        break;
+      case 'DTSTART':
+        currentEvent.dtstart = parseDateValue(line.value, line.params) || undefined;
+        break;
+      case 'DTEND':
+        currentEvent.dtend = parseDateValue(line.value, line.params) || undefined;
+        break;
+      case 'RRULE':
+        currentEvent.rrule = line.value.trim();
+        break;
+      case 'UID':
+        currentEvent.uid = line.value.trim();
+        break;
+      case 'STATUS':
+        if (line.value.trim().toUpperCase() === 'CANCELLED') isSkipped = true;
+        break;
+      case 'RECURRENCE-ID':
+        isSkipped = true;
+        break;
     }
   }
-  
+
   return events;
 };
 
+// ===== CONVERSION =====
+
+// IANA names as-is ("/Europe/Berlin" from some exporters too), Windows names mapped
+const resolveTimeZone = (tzid: string): string | undefined => {
+  const name = tzid.replace(/^\//, '');
+  if (isValidTimeZone(name)) return name;
+  return WINDOWS_TIME_ZONES[name];
+};
+
+/**
+ * Calendar date an iCal date falls on in the user's time zone. All-day dates
+ * and floating times (or zones we don't know) are taken as written.
+ */
+const toLocalDate = (value: ICalDateValue): string => {
+  if (!value.time) return value.date;
+  const timeZone = value.utc ? 'UTC' : value.tzid && resolveTimeZone(value.tzid);
+  return timeZone ? toZonedDateString(zonedTimeToInstant(value.date, value.time, timeZone)) : value.date;
+};
+
+// "-P1D", "-PT15M", "P1W", "-P1DT12H" → signed minutes
+const parseDurationMinutes = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part || '0');
+  const total = (+weeks * 7 + +days) * 1440 + +hours * 60 + +minutes + +seconds / 60;
+  return sign === '-' ? -total : total;
+};
+
+// Minutes from midnight of the value's own date
+const minutesIntoDay = (value: ICalDateValue): number => {
+  if (!value.time) return 0;
+  const [hours, minutes] = value.time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whole days before the event's day an alarm goes off (0 = on the day).
+ * An all-day event starts at midnight, so Google's "9am the day before"
+ * (-PT15H) is 1 day while "15 minutes before" a morning meeting is 0.
+ */
+const getAlarmLeadDays = (alarm: ICalAlarm, event: ICalEvent, eventDate: string): number => {
+  if (alarm.isAbsolute) {
+    const trigger = parseDateValue(alarm.trigger);
+    return trigger ? Math.max(0, daysBetween(toLocalDate(trigger), eventDate)) : 0;
+  }
+
+  const offset = parseDurationMinutes(alarm.trigger);
+  if (offset === null) return 0;
+
+  const start = event.dtstart;
+  const end = alarm.relatedToEnd && event.dtend ? event.dtend : start;
+  // Minutes from the start day's midnight to when the alarm fires
+  const firesAt = daysBetween(start.date, end.date) * 1440 + minutesIntoDay(end) + offset;
+  return firesAt < 0 ? Math.ceil(-firesAt / 1440) : 0;
+};
+
+const ordinal = (n: number): string => {
+  if (n === -1) return 'last';
+  const suffix = n % 100 > 10 && n % 100 < 14 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+// "every week", "every 2 months"
+const everyPhrase = (interval: number, unit: string): string => {
+  return interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+};
+
 /**
- * Parse iCalendar date string to Date object
+ * Describe a rule as a custom frequency phrase ("every 2 weeks on monday and
+ * thursday", "every month on the 2nd sunday", "every year on 4th thursday in
+ * november"). Null when the rule has no phrase equivalent.
  */
-const parseICalDate = (dateStr: string): Date => {
-  // Handle formats: 20210716, 20210716T093500, 20210716T093500Z
-  const cleanStr = dateStr.replace(/[-:]/g, '');
-  
-  if (cleanStr.length >= 8) {
-    const year = parseInt(cleanStr.substring(0, 4));
-    const month = parseInt(cleanStr.substring(4, 6)) - 1;
-    const day = parseInt(cleanStr.substring(6, 8));
-    
-    if (cleanStr.length > 8 && cleanStr.includes('T')) {
-      const hour = parseInt(cleanStr.substring(9, 11)) || 0;
-      const minute = parseInt(cleanStr.substring(11, 13)) || 0;
-      return new Date(year, month, day, hour, minute);
+const toCustomPhrase = (rule: RRule, start: string): string | null => {
+  const [startYear, startMonth, startDay] = start.split('-').map(Number);
+  const startWeekday = new Date(startYear, startMonth - 1, startDay).getDay();
+  const hasOrdinals = !!rule.byDay?.some(d => d.ordinal);
+  if (rule.bySetPos?.length) return null;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      if (rule.byDay || rule.byMonthDay || rule.byMonth) return null;
+      return everyPhrase(rule.interval, 'day');
+
+    case 'WEEKLY': {
+      if (rule.byMonthDay || rule.byMonth || hasOrdinals) return null;
+      const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [startWeekday];
+      return `${everyPhrase(rule.interval, 'week')} on ${weekdays.map(w => WEEKDAY_WORDS[w]).join(' and ')}`;
+    }
+
+    case 'MONTHLY': {
+      if (rule.byMonth) return null;
+      if (rule.byDay) {
+        // One numbered weekday ("2SU"), as in Mother's Day style rules
+        if (rule.byMonthDay || rule.byDay.length !== 1 || !hasOrdinals) return null;
+        const [{ weekday, ordinal: n }] = rule.byDay;
+        return `${everyPhrase(rule.interval, 'month')} on the ${ordinal(n!)} ${WEEKDAY_WORDS[weekday]}`;
+      }
+      const days = rule.byMonthDay || [startDay];
+      if (days.some(d => d < -1 || d === 0)) return null;
+      return `${everyPhrase(rule.interval, 'month')} on the ${days.map(ordinal).join(' and ')}`;
     }
-    
-    return new Date(year, month, day);
+
+    case 'YEARLY': {
+      const months = rule.byMonth || [startMonth];
+      if (months.length !== 1) return null;
+      const month = MONTH_WORDS[months[0] - 1];
+      if (rule.byDay) {
+        if (rule.byMonthDay || rule.byDay.length !== 1 || !hasOrdinals) return null;
+        const [{ weekday, ordinal: n }] = rule.byDay;
+        return `${everyPhrase(rule.interval, 'year')} on ${ordinal(n!)} ${WEEKDAY_WORDS[weekday]} in ${month}`;
+      }
+      const days = rule.byMonthDay || [startDay];
+      if (days.length !== 1 || days[0] < 1) return null;
+      return `${everyPhrase(rule.interval, 'year')} on ${month} ${days[0]}`;
+    }
+
+    default:
+      return null;
   }
-  
-  return new Date();
+};
+
+/**
+ * Map an RRULE onto our event frequencies: a plain every-year repeat stays
+ * 'yearly', anything else becomes a 'custom' phrase. Null when the rule can't
+ * be expressed or the series has already ended - those import as one-time
+ * events on their first date.
+ */
+const toEventRecurrence = (rruleText: string, start: string): { frequency: EventFrequencyType; customFrequency?: string } | null => {
+  let rule: RRule;
+  try {
+    // Events are all-day for us, so time-of-day parts don't matter
+    rule = parseRRule(rruleText.split(';').filter(part => !/^BY(HOUR|MINUTE|SECOND)=/i.test(part.trim())).join(';'));
+  } catch {
+    return null;
+  }
+
+  // "BYMONTHDAY=31,-1;BYSETPOS=1" (the 31st, else the last day, as we export it) keeps just the day
+  if (rule.bySetPos?.length === 1 && rule.bySetPos[0] === 1 && rule.byMonthDay?.length === 2 && rule.byMonthDay[1] === -1 && !rule.byDay) {
+    rule = { ...rule, byMonthDay: [rule.byMonthDay[0]], bySetPos: undefined };
+  }
+
+  // Events have no end date: a finished series is one-time, an ongoing one keeps repeating
+  if ((rule.count || rule.until) && expandRRule(rule, start, getToday()).complete) return null;
+
+  const [, startMonth, startDay] = start.split('-').map(Number);
+  const isPlainYearly = rule.freq === 'YEARLY' && rule.interval === 1 && !rule.byDay && !rule.bySetPos &&
+    (!rule.byMonth || (rule.byMonth.length === 1 && rule.byMonth[0] === startMonth)) &&
+    (!rule.byMonthDay || (rule.byMonthDay.length === 1 && rule.byMonthDay[0] === startDay));
+  if (isPlainYearly) return { frequency: 'yearly' };
+
+  // Only keep phrases the custom frequency parser reads back
+  const phrase = toCustomPhrase(rule, start);
+  return phrase && compileCustomFrequency(phrase) ? { frequency: 'custom', customFrequency: phrase } : null;
 };
 
 /**
@@ -114,7 +406,7 @@ const parseICalDate = (dateStr: string): Date => {
  */
 const detectCategory = (summary: string): string => {
   const lowerSummary = summary.toLowerCase();
-  
+
   // Check for keywords
   if (lowerSummary.includes('birthday') || lowerSummary.includes('bday')) {
     return 'Birthday';
@@ -131,11 +423,11 @@ const detectCategory = (summary: string): string => {
   if (lowerSummary.includes('remembrance') || lowerSummary.includes('tribute')) {
     return 'Remembrance';
   }
-  if (lowerSummary.includes('holiday') || lowerSummary.includes('christmas') || 
+  if (lowerSummary.includes('holiday') || lowerSummary.includes('christmas') ||
       lowerSummary.includes('thanksgiving') || lowerSummary.includes('new year')) {
     return 'Holiday';
   }
-  
+
   return 'Special Event';
 };
 
@@ -160,65 +452,41 @@ const getColorForCategory = (category: string): string => {
  */
 export const convertICalEventsToEvents = (icalEvents: ICalEvent[]): Omit<Event, 'id' | 'createdAt'>[] => {
   const events: Omit<Event, 'id' | 'createdAt'>[] = [];
-  
+
   icalEvents.forEach(icalEvent => {
     try {
-      const startDate = parseICalDate(icalEvent.dtstart);
       const category = detectCategory(icalEvent.summary);
       const color = getColorForCategory(category);
-      
-      // Check if it's a recurring event
-      const isYearly = icalEvent.rrule && icalEvent.rrule.includes('FREQ=YEARLY');
-      
-      let dateStr: string;
-      let frequency: EventFrequencyType;
-      let year: number | undefined;
-      
-      if (isYearly) {
-        // For yearly events, use MM-DD format
-        const month = String(startDate.getMonth() + 1).padStart(2, '0');
-        const day = String(startDate.getDate()).padStart(2, '0');
-        dateStr = `${month}-${day}`;
-        frequency = 'yearly';
-        year = startDate.getFullYear();
-      } else {
-        // For one-time events, use YYYY-MM-DD format
-        const year = startDate.getFullYear();
-        const month = String(startDate.getMonth() + 1).padStart(2, '0');
-        const day = String(startDate.getDate()).padStart(2, '0');
-        dateStr = `${year}-${month}-${day}`;
-        frequency = 'one-time';
-      }
-      
-      // Extract notification days from TRIGGER in VALARM (if exists)
-      let notifyDaysBefore = 0;
-      if (icalEvent.rrule && icalEvent.rrule.includes('TRIGGER:-P')) {
-        const match = icalEvent.rrule.match(/TRIGGER:-P(\d+)D/);
-        if (match) {
-          notifyDaysBefore = parseInt(match[1]);
-        }
-      }
-      
-      // Set default notification days to 3 for all categories (bulk upload default)
-      if (notifyDaysBefore === 0) {
-        notifyDaysBefore = 3;
-      }
-      
+      // A rule's BYDAY/BYMONTHDAY are in the event's own zone, so series keep the date as written
+      const recurrence = icalEvent.rrule ? toEventRecurrence(icalEvent.rrule, icalEvent.dtstart.date) : null;
+      const startDate = recurrence ? icalEvent.dtstart.date : toLocalDate(icalEvent.dtstart);
+      const year = parseInt(startDate.substring(0, 4));
+
+      // Yearly events use MM-DD; one-time and custom events keep the full (first) date
+      const dateStr = recurrence?.frequency === 'yearly' ? startDate.substring(5) : startDate;
+
+      // The earliest alarm decides how early the event shows up
+      const notifyDaysBefore = icalEvent.alarms.length > 0
+        ? Math.max(...icalEvent.alarms.map(alarm => getAlarmLeadDays(alarm, icalEvent, startDate)))
+        : DEFAULT_NOTIFY_DAYS;
+
       events.push({
         name: icalEvent.summary,
         description: icalEvent.description,
         category,
         date: dateStr,
-        frequency,
-        year,
+        frequency: recurrence?.frequency || 'one-time',
+        customFrequency: recurrence?.customFrequency,
+        year: recurrence ? year : undefined,
         notifyDaysBefore,
-        color
+        color,
+        sourceUid: icalEvent.uid
       });
     } catch (error) {
       console.error('Error converting event:', icalEvent.summary, error);
     }
   });
-  
+
   return events;
 };
 
@@ -237,13 +505,12 @@ export const importFromICalendar = async (fileContent: string): Promise<Omit<Eve
 export const filterPersonalEvents = (events: Omit<Event, 'id' | 'createdAt'>[]): Omit<Event, 'id' | 'createdAt'>[] => {
   const personalCategories = [
     'Birthday',
-    'Anniversary', 
+    'Anniversary',
     'Death Anniversary',
     'Memorial',
     'Remembrance',
     'Holiday'
   ];
-  
+
   return events.filter(event => personalCategories.includes(event.category || ''));
 };
-
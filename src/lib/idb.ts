@@ -0,0 +1,143 @@
+/**
+ * IndexedDB Helpers
+ *
+ * Opens the app's local database and wraps the callback-based IndexedDB
+ * API in promises. Used by the local storage adapter and the offline queue.
+ */
+
+const DB_NAME = 'routine-ruby';
+const DB_VERSION = 5;
+
+export const STORES = {
+  tasks: 'tasks',
+  completions: 'completions',
+  spillovers: 'spillovers',
+  vacations: 'vacations',
+  events: 'events',
+  eventReminders: 'eventReminders',
+  eventAcknowledgments: 'eventAcknowledgments',
+  items: 'items',
+  journalEntries: 'journalEntries',
+  routines: 'routines',
+  tags: 'tags',
+  settings: 'settings',
+  outbox: 'outbox', // Queued Supabase writes waiting for connectivity
+  offlineCache: 'offlineCache' // Last successful Supabase reads
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.tasks)) {
+          db.createObjectStore(STORES.tasks, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.completions)) {
+          db.createObjectStore(STORES.completions, { keyPath: ['taskId', 'date'] });
+        }
+        if (!db.objectStoreNames.contains(STORES.spillovers)) {
+          db.createObjectStore(STORES.spillovers, { keyPath: ['taskId', 'fromDate'] });
+        }
+        if (!db.objectStoreNames.contains(STORES.vacations)) {
+          db.createObjectStore(STORES.vacations, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.events)) {
+          db.createObjectStore(STORES.events, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.eventReminders)) {
+          const reminders = db.createObjectStore(STORES.eventReminders, { autoIncrement: true });
+          reminders.createIndex('eventId', 'eventId');
+          reminders.createIndex('reminderDate', 'reminderDate');
+        }
+        if (!db.objectStoreNames.contains(STORES.eventAcknowledgments)) {
+          db.createObjectStore(STORES.eventAcknowledgments, { keyPath: ['eventId', 'date'] });
+        }
+        if (!db.objectStoreNames.contains(STORES.items)) {
+          db.createObjectStore(STORES.items, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.journalEntries)) {
+          db.createObjectStore(STORES.journalEntries, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.routines)) {
+          db.createObjectStore(STORES.routines, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.tags)) {
+          db.createObjectStore(STORES.tags, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.settings)) {
+          db.createObjectStore(STORES.settings);
+        }
+        if (!db.objectStoreNames.contains(STORES.outbox)) {
+          db.createObjectStore(STORES.outbox, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(STORES.offlineCache)) {
+          db.createObjectStore(STORES.offlineCache);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run a callback inside a transaction and resolve once the transaction commits
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await callback(tx.objectStore(storeName));
+  await done;
+  return result;
+};
+
+export const getAll = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<T[]>));
+
+export const getOne = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => requestToPromise(store.get(key) as IDBRequest<T | undefined>));
+
+export const putOne = (storeName: StoreName, value: unknown, key?: IDBValidKey): Promise<void> =>
+  withStore(storeName, 'readwrite', store => { store.put(value, key); });
+
+export const deleteOne = (storeName: StoreName, key: IDBValidKey): Promise<void> =>
+  withStore(storeName, 'readwrite', store => { store.delete(key); });
+
+/**
+ * Merge updates into a record, skipping undefined fields (same as the Supabase adapter)
+ */
+export const mergeDefined = <T extends object>(current: T, updates: Partial<T>): T => {
+  const merged: any = { ...current };
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+};
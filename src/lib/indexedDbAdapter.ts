@@ -0,0 +1,271 @@
+/**
+ * IndexedDB Storage Adapter
+ *
+ * Fully local implementation of StorageAdapter. Data never leaves the
+ * browser, so the app works without a Supabase project or an account
+ * (guest/offline mode and demos).
+ *
+ * Mirrors the Supabase adapter's contract: updates ignore undefined fields,
+ * journal entries are unique per date and tags are unique per name.
+ */
+
+import type { StorageAdapter } from './storageAdapter';
+import { Task, TaskCompletion, TaskSpillover, Vacation, Event, EventReminder, EventAcknowledgment, Item, JournalEntry, Routine, Tag, UserSettings } from '../types';
+import { generateUUID } from '../utils';
+import { STORES, StoreName, withStore, requestToPromise, getAll, getOne, putOne, deleteOne, mergeDefined } from './idb';
+
+const SETTINGS_KEY = 'user';
+
+const updateRecord = async <T extends object>(storeName: StoreName, key: IDBValidKey, updates: Partial<T>): Promise<void> => {
+  const current = await getOne<T>(storeName, key);
+  if (!current) throw new Error(`Record ${String(key)} not found in ${storeName}`);
+  await putOne(storeName, mergeDefined(current, updates));
+};
+
+export const indexedDbAdapter: StorageAdapter = {
+  mode: 'local',
+
+  // ===== TASKS =====
+
+  async getTasks() {
+    const tasks = await getAll<Task>(STORES.tasks);
+    return tasks.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+  },
+
+  async getTask(taskId) {
+    return (await getOne<Task>(STORES.tasks, taskId)) || null;
+  },
+
+  async addTask(task) {
+    await putOne(STORES.tasks, {
+      ...task,
+      dependentTaskIds: task.dependentTaskIds || [],
+      onHold: task.onHold || false,
+      tags: task.tags || []
+    });
+  },
+
+  async updateTask(taskId, updates) {
+    await updateRecord<Task>(STORES.tasks, taskId, updates);
+  },
+
+  async deleteTask(taskId) {
+    await deleteOne(STORES.tasks, taskId);
+  },
+
+  // ===== TASK COMPLETIONS =====
+
+  async getCompletions() {
+    return getAll<TaskCompletion>(STORES.completions);
+  },
+
+  async saveCompletion(completion) {
+    await putOne(STORES.completions, completion);
+  },
+
+  async deleteCompletion(taskId, date) {
+    await deleteOne(STORES.completions, [taskId, date]);
+  },
+
+  // ===== TASK SPILLOVERS =====
+
+  async getSpillovers() {
+    return getAll<TaskSpillover>(STORES.spillovers);
+  },
+
+  async saveSpillover(spillover) {
+    await putOne(STORES.spillovers, spillover);
+  },
+
+  async deleteSpillover(taskId, fromDate) {
+    await deleteOne(STORES.spillovers, [taskId, fromDate]);
+  },
+
+  // ===== VACATIONS =====
+
+  async getVacations() {
+    const vacations = await getAll<Vacation>(STORES.vacations);
+    return vacations.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  },
+
+  async saveVacation(vacation) {
+    await putOne(STORES.vacations, {
+      ...vacation,
+      id: vacation.id || generateUUID(),
+      createdAt: vacation.createdAt || new Date().toISOString()
+    });
+  },
+
+  async deleteVacation(vacationId) {
+    await deleteOne(STORES.vacations, vacationId);
+  },
+
+  // ===== EVENTS =====
+
+  async getEvents() {
+    const events = await getAll<Event>(STORES.events);
+    return events.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+  },
+
+  async addEvent(event) {
+    await putOne(STORES.events, {
+      ...event,
+      tags: event.tags || [],
+      frequency: event.frequency || 'yearly',
+      notifyDaysBefore: event.notifyDaysBefore || 0,
+      priority: event.priority || 5,
+      hideFromDashboard: event.hideFromDashboard || false,
+      createdAt: event.createdAt || new Date().toISOString()
+    });
+  },
+
+  async updateEvent(eventId, updates) {
+    await updateRecord<Event>(STORES.events, eventId, updates);
+  },
+
+  async deleteEvent(eventId) {
+    await indexedDbAdapter.replaceEventReminders(eventId, []);
+    const acknowledgments = await indexedDbAdapter.getEventAcknowledgments();
+    for (const ack of acknowledgments.filter(a => a.eventId === eventId)) {
+      await deleteOne(STORES.eventAcknowledgments, [ack.eventId, ack.date]);
+    }
+    await deleteOne(STORES.events, eventId);
+  },
+
+  async getEventReminders(reminderDates) {
+    const reminders = await getAll<EventReminder>(STORES.eventReminders);
+    return reminders.filter(r => reminderDates.includes(r.reminderDate));
+  },
+
+  async replaceEventReminders(eventId, reminders) {
+    await withStore(STORES.eventReminders, 'readwrite', async store => {
+      const keys = await requestToPromise(store.index('eventId').getAllKeys(eventId));
+      keys.forEach(key => store.delete(key));
+      reminders.forEach(reminder => store.add({ ...reminder, eventId }));
+    });
+  },
+
+  // ===== EVENT ACKNOWLEDGMENTS =====
+
+  async getEventAcknowledgments() {
+    return getAll<EventAcknowledgment>(STORES.eventAcknowledgments);
+  },
+
+  async saveEventAcknowledgment(acknowledgment) {
+    await putOne(STORES.eventAcknowledgments, acknowledgment);
+  },
+
+  async deleteEventAcknowledgment(eventId, date) {
+    await deleteOne(STORES.eventAcknowledgments, [eventId, date]);
+  },
+
+  // ===== ITEMS =====
+
+  async getItems() {
+    const items = await getAll<Item>(STORES.items);
+    return items.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+  },
+
+  async addItem(item) {
+    await putOne(STORES.items, { ...item, updatedAt: item.updatedAt || item.createdAt });
+  },
+
+  async updateItem(itemId, updates) {
+    await updateRecord<Item>(STORES.items, itemId, { ...updates, updatedAt: new Date().toISOString() });
+  },
+
+  async deleteItem(itemId) {
+    await deleteOne(STORES.items, itemId);
+  },
+
+  // ===== JOURNAL ENTRIES =====
+
+  async getJournalEntries() {
+    const entries = await getAll<JournalEntry>(STORES.journalEntries);
+    return entries.sort((a, b) => b.date.localeCompare(a.date));
+  },
+
+  async saveJournalEntry(entry) {
+    const entries = await getAll<JournalEntry>(STORES.journalEntries);
+    const existing = entries.find(e => e.date === entry.date);
+    const now = new Date().toISOString();
+
+    await withStore(STORES.journalEntries, 'readwrite', store => {
+      // One entry per date: replace whatever was saved for this date before
+      if (existing && existing.id !== entry.id) {
+        store.delete(existing.id);
+      }
+      store.put({
+        ...entry,
+        id: entry.id || existing?.id || generateUUID(),
+        createdAt: existing?.createdAt || entry.createdAt || now,
+        updatedAt: now
+      });
+    });
+  },
+
+  async deleteJournalEntry(entryId) {
+    await deleteOne(STORES.journalEntries, entryId);
+  },
+
+  // ===== ROUTINES =====
+
+  async getRoutines() {
+    const routines = await getAll<Routine>(STORES.routines);
+    return routines.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async saveRoutine(routine) {
+    await putOne(STORES.routines, {
+      ...routine,
+      id: routine.id || generateUUID(),
+      isPreDefined: routine.isPreDefined || false,
+      isActive: routine.isActive !== false,
+      createdAt: routine.createdAt || new Date().toISOString()
+    });
+  },
+
+  async deleteRoutine(routineId) {
+    await deleteOne(STORES.routines, routineId);
+  },
+
+  // ===== TAGS =====
+
+  async getTags() {
+    const tags = await getAll<Tag>(STORES.tags);
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async saveTag(tag) {
+    const tags = await getAll<Tag>(STORES.tags);
+    const sameName = tags.find(t => t.name === tag.name && t.id !== tag.id);
+
+    await withStore(STORES.tags, 'readwrite', store => {
+      // Tag names are unique: saving over an existing name replaces that tag
+      if (sameName) {
+        store.delete(sameName.id);
+      }
+      store.put({
+        ...tag,
+        id: tag.id || generateUUID(),
+        trackable: tag.trackable || false,
+        createdAt: tag.createdAt || new Date().toISOString()
+      });
+    });
+  },
+
+  async deleteTag(tagId) {
+    await deleteOne(STORES.tags, tagId);
+  },
+
+  // ===== USER SETTINGS =====
+
+  async loadUserSettings() {
+    return (await getOne<UserSettings>(STORES.settings, SETTINGS_KEY)) || null;
+  },
+
+  async saveUserSettings(settings) {
+    const current = await getOne<UserSettings>(STORES.settings, SETTINGS_KEY);
+    await putOne(STORES.settings, mergeDefined(current || { dashboardLayout: 'uniform' }, settings), SETTINGS_KEY);
+  }
+};
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageAdapter } from './storageAdapter';
+import { TaskCompletion } from '../types';
+import { getSyncStatus, syncOutbox, withOfflineQueue } from './offlineQueue';
+
+// In-memory IndexedDB stores; the outbox numbers its records like autoIncrement
+const stores = vi.hoisted(() => new Map<string, Map<unknown, any>>());
+
+vi.mock('./idb', async importOriginal => {
+  const store = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    return stores.get(name)!;
+  };
+  let nextId = 1;
+  return {
+    ...(await importOriginal<typeof import('./idb')>()),
+    getAll: async (name: string) => [...store(name).values()].map(value => structuredClone(value)),
+    getOne: async (name: string, key: unknown) => structuredClone(store(name).get(key)),
+    putOne: async (name: string, value: any, key?: unknown) => {
+      const record = structuredClone(value);
+      if (key === undefined && record.id === undefined) record.id = nextId++;
+      store(name).set(key ?? record.id, record);
+    },
+    deleteOne: async (name: string, key: unknown) => {
+      store(name).delete(key);
+    }
+  };
+});
+
+// The session is stored locally; the user lookup over the network fails like it does offline
+vi.mock('./supabase', () => ({
+  getSessionUserId: async () => 'user-1',
+  requireAuth: async () => {
+    throw new Error('User must be signed in to access data.');
+  },
+  onAuthStateChange: () => () => {}
+}));
+
+const networkError = () => new TypeError('Failed to fetch');
+
+const completion = (date: string, completedAt = `${date}T09:00:00.000Z`): TaskCompletion => ({
+  taskId: 'task-1',
+  date,
+  completedAt
+});
+
+// Only the methods the tests use; the server's completions live in `server`
+const createServer = (initial: TaskCompletion[] = []) => {
+  const server = { completions: [...initial], reachable: true };
+  const adapter = {
+    mode: 'supabase',
+    getCompletions: vi.fn(async () => {
+      if (!server.reachable) throw networkError();
+      return server.completions;
+    }),
+    saveCompletion: vi.fn(async (c: TaskCompletion) => {
+      if (!server.reachable) throw networkError();
+      server.completions = [...server.completions.filter(e => !(e.taskId === c.taskId && e.date === c.date)), c];
+    })
+  } as unknown as StorageAdapter;
+  return { server, adapter };
+};
+
+beforeEach(() => {
+  stores.clear();
+  vi.stubGlobal('navigator', { onLine: true });
+});
+
+describe('withOfflineQueue', () => {
+  it('queues a write that fails with a network error', async () => {
+    const { server, adapter } = createServer();
+    server.reachable = false;
+
+    await withOfflineQueue(adapter).saveCompletion(completion('2024-01-02'));
+
+    const outbox = [...stores.get('outbox')!.values()];
+    expect(outbox).toMatchObject([{ userId: 'user-1', method: 'saveCompletion', args: [completion('2024-01-02')] }]);
+  });
+
+  it('queues writes without trying the network while offline', async () => {
+    const { adapter } = createServer();
+    vi.stubGlobal('navigator', { onLine: false });
+
+    await withOfflineQueue(adapter).saveCompletion(completion('2024-01-02'));
+
+    expect(adapter.saveCompletion).not.toHaveBeenCalled();
+    expect(stores.get('outbox')!.size).toBe(1);
+  });
+
+  it('reads from the cache with queued writes applied when the network fails', async () => {
+    const { server, adapter } = createServer([completion('2024-01-01')]);
+    const queued = withOfflineQueue(adapter);
+    await queued.getCompletions(); // Fills the cache
+
+    server.reachable = false;
+    await queued.saveCompletion(completion('2024-01-02'));
+
+    expect(await queued.getCompletions()).toEqual([completion('2024-01-01'), completion('2024-01-02')]);
+  });
+
+  it('reports data that was never loaded on this device', async () => {
+    const { server, adapter } = createServer();
+    server.reachable = false;
+
+    await expect(withOfflineQueue(adapter).getCompletions()).rejects.toThrow(/offline/);
+  });
+});
+
+describe('syncOutbox', () => {
+  it('replays queued writes in order and empties the outbox', async () => {
+    const { server, adapter } = createServer();
+    const queued = withOfflineQueue(adapter);
+    server.reachable = false;
+    await queued.saveCompletion(completion('2024-01-02'));
+
+    // Later writes wait behind the queue instead of overtaking it
+    server.reachable = true;
+    await queued.saveCompletion(completion('2024-01-03'));
+    await syncOutbox();
+
+    expect(vi.mocked(adapter.saveCompletion).mock.calls.slice(1).map(([c]) => c.date)).toEqual(['2024-01-02', '2024-01-03']);
+    expect(server.completions.map(c => c.date)).toEqual(['2024-01-02', '2024-01-03']);
+    expect(stores.get('outbox')!.size).toBe(0);
+    expect(getSyncStatus().pending).toBe(0);
+  });
+
+  it('drops a queued completion when the server copy is newer', async () => {
+    const { server, adapter } = createServer();
+    const queued = withOfflineQueue(adapter);
+    server.reachable = false;
+    await queued.saveCompletion(completion('2024-01-02', '2024-01-02T09:00:00.000Z'));
+
+    // Another device logged the same day later
+    const newer = { ...completion('2024-01-02', '2024-01-02T18:00:00.000Z'), value: 5 };
+    server.completions = [newer];
+    server.reachable = true;
+    await syncOutbox();
+
+    expect(server.completions).toEqual([newer]);
+    expect(stores.get('outbox')!.size).toBe(0);
+    expect(getSyncStatus().conflicts).toBe(1);
+  });
+
+  it('keeps the queue when the network fails again', async () => {
+    const { server, adapter } = createServer();
+    const queued = withOfflineQueue(adapter);
+    server.reachable = false;
+    await queued.saveCompletion(completion('2024-01-02'));
+
+    await syncOutbox();
+
+    expect(stores.get('outbox')!.size).toBe(1);
+    expect(getSyncStatus().pending).toBe(1);
+  });
+
+  it("leaves another account's writes in the outbox", async () => {
+    const { server, adapter } = createServer();
+    withOfflineQueue(adapter);
+    stores.set('outbox', new Map([[1, {
+      id: 1,
+      userId: 'user-2',
+      method: 'saveCompletion',
+      args: [completion('2024-01-02')],
+      queuedAt: '2024-01-02T09:00:00.000Z',
+      attempts: 0
+    }]]));
+
+    await syncOutbox();
+
+    expect(server.completions).toEqual([]);
+    expect(stores.get('outbox')!.size).toBe(1);
+  });
+});
@@ -0,0 +1,523 @@
+/**
+ * Offline Write Queue (Outbox)
+ *
+ * Wraps the Supabase adapter so taps are never lost when the network drops:
+ * - Writes made while offline (or failing with a network error) are stored
+ *   in the IndexedDB outbox and reported as successful
+ * - Reads fall back to the last successful response when the network or the
+ *   server fails, with pending writes applied on top so the UI reflects what
+ *   the user just did
+ * - The outbox is replayed in order when connectivity returns ('online'
+ *   event or the service worker's 'sync-tasks' background sync)
+ *
+ * Conflicts are resolved with the timestamps the data already carries:
+ * a queued completion, journal entry or item update is dropped if the server
+ * copy was changed after it (completedAt / updatedAt). Tasks, events,
+ * routines, vacations, spillovers, acknowledgments, tags and settings carry
+ * no modification time, so for them the last write wins: a replayed change
+ * overwrites the server copy even if another device changed it meanwhile.
+ *
+ * Queued writes and cached reads belong to the user who made them, so another
+ * account signing in on the same device neither sees nor replays them.
+ */
+
+import type { StorageAdapter } from './storageAdapter';
+import { Task, TaskCompletion, TaskSpillover, Vacation, Event, EventAcknowledgment, Item, JournalEntry, Routine, Tag } from '../types';
+import { STORES, getAll, getOne, putOne, deleteOne, mergeDefined } from './idb';
+import { getSessionUserId, onAuthStateChange } from './supabase';
+
+export const SYNC_TAG = 'sync-tasks';
+const MAX_ATTEMPTS = 5;
+
+type WriteMethod =
+  | 'addTask' | 'updateTask' | 'deleteTask'
+  | 'saveCompletion' | 'deleteCompletion'
+  | 'saveSpillover' | 'deleteSpillover'
+  | 'saveVacation' | 'deleteVacation'
+  | 'addEvent' | 'updateEvent' | 'deleteEvent' | 'replaceEventReminders'
+  | 'saveEventAcknowledgment' | 'deleteEventAcknowledgment'
+  | 'addItem' | 'updateItem' | 'deleteItem'
+  | 'saveJournalEntry' | 'deleteJournalEntry'
+  | 'saveRoutine' | 'deleteRoutine'
+  | 'saveTag' | 'deleteTag'
+  | 'saveUserSettings';
+
+type WriteArgs<M extends WriteMethod> = Parameters<StorageAdapter[M]>;
+
+interface QueuedMutationBase {
+  id?: number; // Auto-increment key, preserves order
+  userId: string; // Account the write was made by
+  queuedAt: string; // ISO timestamp
+  attempts: number;
+  lastError?: string;
+}
+
+// One variant per method, so checking `method` narrows `args`
+type QueuedMutation = {
+  [M in WriteMethod]: QueuedMutationBase & { method: M; args: WriteArgs<M> }
+}[WriteMethod];
+
+// Call an adapter write with queued arguments
+const callWrite = <M extends WriteMethod>(adapter: StorageAdapter, method: M, args: WriteArgs<M>): Promise<void> => {
+  return (adapter[method] as (...args: WriteArgs<M>) => Promise<void>)(...args);
+};
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number; // Mutations waiting in the outbox
+  syncing: boolean;
+  conflicts: number; // Queued writes dropped because the server copy was newer (last sync)
+  lastSyncedAt?: string;
+}
+
+// ===== SYNC STATUS =====
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  conflicts: 0
+};
+
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (updates: Partial<SyncStatus>) => {
+  status = { ...status, ...updates };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+/**
+ * Subscribe to sync status changes. Returns an unsubscribe function.
+ */
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// ===== HELPER FUNCTIONS =====
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && !navigator.onLine;
+
+const isNetworkError = (error: any): boolean => {
+  if (isOffline()) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+};
+
+// The signed-in user, or null when nobody is. Read from the stored session
+// rather than requireAuth(), whose user lookup needs the network.
+const getCurrentUserId = async (): Promise<string | null> => {
+  try {
+    return await getSessionUserId();
+  } catch (error) {
+    return null;
+  }
+};
+
+const requireUserId = async (): Promise<string> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('User must be signed in to access data.');
+  return userId;
+};
+
+const getPendingMutations = async (userId: string): Promise<QueuedMutation[]> => {
+  const mutations = await getAll<QueuedMutation>(STORES.outbox);
+  return mutations
+    .filter(mutation => mutation.userId === userId)
+    .sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+const refreshPendingCount = async () => {
+  const userId = await getCurrentUserId();
+  const pending = userId ? await getPendingMutations(userId) : [];
+  setStatus({ pending: pending.length });
+};
+
+/**
+ * Ask the service worker to wake us up when connectivity returns
+ */
+const requestBackgroundSync = async () => {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+    const registration: any = await navigator.serviceWorker.ready;
+    await registration.sync?.register(SYNC_TAG);
+  } catch (error) {
+    // Background Sync isn't supported everywhere; the 'online' listener covers it
+  }
+};
+
+const enqueue = async <M extends WriteMethod>(userId: string, method: M, args: WriteArgs<M>) => {
+  const mutation = {
+    userId,
+    method,
+    args,
+    queuedAt: new Date().toISOString(),
+    attempts: 0
+  } as QueuedMutation;
+  await putOne(STORES.outbox, mutation);
+  await refreshPendingCount();
+  requestBackgroundSync();
+};
+
+// ===== PENDING WRITE OVERLAY =====
+
+const upsertBy = <T>(list: T[], record: T, matches: (existing: T) => boolean): T[] => {
+  return [...list.filter(existing => !matches(existing)), record];
+};
+
+/**
+ * Apply queued writes to a cached read so offline reads match what the user did
+ */
+const applyPending = (read: string, value: any, pending: QueuedMutation[]): any => {
+  return pending.reduce((current, mutation) => {
+    switch (read) {
+      case 'getTasks': {
+        const tasks = current as Task[];
+        if (mutation.method === 'addTask') return [mutation.args[0], ...tasks];
+        if (mutation.method === 'updateTask') return tasks.map(t => t.id === mutation.args[0] ? mergeDefined(t, mutation.args[1]) : t);
+        if (mutation.method === 'deleteTask') return tasks.filter(t => t.id !== mutation.args[0]);
+        return tasks;
+      }
+      case 'getCompletions': {
+        const completions = current as TaskCompletion[];
+        if (mutation.method === 'saveCompletion') {
+          const [c] = mutation.args;
+          return upsertBy(completions, c, e => e.taskId === c.taskId && e.date === c.date);
+        }
+        if (mutation.method === 'deleteCompletion') return completions.filter(c => !(c.taskId === mutation.args[0] && c.date === mutation.args[1]));
+        return completions;
+      }
+      case 'getSpillovers': {
+        const spillovers = current as TaskSpillover[];
+        if (mutation.method === 'saveSpillover') {
+          const [s] = mutation.args;
+          return upsertBy(spillovers, s, e => e.taskId === s.taskId && e.fromDate === s.fromDate);
+        }
+        if (mutation.method === 'deleteSpillover') return spillovers.filter(s => !(s.taskId === mutation.args[0] && s.fromDate === mutation.args[1]));
+        return spillovers;
+      }
+      case 'getVacations': {
+        const vacations = current as Vacation[];
+        if (mutation.method === 'saveVacation') return upsertBy(vacations, mutation.args[0], v => v.id === mutation.args[0].id);
+        if (mutation.method === 'deleteVacation') return vacations.filter(v => v.id !== mutation.args[0]);
+        return vacations;
+      }
+      case 'getEvents': {
+        const events = current as Event[];
+        if (mutation.method === 'addEvent') return [...events, mutation.args[0]];
+        if (mutation.method === 'updateEvent') return events.map(e => e.id === mutation.args[0] ? mergeDefined(e, mutation.args[1]) : e);
+        if (mutation.method === 'deleteEvent') return events.filter(e => e.id !== mutation.args[0]);
+        return events;
+      }
+      case 'getEventAcknowledgments': {
+        const acknowledgments = current as EventAcknowledgment[];
+        if (mutation.method === 'saveEventAcknowledgment') {
+          const [a] = mutation.args;
+          return upsertBy(acknowledgments, a, e => e.eventId === a.eventId && e.date === a.date);
+        }
+        if (mutation.method === 'deleteEventAcknowledgment') return acknowledgments.filter(a => !(a.eventId === mutation.args[0] && a.date === mutation.args[1]));
+        if (mutation.method === 'deleteEvent') return acknowledgments.filter(a => a.eventId !== mutation.args[0]);
+        return acknowledgments;
+      }
+      case 'getItems': {
+        const items = current as Item[];
+        if (mutation.method === 'addItem') return [mutation.args[0], ...items];
+        if (mutation.method === 'updateItem') return items.map(i => i.id === mutation.args[0] ? mergeDefined(i, mutation.args[1]) : i);
+        if (mutation.method === 'deleteItem') return items.filter(i => i.id !== mutation.args[0]);
+        return items;
+      }
+      case 'getJournalEntries': {
+        const entries = current as JournalEntry[];
+        if (mutation.method === 'saveJournalEntry') {
+          const [entry] = mutation.args;
+          return upsertBy(entries, entry, e => e.date === entry.date);
+        }
+        if (mutation.method === 'deleteJournalEntry') return entries.filter(e => e.id !== mutation.args[0]);
+        return entries;
+      }
+      case 'getRoutines': {
+        const routines = current as Routine[];
+        if (mutation.method === 'saveRoutine') return upsertBy(routines, mutation.args[0], r => r.id === mutation.args[0].id);
+        if (mutation.method === 'deleteRoutine') return routines.filter(r => r.id !== mutation.args[0]);
+        return routines;
+      }
+      case 'getTags': {
+        const tags = current as Tag[];
+        if (mutation.method === 'saveTag') return upsertBy(tags, mutation.args[0], t => t.name === mutation.args[0].name);
+        if (mutation.method === 'deleteTag') return tags.filter(t => t.id !== mutation.args[0]);
+        return tags;
+      }
+      case 'loadUserSettings':
+        return mutation.method === 'saveUserSettings' ? { ...(current || {}), ...mutation.args[0] } : current;
+      default:
+        return current;
+    }
+  }, value);
+};
+
+// ===== CONFLICT RESOLUTION =====
+
+/**
+ * Check whether the server copy changed after this write was queued.
+ * Server data is fetched lazily once per sync run. Writes to records without
+ * a modification time are never stale (last write wins).
+ */
+const createConflictChecker = (adapter: StorageAdapter) => {
+  let completions: Promise<TaskCompletion[]> | null = null;
+  let journalEntries: Promise<JournalEntry[]> | null = null;
+  let items: Promise<Item[]> | null = null;
+
+  return async (mutation: QueuedMutation): Promise<boolean> => {
+    const { queuedAt } = mutation;
+    switch (mutation.method) {
+      case 'saveCompletion': {
+        const [queued] = mutation.args;
+        completions = completions || adapter.getCompletions();
+        const server = (await completions).find(c => c.taskId === queued.taskId && c.date === queued.date);
+        return !!server && server.completedAt > queued.completedAt;
+      }
+      case 'deleteCompletion': {
+        completions = completions || adapter.getCompletions();
+        const [taskId, date] = mutation.args;
+        const server = (await completions).find(c => c.taskId === taskId && c.date === date);
+        return !!server && server.completedAt > queuedAt;
+      }
+      case 'saveJournalEntry': {
+        const [queued] = mutation.args;
+        journalEntries = journalEntries || adapter.getJournalEntries();
+        const server = (await journalEntries).find(e => e.date === queued.date);
+        return !!server && server.updatedAt > queuedAt;
+      }
+      case 'updateItem': {
+        items = items || adapter.getItems();
+        const [itemId] = mutation.args;
+        const server = (await items).find(i => i.id === itemId);
+        return !!server && !!server.updatedAt && server.updatedAt > queuedAt;
+      }
+      default:
+        return false;
+    }
+  };
+};
+
+// ===== REPLAY =====
+
+let syncTarget: StorageAdapter | null = null;
+let syncInProgress: Promise<void> | null = null;
+
+/**
+ * Replay queued writes in order. Stops at the first network error and
+ * retries later; writes that keep failing for other reasons are dropped
+ * after MAX_ATTEMPTS so one bad record can't block the queue forever.
+ */
+export const syncOutbox = async (): Promise<void> => {
+  if (!syncTarget || isOffline()) return;
+  if (syncInProgress) return syncInProgress;
+
+  const adapter = syncTarget;
+  syncInProgress = (async () => {
+    setStatus({ syncing: true });
+    let conflicts = 0;
+
+    try {
+      // Only the signed-in user's writes; others wait until that account is back
+      const userId = await getCurrentUserId();
+      const pending = userId ? await getPendingMutations(userId) : [];
+      const isStale = createConflictChecker(adapter);
+
+      for (const mutation of pending) {
+        try {
+          if (await isStale(mutation)) {
+            conflicts++;
+            console.warn('Skipping queued change, server copy is newer:', mutation.method, mutation.args);
+          } else {
+            await callWrite(adapter, mutation.method, mutation.args);
+          }
+          await deleteOne(STORES.outbox, mutation.id!);
+        } catch (error: any) {
+          if (isNetworkError(error)) break;
+
+          const attempts = mutation.attempts + 1;
+          if (attempts >= MAX_ATTEMPTS) {
+            console.error('Dropping queued change after repeated failures:', mutation.method, error);
+            await deleteOne(STORES.outbox, mutation.id!);
+          } else {
+            await putOne(STORES.outbox, { ...mutation, attempts, lastError: error?.message || String(error) });
+            break;
+          }
+        }
+      }
+
+      setStatus({ conflicts, lastSyncedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      await refreshPendingCount();
+      setStatus({ syncing: false });
+      syncInProgress = null;
+    }
+  })();
+
+  return syncInProgress;
+};
+
+/**
+ * Listen for connectivity changes, sign-ins and service worker sync messages.
+ * Call once at startup. Returns a cleanup function.
+ */
+export const startBackgroundSync = (): (() => void) => {
+  const handleOnline = () => {
+    setStatus({ online: true });
+    syncOutbox();
+  };
+  const handleOffline = () => setStatus({ online: false });
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'SYNC_OUTBOX') {
+      syncOutbox();
+    }
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+
+  // The pending count and queue belong to whoever is signed in now
+  const unsubscribeAuth = onAuthStateChange(event => {
+    if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+      refreshPendingCount().then(() => syncOutbox());
+    }
+  });
+
+  refreshPendingCount().then(() => syncOutbox());
+
+  return () => {
+    unsubscribeAuth();
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    navigator.serviceWorker?.removeEventListener('message', handleMessage);
+  };
+};
+
+// ===== ADAPTER WRAPPER =====
+
+/**
+ * Wrap a network-backed adapter with the outbox and offline read cache
+ */
+export const withOfflineQueue = (adapter: StorageAdapter): StorageAdapter => {
+  syncTarget = adapter;
+
+  const write = <M extends WriteMethod>(method: M) => async (...args: WriteArgs<M>): Promise<void> => {
+    const userId = await requireUserId();
+
+    // Keep writes in order: once something is queued, queue everything behind it
+    if (isOffline() || (await getPendingMutations(userId)).length > 0) {
+      await enqueue(userId, method, args);
+      syncOutbox();
+      return;
+    }
+
+    try {
+      await callWrite(adapter, method, args);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      await enqueue(userId, method, args);
+    }
+  };
+
+  const read = <K extends 'getTasks' | 'getCompletions' | 'getSpillovers' | 'getVacations' | 'getEvents' | 'getEventAcknowledgments' | 'getItems' | 'getJournalEntries' | 'getRoutines' | 'getTags' | 'loadUserSettings'>(method: K) =>
+    async (): Promise<Awaited<ReturnType<StorageAdapter[K]>>> => {
+      const userId = await requireUserId();
+      const cacheKey = `${userId}:${method}`;
+      let value: any;
+      let loaded = false;
+      let failure: any = null;
+
+      if (!isOffline()) {
+        try {
+          value = await adapter[method]();
+          loaded = true;
+          await putOne(STORES.offlineCache, value, cacheKey);
+        } catch (error) {
+          // Server errors fall back to the cache too, rather than showing empty data
+          if (!isNetworkError(error)) console.error(`Error loading ${method}, using cached copy:`, error);
+          failure = error;
+        }
+      }
+
+      if (!loaded) {
+        value = await getOne(STORES.offlineCache, cacheKey);
+        if (value === undefined) {
+          if (failure && !isNetworkError(failure)) throw failure;
+          throw new Error('You are offline and this data has not been loaded on this device yet.');
+        }
+      }
+
+      const pending = await getPendingMutations(userId);
+      return pending.length > 0 ? applyPending(method, value, pending) : value;
+    };
+
+  const getTasks = read('getTasks');
+
+  return {
+    mode: adapter.mode,
+
+    getTasks,
+    async getTask(taskId) {
+      if (isOffline()) {
+        return (await getTasks()).find(t => t.id === taskId) || null;
+      }
+      return adapter.getTask(taskId);
+    },
+    addTask: write('addTask'),
+    updateTask: write('updateTask'),
+    deleteTask: write('deleteTask'),
+
+    getCompletions: read('getCompletions'),
+    saveCompletion: write('saveCompletion'),
+    deleteCompletion: write('deleteCompletion'),
+
+    getSpillovers: read('getSpillovers'),
+    saveSpillover: write('saveSpillover'),
+    deleteSpillover: write('deleteSpillover'),
+
+    getVacations: read('getVacations'),
+    saveVacation: write('saveVacation'),
+    deleteVacation: write('deleteVacation'),
+
+    getEvents: read('getEvents'),
+    addEvent: write('addEvent'),
+    updateEvent: write('updateEvent'),
+    deleteEvent: write('deleteEvent'),
+    getEventReminders: reminderDates => adapter.getEventReminders(reminderDates),
+    replaceEventReminders: write('replaceEventReminders'),
+
+    getEventAcknowledgments: read('getEventAcknowledgments'),
+    saveEventAcknowledgment: write('saveEventAcknowledgment'),
+    deleteEventAcknowledgment: write('deleteEventAcknowledgment'),
+
+    getItems: read('getItems'),
+    addItem: write('addItem'),
+    updateItem: write('updateItem'),
+    deleteItem: write('deleteItem'),
+
+    getJournalEntries: read('getJournalEntries'),
+    saveJournalEntry: write('saveJournalEntry'),
+    deleteJournalEntry: write('deleteJournalEntry'),
+
+    getRoutines: read('getRoutines'),
+    saveRoutine: write('saveRoutine'),
+    deleteRoutine: write('deleteRoutine'),
+
+    getTags: read('getTags'),
+    saveTag: write('saveTag'),
+    deleteTag: write('deleteTag'),
+
+    loadUserSettings: read('loadUserSettings'),
+    saveUserSettings: write('saveUserSettings')
+  };
+};
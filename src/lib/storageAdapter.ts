@@ -0,0 +1,135 @@
+/**
+ * Storage Adapter
+ *
+ * Defines the persistence contract used by storage.ts and selects the
+ * backend at startup:
+ * - 'supabase': cloud storage, requires a signed-in user
+ * - 'local': IndexedDB in the browser, works in guest/offline mode and demos
+ *
+ * Adapters only persist and load domain objects. Business rules
+ * (dependent tasks, reminder generation, upcoming events) stay in storage.ts
+ * so both backends behave the same.
+ */
+
+import type {
+  Task,
+  TaskCompletion,
+  TaskSpillover,
+  Vacation,
+  Event,
+  EventReminder,
+  EventAcknowledgment,
+  Item,
+  JournalEntry,
+  Routine,
+  Tag,
+  UserSettings
+} from '../types';
+import { isSupabaseConfigured } from './supabase';
+import { supabaseAdapter } from './supabaseAdapter';
+import { indexedDbAdapter } from './indexedDbAdapter';
+import { withOfflineQueue } from './offlineQueue';
+
+export type StorageMode = 'supabase' | 'local';
+
+export interface StorageAdapter {
+  readonly mode: StorageMode;
+
+  // Tasks
+  getTasks(): Promise<Task[]>;
+  getTask(taskId: string): Promise<Task | null>;
+  addTask(task: Task): Promise<void>;
+  updateTask(taskId: string, updates: Partial<Task>): Promise<void>;
+  deleteTask(taskId: string): Promise<void>;
+
+  // Completions (one per task per date)
+  getCompletions(): Promise<TaskCompletion[]>;
+  saveCompletion(completion: TaskCompletion): Promise<void>;
+  deleteCompletion(taskId: string, date: string): Promise<void>;
+
+  // Spillovers ("move to next day", one per task per source date)
+  getSpillovers(): Promise<TaskSpillover[]>;
+  saveSpillover(spillover: TaskSpillover): Promise<void>;
+  deleteSpillover(taskId: string, fromDate: string): Promise<void>;
+
+  // Events and their pre-computed reminder dates
+  getEvents(): Promise<Event[]>;
+  addEvent(event: Event): Promise<void>;
+  updateEvent(eventId: string, updates: Partial<Event>): Promise<void>;
+  deleteEvent(eventId: string): Promise<void>;
+  getEventReminders(reminderDates: string[]): Promise<EventReminder[]>;
+  replaceEventReminders(eventId: string, reminders: EventReminder[]): Promise<void>;
+
+  // Vacations (scheduled breaks that pause tasks)
+  getVacations(): Promise<Vacation[]>;
+  saveVacation(vacation: Vacation): Promise<void>;
+  deleteVacation(vacationId: string): Promise<void>;
+
+  // Event acknowledgments (one per event per date, synced across devices)
+  getEventAcknowledgments(): Promise<EventAcknowledgment[]>;
+  saveEventAcknowledgment(acknowledgment: EventAcknowledgment): Promise<void>;
+  deleteEventAcknowledgment(eventId: string, date: string): Promise<void>;
+
+  // Items
+  getItems(): Promise<Item[]>;
+  addItem(item: Item): Promise<void>;
+  updateItem(itemId: string, updates: Partial<Item>): Promise<void>;
+  deleteItem(itemId: string): Promise<void>;
+
+  // Journal (one entry per date)
+  getJournalEntries(): Promise<JournalEntry[]>;
+  saveJournalEntry(entry: JournalEntry): Promise<void>;
+  deleteJournalEntry(entryId: string): Promise<void>;
+
+  // Routines
+  getRoutines(): Promise<Routine[]>;
+  saveRoutine(routine: Routine): Promise<void>;
+  deleteRoutine(routineId: string): Promise<void>;
+
+  // Tags (unique by name)
+  getTags(): Promise<Tag[]>;
+  saveTag(tag: Tag): Promise<void>;
+  deleteTag(tagId: string): Promise<void>;
+
+  // Settings (null when nothing has been saved yet)
+  loadUserSettings(): Promise<UserSettings | null>;
+  saveUserSettings(settings: Partial<UserSettings>): Promise<void>;
+}
+
+export const STORAGE_MODE_KEY = 'routine-ruby-storage-mode';
+
+const adapters: Record<StorageMode, StorageAdapter> = {
+  supabase: withOfflineQueue(supabaseAdapter), // Queues writes while offline
+  local: indexedDbAdapter
+};
+
+/**
+ * Get the selected storage mode
+ * Priority: user's choice (localStorage) > VITE_STORAGE_MODE > Supabase if configured
+ */
+export const getStorageMode = (): StorageMode => {
+  const stored = localStorage.getItem(STORAGE_MODE_KEY);
+  if (stored === 'supabase' || stored === 'local') {
+    return stored === 'supabase' && !isSupabaseConfigured() ? 'local' : stored;
+  }
+
+  if (import.meta.env.VITE_STORAGE_MODE === 'local') {
+    return 'local';
+  }
+
+  return isSupabaseConfigured() ? 'supabase' : 'local';
+};
+
+/**
+ * Persist the storage mode choice (e.g. "Continue as guest" or after sign in)
+ */
+export const setStorageMode = (mode: StorageMode): void => {
+  localStorage.setItem(STORAGE_MODE_KEY, mode);
+};
+
+/**
+ * Get the adapter for the selected storage mode
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  return adapters[getStorageMode()];
+};
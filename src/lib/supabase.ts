@@ -17,7 +17,7 @@ let supabaseClient: SupabaseClient | null = null;
  */
 export const getSupabaseClient = (): SupabaseClient | null => {
   if (!supabaseUrl || !supabaseAnonKey) {
-    console.warn('Supabase credentials not found. Using localStorage fallback.');
+    console.warn('Supabase credentials not found. Using local IndexedDB storage.');
     return null;
   }
 
@@ -51,6 +51,45 @@ export const getCurrentUser = async () => {
   return user;
 };
 
+/**
+ * Get the Supabase client together with the signed-in user's id
+ * Throws if Supabase is not configured or nobody is signed in
+ */
+export const requireAuth = async () => {
+  const client = getSupabaseClient();
+  if (!client) {
+    throw new Error('Supabase not configured. Please check your .env file.');
+  }
+  
+  const { data: { user }, error } = await client.auth.getUser();
+  let currentUser = user;
+  
+  // getUser() needs the network; fall back to the cached session so
+  // failing requests surface as network errors (and get queued) instead
+  if (!currentUser && error) {
+    const { data: { session } } = await client.auth.getSession();
+    currentUser = session?.user ?? null;
+  }
+  
+  if (!currentUser) {
+    throw new Error('User must be signed in to access data.');
+  }
+  
+  return { client, userId: currentUser.id };
+};
+
+/**
+ * The signed-in user's id from the locally stored session, or null when
+ * nobody is signed in. Makes no network request, so it works offline.
+ */
+export const getSessionUserId = async (): Promise<string | null> => {
+  const client = getSupabaseClient();
+  if (!client) return null;
+
+  const { data: { session } } = await client.auth.getSession();
+  return session?.user.id ?? null;
+};
+
 /**
  * Sign up new user
  */
@@ -0,0 +1,947 @@
+/**
+ * Supabase Storage Adapter
+ *
+ * Cloud implementation of StorageAdapter. Maps between the app's camelCase
+ * domain types and the snake_case myday_* tables.
+ * User must be authenticated to use this adapter.
+ */
+
+import { requireAuth } from './supabase';
+import type { StorageAdapter } from './storageAdapter';
+import { Task, TaskCompletion, TaskSpillover, Vacation, Event, EventReminder, EventAcknowledgment, Item, JournalEntry, Routine, Tag, UserSettings } from '../types';
+import { generateUUID } from '../utils';
+
+// ===== ROW MAPPERS =====
+
+const taskFromRow = (task: any): Task => ({
+  id: task.id,
+  name: task.name,
+  description: task.description || '',
+  category: task.category,
+  color: task.color,
+  customBackgroundColor: task.custom_background_color,
+  weightage: task.weightage,
+  frequency: task.frequency,
+  daysOfWeek: task.days_of_week,
+  dayOfMonth: task.day_of_month,
+  customFrequency: task.custom_frequency,
+  frequencyCount: task.frequency_count,
+  frequencyPeriod: task.frequency_period,
+  intervalValue: task.interval_value,
+  intervalUnit: task.interval_unit,
+  intervalStartDate: task.interval_start_date,
+  repeatAfterCompletion: task.repeat_after_completion || undefined,
+  rrule: task.rrule,
+  exDates: task.ex_dates || undefined,
+  startDate: task.start_date,
+  endDate: task.end_date,
+  specificDate: task.specific_date,
+  deadline: task.deadline ?? undefined,
+  endTime: task.end_time,
+  targetValue: task.target_value ?? undefined,
+  unit: task.unit ?? undefined,
+  checklist: task.checklist ?? undefined,
+  autoCompleteChecklist: task.auto_complete_checklist || undefined,
+  dependentTaskIds: task.dependent_task_ids || [],
+  prerequisiteTaskIds: task.prerequisite_task_ids ?? undefined,
+  onHold: task.on_hold || false,
+  holdStartDate: task.hold_start_date,
+  holdEndDate: task.hold_end_date,
+  holdReason: task.hold_reason,
+  holdHistory: task.hold_history ?? undefined,
+  tags: task.tags || [],
+  createdAt: task.created_at
+});
+
+const eventFromRow = (event: any): Event => ({
+  id: event.id,
+  name: event.name,
+  description: event.description,
+  category: event.category,
+  tags: event.tags || [],
+  // Use date_text if available (from migration), fall back to event_date
+  // date_text is preferred as it supports MM-DD format for yearly events
+  date: event.date_text || event.event_date,
+  frequency: event.frequency || 'yearly',
+  customFrequency: event.custom_frequency,
+  calendarSystem: event.calendar_system ?? undefined,
+  isLeapMonth: event.is_leap_month || undefined,
+  year: event.year,
+  notifyDaysBefore: event.notify_days_before || 0,
+  color: event.color,
+  priority: event.priority || 5,
+  hideFromDashboard: event.hide_from_dashboard || false,
+  sourceUid: event.source_uid ?? undefined,
+  createdAt: event.created_at || new Date().toISOString()
+});
+
+const itemFromRow = (row: any): Item => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  category: row.category,
+  tags: row.tags || [],
+  expirationDate: row.expiration_date,
+  value: row.value,
+  currency: row.currency,
+  merchant: row.merchant,
+  accountNumber: row.account_number,
+  autoRenew: row.auto_renew || false,
+  notifyDaysBefore: row.notify_days_before || 0,
+  priority: row.priority || 5,
+  color: row.color,
+  isClosed: row.is_closed || false,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export const supabaseAdapter: StorageAdapter = {
+  mode: 'supabase',
+
+  // ===== TASKS =====
+
+  async getTasks() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_tasks')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(taskFromRow);
+  },
+
+  async getTask(taskId) {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_tasks')
+      .select('*')
+      .eq('id', taskId)
+      .single();
+
+    if (error || !data) return null;
+    return taskFromRow(data);
+  },
+
+  async addTask(task) {
+    const { client, userId } = await requireAuth();
+
+    const taskData = {
+      id: task.id,
+      user_id: userId,
+      name: task.name,
+      description: task.description,
+      category: task.category,
+      color: task.color,
+      custom_background_color: task.customBackgroundColor,
+      weightage: task.weightage,
+      frequency: task.frequency,
+      days_of_week: task.daysOfWeek,
+      day_of_month: task.dayOfMonth,
+      custom_frequency: task.customFrequency,
+      frequency_count: task.frequencyCount,
+      frequency_period: task.frequencyPeriod,
+      interval_value: task.intervalValue,
+      interval_unit: task.intervalUnit,
+      interval_start_date: task.intervalStartDate,
+      repeat_after_completion: task.repeatAfterCompletion,
+      rrule: task.rrule,
+      ex_dates: task.exDates,
+      start_date: task.startDate,
+      end_date: task.endDate,
+      specific_date: task.specificDate,
+      deadline: task.deadline,
+      end_time: task.endTime,
+      target_value: task.targetValue,
+      unit: task.unit,
+      checklist: task.checklist,
+      auto_complete_checklist: task.autoCompleteChecklist,
+      dependent_task_ids: task.dependentTaskIds,
+      prerequisite_task_ids: task.prerequisiteTaskIds,
+      on_hold: task.onHold,
+      hold_start_date: task.holdStartDate,
+      hold_end_date: task.holdEndDate,
+      hold_reason: task.holdReason,
+      hold_history: task.holdHistory,
+      tags: task.tags,
+      created_at: task.createdAt
+    };
+
+    const { error } = await client
+      .from('myday_tasks')
+      .insert([taskData]);
+
+    if (error) throw error;
+  },
+
+  async updateTask(taskId, updates) {
+    const { client } = await requireAuth();
+
+    const dbUpdates: any = {};
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.category !== undefined) dbUpdates.category = updates.category;
+    if (updates.color !== undefined) dbUpdates.color = updates.color;
+    if (updates.customBackgroundColor !== undefined) dbUpdates.custom_background_color = updates.customBackgroundColor;
+    if (updates.weightage !== undefined) dbUpdates.weightage = updates.weightage;
+    if (updates.frequency !== undefined) dbUpdates.frequency = updates.frequency;
+    if (updates.daysOfWeek !== undefined) dbUpdates.days_of_week = updates.daysOfWeek;
+    if (updates.dayOfMonth !== undefined) dbUpdates.day_of_month = updates.dayOfMonth;
+    if (updates.customFrequency !== undefined) dbUpdates.custom_frequency = updates.customFrequency;
+    if (updates.frequencyCount !== undefined) dbUpdates.frequency_count = updates.frequencyCount;
+    if (updates.frequencyPeriod !== undefined) dbUpdates.frequency_period = updates.frequencyPeriod;
+    if (updates.intervalValue !== undefined) dbUpdates.interval_value = updates.intervalValue;
+    if (updates.intervalUnit !== undefined) dbUpdates.interval_unit = updates.intervalUnit;
+    if (updates.intervalStartDate !== undefined) dbUpdates.interval_start_date = updates.intervalStartDate;
+    if (updates.repeatAfterCompletion !== undefined) dbUpdates.repeat_after_completion = updates.repeatAfterCompletion;
+    if (updates.rrule !== undefined) dbUpdates.rrule = updates.rrule;
+    if (updates.exDates !== undefined) dbUpdates.ex_dates = updates.exDates;
+    if (updates.startDate !== undefined) dbUpdates.start_date = updates.startDate;
+    if (updates.endDate !== undefined) dbUpdates.end_date = updates.endDate;
+    if (updates.specificDate !== undefined) dbUpdates.specific_date = updates.specificDate;
+    if (updates.deadline !== undefined) dbUpdates.deadline = updates.deadline;
+    if (updates.endTime !== undefined) dbUpdates.end_time = updates.endTime;
+    if (updates.targetValue !== undefined) dbUpdates.target_value = updates.targetValue;
+    if (updates.unit !== undefined) dbUpdates.unit = updates.unit;
+    if (updates.checklist !== undefined) dbUpdates.checklist = updates.checklist;
+    if (updates.autoCompleteChecklist !== undefined) dbUpdates.auto_complete_checklist = updates.autoCompleteChecklist;
+    if (updates.dependentTaskIds !== undefined) dbUpdates.dependent_task_ids = updates.dependentTaskIds;
+    if (updates.prerequisiteTaskIds !== undefined) dbUpdates.prerequisite_task_ids = updates.prerequisiteTaskIds;
+    if (updates.onHold !== undefined) dbUpdates.on_hold = updates.onHold;
+    if (updates.holdStartDate !== undefined) dbUpdates.hold_start_date = updates.holdStartDate;
+    if (updates.holdEndDate !== undefined) dbUpdates.hold_end_date = updates.holdEndDate;
+    if (updates.holdReason !== undefined) dbUpdates.hold_reason = updates.holdReason;
+    if (updates.holdHistory !== undefined) dbUpdates.hold_history = updates.holdHistory;
+    if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
+
+    const { error } = await client
+      .from('myday_tasks')
+      .update(dbUpdates)
+      .eq('id', taskId);
+
+    if (error) throw error;
+  },
+
+  async deleteTask(taskId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_tasks')
+      .delete()
+      .eq('id', taskId);
+
+    if (error) throw error;
+  },
+
+  // ===== TASK COMPLETIONS =====
+
+  async getCompletions() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_task_completions')
+      .select('*');
+
+    if (error) throw error;
+
+    return (data || []).map((c): TaskCompletion => ({
+      taskId: c.task_id,
+      date: c.completion_date,
+      completedAt: c.completed_at,
+      durationMinutes: c.duration_minutes,
+      startedAt: c.started_at,
+      value: c.value ?? undefined,
+      targetValue: c.target_value ?? undefined,
+      status: c.status ?? undefined,
+      reason: c.reason ?? undefined,
+      checkedItemIds: c.checked_item_ids ?? undefined,
+      autoCompleted: c.auto_completed || undefined
+    }));
+  },
+
+  async saveCompletion(completion) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_task_completions')
+      .upsert([{
+        user_id: userId,
+        task_id: completion.taskId,
+        completion_date: completion.date,
+        duration_minutes: completion.durationMinutes,
+        started_at: completion.startedAt,
+        completed_at: completion.completedAt,
+        value: completion.value,
+        target_value: completion.targetValue,
+        status: completion.status ?? null,
+        reason: completion.reason ?? null,
+        checked_item_ids: completion.checkedItemIds ?? null,
+        auto_completed: completion.autoCompleted || false
+      }], {
+        onConflict: 'user_id,task_id,completion_date'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteCompletion(taskId, date) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_task_completions')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('completion_date', date);
+
+    if (error) throw error;
+  },
+
+  // ===== TASK SPILLOVERS =====
+
+  async getSpillovers() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_task_spillovers')
+      .select('*');
+
+    if (error) throw error;
+
+    return (data || []).map((s): TaskSpillover => ({
+      taskId: s.task_id,
+      fromDate: s.from_date,
+      toDate: s.to_date,
+      movedAt: s.moved_at
+    }));
+  },
+
+  async saveSpillover(spillover) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_task_spillovers')
+      .upsert([{
+        user_id: userId,
+        task_id: spillover.taskId,
+        from_date: spillover.fromDate,
+        to_date: spillover.toDate,
+        moved_at: spillover.movedAt
+      }], {
+        onConflict: 'user_id,task_id,from_date'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteSpillover(taskId, fromDate) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_task_spillovers')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('from_date', fromDate);
+
+    if (error) throw error;
+  },
+
+  // ===== VACATIONS =====
+
+  async getVacations() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_vacations')
+      .select('*')
+      .order('start_date', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((v): Vacation => ({
+      id: v.id,
+      name: v.name ?? undefined,
+      startDate: v.start_date,
+      endDate: v.end_date,
+      taskIds: v.task_ids ?? undefined,
+      tagIds: v.tag_ids ?? undefined,
+      createdAt: v.created_at || new Date().toISOString()
+    }));
+  },
+
+  async saveVacation(vacation) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_vacations')
+      .upsert([{
+        id: vacation.id || generateUUID(),
+        user_id: userId,
+        name: vacation.name ?? null,
+        start_date: vacation.startDate,
+        end_date: vacation.endDate,
+        task_ids: vacation.taskIds ?? null,
+        tag_ids: vacation.tagIds ?? null
+      }], {
+        onConflict: 'id'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteVacation(vacationId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_vacations')
+      .delete()
+      .eq('id', vacationId);
+
+    if (error) throw error;
+  },
+
+  // ===== EVENTS =====
+
+  async getEvents() {
+    const { client } = await requireAuth();
+
+    // Select all columns including date_text (from migration)
+    // Note: 'date' column doesn't exist, use date_text or event_date
+    const { data, error } = await client
+      .from('myday_events')
+      .select('id, name, description, category, tags, date_text, event_date, frequency, custom_frequency, calendar_system, is_leap_month, year, notify_days_before, color, priority, hide_from_dashboard, source_uid, created_at')
+      .order('date_text', { ascending: true, nullsFirst: true })
+      .order('event_date', { ascending: true, nullsFirst: true });
+
+    if (error) throw error;
+
+    return (data || []).map(eventFromRow);
+  },
+
+  async addEvent(event) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_events')
+      .insert([{
+        id: event.id,
+        user_id: userId,
+        name: event.name,
+        description: event.description,
+        category: event.category,
+        tags: event.tags || [],
+        event_date: event.date,
+        date_text: event.date, // Store in date_text for consistency
+        notify_days_before: event.notifyDaysBefore || 0,
+        color: event.color,
+        priority: event.priority || 5,
+        hide_from_dashboard: event.hideFromDashboard || false,
+        frequency: event.frequency || 'yearly',
+        custom_frequency: event.customFrequency,
+        calendar_system: event.calendarSystem ?? null,
+        is_leap_month: event.isLeapMonth || false,
+        year: event.year,
+        source_uid: event.sourceUid
+      }]);
+
+    if (error) throw error;
+  },
+
+  async updateEvent(eventId, updates) {
+    const { client } = await requireAuth();
+
+    const dbUpdates: any = {};
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.category !== undefined) dbUpdates.category = updates.category;
+    if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
+    if (updates.date !== undefined) {
+      dbUpdates.event_date = updates.date;
+      dbUpdates.date_text = updates.date; // Update both for consistency
+    }
+    if (updates.notifyDaysBefore !== undefined) dbUpdates.notify_days_before = updates.notifyDaysBefore;
+    if (updates.color !== undefined) dbUpdates.color = updates.color;
+    if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
+    if (updates.hideFromDashboard !== undefined) dbUpdates.hide_from_dashboard = updates.hideFromDashboard;
+    if (updates.frequency !== undefined) dbUpdates.frequency = updates.frequency;
+    if (updates.customFrequency !== undefined) dbUpdates.custom_frequency = updates.customFrequency;
+    if (updates.calendarSystem !== undefined) dbUpdates.calendar_system = updates.calendarSystem;
+    if (updates.isLeapMonth !== undefined) dbUpdates.is_leap_month = updates.isLeapMonth;
+    if (updates.year !== undefined) dbUpdates.year = updates.year;
+    if (updates.sourceUid !== undefined) dbUpdates.source_uid = updates.sourceUid;
+
+    const { error } = await client
+      .from('myday_events')
+      .update(dbUpdates)
+      .eq('id', eventId);
+
+    if (error) throw error;
+  },
+
+  async deleteEvent(eventId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_events')
+      .delete()
+      .eq('id', eventId);
+
+    if (error) throw error;
+  },
+
+  async getEventReminders(reminderDates) {
+    const { client, userId } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_notifybeforedays')
+      .select('event_id, reminder_date, days_until_event, frequency')
+      .eq('user_id', userId)
+      .in('reminder_date', reminderDates);
+
+    // Let callers fall back when the reminders table doesn't exist yet
+    if (error) throw error;
+
+    return (data || []).map((r): EventReminder => ({
+      eventId: r.event_id,
+      reminderDate: r.reminder_date,
+      daysUntilEvent: r.days_until_event,
+      frequency: r.frequency
+    }));
+  },
+
+  async replaceEventReminders(eventId, reminders) {
+    const { client, userId } = await requireAuth();
+
+    // Delete existing reminders for this event
+    await client
+      .from('myday_notifybeforedays')
+      .delete()
+      .eq('event_id', eventId);
+
+    if (reminders.length === 0) return;
+
+    const reminderRecords = reminders.map(r => ({
+      user_id: userId,
+      event_id: eventId,
+      reminder_date: r.reminderDate,
+      days_until_event: r.daysUntilEvent,
+      frequency: r.frequency
+    }));
+
+    const { error } = await client
+      .from('myday_notifybeforedays')
+      .insert(reminderRecords);
+
+    if (error) {
+      console.error('Error generating reminders:', error);
+      throw error;
+    }
+  },
+
+  // ===== EVENT ACKNOWLEDGMENTS =====
+
+  async getEventAcknowledgments() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_event_acknowledgments')
+      .select('*');
+
+    if (error) throw error;
+
+    return (data || []).map((a): EventAcknowledgment => ({
+      eventId: a.event_id,
+      date: a.ack_date,
+      acknowledgedAt: a.acknowledged_at
+    }));
+  },
+
+  async saveEventAcknowledgment(acknowledgment) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_event_acknowledgments')
+      .upsert([{
+        user_id: userId,
+        event_id: acknowledgment.eventId,
+        ack_date: acknowledgment.date,
+        acknowledged_at: acknowledgment.acknowledgedAt
+      }], {
+        onConflict: 'user_id,event_id,ack_date'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteEventAcknowledgment(eventId, date) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_event_acknowledgments')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('ack_date', date);
+
+    if (error) throw error;
+  },
+
+  // ===== ITEMS =====
+
+  async getItems() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_items')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(itemFromRow);
+  },
+
+  async addItem(item) {
+    const { client, userId } = await requireAuth();
+
+    // Build insert object with only relevant fields based on category
+    const insertData: any = {
+      id: item.id,
+      user_id: userId,
+      name: item.name,
+      description: item.description,
+      category: item.category,
+      tags: item.tags || [],
+      priority: item.priority || 5,
+      color: item.color,
+      is_closed: item.isClosed || false,
+      created_at: item.createdAt,
+      updated_at: item.updatedAt || item.createdAt
+    };
+
+    // Only add category-specific fields if not a Note
+    if (item.category !== 'Note') {
+      insertData.expiration_date = item.expirationDate || null;
+      insertData.notify_days_before = item.notifyDaysBefore || 0;
+    }
+
+    // Add value/currency for Gift Cards and Subscriptions
+    if (item.category === 'Gift Card' || item.category === 'Subscription') {
+      insertData.value = item.value || null;
+      insertData.currency = item.currency || 'USD';
+    }
+
+    // Add merchant for Gift Cards, Subscriptions, and Warranties
+    if (item.category === 'Gift Card' || item.category === 'Subscription' || item.category === 'Warranty') {
+      insertData.merchant = item.merchant || null;
+    }
+
+    // Add account number for Gift Cards
+    if (item.category === 'Gift Card') {
+      insertData.account_number = item.accountNumber || null;
+    }
+
+    // Add auto_renew for Subscriptions
+    if (item.category === 'Subscription') {
+      insertData.auto_renew = item.autoRenew || false;
+    }
+
+    // Add value for Warranties (purchase value)
+    if (item.category === 'Warranty') {
+      insertData.value = item.value || null;
+      insertData.currency = item.currency || 'USD';
+    }
+
+    const { error } = await client
+      .from('myday_items')
+      .insert([insertData]);
+
+    if (error) throw error;
+  },
+
+  async updateItem(itemId, updates) {
+    const { client } = await requireAuth();
+
+    // Get the current item to check its category
+    const items = await supabaseAdapter.getItems();
+    const currentItem = items.find(item => item.id === itemId);
+    const category = updates.category || currentItem?.category || 'Note';
+
+    const dbUpdates: any = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.category !== undefined) dbUpdates.category = updates.category;
+    if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
+    if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
+    if (updates.color !== undefined) dbUpdates.color = updates.color;
+    if (updates.isClosed !== undefined) dbUpdates.is_closed = updates.isClosed;
+
+    // Only update category-specific fields if not a Note
+    if (category !== 'Note') {
+      if (updates.expirationDate !== undefined) dbUpdates.expiration_date = updates.expirationDate;
+      if (updates.notifyDaysBefore !== undefined) dbUpdates.notify_days_before = updates.notifyDaysBefore;
+    } else {
+      // For Notes, explicitly set these to null if they exist
+      dbUpdates.expiration_date = null;
+      dbUpdates.notify_days_before = 0;
+    }
+
+    // Update value/currency for Gift Cards, Subscriptions, and Warranties
+    if (category === 'Gift Card' || category === 'Subscription' || category === 'Warranty') {
+      if (updates.value !== undefined) dbUpdates.value = updates.value;
+      if (updates.currency !== undefined) dbUpdates.currency = updates.currency;
+    } else if (category === 'Note') {
+      // For Notes, set these to null
+      dbUpdates.value = null;
+      dbUpdates.currency = null;
+    }
+
+    // Update merchant for Gift Cards, Subscriptions, and Warranties
+    if (category === 'Gift Card' || category === 'Subscription' || category === 'Warranty') {
+      if (updates.merchant !== undefined) dbUpdates.merchant = updates.merchant;
+    } else if (category === 'Note') {
+      dbUpdates.merchant = null;
+    }
+
+    // Update account number for Gift Cards
+    if (category === 'Gift Card') {
+      if (updates.accountNumber !== undefined) dbUpdates.account_number = updates.accountNumber;
+    } else if (category === 'Note') {
+      dbUpdates.account_number = null;
+    }
+
+    // Update auto_renew for Subscriptions
+    if (category === 'Subscription') {
+      if (updates.autoRenew !== undefined) dbUpdates.auto_renew = updates.autoRenew;
+    } else if (category === 'Note') {
+      dbUpdates.auto_renew = false;
+    }
+
+    const { error } = await client
+      .from('myday_items')
+      .update(dbUpdates)
+      .eq('id', itemId);
+
+    if (error) throw error;
+  },
+
+  async deleteItem(itemId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) throw error;
+  },
+
+  // ===== JOURNAL ENTRIES =====
+
+  async getJournalEntries() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_journal_entries')
+      .select('*')
+      .order('entry_date', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((entry): JournalEntry => ({
+      id: entry.id,
+      date: entry.entry_date,
+      content: entry.content,
+      mood: entry.mood,
+      tags: entry.tags || [],
+      createdAt: entry.created_at || new Date().toISOString(),
+      updatedAt: entry.updated_at || new Date().toISOString()
+    }));
+  },
+
+  async saveJournalEntry(entry) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_journal_entries')
+      .upsert([{
+        id: entry.id || generateUUID(),
+        user_id: userId,
+        entry_date: entry.date,
+        content: entry.content,
+        tags: entry.tags
+      }], {
+        onConflict: 'user_id,entry_date'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteJournalEntry(entryId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_journal_entries')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) throw error;
+  },
+
+  // ===== ROUTINES =====
+
+  async getRoutines() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_routines')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((routine): Routine => ({
+      id: routine.id,
+      name: routine.name,
+      description: routine.description,
+      taskIds: routine.task_ids || [],
+      timeOfDay: routine.time_of_day,
+      isPreDefined: routine.is_pre_defined || false,
+      isActive: routine.is_active !== false, // Default to true for backward compatibility
+      createdAt: routine.created_at || new Date().toISOString()
+    }));
+  },
+
+  async saveRoutine(routine) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_routines')
+      .upsert([{
+        id: routine.id || generateUUID(),
+        user_id: userId,
+        name: routine.name,
+        description: routine.description,
+        task_ids: routine.taskIds,
+        time_of_day: routine.timeOfDay,
+        is_pre_defined: routine.isPreDefined || false,
+        is_active: routine.isActive !== false
+      }], {
+        onConflict: 'id'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteRoutine(routineId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_routines')
+      .delete()
+      .eq('id', routineId);
+
+    if (error) throw error;
+  },
+
+  // ===== TAGS =====
+
+  async getTags() {
+    const { client } = await requireAuth();
+
+    const { data, error } = await client
+      .from('myday_tags')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((tag): Tag => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      trackable: tag.trackable || false,
+      description: tag.description,
+      createdAt: tag.created_at || new Date().toISOString()
+    }));
+  },
+
+  async saveTag(tag) {
+    const { client, userId } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_tags')
+      .upsert([{
+        id: tag.id || generateUUID(),
+        user_id: userId,
+        name: tag.name,
+        color: tag.color,
+        trackable: tag.trackable,
+        description: tag.description
+      }], {
+        onConflict: 'user_id,name'
+      });
+
+    if (error) throw error;
+  },
+
+  async deleteTag(tagId) {
+    const { client } = await requireAuth();
+
+    const { error } = await client
+      .from('myday_tags')
+      .delete()
+      .eq('id', tagId);
+
+    if (error) throw error;
+  },
+
+  // ===== USER SETTINGS =====
+
+  async loadUserSettings() {
+    const { client, userId } = await requireAuth();
+    const { data, error } = await client
+      .from('myday_user_settings')
+      .select('theme, dashboard_layout, notifications_enabled, time_zone, location')
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error; // PGRST116 means no rows found
+
+    if (!data) return null;
+
+    return {
+      theme: data.theme || 'purple',
+      dashboardLayout: data.dashboard_layout || 'uniform',
+      notifications: data.notifications_enabled ?? true,
+      timeZone: data.time_zone ?? undefined,
+      location: data.location ? JSON.parse(data.location) : undefined
+    };
+  },
+
+  async saveUserSettings(settings: Partial<UserSettings>) {
+    const { client, userId } = await requireAuth();
+
+    const dbUpdates: any = {};
+    if (settings.theme !== undefined) dbUpdates.theme = settings.theme;
+    if (settings.dashboardLayout !== undefined) dbUpdates.dashboard_layout = settings.dashboardLayout;
+    if (settings.notifications !== undefined) dbUpdates.notifications_enabled = settings.notifications;
+    if (settings.timeZone !== undefined) dbUpdates.time_zone = settings.timeZone;
+    if (settings.location !== undefined) dbUpdates.location = JSON.stringify(settings.location);
+
+    const { error } = await client
+      .from('myday_user_settings')
+      .upsert([{
+        user_id: userId,
+        ...dbUpdates
+      }], {
+        onConflict: 'user_id'
+      });
+
+    if (error) throw error;
+  }
+};
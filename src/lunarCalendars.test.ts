@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { LunarDate, describeLunarDate, lunarOccurrencesBetween, lunarToGregorian } from './lunarCalendars';
+
+// Published dates; `year` is the Gregorian year the lunar year begins in
+const REFERENCE_DATES: [string, LunarDate, number, string][] = [
+  ['Chinese New Year 2025', { calendar: 'chinese', month: 1, day: 1 }, 2025, '2025-01-29'],
+  ['Chinese New Year 2026', { calendar: 'chinese', month: 1, day: 1 }, 2026, '2026-02-17'],
+  ['leap 2nd month of 2023', { calendar: 'chinese', month: 2, day: 1, isLeapMonth: true }, 2023, '2023-03-22'],
+  ['leap 6th month of 2025', { calendar: 'chinese', month: 6, day: 1, isLeapMonth: true }, 2025, '2025-07-25'],
+  ['11th month of 2033', { calendar: 'chinese', month: 11, day: 1 }, 2033, '2033-11-22'],
+  ['leap 11th month of 2033', { calendar: 'chinese', month: 11, day: 1, isLeapMonth: true }, 2033, '2033-12-22'],
+  ['Rosh Hashanah 5786', { calendar: 'hebrew', month: 7, day: 1 }, 2025, '2025-09-23'],
+  ['Pesach 5786', { calendar: 'hebrew', month: 1, day: 15 }, 2025, '2026-04-02'],
+  ['Adar I 5784', { calendar: 'hebrew', month: 12, day: 1, isLeapMonth: true }, 2023, '2024-02-10'],
+  ['Purim Katan 5784 (14 Adar I)', { calendar: 'hebrew', month: 12, day: 14, isLeapMonth: true }, 2023, '2024-02-23'],
+  ['Purim 5784 (14 Adar II)', { calendar: 'hebrew', month: 12, day: 14 }, 2023, '2024-03-24'],
+  // Ashwin amavasya current at sunrise; in 2025 it began the afternoon before
+  ['Diwali 2024', { calendar: 'hindu', month: 7, day: 30 }, 2024, '2024-11-01'],
+  ['Diwali 2025', { calendar: 'hindu', month: 7, day: 30 }, 2025, '2025-10-21'],
+  ['Ram Navami 2024', { calendar: 'hindu', month: 1, day: 9 }, 2024, '2024-04-17'],
+  ['Ram Navami 2025', { calendar: 'hindu', month: 1, day: 9 }, 2025, '2025-04-06'],
+  // Shravana krishna ashtami (amanta; Bhadrapada in the purnimanta reckoning)
+  ['Janmashtami 2024', { calendar: 'hindu', month: 5, day: 23 }, 2024, '2024-08-26'],
+  ['Janmashtami 2025', { calendar: 'hindu', month: 5, day: 23 }, 2025, '2025-08-16']
+];
+
+describe('lunarToGregorian', () => {
+  it.each(REFERENCE_DATES)('%s', (_, date, year, expected) => {
+    expect(lunarToGregorian(date, year)).toBe(expected);
+  });
+
+  it.each([
+    ['a leap month in a year without one', { calendar: 'chinese', month: 6, day: 1, isLeapMonth: true }, 2024, '2024-07-06'],
+    ['Adar I in a common Hebrew year', { calendar: 'hebrew', month: 12, day: 14, isLeapMonth: true }, 2024, '2025-03-14'],
+    ['the 30th of a 29-day month', { calendar: 'chinese', month: 12, day: 30 }, 2024, '2025-01-28']
+  ] as [string, LunarDate, number, string][])('falls back for %s', (_, date, year, expected) => {
+    expect(lunarToGregorian(date, year)).toBe(expected);
+  });
+
+  it.each([
+    { calendar: 'chinese', month: 13, day: 1 },
+    { calendar: 'hebrew', month: 1, day: 31 },
+    { calendar: 'hindu', month: 0, day: 1 }
+  ] as LunarDate[])('rejects %o', date => {
+    expect(lunarToGregorian(date, 2025)).toBeNull();
+  });
+});
+
+describe('lunarOccurrencesBetween', () => {
+  it('lists each year once across a range', () => {
+    expect(lunarOccurrencesBetween({ calendar: 'chinese', month: 1, day: 1 }, '2025-01-01', '2026-12-31')).toEqual(['2025-01-29', '2026-02-17']);
+  });
+
+  it('finds a Hebrew date in the Gregorian year after its calendar year begins', () => {
+    expect(lunarOccurrencesBetween({ calendar: 'hebrew', month: 1, day: 15 }, '2026-01-01', '2026-12-31')).toEqual(['2026-04-02']);
+  });
+});
+
+describe('describeLunarDate', () => {
+  it('names Hebrew months', () => {
+    expect(describeLunarDate({ calendar: 'hebrew', month: 1, day: 15 })).toContain('Nisan');
+  });
+});
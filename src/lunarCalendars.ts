@@ -0,0 +1,316 @@
+/**
+ * Lunar Calendars
+ *
+ * Converts dates in the Chinese, Hebrew and Hindu calendars to the Gregorian
+ * day they fall on in a given year, offline:
+ * - Chinese: months start on the day of the new moon in Beijing time; the
+ *   month holding the December solstice is the 11th, and in a year of 13
+ *   months the first one without a principal solar term is the leap month
+ * - Hebrew: the fixed arithmetic calendar (molad and postponement rules)
+ * - Hindu: amanta lunar months (new moon to new moon) named by the sidereal
+ *   sign the sun is in when they begin; a day takes the tithi current at
+ *   sunrise in Ujjain
+ *
+ * Dates are written month and day in that calendar (see LunarDate). A day the
+ * month doesn't have that year (the 30th of a 29-day month) moves back to its
+ * last day, and a leap month is only used in years that have one.
+ */
+
+import { CalendarSystem } from './types';
+import { makeDate, parseDay, toDateString } from './dateMath';
+import {
+  ayanamsa,
+  localMidnight,
+  MEAN_SYNODIC_MONTH,
+  newMoonAtOrAfter,
+  newMoonBefore,
+  nextLunarPhase,
+  nextSolarLongitude,
+  normalizeDegrees,
+  sunLongitude,
+  sunrise,
+  toLocalDayNumber
+} from './astronomy';
+
+export interface LunarDate {
+  calendar: CalendarSystem;
+  month: number; // Chinese 1-12; Hebrew 1 (Nisan) - 12 (Adar); Hindu 1 (Chaitra) - 12 (Phalguna)
+  day: number; // 1-30; Hindu: the tithi, 1-15 waxing (shukla) and 16-30 waning (krishna)
+  isLeapMonth?: boolean; // Chinese/Hindu leap month, Hebrew Adar I
+}
+
+export const CALENDAR_SYSTEM_INFO: Record<CalendarSystem, { label: string; icon: string }> = {
+  chinese: { label: 'Chinese lunar', icon: '🏮' },
+  hebrew: { label: 'Hebrew', icon: '✡️' },
+  hindu: { label: 'Hindu (tithi)', icon: '🪔' }
+};
+
+export const HEBREW_MONTHS = ['Nisan', 'Iyyar', 'Sivan', 'Tammuz', 'Av', 'Elul', 'Tishri', 'Heshvan', 'Kislev', 'Tevet', 'Shevat', 'Adar'];
+
+export const HINDU_MONTHS = ['Chaitra', 'Vaishakha', 'Jyeshtha', 'Ashadha', 'Shravana', 'Bhadrapada', 'Ashwin', 'Kartika', 'Margashirsha', 'Pausha', 'Magha', 'Phalguna'];
+
+// Name for the leap month in each calendar
+export const LEAP_MONTH_LABELS: Record<CalendarSystem, string> = {
+  chinese: 'Leap month',
+  hebrew: 'Adar I (leap years)',
+  hindu: 'Adhika (leap) month'
+};
+
+// Days are counted on the local calendar of where each calendar is reckoned
+const CHINA_UTC_OFFSET = 8;
+const INDIA_UTC_OFFSET = 5.5;
+const UJJAIN = { latitude: 23.18, longitude: 75.77 };
+
+// Converted dates, since views check one day at a time
+const conversionCache = new Map<string, string | null>();
+
+const ordinal = (n: number): string => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Human description, e.g. "8th month, day 15 (Chinese)", "14 Adar",
+ * "Chaitra Shukla 9", "Kartika Amavasya"
+ */
+export const describeLunarDate = ({ calendar, month, day, isLeapMonth }: LunarDate): string => {
+  switch (calendar) {
+    case 'chinese':
+      return `${isLeapMonth ? 'Leap ' : ''}${ordinal(month)} month, day ${day} (Chinese)`;
+    case 'hebrew':
+      return `${day} ${month === 12 && isLeapMonth ? 'Adar I' : HEBREW_MONTHS[month - 1]}`;
+    case 'hindu': {
+      const monthName = `${isLeapMonth ? 'Adhika ' : ''}${HINDU_MONTHS[month - 1]}`;
+      if (day === 15) return `${monthName} Purnima`;
+      if (day === 30) return `${monthName} Amavasya`;
+      return day < 15 ? `${monthName} Shukla ${day}` : `${monthName} Krishna ${day - 15}`;
+    }
+  }
+};
+
+// ===== CHINESE =====
+
+interface LunarMonth {
+  start: number; // Day number of the first day
+  length: number;
+  number: number;
+  isLeap: boolean;
+}
+
+// Day (in Beijing) of the new moon that starts the month holding a day
+const chineseMonthStartOnOrBefore = (dayNumber: number): number => {
+  const newMoon = newMoonBefore(localMidnight(dayNumber + 1, CHINA_UTC_OFFSET));
+  return toLocalDayNumber(newMoon, CHINA_UTC_OFFSET);
+};
+
+// Principal term (sun longitude in 30° steps) in force at the start of a day in Beijing
+const principalTerm = (dayNumber: number): number => {
+  return Math.floor(sunLongitude(localMidnight(dayNumber, CHINA_UTC_OFFSET)) / 30);
+};
+
+/**
+ * Months from the 11th month holding the December solstice of `year - 1` up to
+ * (and including) the one holding the solstice of `year`
+ */
+const chineseSuiMonths = (year: number): LunarMonth[] => {
+  const solsticeDay = (y: number) => toLocalDayNumber(
+    nextSolarLongitude(localMidnight(parseDay(makeDate(y, 12, 1)).dayNumber, CHINA_UTC_OFFSET), 270),
+    CHINA_UTC_OFFSET
+  );
+  const first = chineseMonthStartOnOrBefore(solsticeDay(year - 1));
+  const last = chineseMonthStartOnOrBefore(solsticeDay(year));
+
+  const starts = [first];
+  while (starts[starts.length - 1] < last) {
+    const next = newMoonAtOrAfter(localMidnight(starts[starts.length - 1] + 1, CHINA_UTC_OFFSET));
+    starts.push(toLocalDayNumber(next, CHINA_UTC_OFFSET));
+  }
+  const following = toLocalDayNumber(newMoonAtOrAfter(localMidnight(last + 1, CHINA_UTC_OFFSET)), CHINA_UTC_OFFSET);
+  starts.push(following);
+
+  // 13 months between solstices: the first without a principal term repeats the number before it
+  const hasLeapMonth = starts.length - 2 === 13;
+  let leapAssigned = false;
+  let number = 11;
+  const months: LunarMonth[] = [];
+  for (let i = 0; i < starts.length - 1; i++) {
+    let isLeap = false;
+    if (i > 0) {
+      const noPrincipalTerm = principalTerm(starts[i]) === principalTerm(starts[i + 1]);
+      if (hasLeapMonth && !leapAssigned && noPrincipalTerm) {
+        isLeap = true;
+        leapAssigned = true;
+      } else {
+        number = number % 12 + 1;
+      }
+    }
+    months.push({ start: starts[i], length: starts[i + 1] - starts[i], number, isLeap });
+  }
+  return months;
+};
+
+// The Chinese year starting (at Chinese New Year) in a Gregorian year
+const chineseYearMonths = (year: number): LunarMonth[] => {
+  const months = [...chineseSuiMonths(year), ...chineseSuiMonths(year + 1).slice(1)];
+  const newYear = months.findIndex(month => month.number === 1 && !month.isLeap);
+  const nextNewYear = months.findIndex((month, i) => i > newYear && month.number === 1 && !month.isLeap);
+  return months.slice(newYear, nextNewYear === -1 ? undefined : nextNewYear);
+};
+
+// ===== HEBREW =====
+// Arithmetic from Reingold & Dershowitz, "Calendrical Calculations"; R.D. 1 is 0001-01-01
+
+const RD_UNIX_EPOCH = 719163;
+const HEBREW_EPOCH = -1373427;
+const TISHRI = 7;
+
+const isHebrewLeapYear = (year: number): boolean => (7 * year + 1) % 19 < 7;
+
+const hebrewCalendarElapsedDays = (year: number): number => {
+  const monthsElapsed = Math.floor((235 * year - 234) / 19);
+  const partsElapsed = 12084 + 13753 * monthsElapsed;
+  const days = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+  return (3 * (days + 1)) % 7 < 3 ? days + 1 : days;
+};
+
+const hebrewYearLengthCorrection = (year: number): number => {
+  const ny0 = hebrewCalendarElapsedDays(year - 1);
+  const ny1 = hebrewCalendarElapsedDays(year);
+  const ny2 = hebrewCalendarElapsedDays(year + 1);
+  if (ny2 - ny1 === 356) return 2;
+  if (ny1 - ny0 === 382) return 1;
+  return 0;
+};
+
+const hebrewNewYear = (year: number): number => {
+  return HEBREW_EPOCH + hebrewCalendarElapsedDays(year) + hebrewYearLengthCorrection(year);
+};
+
+// Months numbered from Nisan; 13 is Adar II in leap years
+const lastDayOfHebrewMonth = (month: number, year: number): number => {
+  const yearLength = hebrewNewYear(year + 1) - hebrewNewYear(year);
+  if ([2, 4, 6, 10, 13].includes(month)) return 29;
+  if (month === 12 && !isHebrewLeapYear(year)) return 29;
+  if (month === 8 && yearLength % 10 !== 5) return 29; // Heshvan is long only in 355/385-day years
+  if (month === 9 && yearLength % 10 === 3) return 29; // Kislev is short in 353/383-day years
+  return 30;
+};
+
+// Day number of a Hebrew date; the year begins at Tishri
+const fixedFromHebrew = (year: number, month: number, day: number): number => {
+  const lastMonth = isHebrewLeapYear(year) ? 13 : 12;
+  let rd = hebrewNewYear(year) + day - 1;
+  if (month < TISHRI) {
+    for (let m = TISHRI; m <= lastMonth; m++) rd += lastDayOfHebrewMonth(m, year);
+    for (let m = 1; m < month; m++) rd += lastDayOfHebrewMonth(m, year);
+  } else {
+    for (let m = TISHRI; m < month; m++) rd += lastDayOfHebrewMonth(m, year);
+  }
+  return rd - RD_UNIX_EPOCH;
+};
+
+/**
+ * Adar in a leap year is kept in Adar II (as birthdays and Purim are);
+ * Adar I is kept in Adar in common years
+ */
+const hebrewOccurrence = (date: LunarDate, hebrewYear: number): number => {
+  const month = date.month === 12 && isHebrewLeapYear(hebrewYear) && !date.isLeapMonth ? 13 : date.month;
+  return fixedFromHebrew(hebrewYear, month, Math.min(date.day, lastDayOfHebrewMonth(month, hebrewYear)));
+};
+
+// ===== HINDU =====
+
+interface HinduMonth {
+  newMoon: number; // Instant the month begins
+  number: number; // 1 = Chaitra
+  isLeap: boolean;
+}
+
+// Amanta month named by the sidereal sign the sun is in at the new moon that starts it (Pisces → Chaitra)
+const hinduMonthNumber = (newMoon: number): number => {
+  const sign = Math.floor(normalizeDegrees(sunLongitude(newMoon) - ayanamsa(newMoon)) / 30);
+  return (sign + 1) % 12 + 1;
+};
+
+// Lunar months beginning from February of a year through April of the next
+const hinduMonths = (year: number): HinduMonth[] => {
+  const newMoons = [newMoonAtOrAfter(localMidnight(parseDay(makeDate(year, 2, 1)).dayNumber, INDIA_UTC_OFFSET))];
+  while (newMoons.length < 16) {
+    newMoons.push(newMoonAtOrAfter(newMoons[newMoons.length - 1] + MEAN_SYNODIC_MONTH / 2));
+  }
+  const numbers = newMoons.map(hinduMonthNumber);
+
+  // No sankranti (sign change) during a month makes it the leap month, named like the next one
+  return newMoons.slice(0, -1).map((newMoon, i) => ({
+    newMoon,
+    number: numbers[i],
+    isLeap: numbers[i] === numbers[i + 1]
+  }));
+};
+
+/**
+ * The day a tithi is observed: the one it is current at sunrise. A tithi that
+ * starts and ends between two sunrises is kept on the day it falls in.
+ */
+const hinduTithiDay = (monthStart: number, tithi: number): number => {
+  const start = tithi === 1 ? monthStart : nextLunarPhase(monthStart, (tithi - 1) * 12);
+  const end = nextLunarPhase(start, (tithi * 12) % 360);
+
+  let day = toLocalDayNumber(start, INDIA_UTC_OFFSET);
+  if (sunrise(day, UJJAIN.latitude, UJJAIN.longitude) < start) day++;
+  return sunrise(day, UJJAIN.latitude, UJJAIN.longitude) < end ? day : day - 1;
+};
+
+// The year starting at Chaitra in a Gregorian year; in a leap year the regular month keeps the name
+const hinduOccurrence = (date: LunarDate, year: number): number | null => {
+  const months = hinduMonths(year);
+  const yearStart = months.findIndex(month => month.number === 1 && !month.isLeap);
+  if (yearStart === -1) return null;
+
+  const candidates = months.slice(yearStart).filter(month => month.number === date.month);
+  const month = (date.isLeapMonth && candidates.find(m => m.isLeap)) || candidates.find(m => !m.isLeap);
+  return month ? hinduTithiDay(month.newMoon, date.day) : null;
+};
+
+// ===== CONVERSION =====
+
+/**
+ * Gregorian date (YYYY-MM-DD) of a lunar date in the calendar year that begins
+ * in the given Gregorian year (at Chinese New Year, Chaitra, or Tishri in the
+ * autumn for Hebrew). Null if the date is out of range.
+ */
+export const lunarToGregorian = (date: LunarDate, year: number): string | null => {
+  if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > 30) return null;
+
+  const key = `${date.calendar}|${date.month}|${date.day}|${!!date.isLeapMonth}|${year}`;
+  if (!conversionCache.has(key)) {
+    let dayNumber: number | null = null;
+    if (date.calendar === 'chinese') {
+      const months = chineseYearMonths(year);
+      const candidates = months.filter(month => month.number === date.month);
+      const month = (date.isLeapMonth && candidates.find(m => m.isLeap)) || candidates.find(m => !m.isLeap);
+      dayNumber = month ? month.start + Math.min(date.day, month.length) - 1 : null;
+    } else if (date.calendar === 'hebrew') {
+      dayNumber = hebrewOccurrence(date, year + 3761);
+    } else if (date.calendar === 'hindu') {
+      dayNumber = hinduOccurrence(date, year);
+    }
+    conversionCache.set(key, dayNumber === null ? null : toDateString(dayNumber));
+  }
+  return conversionCache.get(key)!;
+};
+
+/**
+ * Gregorian dates from `from` through `through` (inclusive) a lunar date falls on
+ */
+export const lunarOccurrencesBetween = (date: LunarDate, from: string, through: string): string[] => {
+  const dates: string[] = [];
+  // A calendar year runs into the next Gregorian one, so start a year early
+  for (let year = parseDay(from).year - 1; year <= parseDay(through).year; year++) {
+    const occurrence = lunarToGregorian(date, year);
+    if (occurrence && occurrence >= from && occurrence <= through && !dates.includes(occurrence)) {
+      dates.push(occurrence);
+    }
+  }
+  return dates.sort();
+};
@@ -2,6 +2,11 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
 import './index.css'
+import { setTimeZone } from './dateService'
+import { getUserSettingsSync } from './storage'
+
+// Days must follow the saved time zone before anything renders
+setTimeZone(getUserSettingsSync().timeZone)
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TaskCompletion, TaskSpillover, Vacation } from './types';
+import { getOverdueDays, nextOccurrences, occurrencesBetween, occursOn } from './recurrence';
+
+// 2024-01-01 is a Monday; 2024 is a leap year
+const makeTask = (changes: Partial<Task>): Task => ({
+  id: 'task-1',
+  name: 'Task',
+  weightage: 5,
+  frequency: 'daily',
+  startDate: '2024-01-01',
+  createdAt: '2024-01-01T08:00:00.000Z',
+  ...changes
+});
+
+const TASKS = {
+  daily: makeTask({ frequency: 'daily' }),
+  weekly: makeTask({ frequency: 'weekly', daysOfWeek: [1, 3] }), // Mon, Wed
+  monthly: makeTask({ frequency: 'monthly', dayOfMonth: 31 }),
+  countBased: makeTask({ frequency: 'count-based', frequencyCount: 3, frequencyPeriod: 'week' }),
+  everyThreeDays: makeTask({ frequency: 'interval', intervalValue: 3, intervalUnit: 'days', intervalStartDate: '2024-01-01' }),
+  everyTwoWeeks: makeTask({ frequency: 'interval', intervalValue: 2, intervalUnit: 'weeks', intervalStartDate: '2024-01-01' }),
+  monthlyOn31st: makeTask({ frequency: 'interval', intervalValue: 1, intervalUnit: 'months', intervalStartDate: '2024-01-31' }),
+  yearlyOnLeapDay: makeTask({ frequency: 'interval', intervalValue: 1, intervalUnit: 'years', intervalStartDate: '2024-02-29' }),
+  custom: makeTask({ frequency: 'custom', customFrequency: 'every other tuesday', startDate: '2024-01-02' }),
+  unknownCustom: makeTask({ frequency: 'custom', customFrequency: 'whenever I feel like it' }),
+  rrule: makeTask({ frequency: 'rrule', rrule: 'FREQ=MONTHLY;BYDAY=-1FR', exDates: ['2024-03-29'] }),
+  oneTime: makeTask({ frequency: 'custom', specificDate: '2024-01-10' }),
+  bounded: makeTask({ frequency: 'daily', startDate: '2024-01-05', endDate: '2024-01-07' }),
+  onHold: makeTask({ frequency: 'daily', onHold: true, holdStartDate: '2024-01-03', holdEndDate: '2024-01-04' }),
+  afterCompletion: makeTask({ frequency: 'interval', intervalValue: 5, intervalUnit: 'days', intervalStartDate: '2024-01-01', repeatAfterCompletion: true })
+};
+
+const vacations: Vacation[] = [
+  { id: 'vacation-1', startDate: '2024-01-08', endDate: '2024-01-09', taskIds: ['task-on-vacation'], createdAt: '2024-01-01T00:00:00.000Z' }
+];
+const onVacation = makeTask({ id: 'task-on-vacation', frequency: 'daily' });
+
+const completions: TaskCompletion[] = [
+  { taskId: 'task-1', date: '2024-01-03', completedAt: '2024-01-03T09:00:00.000Z' }
+];
+
+describe('occursOn', () => {
+  it.each([
+    ['daily', TASKS.daily, '2024-01-10', true],
+    ['daily before its start date', TASKS.daily, '2023-12-31', false],
+    ['weekly on a chosen day', TASKS.weekly, '2024-01-03', true],
+    ['weekly on another day', TASKS.weekly, '2024-01-02', false],
+    ['monthly on the 31st', TASKS.monthly, '2024-01-31', true],
+    ['monthly 31st in a leap February', TASKS.monthly, '2024-02-29', true],
+    ['monthly 31st before the last day of February', TASKS.monthly, '2024-02-28', false],
+    ['monthly 31st in a 30-day month', TASKS.monthly, '2024-04-30', true],
+    ['count-based any day', TASKS.countBased, '2024-01-06', true],
+    ['interval days on the grid', TASKS.everyThreeDays, '2024-01-04', true],
+    ['interval days off the grid', TASKS.everyThreeDays, '2024-01-05', false],
+    ['interval weeks on the grid', TASKS.everyTwoWeeks, '2024-01-15', true],
+    ['interval weeks in the off week', TASKS.everyTwoWeeks, '2024-01-08', false],
+    ['interval months clamped to February', TASKS.monthlyOn31st, '2024-02-29', true],
+    ['interval months back on the 31st', TASKS.monthlyOn31st, '2024-03-31', true],
+    ['interval months on the 30th of a 31-day month', TASKS.monthlyOn31st, '2024-03-30', false],
+    ['interval years from Feb 29 in a common year', TASKS.yearlyOnLeapDay, '2025-02-28', true],
+    ['interval years from Feb 29 in a leap year', TASKS.yearlyOnLeapDay, '2028-02-29', true],
+    ['custom phrase on its week', TASKS.custom, '2024-01-16', true],
+    ['custom phrase in the off week', TASKS.custom, '2024-01-09', false],
+    ['unknown custom phrase', TASKS.unknownCustom, '2024-01-02', false],
+    ['rrule last Friday', TASKS.rrule, '2024-01-26', true],
+    ['rrule another Friday', TASKS.rrule, '2024-01-19', false],
+    ['rrule excluded date', TASKS.rrule, '2024-03-29', false],
+    ['one-time on its date', TASKS.oneTime, '2024-01-10', true],
+    ['one-time on another date', TASKS.oneTime, '2024-01-11', false],
+    ['inside start and end dates', TASKS.bounded, '2024-01-07', true],
+    ['after the end date', TASKS.bounded, '2024-01-08', false],
+    ['during a hold', TASKS.onHold, '2024-01-04', false],
+    ['after a hold ends', TASKS.onHold, '2024-01-05', true]
+  ])('%s', (_label, task, date, expected) => {
+    expect(occursOn(task, date)).toBe(expected);
+  });
+
+  it.each([
+    ['during a vacation covering the task', onVacation, '2024-01-08', false],
+    ['after the vacation', onVacation, '2024-01-10', true],
+    ['a task the vacation does not cover', TASKS.daily, '2024-01-08', true]
+  ])('%s', (_label, task, date, expected) => {
+    expect(occursOn(task, date, vacations)).toBe(expected);
+  });
+
+  it.each([
+    ['repeat-after-completion on the interval grid', '2024-01-06', false],
+    ['repeat-after-completion one interval after the completion', '2024-01-08', true]
+  ])('%s', (_label, date, expected) => {
+    expect(occursOn(TASKS.afterCompletion, date, [], completions)).toBe(expected);
+  });
+});
+
+describe('nextOccurrences', () => {
+  it.each([
+    ['daily', TASKS.daily, '2024-01-30', 3, ['2024-01-30', '2024-01-31', '2024-02-01']],
+    ['weekly', TASKS.weekly, '2024-01-02', 3, ['2024-01-03', '2024-01-08', '2024-01-10']],
+    ['monthly', TASKS.monthly, '2024-01-15', 4, ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']],
+    ['count-based', TASKS.countBased, '2024-01-01', 2, ['2024-01-01', '2024-01-02']],
+    ['interval days', TASKS.everyThreeDays, '2024-01-02', 3, ['2024-01-04', '2024-01-07', '2024-01-10']],
+    ['interval weeks', TASKS.everyTwoWeeks, '2024-01-02', 2, ['2024-01-15', '2024-01-29']],
+    ['interval months', TASKS.monthlyOn31st, '2024-01-01', 3, ['2024-01-31', '2024-02-29', '2024-03-31']],
+    ['interval years', TASKS.yearlyOnLeapDay, '2024-03-01', 2, ['2025-02-28', '2026-02-28']],
+    ['custom', TASKS.custom, '2024-01-03', 2, ['2024-01-16', '2024-01-30']],
+    ['unknown custom phrase', TASKS.unknownCustom, '2024-01-01', 2, []],
+    ['rrule skipping an excluded date', TASKS.rrule, '2024-02-01', 2, ['2024-02-23', '2024-04-26']],
+    ['one-time before its date', TASKS.oneTime, '2024-01-01', 3, ['2024-01-10']],
+    ['one-time after its date', TASKS.oneTime, '2024-01-11', 3, []],
+    ['stops at the end date', TASKS.bounded, '2024-01-01', 5, ['2024-01-05', '2024-01-06', '2024-01-07']],
+    ['skips a hold', TASKS.onHold, '2024-01-02', 3, ['2024-01-02', '2024-01-05', '2024-01-06']]
+  ])('%s', (_label, task, from, count, expected) => {
+    expect(nextOccurrences(task, from, count)).toEqual(expected);
+  });
+
+  it('skips vacation days', () => {
+    expect(nextOccurrences(onVacation, '2024-01-07', 3, vacations)).toEqual(['2024-01-07', '2024-01-10', '2024-01-11']);
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it.each([
+    ['daily', TASKS.daily, '2024-01-01', '2024-01-03', ['2024-01-01', '2024-01-02', '2024-01-03']],
+    ['weekly', TASKS.weekly, '2024-01-01', '2024-01-14', ['2024-01-01', '2024-01-03', '2024-01-08', '2024-01-10']],
+    ['monthly', TASKS.monthly, '2024-02-01', '2024-04-30', ['2024-02-29', '2024-03-31', '2024-04-30']],
+    ['count-based', TASKS.countBased, '2024-01-01', '2024-01-02', ['2024-01-01', '2024-01-02']],
+    ['interval days', TASKS.everyThreeDays, '2024-01-01', '2024-01-10', ['2024-01-01', '2024-01-04', '2024-01-07', '2024-01-10']],
+    ['interval weeks', TASKS.everyTwoWeeks, '2024-01-01', '2024-01-31', ['2024-01-01', '2024-01-15', '2024-01-29']],
+    ['interval months', TASKS.monthlyOn31st, '2024-04-01', '2024-06-30', ['2024-04-30', '2024-05-31', '2024-06-30']],
+    ['interval years', TASKS.yearlyOnLeapDay, '2024-01-01', '2025-12-31', ['2024-02-29', '2025-02-28']],
+    ['custom', TASKS.custom, '2024-01-01', '2024-01-31', ['2024-01-02', '2024-01-16', '2024-01-30']],
+    ['unknown custom phrase', TASKS.unknownCustom, '2024-01-01', '2024-01-31', []],
+    ['rrule', TASKS.rrule, '2024-01-01', '2024-04-30', ['2024-01-26', '2024-02-23', '2024-04-26']],
+    ['one-time', TASKS.oneTime, '2024-01-01', '2024-01-31', ['2024-01-10']],
+    ['clipped to start and end dates', TASKS.bounded, '2024-01-01', '2024-01-31', ['2024-01-05', '2024-01-06', '2024-01-07']],
+    ['without the days on hold', TASKS.onHold, '2024-01-02', '2024-01-05', ['2024-01-02', '2024-01-05']],
+    ['an empty range', TASKS.daily, '2024-01-05', '2024-01-04', []]
+  ])('%s', (_label, task, start, end, expected) => {
+    expect(occurrencesBetween(task, start, end)).toEqual(expected);
+  });
+
+  it('leaves out vacation days', () => {
+    expect(occurrencesBetween(onVacation, '2024-01-07', '2024-01-10', vacations)).toEqual(['2024-01-07', '2024-01-10']);
+  });
+
+  it('places repeat-after-completion tasks from their latest completion', () => {
+    expect(occurrencesBetween(TASKS.afterCompletion, '2024-01-01', '2024-01-10', [], completions))
+      .toEqual(['2024-01-01', '2024-01-08']);
+  });
+});
+
+describe('getOverdueDays', () => {
+  const spillovers: TaskSpillover[] = [
+    { taskId: 'task-1', fromDate: '2024-01-10', toDate: '2024-01-11', movedAt: '2024-01-10T20:00:00.000Z' }
+  ];
+
+  it.each([
+    ['on its date', '2024-01-10', [], null],
+    ['after its date', '2024-01-12', [], 2],
+    ['on the day it was moved to', '2024-01-11', spillovers, null],
+    ['after the day it was moved to', '2024-01-13', spillovers, 2]
+  ])('one-time task %s', (_label, date, moves, expected) => {
+    expect(getOverdueDays(TASKS.oneTime, date, [], [], moves as TaskSpillover[])).toBe(expected);
+  });
+
+  it('is closed by a completion after its date', () => {
+    const done: TaskCompletion[] = [{ taskId: 'task-1', date: '2024-01-11', completedAt: '2024-01-11T09:00:00.000Z' }];
+    expect(getOverdueDays(TASKS.oneTime, '2024-01-12', done, [], spillovers)).toBeNull();
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Recurrence Engine
+ *
+ * Single source of truth for when a task is scheduled. Views ask this module
+ * instead of re-implementing frequency rules:
+ * - occursOn(task, date): is the task scheduled on this date?
+ * - nextOccurrences(task, from, n): the next n scheduled dates (from is inclusive)
+ * - occurrencesBetween(task, start, end): every scheduled date in a range (inclusive)
+ *
+ * Each takes the user's vacations; days a vacation pauses a task aren't scheduled.
+ * Interval tasks that repeat after completion are due one interval after their
+ * latest completion, so occursOn also takes completions; without them it
+ * projects the plain interval grid.
+ *
+ * Dates are 'YYYY-MM-DD' strings (see dateMath for the calendar-day helpers).
+ * For monthly and interval tasks, days that don't exist in a month (31st,
+ * Feb 29) fall on the last day of that month. Custom phrases and rrule tasks
+ * follow RFC 5545 (see rrule.ts).
+ */
+
+import { Task, TaskCompletion, TaskSpillover, Vacation } from './types';
+import { CalendarDay, parseDay, toDateString, daysInMonth, makeDate, addDays, daysBetween } from './dateMath';
+import { rruleOccursOn } from './rrule';
+import { compileCustomFrequency } from './customFrequency';
+import { isCompletionDone } from './taskProgress';
+import { isOnVacation } from './vacations';
+
+// Safety cap for open-ended searches (e.g. a one-time task that already happened)
+const MAX_SEARCH_DAYS = 366 * 10;
+
+// Day-of-month rule, clamped to the month's last day
+const isDayOfMonth = (day: CalendarDay, dayOfMonth: number): boolean => {
+  return day.day === Math.min(dayOfMonth, daysInMonth(day.year, day.month));
+};
+
+/**
+ * Task is paused on this date. A hold without a start date applies right away,
+ * one without an end date lasts until the task is resumed.
+ */
+export const isOnHold = (task: Task, date: string): boolean => {
+  // Finished holds keep their days excluded after the task resumes
+  if (task.holdHistory?.some(p => (!p.startDate || date >= p.startDate) && date <= p.endDate)) return true;
+
+  if (!task.onHold) return false;
+  if (task.holdStartDate && date < task.holdStartDate) return false;
+  if (task.holdEndDate && date > task.holdEndDate) return false;
+  return true;
+};
+
+const matchesInterval = (task: Task, day: CalendarDay): boolean => {
+  const anchorDate = task.intervalStartDate || task.startDate;
+  if (!task.intervalValue || !task.intervalUnit || !anchorDate) {
+    return false;
+  }
+
+  const anchor = parseDay(anchorDate);
+  const diffInDays = day.dayNumber - anchor.dayNumber;
+  if (diffInDays < 0) return false; // Before the first occurrence
+
+  switch (task.intervalUnit) {
+    case 'days':
+      return diffInDays % task.intervalValue === 0;
+
+    case 'weeks':
+      return diffInDays % (task.intervalValue * 7) === 0;
+
+    case 'months': {
+      const monthsDiff = (day.year - anchor.year) * 12 + (day.month - anchor.month);
+      return monthsDiff % task.intervalValue === 0 && isDayOfMonth(day, anchor.day);
+    }
+
+    case 'years': {
+      const yearsDiff = day.year - anchor.year;
+      return yearsDiff % task.intervalValue === 0 &&
+        day.month === anchor.month &&
+        isDayOfMonth(day, anchor.day);
+    }
+
+    default:
+      return false;
+  }
+};
+
+// Date plus an interval, clamping to the month's last day like matchesInterval
+const addInterval = (date: string, value: number, unit: Task['intervalUnit']): string => {
+  const day = parseDay(date);
+  switch (unit) {
+    case 'days':
+      return addDays(date, value);
+    case 'weeks':
+      return addDays(date, value * 7);
+    case 'months':
+    case 'years': {
+      const totalMonths = day.year * 12 + (day.month - 1) + (unit === 'months' ? value : value * 12);
+      const year = Math.floor(totalMonths / 12);
+      const month = (totalMonths % 12) + 1;
+      return makeDate(year, month, Math.min(day.day, daysInMonth(year, month)));
+    }
+    default:
+      return date;
+  }
+};
+
+export const isRepeatAfterCompletion = (task: Task): boolean => {
+  return task.frequency === 'interval' && !!task.repeatAfterCompletion;
+};
+
+/**
+ * Due date of a repeat-after-completion task, counting only completions before
+ * `before` (exclusive) when given. Before the first completion it's the
+ * interval start date.
+ */
+export const getFloatingDueDate = (task: Task, completions: TaskCompletion[], before?: string): string | null => {
+  if (!task.intervalValue || !task.intervalUnit) return null;
+
+  const lastDone = completions
+    .filter(c => c.taskId === task.id && isCompletionDone(c) && (!before || c.date < before))
+    .reduce<string | null>((latest, c) => !latest || c.date > latest ? c.date : latest, null);
+
+  if (!lastDone) return task.intervalStartDate || task.startDate || null;
+  return addInterval(lastDone, task.intervalValue, task.intervalUnit);
+};
+
+/**
+ * Days until a repeat-after-completion task is due as of `date`
+ * (0 = due that day, negative = overdue by that many days), or null when unknown
+ */
+export const getDaysUntilDue = (task: Task, date: string, completions: TaskCompletion[]): number | null => {
+  const dueDate = getFloatingDueDate(task, completions, addDays(date, 1));
+  return dueDate ? daysBetween(date, dueDate) : null;
+};
+
+export const describeDueIn = (days: number): string => {
+  if (days === 0) return 'Due today';
+  if (days > 0) return `Due in ${days} day${days > 1 ? 's' : ''}`;
+  return `Overdue by ${-days} day${days < -1 ? 's' : ''}`;
+};
+
+export const describeDeadline = (days: number): string => {
+  if (days === 0) return 'Deadline today';
+  if (days > 0) return `Deadline in ${days} day${days > 1 ? 's' : ''}`;
+  return `Deadline passed ${-days} day${days < -1 ? 's' : ''} ago`;
+};
+
+// The date a task due on `date` ended up on after being moved ("move to next day"), possibly several times
+const followSpillovers = (taskId: string, date: string, spillovers: TaskSpillover[]): string => {
+  const seen = new Set<string>();
+  let current = date;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const moved = spillovers.find(s => s.taskId === taskId && s.fromDate === current);
+    if (!moved) break;
+    current = moved.toDate;
+  }
+  return current;
+};
+
+/**
+ * Days a task has been overdue as of `date`, or null when it isn't. One-time
+ * tasks carry over from their date until done or dismissed (skipped/excused);
+ * repeat-after-completion tasks until done. A task moved to another day counts
+ * from the day it was moved to. Only completions before `date` count, so a
+ * task finished late still shows as overdue that day.
+ */
+export const getOverdueDays = (
+  task: Task,
+  date: string,
+  completions: TaskCompletion[],
+  vacations: Vacation[] = [],
+  spillovers: TaskSpillover[] = []
+): number | null => {
+  if (isOnHold(task, date) || isOnVacation(task, date, vacations)) return null;
+
+  if (isRepeatAfterCompletion(task)) {
+    if (task.endDate && date > task.endDate) return null;
+    const floatingDueDate = getFloatingDueDate(task, completions, date);
+    const dueDate = floatingDueDate && followSpillovers(task.id, floatingDueDate, spillovers);
+    return dueDate && dueDate < date ? daysBetween(dueDate, date) : null;
+  }
+
+  const scheduled = task.specificDate && followSpillovers(task.id, task.specificDate, spillovers);
+  if (scheduled && scheduled < date) {
+    const isClosed = completions.some(c =>
+      c.taskId === task.id && c.date >= task.specificDate! && c.date < date &&
+      (isCompletionDone(c) || c.status === 'skipped' || c.status === 'excused')
+    );
+    return isClosed ? null : daysBetween(scheduled, date);
+  }
+
+  return null;
+};
+
+// DTSTART for rrule and custom tasks: the start date, falling back to the day the task was created
+export const getRRuleStart = (task: Task): string | undefined => {
+  return task.startDate || task.createdAt?.slice(0, 10);
+};
+
+const matchesRRule = (task: Task, date: string): boolean => {
+  const dtstart = getRRuleStart(task);
+  if (!task.rrule || !dtstart || task.exDates?.includes(date)) return false;
+  return rruleOccursOn(task.rrule, dtstart, date);
+};
+
+// Custom phrases ("every other Tuesday") are compiled to an RRULE; unknown phrases never match
+const matchesCustom = (task: Task, date: string): boolean => {
+  const rrule = task.customFrequency ? compileCustomFrequency(task.customFrequency) : null;
+  const dtstart = getRRuleStart(task);
+  if (!rrule || !dtstart) return false;
+  return rruleOccursOn(rrule, dtstart, date);
+};
+
+const matchesFrequency = (task: Task, day: CalendarDay, date: string): boolean => {
+  switch (task.frequency) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return task.daysOfWeek?.includes(day.weekday) || false;
+    case 'monthly':
+      return !!task.dayOfMonth && isDayOfMonth(day, task.dayOfMonth);
+    case 'count-based':
+      return true; // Available every day until the period's target is met (see isPeriodTargetMet)
+    case 'interval':
+      return matchesInterval(task, day);
+    case 'custom':
+      return matchesCustom(task, date);
+    case 'rrule':
+      return matchesRRule(task, date);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Is the task scheduled on this date? Pass completions to place
+ * repeat-after-completion tasks on their actual due date.
+ */
+export const occursOn = (task: Task, date: string, vacations: Vacation[] = [], completions?: TaskCompletion[]): boolean => {
+  if (isOnHold(task, date) || isOnVacation(task, date, vacations)) return false;
+  if (task.startDate && date < task.startDate) return false;
+  if (task.endDate && date > task.endDate) return false;
+
+  // One-time task
+  if (task.specificDate) {
+    return date === task.specificDate;
+  }
+
+  if (completions && isRepeatAfterCompletion(task)) {
+    return getFloatingDueDate(task, completions, date) === date;
+  }
+
+  return matchesFrequency(task, parseDay(date), date);
+};
+
+/**
+ * All scheduled dates between start and end (both inclusive)
+ */
+export const occurrencesBetween = (task: Task, start: string, end: string, vacations: Vacation[] = [], completions?: TaskCompletion[]): string[] => {
+  const dates: string[] = [];
+  const last = parseDay(end).dayNumber;
+
+  for (let dayNumber = parseDay(start).dayNumber; dayNumber <= last; dayNumber++) {
+    const date = toDateString(dayNumber);
+    if (occursOn(task, date, vacations, completions)) dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * The next `count` scheduled dates on or after `from`.
+ * Returns fewer when the task ends (end date, one-time task) before that.
+ */
+export const nextOccurrences = (task: Task, from: string, count: number, vacations: Vacation[] = []): string[] => {
+  const dates: string[] = [];
+  const first = parseDay(from).dayNumber;
+
+  for (let dayNumber = first; dates.length < count && dayNumber <= first + MAX_SEARCH_DAYS; dayNumber++) {
+    const date = toDateString(dayNumber);
+    if (task.endDate && date > task.endDate) break;
+    if (task.specificDate && date > task.specificDate) break;
+    if (occursOn(task, date, vacations)) dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * Bounds of the count-based period (Sunday-Saturday week, or calendar month) containing a date
+ */
+export const getPeriodBounds = (period: 'week' | 'month', date: string): { start: string; end: string } => {
+  const day = parseDay(date);
+  if (period === 'week') {
+    const start = day.dayNumber - day.weekday;
+    return { start: toDateString(start), end: toDateString(start + 6) };
+  }
+
+  return {
+    start: makeDate(day.year, day.month, 1),
+    end: makeDate(day.year, day.month, daysInMonth(day.year, day.month))
+  };
+};
+
+/**
+ * Count-based tasks drop off once the target for the current week/month is reached
+ */
+export const isPeriodTargetMet = (task: Task, date: string, completions: TaskCompletion[]): boolean => {
+  if (task.frequency !== 'count-based' || !task.frequencyCount || !task.frequencyPeriod) {
+    return false;
+  }
+
+  const { start, end } = getPeriodBounds(task.frequencyPeriod, date);
+  const completedInPeriod = completions.filter(
+    c => c.taskId === task.id && c.date >= start && c.date <= end && isCompletionDone(c)
+  ).length;
+
+  return completedInPeriod >= task.frequencyCount;
+};
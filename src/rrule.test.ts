@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from './types';
+import { expandRRule, formatRRule, parseRRule } from './rrule';
+import { occurrencesBetween } from './recurrence';
+
+const expand = (rule: string, dtstart: string, through: string) => expandRRule(parseRRule(rule), dtstart, through).dates;
+
+describe('expandRRule with BYMONTH', () => {
+  it.each([
+    ['DAILY', 'FREQ=DAILY;BYMONTH=3', '2024-02-27', '2024-03-02', ['2024-03-01', '2024-03-02']],
+    ['WEEKLY', 'FREQ=WEEKLY;BYDAY=FR;BYMONTH=3', '2024-02-01', '2024-03-31', ['2024-03-01', '2024-03-08', '2024-03-15', '2024-03-22', '2024-03-29']],
+    ['MONTHLY with BYMONTHDAY', 'FREQ=MONTHLY;BYMONTH=3;BYMONTHDAY=1', '2024-01-01', '2025-12-31', ['2024-03-01', '2025-03-01']],
+    ['MONTHLY from DTSTART', 'FREQ=MONTHLY;BYMONTH=1,7', '2024-01-15', '2024-12-31', ['2024-01-15', '2024-07-15']],
+    ['YEARLY', 'FREQ=YEARLY;BYMONTH=5;BYDAY=2SU', '2024-01-01', '2025-12-31', ['2024-05-12', '2025-05-11']]
+  ])('%s', (_label, rule, dtstart, through, expected) => {
+    expect(expand(rule, dtstart, through)).toEqual(expected);
+  });
+
+  it('counts only the occurrences inside the months', () => {
+    expect(expand('FREQ=DAILY;BYMONTH=12;COUNT=3', '2024-11-29', '2025-12-31')).toEqual(['2024-12-01', '2024-12-02', '2024-12-03']);
+  });
+});
+
+// 2024-01-01 is a Monday; 2024 is a leap year
+describe('expandRRule', () => {
+  it.each([
+    ['INTERVAL on days', 'FREQ=DAILY;INTERVAL=3', '2024-01-01', '2024-01-10', ['2024-01-01', '2024-01-04', '2024-01-07', '2024-01-10']],
+    ['INTERVAL on weeks', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH', '2024-01-02', '2024-01-31', ['2024-01-02', '2024-01-04', '2024-01-16', '2024-01-18', '2024-01-30']],
+    ['ordinal BYDAY (2MO)', 'FREQ=MONTHLY;BYDAY=2MO', '2024-01-01', '2024-03-31', ['2024-01-08', '2024-02-12', '2024-03-11']],
+    ['negative ordinal BYDAY (-1FR)', 'FREQ=MONTHLY;BYDAY=-1FR', '2024-01-01', '2024-03-31', ['2024-01-26', '2024-02-23', '2024-03-29']],
+    ['two ordinals (2TU,4TU)', 'FREQ=MONTHLY;BYDAY=2TU,4TU', '2024-01-01', '2024-01-31', ['2024-01-09', '2024-01-23']],
+    ['BYSETPOS for the last weekday', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2024-01-01', '2024-03-31', ['2024-01-31', '2024-02-29', '2024-03-29']],
+    ['BYSETPOS for the 31st or else the last day', 'FREQ=MONTHLY;BYMONTHDAY=31,-1;BYSETPOS=1', '2024-01-01', '2024-04-30', ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']],
+    ['negative BYMONTHDAY', 'FREQ=MONTHLY;BYMONTHDAY=-2', '2024-01-01', '2024-02-29', ['2024-01-30', '2024-02-28']]
+  ])('%s', (_label, rule, dtstart, through, expected) => {
+    expect(expand(rule, dtstart, through)).toEqual(expected);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    expect(expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO;COUNT=3'), '2024-01-01', '2024-12-31')).toEqual({
+      dates: ['2024-01-01', '2024-01-08', '2024-01-15'],
+      complete: true
+    });
+  });
+
+  it('counts from DTSTART, not from the start of its period', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,FR;COUNT=2', '2024-01-03', '2024-12-31')).toEqual(['2024-01-05', '2024-01-08']);
+  });
+
+  it('stops at UNTIL (inclusive)', () => {
+    expect(expandRRule(parseRRule('FREQ=DAILY;UNTIL=20240103T235959Z'), '2024-01-01', '2024-12-31')).toEqual({
+      dates: ['2024-01-01', '2024-01-02', '2024-01-03'],
+      complete: true
+    });
+  });
+
+  it('is incomplete while UNTIL is past the range', () => {
+    expect(expandRRule(parseRRule('FREQ=MONTHLY;UNTIL=20241231'), '2024-01-15', '2024-02-29')).toEqual({
+      dates: ['2024-01-15', '2024-02-15'],
+      complete: false
+    });
+  });
+});
+
+describe('EXDATE', () => {
+  it('leaves out excluded dates of an rrule task', () => {
+    const task: Task = {
+      id: 'task-1',
+      name: 'Task',
+      weightage: 5,
+      frequency: 'rrule',
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      exDates: ['2024-01-08'],
+      startDate: '2024-01-01',
+      createdAt: '2024-01-01T08:00:00.000Z'
+    };
+    expect(occurrencesBetween(task, '2024-01-01', '2024-01-21')).toEqual(['2024-01-01', '2024-01-15']);
+  });
+});
+
+describe('parseRRule', () => {
+  it('reads every part', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2mo;BYMONTH=1,6;BYSETPOS=1;UNTIL=20261231;WKST=SU')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 5, ordinal: -1 }, { weekday: 1, ordinal: 2 }],
+      byMonth: [1, 6],
+      bySetPos: [1],
+      until: '2026-12-31',
+      weekStart: 0
+    });
+  });
+
+  it.each([
+    'FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10',
+    'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1',
+    'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;UNTIL=20301231'
+  ])('formats %s back unchanged', rule => {
+    expect(formatRRule(parseRRule(rule))).toBe(rule);
+  });
+
+  it.each([
+    ['', 'Recurrence rule is empty'],
+    ['BYDAY=MO', 'FREQ is required'],
+    ['FREQ=HOURLY', 'Unsupported FREQ: HOURLY'],
+    ['FREQ=DAILY;INTERVAL', 'Missing value for INTERVAL'],
+    ['FREQ=DAILY;INTERVAL=0', 'Invalid INTERVAL value: 0'],
+    ['FREQ=DAILY;COUNT=-1', 'Invalid COUNT value: -1'],
+    ['FREQ=DAILY;UNTIL=tomorrow', 'Invalid date: tomorrow'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20240101', 'COUNT and UNTIL cannot be used together'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'Invalid weekday: XX'],
+    ['FREQ=WEEKLY;BYDAY=2MO', 'Numbered weekdays (e.g. 2TU) need FREQ=MONTHLY or FREQ=YEARLY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'Invalid BYMONTHDAY value: 32'],
+    ['FREQ=YEARLY;BYMONTH=13', 'Invalid BYMONTH value: 13'],
+    ['FREQ=DAILY;BYHOUR=9', 'Unsupported rule part: BYHOUR']
+  ])('rejects "%s"', (rule, message) => {
+    expect(() => parseRRule(rule)).toThrow(message);
+  });
+});
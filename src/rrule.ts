@@ -0,0 +1,381 @@
+/**
+ * RRULE Recurrence (RFC 5545)
+ *
+ * Parses, formats, describes and expands the date-only subset of RRULE used by
+ * tasks: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY with ordinals,
+ * BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL and WKST.
+ * EXDATE is stored on the task (exDates) and applied by the recurrence engine.
+ *
+ * As in RFC 5545, dates that don't exist (Feb 30, a 5th Monday) are skipped
+ * rather than moved, and the first occurrence is counted from DTSTART.
+ */
+
+import { CalendarDay, parseDay, toDateString, daysInMonth, makeDate } from './dateMath';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0-6 for Sunday-Saturday
+  ordinal?: number; // 2 = second, -1 = last (MONTHLY/YEARLY only)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[]; // 1-31, negative counts from the end (-1 = last day)
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[]; // Keep only these matches within each period (-1 = last)
+  count?: number; // Stop after this many occurrences
+  until?: string; // YYYY-MM-DD - last possible occurrence (inclusive)
+  weekStart: number; // 0-6, Monday unless WKST says otherwise
+}
+
+export const RRULE_FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const DEFAULT_RRULE = 'FREQ=WEEKLY;BYDAY=MO';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const FREQUENCY_UNITS: Record<RRuleFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+// How far past the requested date each expansion runs, so day-by-day lookups reuse it
+const EXPANSION_LOOKAHEAD_DAYS = 366;
+
+// ===== PARSING & FORMATTING =====
+
+const parseInteger = (name: string, value: string, min: number, max: number, allowNegative = false): number => {
+  const number = Number(value);
+  const magnitude = Math.abs(number);
+  if (!/^[+-]?\d+$/.test(value) || magnitude < min || magnitude > max || (number < 0 && !allowNegative)) {
+    throw new Error(`Invalid ${name} value: ${value}`);
+  }
+  return number;
+};
+
+const parseIntegerList = (name: string, value: string, max: number, allowNegative: boolean): number[] => {
+  return value.split(',').map(item => parseInteger(name, item.trim(), 1, max, allowNegative));
+};
+
+const parseWeekdayCode = (code: string): number => {
+  const weekday = WEEKDAY_CODES.indexOf(code.toUpperCase());
+  if (weekday === -1) throw new Error(`Invalid weekday: ${code}`);
+  return weekday;
+};
+
+const parseByDay = (item: string): RRuleWeekday => {
+  const match = item.trim().match(/^([+-]?\d{1,2})?([A-Za-z]{2})$/);
+  if (!match) throw new Error(`Invalid BYDAY value: ${item}`);
+  const weekday = parseWeekdayCode(match[2]);
+  return match[1] ? { weekday, ordinal: parseInteger('BYDAY', match[1], 1, 53, true) } : { weekday };
+};
+
+// Accepts 20261231, 20261231T235959Z or 2026-12-31
+export const parseRRuleDate = (value: string): string => {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})(T\d{6}Z?)?$/);
+  if (!match) throw new Error(`Invalid date: ${value}`);
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/**
+ * Parse "FREQ=MONTHLY;BYDAY=-1FR" (an optional "RRULE:" prefix is allowed).
+ * Throws an Error describing the first problem found.
+ */
+export const parseRRule = (text: string): RRule => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Recurrence rule is empty');
+
+  const rule: Partial<RRule> = { interval: 1, weekStart: 1 };
+
+  for (const part of body.split(';')) {
+    if (!part.trim()) continue;
+    const [rawName, value] = part.split('=');
+    const name = rawName.trim().toUpperCase();
+    if (!value) throw new Error(`Missing value for ${name}`);
+
+    switch (name) {
+      case 'FREQ':
+        if (!RRULE_FREQUENCIES.includes(value.toUpperCase() as RRuleFrequency)) {
+          throw new Error(`Unsupported FREQ: ${value}`);
+        }
+        rule.freq = value.toUpperCase() as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, value, 1, 999);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, value, 1, 9999);
+        break;
+      case 'UNTIL':
+        rule.until = parseRRuleDate(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseByDay);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(name, value, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(name, value, 12, false);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(name, value, 366, true);
+        break;
+      case 'WKST':
+        rule.weekStart = parseWeekdayCode(value);
+        break;
+      default:
+        throw new Error(`Unsupported rule part: ${name}`);
+    }
+  }
+
+  if (!rule.freq) throw new Error('FREQ is required');
+  if (rule.count && rule.until) throw new Error('COUNT and UNTIL cannot be used together');
+  if (rule.byDay?.some(d => d.ordinal) && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    throw new Error('Numbered weekdays (e.g. 2TU) need FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  return rule as RRule;
+};
+
+// Returns the error message, or null if the rule is valid
+export const validateRRule = (text: string): string | null => {
+  try {
+    parseRRule(text);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid recurrence rule';
+  }
+};
+
+export const formatRRule = (rule: RRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal || ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+};
+
+const ordinalWord = (n: number): string => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinalWord(-n)} to last`;
+  const suffix = n % 100 > 10 && n % 100 < 14 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const joinWords = (words: string[]): string => {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words[0];
+};
+
+/**
+ * Human-readable summary, e.g. "Monthly on the last Fri" or "Every 2 weeks on Tue and Thu"
+ */
+export const describeRRule = (rule: RRule): string => {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let text = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byMonth?.length) {
+    text += ` in ${joinWords(rule.byMonth.map(m => MONTH_NAMES[m - 1]))}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on the ${joinWords(rule.byMonthDay.map(d => d === -1 ? 'last day' : ordinalWord(d)))}`;
+  }
+  if (rule.byDay?.length) {
+    const isWeekdays = rule.byDay.length === 5 && !rule.byDay.some(d => d.ordinal) &&
+      [1, 2, 3, 4, 5].every(w => rule.byDay!.some(d => d.weekday === w));
+    text += isWeekdays
+      ? ' on weekdays'
+      : ` on ${rule.byDay.some(d => d.ordinal) ? 'the ' : ''}${joinWords(rule.byDay.map(d =>
+          d.ordinal ? `${ordinalWord(d.ordinal)} ${WEEKDAY_NAMES[d.weekday]}` : WEEKDAY_NAMES[d.weekday]
+        ))}`;
+  }
+  if (rule.bySetPos?.length) {
+    text += ` (only the ${joinWords(rule.bySetPos.map(ordinalWord))} match each ${unit})`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count > 1 ? 's' : ''}`;
+  }
+  if (rule.until) {
+    text += `, until ${rule.until}`;
+  }
+  return text;
+};
+
+// ===== EXPANSION =====
+
+// Days (as day numbers) in the range matching BYDAY; ordinals count within the range
+const matchByDay = (first: number, last: number, byDay: RRuleWeekday[]): Set<number> => {
+  const matches = new Set<number>();
+  for (const entry of byDay) {
+    const offset = (((entry.weekday - parseDay(toDateString(first)).weekday) % 7) + 7) % 7;
+    const candidates: number[] = [];
+    for (let dayNumber = first + offset; dayNumber <= last; dayNumber += 7) {
+      candidates.push(dayNumber);
+    }
+    if (!entry.ordinal) {
+      candidates.forEach(d => matches.add(d));
+    } else {
+      const picked = entry.ordinal > 0 ? candidates[entry.ordinal - 1] : candidates[candidates.length + entry.ordinal];
+      if (picked !== undefined) matches.add(picked);
+    }
+  }
+  return matches;
+};
+
+// BYMONTH limits every frequency to those months
+const inByMonth = (rule: RRule, month: number): boolean => {
+  return !rule.byMonth?.length || rule.byMonth.includes(month);
+};
+
+const matchByMonthDay = (day: CalendarDay, byMonthDay: number[]): boolean => {
+  const length = daysInMonth(day.year, day.month);
+  return byMonthDay.some(d => (d > 0 ? d : length + d + 1) === day.day);
+};
+
+// Candidate days of one month for MONTHLY rules (and YEARLY rules with BYMONTH/BYMONTHDAY)
+const expandMonth = (rule: RRule, year: number, month: number, dtstart: CalendarDay): number[] => {
+  const first = parseDay(makeDate(year, month, 1)).dayNumber;
+  const last = first + daysInMonth(year, month) - 1;
+
+  if (!rule.byDay?.length && !rule.byMonthDay?.length) {
+    return dtstart.day <= daysInMonth(year, month) ? [first + dtstart.day - 1] : [];
+  }
+
+  const byDay = rule.byDay?.length ? matchByDay(first, last, rule.byDay) : null;
+  const days: number[] = [];
+  for (let dayNumber = first; dayNumber <= last; dayNumber++) {
+    if (byDay && !byDay.has(dayNumber)) continue;
+    if (rule.byMonthDay?.length && !matchByMonthDay(parseDay(toDateString(dayNumber)), rule.byMonthDay)) continue;
+    days.push(dayNumber);
+  }
+  return days;
+};
+
+// Candidate days for the k-th period after DTSTART, sorted
+const expandPeriod = (rule: RRule, dtstart: CalendarDay, k: number): { days: number[]; periodStart: number } => {
+  const step = k * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const dayNumber = dtstart.dayNumber + step;
+      const day = parseDay(toDateString(dayNumber));
+      const keep = inByMonth(rule, day.month) &&
+        (!rule.byDay?.length || rule.byDay.some(d => d.weekday === day.weekday)) &&
+        (!rule.byMonthDay?.length || matchByMonthDay(day, rule.byMonthDay));
+      return { days: keep ? [dayNumber] : [], periodStart: dayNumber };
+    }
+
+    case 'WEEKLY': {
+      const weekOffset = (((dtstart.weekday - rule.weekStart) % 7) + 7) % 7;
+      const periodStart = dtstart.dayNumber - weekOffset + step * 7;
+      const weekdays = rule.byDay?.length ? rule.byDay.map(d => d.weekday) : [dtstart.weekday];
+      const days: number[] = [];
+      for (let dayNumber = periodStart; dayNumber < periodStart + 7; dayNumber++) {
+        const day = parseDay(toDateString(dayNumber));
+        if (!weekdays.includes(day.weekday) || !inByMonth(rule, day.month)) continue;
+        if (rule.byMonthDay?.length && !matchByMonthDay(day, rule.byMonthDay)) continue;
+        days.push(dayNumber);
+      }
+      return { days, periodStart };
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = dtstart.year * 12 + (dtstart.month - 1) + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      return {
+        days: inByMonth(rule, month) ? expandMonth(rule, year, month, dtstart) : [],
+        periodStart: parseDay(makeDate(year, month, 1)).dayNumber
+      };
+    }
+
+    case 'YEARLY': {
+      const year = dtstart.year + step;
+      const periodStart = parseDay(makeDate(year, 1, 1)).dayNumber;
+      let days: number[];
+
+      if (rule.byMonth?.length || rule.byMonthDay?.length) {
+        const months = rule.byMonth?.length ? [...rule.byMonth].sort((a, b) => a - b) : [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+        days = months.flatMap(month => expandMonth(rule, year, month, dtstart));
+      } else if (rule.byDay?.length) {
+        // Ordinals count within the whole year (e.g. 20MO = 20th Monday)
+        const periodEnd = parseDay(makeDate(year, 12, 31)).dayNumber;
+        days = [...matchByDay(periodStart, periodEnd, rule.byDay)];
+      } else {
+        days = expandMonth(rule, year, dtstart.month, dtstart);
+      }
+
+      return { days, periodStart };
+    }
+  }
+};
+
+const applySetPos = (days: number[], bySetPos?: number[]): number[] => {
+  if (!bySetPos?.length) return days;
+  const picked = bySetPos
+    .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+    .filter((d): d is number => d !== undefined);
+  return [...new Set(picked)].sort((a, b) => a - b);
+};
+
+/**
+ * Every occurrence from DTSTART up to `through` (inclusive), honouring COUNT and UNTIL.
+ * `complete` is true when the rule has no occurrences after `through`.
+ */
+export const expandRRule = (rule: RRule, dtstart: string, through: string): { dates: string[]; complete: boolean } => {
+  const start = parseDay(dtstart);
+  const lastDay = Math.min(parseDay(through).dayNumber, rule.until ? parseDay(rule.until).dayNumber : Infinity);
+  const dates: string[] = [];
+
+  for (let k = 0; ; k++) {
+    const { days, periodStart } = expandPeriod(rule, start, k);
+    if (periodStart > lastDay) break;
+
+    for (const dayNumber of applySetPos(days.sort((a, b) => a - b), rule.bySetPos)) {
+      if (dayNumber < start.dayNumber) continue;
+      if (dayNumber > lastDay) break;
+      dates.push(toDateString(dayNumber));
+      if (rule.count && dates.length >= rule.count) {
+        return { dates, complete: true };
+      }
+    }
+  }
+
+  const untilReached = !!rule.until && rule.until <= through;
+  return { dates, complete: untilReached };
+};
+
+// Expansions are cached per rule + DTSTART, since views check one day at a time
+const expansionCache = new Map<string, { through: string; dates: Set<string>; complete: boolean }>();
+
+/**
+ * Does the rule (anchored at dtstart) produce this date? Invalid rules never match.
+ */
+export const rruleOccursOn = (rruleText: string, dtstart: string, date: string): boolean => {
+  if (date < dtstart) return false;
+
+  const key = `${rruleText}|${dtstart}`;
+  let cached = expansionCache.get(key);
+
+  if (!cached || (!cached.complete && cached.through < date)) {
+    const through = toDateString(parseDay(date).dayNumber + EXPANSION_LOOKAHEAD_DAYS);
+    try {
+      const { dates, complete } = expandRRule(parseRRule(rruleText), dtstart, through);
+      cached = { through, dates: new Set(dates), complete };
+    } catch {
+      cached = { through, dates: new Set(), complete: true };
+    }
+    expansionCache.set(key, cached);
+  }
+
+  return cached.dates.has(date);
+};
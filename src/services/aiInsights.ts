@@ -5,9 +5,14 @@
  * for improving user success rates and preventing burnout.
  */
 
-import { Task, TaskCompletion } from '../types';
+import { Task, TaskCompletion, TaskSpillover, Vacation } from '../types';
 import { loadData } from '../storage';
-import { formatDate } from '../utils';
+import { formatDate, getTodayString } from '../utils';
+import { occurrencesBetween } from '../recurrence';
+import { addDays } from '../dateMath';
+import { isOnVacation } from '../vacations';
+import { isCompletionDone, getCompletionScore } from '../taskProgress';
+import { getTodayDate } from '../dateService';
 
 export interface TaskInsight {
   taskId: string;
@@ -19,6 +24,7 @@ export interface TaskInsight {
     attemptedCount: number;
     completedCount: number;
     targetFrequency: number; // Expected completions per week
+    spilloverCount: number; // Times moved to another day in the analysis period
   };
   recommendations: Recommendation[];
 }
@@ -42,7 +48,7 @@ export const getUnderperformingTasks = async (): Promise<TaskInsight[]> => {
     
     // Analyze each task
     for (const task of data.tasks) {
-      const insight = analyzeTaskPerformance(task, data.completions);
+      const insight = analyzeTaskPerformance(task, data.completions, data.spillovers, data.vacations);
       if (insight) {
         insights.push(insight);
       }
@@ -62,9 +68,9 @@ export const getUnderperformingTasks = async (): Promise<TaskInsight[]> => {
 /**
  * Analyze a specific task's performance over the last 3+ weeks
  */
-const analyzeTaskPerformance = (task: Task, allCompletions: TaskCompletion[]): TaskInsight | null => {
+const analyzeTaskPerformance = (task: Task, allCompletions: TaskCompletion[], allSpillovers: TaskSpillover[], vacations: Vacation[]): TaskInsight | null => {
   const weeksToAnalyze = 3;
-  const today = new Date();
+  const today = getTodayDate();
   const startDate = new Date(today);
   startDate.setDate(startDate.getDate() - (weeksToAnalyze * 7));
   
@@ -73,21 +79,52 @@ const analyzeTaskPerformance = (task: Task, allCompletions: TaskCompletion[]): T
     return c.taskId === task.id && c.date >= formatDate(startDate);
   });
   
-  // Calculate expected completions based on frequency
+  // Calculate expected completions based on frequency (skips hold days and days before the task started)
   const targetFrequency = calculateWeeklyFrequency(task);
-  const expectedCompletions = targetFrequency * weeksToAnalyze;
+  let expectedCompletions: number;
+  let completedCount: number;
+  
+  if (task.frequency === 'count-based') {
+    // Weeks spent on vacation don't count
+    const windowDays = Array.from({ length: weeksToAnalyze * 7 }, (_, i) => addDays(formatDate(today), -i));
+    const activeWeeks = windowDays.filter(date => !isOnVacation(task, date, vacations)).length / 7;
+    expectedCompletions = Math.round(targetFrequency * activeWeeks * 10) / 10;
+    completedCount = taskCompletions.filter(isCompletionDone).length;
+  } else {
+    // Vacation and excused days aren't expected; partial days count in part
+    const dueDates = occurrencesBetween(task, formatDate(startDate), formatDate(today), vacations, allCompletions);
+    const { counted, credit } = getCompletionScore(task.id, dueDates, taskCompletions);
+    expectedCompletions = counted;
+    completedCount = Math.round(credit * 10) / 10;
+  }
   
   // Need at least 1 week of data and some expected completions
   if (expectedCompletions < 1) {
     return null;
   }
   
-  const completedCount = taskCompletions.length;
   const completionRate = Math.round((completedCount / expectedCompletions) * 100);
+  const spilloverCount = allSpillovers.filter(s => s.taskId === task.id && s.fromDate >= formatDate(startDate)).length;
   
-  // Only flag tasks with low completion (<40%) as underperforming
+  const currentMetrics = {
+    completionRate,
+    weeksAnalyzed: weeksToAnalyze,
+    attemptedCount: expectedCompletions,
+    completedCount,
+    targetFrequency,
+    spilloverCount
+  };
+  
+  // Tasks that get done but keep being moved to another day are scheduled at the wrong time
   if (completionRate >= 40) {
-    return null;
+    if (spilloverCount < 3 || spilloverCount / expectedCompletions < 0.3) {
+      return null;
+    }
+    
+    const recommendations = generateSpilloverRecommendations(task, spilloverCount, expectedCompletions);
+    return recommendations.length > 0
+      ? { taskId: task.id, taskName: task.name, issue: 'high_spillover', currentMetrics, recommendations }
+      : null;
   }
   
   // Generate recommendations
@@ -101,13 +138,7 @@ const analyzeTaskPerformance = (task: Task, allCompletions: TaskCompletion[]): T
     taskId: task.id,
     taskName: task.name,
     issue: 'low_completion',
-    currentMetrics: {
-      completionRate,
-      weeksAnalyzed: weeksToAnalyze,
-      attemptedCount: expectedCompletions,
-      completedCount,
-      targetFrequency
-    },
+    currentMetrics,
     recommendations
   };
 };
@@ -116,28 +147,18 @@ const analyzeTaskPerformance = (task: Task, allCompletions: TaskCompletion[]): T
  * Calculate how many times per week a task should be completed
  */
 const calculateWeeklyFrequency = (task: Task): number => {
-  switch (task.frequency) {
-    case 'daily':
-      return 7;
-    case 'weekly':
-      return task.daysOfWeek?.length || 1;
-    case 'monthly':
-      return 0.25; // ~1 per month
-    case 'count-based':
-      if (task.frequencyPeriod === 'week') {
-        return task.frequencyCount || 1;
-      } else {
-        return (task.frequencyCount || 1) / 4; // Monthly spread over weeks
-      }
-    case 'custom':
-      // Try to parse custom frequency
-      if (task.customFrequency?.includes('month')) {
-        return 0.25;
-      }
-      return 1; // Default weekly
-    default:
-      return 1;
+  if (task.frequency === 'count-based') {
+    if (task.frequencyPeriod === 'week') {
+      return task.frequencyCount || 1;
+    }
+    return (task.frequencyCount || 1) / 4; // Monthly spread over weeks
   }
+  
+  // Average over a year of the task's schedule, ignoring its start/end dates and holds
+  const today = getTodayString();
+  const schedule: Task = { ...task, startDate: undefined, endDate: undefined, onHold: false };
+  const yearlyCount = occurrencesBetween(schedule, addDays(today, -363), today).length;
+  return Math.round((yearlyCount / 52) * 100) / 100;
 };
 
 /**
@@ -197,6 +218,47 @@ const generateRecommendations = (
   return recommendations;
 };
 
+/**
+ * Generate recommendations for tasks that are often moved to the next day
+ */
+const generateSpilloverRecommendations = (
+  task: Task,
+  spilloverCount: number,
+  expectedCompletions: number
+): Recommendation[] => {
+  const recommendations: Recommendation[] = [];
+  const spilloverRate = Math.round((spilloverCount / expectedCompletions) * 100);
+  const reason = `You moved this task to another day ${spilloverCount} of ${expectedCompletions} times (${spilloverRate}%).`;
+  
+  if (task.frequency === 'weekly') {
+    recommendations.push({
+      type: 'change_days',
+      confidence: 75,
+      reason: `${reason} Scheduling it on different days may fit your week better.`,
+      suggestedValue: getBestDaysForUser(),
+      expectedImprovement: `Fewer postponed tasks`,
+      actionLabel: 'Try suggested days'
+    });
+  } else if (task.frequency !== 'monthly') {
+    const currentFrequency = calculateWeeklyFrequency(task);
+    const weeksAnalyzed = expectedCompletions / currentFrequency;
+    const suggestedFrequency = Math.max(1, Math.round(currentFrequency - spilloverCount / weeksAnalyzed));
+    
+    if (suggestedFrequency < currentFrequency) {
+      recommendations.push({
+        type: 'reduce_frequency',
+        confidence: 70,
+        reason: `${reason} A lighter schedule would match how often you actually get to it.`,
+        suggestedValue: getSuggestedFrequencyValue(task, suggestedFrequency),
+        expectedImprovement: `Fewer postponed tasks`,
+        actionLabel: getFrequencyLabel(task, suggestedFrequency)
+      });
+    }
+  }
+  
+  return recommendations;
+};
+
 /**
  * Get suggested frequency value based on task type
  */
@@ -303,7 +365,7 @@ export const applyRecommendation = async (taskId: string, recommendation: Recomm
       case 'pause':
         // Mark task as paused (we can add a paused field later)
         // For now, we'll just set end date to 2 weeks from now
-        const pauseEnd = new Date();
+        const pauseEnd = getTodayDate();
         pauseEnd.setDate(pauseEnd.getDate() + 14);
         task.endDate = formatDate(pauseEnd);
         break;
@@ -0,0 +1,464 @@
+/**
+ * Backup Service
+ *
+ * Versioned full-account backup and restore.
+ * - createBackup(): snapshot of all AppData plus user settings
+ * - parseBackup(): reads any known backup version and migrates it to the current schema
+ * - previewRestore(): dry run that reports what a restore would add/update/remove
+ * - restoreBackup(): writes the backup in 'merge' or 'replace' mode
+ *
+ * Records that don't exist in this account get fresh ids on restore, and every
+ * reference (completions, spillovers, vacations, acknowledgments, dependencies,
+ * routines, tags) is remapped to match.
+ * Event reminders are derived data, so they are regenerated from the restored events.
+ */
+
+import { AppData, Task, UserSettings } from '../types';
+import {
+  loadData,
+  loadUserSettings,
+  saveUserSettings,
+  addTask,
+  updateTask,
+  deleteTask,
+  saveCompletion,
+  uncompleteTask,
+  saveSpillover,
+  undoSpillover,
+  saveVacation,
+  deleteVacation,
+  addEvent,
+  updateEvent,
+  deleteEvent,
+  saveEventAcknowledgment,
+  unacknowledgeEvent,
+  addItem,
+  updateItem,
+  deleteItem,
+  saveJournalEntry,
+  deleteJournalEntry,
+  saveRoutine,
+  deleteRoutine,
+  saveTag,
+  deleteTag
+} from '../storage';
+import { generateUUID } from '../utils';
+
+export const BACKUP_FORMAT = 'routine-ruby-backup';
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  data: AppData;
+  settings: UserSettings | null;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type BackupCollection = 'tags' | 'tasks' | 'completions' | 'spillovers' | 'vacations' | 'events' | 'eventAcknowledgments' | 'items' | 'journalEntries' | 'routines';
+
+export interface CollectionDiff {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  collections: Record<BackupCollection, CollectionDiff>;
+  settingsChanged: boolean;
+}
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  tags: 'Tags',
+  tasks: 'Tasks',
+  completions: 'Completions',
+  spillovers: 'Moved Tasks',
+  vacations: 'Vacations',
+  events: 'Events',
+  eventAcknowledgments: 'Event Acknowledgments',
+  items: 'Items',
+  journalEntries: 'Journal Entries',
+  routines: 'Routines'
+};
+
+const emptyData = (): AppData => ({
+  tasks: [],
+  completions: [],
+  spillovers: [],
+  vacations: [],
+  events: [],
+  eventAcknowledgments: [],
+  tags: [],
+  journalEntries: [],
+  routines: [],
+  items: []
+});
+
+// ===== MIGRATIONS =====
+
+// Each migration upgrades a backup from schema version N to N + 1
+const migrations: Record<number, (backup: any) => any> = {
+  // v1: the old "Export Tasks" file, a bare array of tasks (also accepts tasks pasted from other apps)
+  1: (tasks: any[]) => ({
+    format: BACKUP_FORMAT,
+    schemaVersion: 2,
+    exportedAt: new Date().toISOString(),
+    data: {
+      ...emptyData(),
+      tasks: tasks
+        .filter(task => task && task.name && task.weightage !== undefined)
+        .map(task => ({
+          ...task,
+          id: task.id || generateUUID(),
+          frequency: task.frequency || 'daily',
+          createdAt: task.createdAt || new Date().toISOString()
+        }))
+    },
+    settings: null
+  })
+};
+
+/**
+ * Parse a backup file (any supported version) and migrate it to the current schema
+ */
+export const parseBackup = (json: string): BackupFile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Backup is not valid JSON');
+  }
+
+  let version: number;
+  if (Array.isArray(raw)) {
+    version = 1;
+  } else if (raw?.format === BACKUP_FORMAT && typeof raw.schemaVersion === 'number') {
+    version = raw.schemaVersion;
+  } else {
+    throw new Error('Unrecognized backup format');
+  }
+
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup was created by a newer version of the app (schema v${version}). Please update and try again.`);
+  }
+
+  let backup = raw;
+  while (version < BACKUP_SCHEMA_VERSION) {
+    backup = migrations[version](backup);
+    version++;
+  }
+
+  // Tolerate missing collections in hand-edited files
+  const data = { ...emptyData() };
+  (Object.keys(data) as Array<keyof AppData>).forEach(key => {
+    if (Array.isArray(backup.data?.[key])) {
+      (data as any)[key] = backup.data[key];
+    }
+  });
+
+  return { ...backup, data, settings: backup.settings || null };
+};
+
+/**
+ * Snapshot the whole account
+ */
+export const createBackup = async (): Promise<BackupFile> => {
+  const [data, settings] = await Promise.all([loadData(), loadUserSettings()]);
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+    settings
+  };
+};
+
+// ===== RESTORE =====
+
+// Key-order independent comparison; timestamps that change on every save are ignored
+const fingerprint = (value: any): string => {
+  const normalize = (v: any): any => {
+    if (Array.isArray(v)) return v.map(normalize);
+    if (v && typeof v === 'object') {
+      return Object.keys(v)
+        .filter(key => key !== 'updatedAt' && v[key] !== undefined && v[key] !== null)
+        .sort()
+        .reduce((acc, key) => ({ ...acc, [key]: normalize(v[key]) }), {});
+    }
+    return v;
+  };
+  return JSON.stringify(normalize(value));
+};
+
+const isSame = (a: any, b: any): boolean => fingerprint(a) === fingerprint(b);
+
+const newDiff = (): CollectionDiff => ({ added: 0, updated: 0, unchanged: 0, removed: 0 });
+
+/**
+ * Walks the backup against the current account. With dryRun nothing is written,
+ * so previews and real restores always agree.
+ */
+const runRestore = async (backup: BackupFile, mode: RestoreMode, dryRun: boolean): Promise<RestoreSummary> => {
+  const current = await loadData();
+  const currentSettings = await loadUserSettings();
+  const collections = {} as Record<BackupCollection, CollectionDiff>;
+  (Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollection[]).forEach(key => {
+    collections[key] = newDiff();
+  });
+
+  // Replace mode: wipe the account first (references before the records they point to)
+  let existing = current;
+  if (mode === 'replace') {
+    collections.completions.removed = current.completions.length;
+    collections.spillovers.removed = current.spillovers.length;
+    collections.vacations.removed = current.vacations.length;
+    collections.routines.removed = current.routines.length;
+    collections.tasks.removed = current.tasks.length;
+    collections.events.removed = current.events.length;
+    collections.eventAcknowledgments.removed = current.eventAcknowledgments.length;
+    collections.items.removed = current.items.length;
+    collections.journalEntries.removed = current.journalEntries.length;
+    collections.tags.removed = current.tags.length;
+
+    if (!dryRun) {
+      for (const completion of current.completions) await uncompleteTask(completion.taskId, completion.date);
+      for (const spillover of current.spillovers) await undoSpillover(spillover.taskId, spillover.fromDate);
+      for (const vacation of current.vacations) await deleteVacation(vacation.id);
+      for (const routine of current.routines) await deleteRoutine(routine.id);
+      for (const task of current.tasks) await deleteTask(task.id);
+      for (const ack of current.eventAcknowledgments) await unacknowledgeEvent(ack.eventId, ack.date);
+      for (const event of current.events) await deleteEvent(event.id);
+      for (const item of current.items) await deleteItem(item.id);
+      for (const entry of current.journalEntries) await deleteJournalEntry(entry.id);
+      for (const tag of current.tags) await deleteTag(tag.id);
+    }
+    existing = emptyData();
+  }
+
+  const { data } = backup;
+
+  // Tags: match by id, then by name (names are unique per account)
+  const tagIdMap = new Map<string, string>();
+  for (const tag of data.tags) {
+    const match = existing.tags.find(t => t.id === tag.id) || existing.tags.find(t => t.name === tag.name);
+    const restored = { ...tag, id: match ? match.id : generateUUID() };
+    tagIdMap.set(tag.id, restored.id);
+
+    if (!match) {
+      collections.tags.added++;
+    } else if (isSame(match, restored)) {
+      collections.tags.unchanged++;
+      continue;
+    } else {
+      collections.tags.updated++;
+    }
+    if (!dryRun) await saveTag(restored);
+  }
+  const mapTags = (tags?: string[]) => tags?.map(id => tagIdMap.get(id)).filter((id): id is string => !!id);
+
+  // Tasks: create missing ones first so dependencies can point at their new ids
+  const taskIdMap = new Map<string, string>();
+  const existingTaskIds = new Set(existing.tasks.map(t => t.id));
+  for (const task of data.tasks) {
+    if (existingTaskIds.has(task.id)) {
+      taskIdMap.set(task.id, task.id);
+    } else {
+      const newTask: Task = { ...task, tags: mapTags(task.tags), dependentTaskIds: [], prerequisiteTaskIds: [] };
+      taskIdMap.set(task.id, dryRun ? generateUUID() : await addTask(newTask));
+      collections.tasks.added++;
+    }
+  }
+  for (const task of data.tasks) {
+    const taskId = taskIdMap.get(task.id)!;
+    const restored: Task = {
+      ...task,
+      id: taskId,
+      tags: mapTags(task.tags),
+      dependentTaskIds: (task.dependentTaskIds || []).map(id => taskIdMap.get(id)).filter((id): id is string => !!id),
+      prerequisiteTaskIds: task.prerequisiteTaskIds?.map(id => taskIdMap.get(id)).filter((id): id is string => !!id)
+    };
+    const match = existing.tasks.find(t => t.id === taskId);
+
+    if (!match) {
+      if (!dryRun && (restored.dependentTaskIds!.length > 0 || restored.prerequisiteTaskIds?.length)) {
+        await updateTask(taskId, { dependentTaskIds: restored.dependentTaskIds, prerequisiteTaskIds: restored.prerequisiteTaskIds });
+      }
+    } else if (isSame(match, restored)) {
+      collections.tasks.unchanged++;
+    } else {
+      collections.tasks.updated++;
+      if (!dryRun) await updateTask(taskId, restored);
+    }
+  }
+
+  // Completions: one per task per date
+  for (const completion of data.completions) {
+    const taskId = taskIdMap.get(completion.taskId);
+    if (!taskId) continue;
+
+    const restored = { ...completion, taskId };
+    const match = existing.completions.find(c => c.taskId === taskId && c.date === completion.date);
+    if (!match) {
+      collections.completions.added++;
+    } else if (isSame(match, restored)) {
+      collections.completions.unchanged++;
+      continue;
+    } else {
+      collections.completions.updated++;
+    }
+    if (!dryRun) await saveCompletion(restored);
+  }
+
+  // Spillovers: one per task per source date
+  for (const spillover of data.spillovers) {
+    const taskId = taskIdMap.get(spillover.taskId);
+    if (!taskId) continue;
+
+    const restored = { ...spillover, taskId };
+    const match = existing.spillovers.find(s => s.taskId === taskId && s.fromDate === spillover.fromDate);
+    if (!match) {
+      collections.spillovers.added++;
+    } else if (isSame(match, restored)) {
+      collections.spillovers.unchanged++;
+      continue;
+    } else {
+      collections.spillovers.updated++;
+    }
+    if (!dryRun) await saveSpillover(restored);
+  }
+
+  // Vacations: match by id, pointing at the restored tasks and tags
+  for (const vacation of data.vacations) {
+    const match = existing.vacations.find(v => v.id === vacation.id);
+    const restored = {
+      ...vacation,
+      id: match ? match.id : generateUUID(),
+      taskIds: vacation.taskIds?.map(id => taskIdMap.get(id)).filter((id): id is string => !!id),
+      tagIds: mapTags(vacation.tagIds)
+    };
+    // A vacation for specific tasks must not widen to every task when none of them came back
+    const wasScoped = !!(vacation.taskIds?.length || vacation.tagIds?.length);
+    if (wasScoped && !restored.taskIds?.length && !restored.tagIds?.length) continue;
+
+    if (!match) {
+      collections.vacations.added++;
+    } else if (isSame(match, restored)) {
+      collections.vacations.unchanged++;
+      continue;
+    } else {
+      collections.vacations.updated++;
+    }
+    if (!dryRun) await saveVacation(restored);
+  }
+
+  // Events (reminders are regenerated by addEvent/updateEvent)
+  const eventIdMap = new Map<string, string>();
+  for (const event of data.events) {
+    const restored = { ...event, tags: mapTags(event.tags) };
+    const match = existing.events.find(e => e.id === event.id);
+    eventIdMap.set(event.id, event.id);
+    if (!match) {
+      collections.events.added++;
+      eventIdMap.set(event.id, dryRun ? generateUUID() : await addEvent(restored));
+    } else if (isSame(match, restored)) {
+      collections.events.unchanged++;
+    } else {
+      collections.events.updated++;
+      if (!dryRun) await updateEvent(event.id, restored);
+    }
+  }
+
+  // Event acknowledgments: one per event per date
+  for (const ack of data.eventAcknowledgments) {
+    const eventId = eventIdMap.get(ack.eventId);
+    if (!eventId) continue;
+
+    const restored = { ...ack, eventId };
+    const match = existing.eventAcknowledgments.find(a => a.eventId === eventId && a.date === ack.date);
+    if (!match) {
+      collections.eventAcknowledgments.added++;
+    } else if (isSame(match, restored)) {
+      collections.eventAcknowledgments.unchanged++;
+      continue;
+    } else {
+      collections.eventAcknowledgments.updated++;
+    }
+    if (!dryRun) await saveEventAcknowledgment(restored);
+  }
+
+  // Items
+  for (const item of data.items) {
+    const match = existing.items.find(i => i.id === item.id);
+    const restored = { ...item, tags: mapTags(item.tags) };
+    if (!match) {
+      collections.items.added++;
+      if (!dryRun) await addItem({ ...restored, id: generateUUID() });
+    } else if (isSame(match, restored)) {
+      collections.items.unchanged++;
+    } else {
+      collections.items.updated++;
+      if (!dryRun) await updateItem(item.id, restored);
+    }
+  }
+
+  // Journal: one entry per date, so match by date
+  for (const entry of data.journalEntries) {
+    const match = existing.journalEntries.find(e => e.date === entry.date);
+    const restored = { ...entry, id: match ? match.id : generateUUID(), tags: mapTags(entry.tags) };
+    if (!match) {
+      collections.journalEntries.added++;
+    } else if (isSame({ ...match, createdAt: undefined }, { ...restored, createdAt: undefined })) {
+      collections.journalEntries.unchanged++;
+      continue;
+    } else {
+      collections.journalEntries.updated++;
+    }
+    if (!dryRun) await saveJournalEntry(restored);
+  }
+
+  // Routines
+  for (const routine of data.routines) {
+    const match = existing.routines.find(r => r.id === routine.id);
+    const restored = {
+      ...routine,
+      id: match ? match.id : generateUUID(),
+      taskIds: routine.taskIds.map(id => taskIdMap.get(id)).filter((id): id is string => !!id)
+    };
+    if (!match) {
+      collections.routines.added++;
+    } else if (isSame(match, restored)) {
+      collections.routines.unchanged++;
+      continue;
+    } else {
+      collections.routines.updated++;
+    }
+    if (!dryRun) await saveRoutine(restored);
+  }
+
+  // Settings
+  const settingsChanged = !!backup.settings && !isSame(currentSettings, { ...currentSettings, ...backup.settings });
+  if (settingsChanged && !dryRun) {
+    await saveUserSettings(backup.settings!);
+  }
+
+  return { mode, collections, settingsChanged };
+};
+
+/**
+ * Dry run: report what restoring this backup would change, without writing anything
+ */
+export const previewRestore = (backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> => {
+  return runRestore(backup, mode, true);
+};
+
+/**
+ * Restore a backup into the current account
+ */
+export const restoreBackup = (backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> => {
+  return runRestore(backup, mode, false);
+};
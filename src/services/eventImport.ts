@@ -0,0 +1,154 @@
+/**
+ * Event Import Review
+ *
+ * Compares events parsed from a calendar file with the user's events before
+ * anything is written, so importing the same export twice changes nothing:
+ * - new: nothing matches
+ * - updated / unchanged: matches an event imported earlier from the same entry
+ *   (its sourceUid), or one of ours exported and brought back (our UID)
+ * - duplicate: no UID match, but an event with the same name and date exists
+ *   ("Jane Doe" and "Jane Doe's Birthday" count as the same name within a
+ *   category). Accepting it links the two so the next import recognizes it.
+ *
+ * The review screen lets the user accept or skip each row; applyEventImport
+ * then writes only the accepted ones.
+ */
+
+import { Event } from '../types';
+import { addEvent, updateEvent } from '../storage';
+import { getEventIdFromUid } from '../icalExport';
+
+export type ImportedEvent = Omit<Event, 'id' | 'createdAt'>;
+
+export type ImportRowStatus = 'new' | 'updated' | 'unchanged' | 'duplicate';
+
+export interface ImportRow {
+  key: string;
+  event: ImportedEvent;
+  status: ImportRowStatus;
+  existing?: Event; // The matched event (none for a repeat within the same file)
+  changedFields: Array<keyof ImportedEvent>; // Fields the import would overwrite
+}
+
+export const IMPORT_STATUS_INFO: Record<ImportRowStatus, { label: string; icon: string }> = {
+  new: { label: 'New', icon: '🆕' },
+  updated: { label: 'Updated', icon: '✏️' },
+  unchanged: { label: 'Unchanged', icon: '✔️' },
+  duplicate: { label: 'Duplicate', icon: '👥' }
+};
+
+// Fields that come from the file; colour, priority, tags and visibility stay as the user set them
+const IMPORTED_FIELDS: Array<keyof ImportedEvent> = ['name', 'description', 'category', 'date', 'frequency', 'customFrequency', 'year', 'notifyDaysBefore'];
+
+// Yearly events are stored as MM-DD, whatever the file had
+const normalizeDate = (event: Pick<Event, 'date' | 'frequency'>): string => {
+  return event.frequency === 'yearly' && event.date.length === 10 ? event.date.substring(5) : event.date;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  return (a ?? '') === (b ?? '');
+};
+
+// A field the file leaves out (e.g. no description) keeps the existing value
+const getChangedFields = (incoming: ImportedEvent, existing: Event): Array<keyof ImportedEvent> => {
+  return IMPORTED_FIELDS.filter(field => field === 'date'
+    ? normalizeDate(incoming) !== normalizeDate(existing)
+    : incoming[field] !== undefined && !sameValue(incoming[field], existing[field]));
+};
+
+const matchKey = (event: Pick<Event, 'name' | 'date' | 'frequency'>): string => {
+  return `${event.name.trim().toLowerCase()}|${normalizeDate(event)}`;
+};
+
+// The person an event is about: "Jane Doe's Birthday" → "jane doe"
+const personName = (name: string): string => {
+  return name.trim().toLowerCase().replace(/(['’]s)?\s+(birthday|anniversary)$/, '').trim();
+};
+
+const isLookalike = (incoming: ImportedEvent, existing: Event): boolean => {
+  if (normalizeDate(incoming) !== normalizeDate(existing)) return false;
+  return matchKey(incoming) === matchKey(existing) ||
+    (!!incoming.category && incoming.category === existing.category && personName(incoming.name) === personName(existing.name));
+};
+
+/**
+ * Classify each incoming event against the existing ones. Nothing is written.
+ */
+export const reviewEventImport = (incoming: ImportedEvent[], existing: Event[]): ImportRow[] => {
+  const seenUids = new Set<string>();
+  const seenKeys = new Set<string>();
+
+  return incoming.map((event, index) => {
+    const key = `${index}`;
+    const uid = event.sourceUid;
+
+    // The same entry twice in one file
+    if ((uid && seenUids.has(uid)) || seenKeys.has(matchKey(event))) {
+      return { key, event, status: 'duplicate', changedFields: [] };
+    }
+    if (uid) seenUids.add(uid);
+    seenKeys.add(matchKey(event));
+
+    const ownId = uid ? getEventIdFromUid(uid) : null;
+    const byUid = uid ? existing.find(e => e.sourceUid === uid || e.id === ownId) : undefined;
+    if (byUid) {
+      const changedFields = getChangedFields(event, byUid);
+      return { key, event, status: changedFields.length > 0 ? 'updated' : 'unchanged', existing: byUid, changedFields };
+    }
+
+    const lookalike = existing.find(e => isLookalike(event, e));
+    if (lookalike) {
+      return { key, event, status: 'duplicate', existing: lookalike, changedFields: getChangedFields(event, lookalike) };
+    }
+
+    return { key, event, status: 'new', changedFields: [] };
+  });
+};
+
+// Rows there is something to write for: unchanged rows and repeats within the file aren't
+export const canAcceptRow = (row: ImportRow): boolean => {
+  return row.status === 'new' || row.status === 'updated' || (row.status === 'duplicate' && !!row.existing);
+};
+
+// Duplicates are skipped unless the user opts in
+export const isAcceptedByDefault = (row: ImportRow): boolean => {
+  return row.status === 'new' || row.status === 'updated';
+};
+
+export const countImportRows = (rows: ImportRow[]): Record<ImportRowStatus, number> => {
+  const counts: Record<ImportRowStatus, number> = { new: 0, updated: 0, unchanged: 0, duplicate: 0 };
+  rows.forEach(row => counts[row.status]++);
+  return counts;
+};
+
+/**
+ * Write the accepted rows: new events are added, matched ones get the changed
+ * fields (and the entry's UID, linking duplicates). Rows are written one at a
+ * time so a failure leaves the rest of the import intact.
+ */
+export const applyEventImport = async (rows: ImportRow[]): Promise<{ added: number; updated: number; failed: number }> => {
+  const result = { added: 0, updated: 0, failed: 0 };
+
+  for (const row of rows.filter(canAcceptRow)) {
+    try {
+      if (!row.existing) {
+        await addEvent({ ...row.event, id: '', createdAt: new Date().toISOString() });
+        result.added++;
+      } else {
+        // Our own UIDs point at the event already; anything else is remembered for next time
+        const uid = row.event.sourceUid;
+        const updates: Partial<Event> = uid && !getEventIdFromUid(uid) ? { sourceUid: uid } : {};
+        row.changedFields.forEach(field => {
+          (updates as any)[field] = field === 'date' ? normalizeDate(row.event) : row.event[field];
+        });
+        await updateEvent(row.existing.id, updates);
+        result.updated++;
+      }
+    } catch (error) {
+      console.error('Error importing event:', row.event.name, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
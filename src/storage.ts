@@ -1,390 +1,351 @@
 /**
- * Supabase Storage Layer
+ * Storage Layer
  * 
- * This replaces the localStorage-based storage with Supabase-only operations.
- * All data is stored in and retrieved from Supabase database.
- * User must be authenticated to use the app.
+ * All data access goes through the active StorageAdapter (see lib/storageAdapter.ts):
+ * - Supabase when the user is signed in
+ * - IndexedDB in guest/offline mode
+ * Business rules live here so both backends behave the same.
  */
 
-import { getSupabaseClient } from './lib/supabase';
-import { AppData, Task, TaskCompletion, Event, JournalEntry, Routine, Tag, UserSettings, DashboardLayout, Item } from './types';
-import { getTodayString } from './utils';
+import { requireAuth } from './lib/supabase';
+import { getStorageAdapter, getStorageMode, STORAGE_MODE_KEY } from './lib/storageAdapter';
+import { AppData, Task, TaskCompletion, CompletionStatus, TaskSpillover, Vacation, Event, EventReminder, EventAcknowledgment, JournalEntry, Routine, Tag, UserSettings, DashboardLayout, Item } from './types';
+import { getTodayString, generateUUID } from './utils';
+import { addDays, daysBetween } from './dateMath';
+import { getCascadeTaskIds } from './dependencies';
+import { occursOn } from './recurrence';
+import { getEventMonthDay, getEventOccurrences, eventOccursOn } from './eventOccurrences';
+import { isQuantitative, isCompletionDone, getCompletionValue, hasChecklist, getCheckedItemIds } from './taskProgress';
+import { getTodayDate, setTimeZone } from './dateService';
 
-// ===== HELPER FUNCTIONS =====
+// ===== TASKS =====
 
-// Generate a valid UUID v4
-const generateUUID = (): string => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
+export const getTasks = async (): Promise<Task[]> => {
+  return getStorageAdapter().getTasks();
 };
 
-const requireAuth = async () => {
-  const client = getSupabaseClient();
-  if (!client) {
-    throw new Error('Supabase not configured. Please check your .env file.');
-  }
-  
-  const { data: { user } } = await client.auth.getUser();
-  if (!user) {
-    throw new Error('User must be signed in to access data.');
-  }
-  
-  return { client, userId: user.id };
+// Returns the id assigned to the new task
+export const addTask = async (task: Task): Promise<string> => {
+  const taskId = generateUUID();
+  await getStorageAdapter().addTask({ ...task, id: taskId });
+  return taskId;
 };
 
-// ===== TASKS =====
+export const updateTask = async (taskId: string, updates: Partial<Task>): Promise<void> => {
+  await getStorageAdapter().updateTask(taskId, updates);
+};
 
-export const getTasks = async (): Promise<Task[]> => {
-  const { client } = await requireAuth();
-  
-  const { data, error } = await client
-    .from('myday_tasks')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  if (error) {
-    console.error('Error fetching tasks:', error);
-    return [];
-  }
+export const deleteTask = async (taskId: string): Promise<void> => {
+  await getStorageAdapter().deleteTask(taskId);
+};
 
-  return (data || []).map(task => ({
-    id: task.id,
-    name: task.name,
-    description: task.description || '',
-    category: task.category,
-    color: task.color,
-    customBackgroundColor: task.custom_background_color,
-    weightage: task.weightage,
-    frequency: task.frequency,
-    daysOfWeek: task.days_of_week,
-    dayOfMonth: task.day_of_month,
-    customFrequency: task.custom_frequency,
-    frequencyCount: task.frequency_count,
-    frequencyPeriod: task.frequency_period,
-    intervalValue: task.interval_value,
-    intervalUnit: task.interval_unit,
-    intervalStartDate: task.interval_start_date,
-    startDate: task.start_date,
-    endDate: task.end_date,
-    specificDate: task.specific_date,
-    endTime: task.end_time,
-    dependentTaskIds: task.dependent_task_ids || [],
-    onHold: task.on_hold || false,
-    holdStartDate: task.hold_start_date,
-    holdEndDate: task.hold_end_date,
-    holdReason: task.hold_reason,
-    tags: task.tags || [],
-    createdAt: task.created_at
-  }));
-};
-
-export const addTask = async (task: Task): Promise<void> => {
-  const { client, userId } = await requireAuth();
+// ===== TASK COMPLETIONS =====
 
-  const taskData = {
-    id: generateUUID(),
-    user_id: userId,
-    name: task.name,
-    description: task.description,
-    category: task.category,
-    color: task.color,
-    custom_background_color: task.customBackgroundColor,
-    weightage: task.weightage,
-    frequency: task.frequency,
-    days_of_week: task.daysOfWeek,
-    day_of_month: task.dayOfMonth,
-    custom_frequency: task.customFrequency,
-    frequency_count: task.frequencyCount,
-    frequency_period: task.frequencyPeriod,
-    interval_value: task.intervalValue,
-    interval_unit: task.intervalUnit,
-    interval_start_date: task.intervalStartDate,
-    start_date: task.startDate,
-    end_date: task.endDate,
-    specific_date: task.specificDate,
-    end_time: task.endTime,
-    dependent_task_ids: task.dependentTaskIds,
-    on_hold: task.onHold,
-    hold_start_date: task.holdStartDate,
-    hold_end_date: task.holdEndDate,
-    hold_reason: task.holdReason,
-    tags: task.tags,
-    created_at: task.createdAt
+// Completing a task logs its full target and ticks its whole checklist
+const getFullProgress = (task?: Task): Pick<TaskCompletion, 'value' | 'targetValue' | 'checkedItemIds'> => {
+  return {
+    ...(task && isQuantitative(task) ? { value: task.targetValue, targetValue: task.targetValue } : {}),
+    ...(task && hasChecklist(task) ? { checkedItemIds: task.checklist!.map(item => item.id) } : {})
   };
-  
-  const { error } = await client
-    .from('myday_tasks')
-    .insert([taskData]);
-
-  if (error) throw error;
 };
 
-export const updateTask = async (taskId: string, updates: Partial<Task>): Promise<void> => {
-  const { client } = await requireAuth();
+/**
+ * Auto-complete dependent tasks scheduled on the date, each exactly once even
+ * if the graph has a cycle
+ */
+const completeDependents = async (taskId: string, date: string, tasks: Task[], completions: TaskCompletion[]): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const vacations = await adapter.getVacations();
+  const now = new Date().toISOString();
+
+  for (const dependentId of getCascadeTaskIds(taskId, tasks)) {
+    const dependent = tasks.find(t => t.id === dependentId);
+    if (!dependent || !occursOn(dependent, date, vacations, completions)) continue;
+    // Already done, or deliberately marked partial/skipped/excused for the day
+    if (completions.some(c => c.taskId === dependentId && c.date === date && (isCompletionDone(c) || c.status))) continue;
+    await adapter.saveCompletion({
+      taskId: dependentId,
+      date,
+      startedAt: now,
+      completedAt: now,
+      autoCompleted: true,
+      ...getFullProgress(dependent)
+    });
+  }
+};
 
-  const dbUpdates: any = {};
-  if (updates.name !== undefined) dbUpdates.name = updates.name;
-  if (updates.description !== undefined) dbUpdates.description = updates.description;
-  if (updates.category !== undefined) dbUpdates.category = updates.category;
-  if (updates.color !== undefined) dbUpdates.color = updates.color;
-  if (updates.customBackgroundColor !== undefined) dbUpdates.custom_background_color = updates.customBackgroundColor;
-  if (updates.weightage !== undefined) dbUpdates.weightage = updates.weightage;
-  if (updates.frequency !== undefined) dbUpdates.frequency = updates.frequency;
-  if (updates.daysOfWeek !== undefined) dbUpdates.days_of_week = updates.daysOfWeek;
-  if (updates.dayOfMonth !== undefined) dbUpdates.day_of_month = updates.dayOfMonth;
-  if (updates.customFrequency !== undefined) dbUpdates.custom_frequency = updates.customFrequency;
-  if (updates.frequencyCount !== undefined) dbUpdates.frequency_count = updates.frequencyCount;
-  if (updates.frequencyPeriod !== undefined) dbUpdates.frequency_period = updates.frequencyPeriod;
-  if (updates.intervalValue !== undefined) dbUpdates.interval_value = updates.intervalValue;
-  if (updates.intervalUnit !== undefined) dbUpdates.interval_unit = updates.intervalUnit;
-  if (updates.intervalStartDate !== undefined) dbUpdates.interval_start_date = updates.intervalStartDate;
-  if (updates.startDate !== undefined) dbUpdates.start_date = updates.startDate;
-  if (updates.endDate !== undefined) dbUpdates.end_date = updates.endDate;
-  if (updates.specificDate !== undefined) dbUpdates.specific_date = updates.specificDate;
-  if (updates.endTime !== undefined) dbUpdates.end_time = updates.endTime;
-  if (updates.dependentTaskIds !== undefined) dbUpdates.dependent_task_ids = updates.dependentTaskIds;
-  if (updates.onHold !== undefined) dbUpdates.on_hold = updates.onHold;
-  if (updates.holdStartDate !== undefined) dbUpdates.hold_start_date = updates.holdStartDate;
-  if (updates.holdEndDate !== undefined) dbUpdates.hold_end_date = updates.holdEndDate;
-  if (updates.holdReason !== undefined) dbUpdates.hold_reason = updates.holdReason;
-  if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
+export const completeTask = async (taskId: string, date: string, durationMinutes?: number): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const [tasks, completions] = await Promise.all([adapter.getTasks(), adapter.getCompletions()]);
+  const now = new Date().toISOString();
 
-  const { error } = await client
-    .from('myday_tasks')
-    .update(dbUpdates)
-    .eq('id', taskId);
+  // Mark the main task as complete
+  await adapter.saveCompletion({
+    taskId,
+    date,
+    durationMinutes,
+    startedAt: now,
+    completedAt: now,
+    ...getFullProgress(tasks.find(t => t.id === taskId))
+  });
 
-  if (error) throw error;
+  // Time spent is only logged on the task the user actually completed
+  await completeDependents(taskId, date, tasks, completions);
 };
 
-export const deleteTask = async (taskId: string): Promise<void> => {
-  const { client } = await requireAuth();
+/**
+ * Add (or with a negative delta, remove) progress on a quantitative task.
+ * Reaching the target completes the task and its dependents; dropping to zero clears the day.
+ */
+export const logTaskProgress = async (taskId: string, date: string, delta: number): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const [tasks, completions] = await Promise.all([adapter.getTasks(), adapter.getCompletions()]);
+  const task = tasks.find(t => t.id === taskId);
+  if (!task || !isQuantitative(task)) {
+    throw new Error('Only tasks with a target can log progress');
+  }
 
-  const { error } = await client
-    .from('myday_tasks')
-    .delete()
-    .eq('id', taskId);
+  const existing = completions.find(c => c.taskId === taskId && c.date === date);
+  const previousValue = existing ? getCompletionValue(existing, task) : 0;
+  const value = Math.max(0, previousValue + delta);
 
-  if (error) throw error;
+  if (value === 0) {
+    if (existing) await adapter.deleteCompletion(taskId, date);
+    return;
+  }
+
+  const now = new Date().toISOString();
+  await adapter.saveCompletion({
+    ...existing,
+    taskId,
+    date,
+    startedAt: existing?.startedAt || now,
+    completedAt: now,
+    value,
+    targetValue: task.targetValue,
+    status: undefined, // Logging progress replaces a partial/skipped/excused mark
+    reason: undefined,
+    autoCompleted: undefined // The user has taken it over
+  });
+
+  if (previousValue < task.targetValue! && value >= task.targetValue!) {
+    await completeDependents(taskId, date, tasks, completions);
+  }
 };
 
-// ===== TASK COMPLETIONS =====
+/**
+ * Tick or untick one checklist item for a day. The day is partial until every
+ * item is ticked; with autoCompleteChecklist the last tick completes the task
+ * and its dependents. Unticking everything on a partial day clears it.
+ */
+export const toggleChecklistItem = async (taskId: string, date: string, itemId: string): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const [tasks, completions] = await Promise.all([adapter.getTasks(), adapter.getCompletions()]);
+  const task = tasks.find(t => t.id === taskId);
+  if (!task || !task.checklist?.some(item => item.id === itemId)) {
+    throw new Error('Checklist item not found');
+  }
 
-export const completeTask = async (taskId: string, date: string, durationMinutes?: number): Promise<void> => {
-  const { client, userId } = await requireAuth();
+  const existing = completions.find(c => c.taskId === taskId && c.date === date);
+  const previous = getCheckedItemIds(task, existing);
+  const toggled = previous.includes(itemId) ? previous.filter(id => id !== itemId) : [...previous, itemId];
+  const checkedItemIds = task.checklist.map(item => item.id).filter(id => toggled.includes(id));
+  const allChecked = checkedItemIds.length === task.checklist.length;
+  const wasDone = !!existing && isCompletionDone(existing);
 
-  // First, check for dependent tasks and complete them too
-  const { data: task } = await client
-    .from('myday_tasks')
-    .select('dependent_task_ids')
-    .eq('id', taskId)
-    .single();
+  // Without auto-complete, a day the user completed stays done
+  const isDone = task.autoCompleteChecklist ? allChecked : wasDone;
 
-  // Mark the main task as complete
-  const { error } = await client
-    .from('myday_task_completions')
-    .upsert([{
-      user_id: userId,
-      task_id: taskId,
-      completion_date: date,
-      duration_minutes: durationMinutes,
-      started_at: new Date().toISOString(),
-      completed_at: new Date().toISOString()
-    }], {
-      onConflict: 'user_id,task_id,completion_date'
-    });
+  if (!isDone && checkedItemIds.length === 0) {
+    if (existing) await adapter.deleteCompletion(taskId, date);
+    return;
+  }
 
-  if (error) throw error;
+  const now = new Date().toISOString();
+  await adapter.saveCompletion({
+    ...existing,
+    taskId,
+    date,
+    startedAt: existing?.startedAt || now,
+    completedAt: now,
+    checkedItemIds,
+    status: isDone ? undefined : 'partial', // Ticking items replaces a skipped/excused mark
+    reason: undefined,
+    autoCompleted: undefined
+  });
 
-  // If task has dependents, mark them as complete too
-  if (task?.dependent_task_ids && task.dependent_task_ids.length > 0) {
-    for (const dependentId of task.dependent_task_ids) {
-      await completeTask(dependentId, date, durationMinutes);
-    }
+  if (isDone && !wasDone) {
+    await completeDependents(taskId, date, tasks, completions);
   }
 };
 
-export const uncompleteTask = async (taskId: string, date: string): Promise<void> => {
-  const { client } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_task_completions')
-    .delete()
-    .eq('task_id', taskId)
-    .eq('completion_date', date);
+/**
+ * Mark a day as partial, skipped or excused (use completeTask for done and
+ * uncompleteTask to clear). Doesn't cascade to dependent tasks.
+ */
+export const setCompletionStatus = async (
+  taskId: string,
+  date: string,
+  status: Exclude<CompletionStatus, 'done'>,
+  reason?: string
+): Promise<void> => {
+  const adapter = getStorageAdapter();
+  const completions = await adapter.getCompletions();
+  const existing = completions.find(c => c.taskId === taskId && c.date === date);
+  const now = new Date().toISOString();
+
+  await adapter.saveCompletion({
+    ...existing,
+    taskId,
+    date,
+    startedAt: existing?.startedAt || now,
+    completedAt: now,
+    status,
+    reason: reason?.trim() || undefined,
+    autoCompleted: undefined
+  });
+};
 
-  if (error) throw error;
+// Store a completion as-is (no dependent cascade), e.g. when restoring a backup
+export const saveCompletion = async (completion: TaskCompletion): Promise<void> => {
+  await getStorageAdapter().saveCompletion(completion);
 };
 
-export const getCompletions = async (): Promise<TaskCompletion[]> => {
-  const { client } = await requireAuth();
+/**
+ * With cascade, also undo the dependent tasks that completing this one
+ * auto-completed. Dependents the user logged themselves are kept.
+ */
+export const uncompleteTask = async (taskId: string, date: string, cascade: boolean = false): Promise<void> => {
+  const adapter = getStorageAdapter();
+  await adapter.deleteCompletion(taskId, date);
 
-  const { data, error } = await client
-    .from('myday_task_completions')
-    .select('*');
+  if (!cascade) return;
 
-  if (error) {
-    console.error('Error fetching completions:', error);
-    return [];
+  const [tasks, completions] = await Promise.all([adapter.getTasks(), adapter.getCompletions()]);
+  for (const dependentId of getCascadeTaskIds(taskId, tasks)) {
+    if (completions.some(c => c.taskId === dependentId && c.date === date && c.autoCompleted)) {
+      await adapter.deleteCompletion(dependentId, date);
+    }
   }
+};
 
-  return (data || []).map(c => ({
-    taskId: c.task_id,
-    date: c.completion_date,
-    completedAt: c.completed_at,
-    durationMinutes: c.duration_minutes,
-    startedAt: c.started_at
-  }));
+export const getCompletions = async (): Promise<TaskCompletion[]> => {
+  return getStorageAdapter().getCompletions();
 };
 
 // Alias for getCompletions (for backward compatibility)
 export const getTaskHistory = getCompletions;
 
+// ===== SPILLOVERS =====
+
+export const getSpillovers = async (): Promise<TaskSpillover[]> => {
+  return getStorageAdapter().getSpillovers();
+};
+
+// Spillovers moved onto this date
+export const getTaskSpilloversForDate = async (date: string): Promise<TaskSpillover[]> => {
+  const spillovers = await getSpillovers();
+  return spillovers.filter(s => s.toDate === date);
+};
+
+export const moveTaskToNextDay = async (taskId: string, fromDate: string, toDate: string): Promise<void> => {
+  // Moving the same occurrence again replaces the earlier target date
+  await getStorageAdapter().saveSpillover({
+    taskId,
+    fromDate,
+    toDate,
+    movedAt: new Date().toISOString()
+  });
+};
+
+// Store a spillover as-is, e.g. when restoring a backup
+export const saveSpillover = async (spillover: TaskSpillover): Promise<void> => {
+  await getStorageAdapter().saveSpillover(spillover);
+};
+
+export const undoSpillover = async (taskId: string, fromDate: string): Promise<void> => {
+  await getStorageAdapter().deleteSpillover(taskId, fromDate);
+};
+
+// ===== VACATIONS =====
+
+export const getVacations = async (): Promise<Vacation[]> => {
+  return getStorageAdapter().getVacations();
+};
+
+/**
+ * Schedule (or update) a vacation. Covered tasks pause on its days and resume afterwards.
+ * Returns the vacation's id.
+ */
+export const saveVacation = async (vacation: Omit<Vacation, 'id' | 'createdAt'> & Partial<Pick<Vacation, 'id' | 'createdAt'>>): Promise<string> => {
+  if (!vacation.startDate || !vacation.endDate) {
+    throw new Error('A vacation needs a start and an end date');
+  }
+  if (vacation.endDate < vacation.startDate) {
+    throw new Error('A vacation can\'t end before it starts');
+  }
+
+  const id = vacation.id || generateUUID();
+  await getStorageAdapter().saveVacation({
+    ...vacation,
+    id,
+    name: vacation.name?.trim() || undefined,
+    taskIds: vacation.taskIds?.length ? vacation.taskIds : undefined,
+    tagIds: vacation.tagIds?.length ? vacation.tagIds : undefined,
+    createdAt: vacation.createdAt || new Date().toISOString()
+  });
+  return id;
+};
+
+export const deleteVacation = async (vacationId: string): Promise<void> => {
+  await getStorageAdapter().deleteVacation(vacationId);
+};
+
 // ===== EVENTS =====
 
+// Reminders are written for every occurrence this far ahead, so the next one
+// stays covered between reconciliations
+const REMINDER_HORIZON_DAYS = 400;
+
 /**
- * Generate reminder records for an event based on notifyDaysBefore
- * Reminder dates follow the same pattern as event dates:
- * - MM-DD format for yearly events
- * - YYYY-MM-DD format for one-time events
+ * Generate reminder records for an event based on notifyDaysBefore.
+ * Each record is the full YYYY-MM-DD it shows on, counted back from an actual
+ * occurrence (a Feb 29 birthday reminds before Feb 28 in non-leap years).
+ * Yearly and custom events get one set per occurrence in the horizon;
+ * reconcileEventReminders rolls them forward as occurrences pass.
  */
 const generateEventReminders = async (event: Event, eventId: string): Promise<void> => {
-  if (!event.notifyDaysBefore || event.notifyDaysBefore === 0) return;
-  
-  const { client, userId } = await requireAuth();
-  
-  // Delete existing reminders for this event
-  await client
-    .from('myday_notifybeforedays')
-    .delete()
-    .eq('event_id', eventId);
-  
-  const reminders: Array<{ reminder_date: string; days_until_event: number }> = [];
-  
-  if (event.frequency === 'yearly') {
-    // For yearly events: Generate reminders for the upcoming occurrence only
-    // Since reminder_date is stored as MM-DD (same pattern as event), we only need one set
-    
-    // Normalize date format: handle both MM-DD and YYYY-MM-DD formats
-    let month: number, day: number;
-    const dateParts = event.date.split('-').map(Number);
-    
-    if (dateParts.length === 3) {
-      // YYYY-MM-DD format: extract month and day
-      [, month, day] = dateParts; // Skip year, get month and day
-    } else if (dateParts.length === 2) {
-      // MM-DD format: use as-is
-      [month, day] = dateParts;
-    } else {
+  const reminders: EventReminder[] = [];
+  const notifyDays = event.notifyDaysBefore || 0;
+
+  if (notifyDays > 0) {
+    if (event.frequency === 'yearly' && !getEventMonthDay(event.date)) {
       console.error('Invalid date format for yearly event:', event.date);
       return; // Skip reminder generation if date format is invalid
     }
-    
-    // Validate month and day
-    if (isNaN(month) || isNaN(day) || month < 1 || month > 12 || day < 1 || day > 31) {
-      console.error('Invalid month or day for yearly event:', event.date, 'month:', month, 'day:', day);
-      return; // Skip reminder generation if values are invalid
-    }
-    
-    // Calculate the next occurrence of this event
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const currentYear = today.getFullYear();
-    let eventDate = new Date(currentYear, month - 1, day);
-    eventDate.setHours(0, 0, 0, 0);
-    
-    // If event already passed this year, use next year
-    if (eventDate < today) {
-      eventDate = new Date(currentYear + 1, month - 1, day);
-      eventDate.setHours(0, 0, 0, 0);
-    }
-    
-    // Generate reminder dates (1 to notifyDaysBefore days before event)
-    // Store as MM-DD format to match event pattern
-    for (let d = 1; d <= event.notifyDaysBefore; d++) {
-      const reminderDate = new Date(eventDate);
-      reminderDate.setDate(reminderDate.getDate() - d);
-      const reminderDateStr = `${String(reminderDate.getMonth() + 1).padStart(2, '0')}-${String(reminderDate.getDate()).padStart(2, '0')}`;
-      reminders.push({ reminder_date: reminderDateStr, days_until_event: d });
-    }
-  } else if (event.frequency === 'one-time') {
-    // For one-time events: Generate reminders for that specific date
-    const eventDate = new Date(event.date + 'T00:00:00');
-    
-    for (let d = 1; d <= event.notifyDaysBefore; d++) {
-      const reminderDate = new Date(eventDate);
-      reminderDate.setDate(reminderDate.getDate() - d);
-      const reminderDateStr = reminderDate.toISOString().split('T')[0]; // YYYY-MM-DD
-      reminders.push({ reminder_date: reminderDateStr, days_until_event: d });
-    }
+
+    const today = getTodayString();
+    const occurrences = event.frequency === 'one-time'
+      ? [event.date]
+      : getEventOccurrences(event, today, addDays(today, REMINDER_HORIZON_DAYS));
+    occurrences.forEach(occurrence => {
+      // Calendar-day math, so the reminder doesn't shift with the time zone
+      for (let d = 1; d <= notifyDays; d++) {
+        reminders.push({ eventId, reminderDate: addDays(occurrence, -d), daysUntilEvent: d, frequency: event.frequency });
+      }
+    });
   }
   
-  // Insert reminder records
-  if (reminders.length > 0) {
-    const reminderRecords = reminders.map(r => ({
-      user_id: userId,
-      event_id: eventId,
-      reminder_date: r.reminder_date,
-      days_until_event: r.days_until_event,
-      frequency: event.frequency
-    }));
-    
-    const { error } = await client
-      .from('myday_notifybeforedays')
-      .insert(reminderRecords);
-    
-    if (error) {
-      console.error('Error generating reminders:', error);
-      throw error;
-    }
-  }
+  // Replace existing reminders for this event (clears them when notifications are off)
+  await getStorageAdapter().replaceEventReminders(eventId, reminders);
 };
 
 export const getEvents = async (): Promise<Event[]> => {
-  const { client } = await requireAuth();
-
-  // Select all columns including date_text (from migration)
-  // Note: 'date' column doesn't exist, use date_text or event_date
-  const { data, error } = await client
-    .from('myday_events')
-    .select('id, name, description, category, tags, date_text, event_date, frequency, custom_frequency, year, notify_days_before, color, priority, hide_from_dashboard, created_at')
-    .order('date_text', { ascending: true, nullsFirst: true })
-    .order('event_date', { ascending: true, nullsFirst: true });
-
-  if (error) {
-    console.error('Error fetching events:', error);
-    return [];
-  }
-
-  return (data || []).map(event => {
-    // Use date_text if available (from migration), fall back to event_date
-    // date_text is preferred as it supports MM-DD format for yearly events
-    let eventDate = event.date_text || event.event_date;
-    
-    return {
-      id: event.id,
-      name: event.name,
-      description: event.description,
-      category: event.category,
-      tags: event.tags || [],
-      date: eventDate,
-      frequency: event.frequency || 'yearly',
-      customFrequency: event.custom_frequency,
-      year: event.year,
-      notifyDaysBefore: event.notify_days_before || 0,
-      color: event.color,
-      priority: event.priority || 5,
-      hideFromDashboard: event.hide_from_dashboard || false,
-      createdAt: event.created_at || new Date().toISOString()
-    };
-  });
+  return getStorageAdapter().getEvents();
 };
 
-export const addEvent = async (event: Event): Promise<void> => {
-  const { client, userId } = await requireAuth();
+// Returns the id assigned to the new event
+export const addEvent = async (event: Event): Promise<string> => {
   const eventId = generateUUID();
 
   // Normalize date format based on frequency
@@ -404,65 +365,24 @@ export const addEvent = async (event: Event): Promise<void> => {
   // For one-time events, keep YYYY-MM-DD format
 
   // Insert event
-  const { error } = await client
-    .from('myday_events')
-    .insert([{
-      id: eventId,
-      user_id: userId,
-      name: event.name,
-      description: event.description,
-      category: event.category,
-      tags: event.tags || [],
-      event_date: normalizedDate,
-      date_text: normalizedDate, // Store in date_text for consistency
-      notify_days_before: event.notifyDaysBefore || 0,
-      color: event.color,
-      priority: event.priority || 5,
-      hide_from_dashboard: event.hideFromDashboard || false,
-      frequency: event.frequency || 'yearly',
-      custom_frequency: event.customFrequency,
-      year: event.year
-    }]);
-
-  if (error) throw error;
+  const eventWithNormalizedDate = { ...event, id: eventId, date: normalizedDate };
+  await getStorageAdapter().addEvent(eventWithNormalizedDate);
   
   // Generate reminders if notifyDaysBefore > 0
   // Use normalized date for reminder generation
   if (event.notifyDaysBefore && event.notifyDaysBefore > 0) {
-    const eventWithNormalizedDate = { ...event, date: normalizedDate };
     await generateEventReminders(eventWithNormalizedDate, eventId);
   }
+  
+  return eventId;
 };
 
 export const updateEvent = async (eventId: string, updates: Partial<Event>): Promise<void> => {
-  const { client } = await requireAuth();
-
-  const dbUpdates: any = {};
-  if (updates.name !== undefined) dbUpdates.name = updates.name;
-  if (updates.description !== undefined) dbUpdates.description = updates.description;
-  if (updates.category !== undefined) dbUpdates.category = updates.category;
-  if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
-  if (updates.date !== undefined) {
-    dbUpdates.event_date = updates.date;
-    dbUpdates.date_text = updates.date; // Update both for consistency
-  }
-  if (updates.notifyDaysBefore !== undefined) dbUpdates.notify_days_before = updates.notifyDaysBefore;
-  if (updates.color !== undefined) dbUpdates.color = updates.color;
-  if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
-  if (updates.hideFromDashboard !== undefined) dbUpdates.hide_from_dashboard = updates.hideFromDashboard;
-  if (updates.frequency !== undefined) dbUpdates.frequency = updates.frequency;
-  if (updates.customFrequency !== undefined) dbUpdates.custom_frequency = updates.customFrequency;
-  if (updates.year !== undefined) dbUpdates.year = updates.year;
-
-  const { error } = await client
-    .from('myday_events')
-    .update(dbUpdates)
-    .eq('id', eventId);
-
-  if (error) throw error;
+  await getStorageAdapter().updateEvent(eventId, updates);
   
-  // If date or notifyDaysBefore changed, regenerate reminders
-  if (updates.date !== undefined || updates.notifyDaysBefore !== undefined || updates.frequency !== undefined) {
+  // If the date, repeat pattern or notifyDaysBefore changed, regenerate reminders
+  if (updates.date !== undefined || updates.notifyDaysBefore !== undefined || updates.frequency !== undefined ||
+      updates.customFrequency !== undefined || updates.calendarSystem !== undefined || updates.isLeapMonth !== undefined) {
     // Get full event to regenerate reminders
     const events = await getEvents();
     const fullEvent = events.find(e => e.id === eventId);
@@ -475,196 +395,73 @@ export const updateEvent = async (eventId: string, updates: Partial<Event>): Pro
 };
 
 export const deleteEvent = async (eventId: string): Promise<void> => {
-  const { client } = await requireAuth();
+  await getStorageAdapter().deleteEvent(eventId);
+};
 
-  const { error } = await client
-    .from('myday_events')
-    .delete()
-    .eq('id', eventId);
+// Date of the last finished reminder reconciliation, and the run in progress
+let remindersReconciledOn: string | null = null;
+let reminderReconciliation: Promise<number> | null = null;
 
-  if (error) throw error;
+/**
+ * Rewrites the reminders of every recurring event with notifications, so
+ * reminders roll forward to upcoming occurrences without the event being
+ * re-saved. Each event's reminders are replaced as a whole, so a repeated or
+ * interrupted run leaves the same result. Runs once per day; safe to call from
+ * several places at startup. Returns the number of events refreshed.
+ */
+export const reconcileEventReminders = async (): Promise<number> => {
+  const today = getTodayString();
+  if (remindersReconciledOn === today) return 0;
+  if (reminderReconciliation) return reminderReconciliation;
+
+  reminderReconciliation = (async () => {
+    const events = await getEvents();
+    let refreshed = 0;
+    for (const event of events) {
+      // One-time reminders never move, and events without notifications have none
+      if (event.frequency === 'one-time' || !event.notifyDaysBefore) continue;
+      try {
+        await generateEventReminders(event, event.id);
+        refreshed++;
+      } catch (error) {
+        console.error('Error refreshing reminders for event:', event.name, error);
+      }
+    }
+    remindersReconciledOn = today;
+    return refreshed;
+  })();
+
+  try {
+    return await reminderReconciliation;
+  } finally {
+    reminderReconciliation = null;
+  }
 };
 
 // ===== ITEMS =====
 
 export const getItems = async (): Promise<Item[]> => {
-  const { client } = await requireAuth();
-  
-  const { data, error } = await client
-    .from('myday_items')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  if (error) {
-    console.error('Error fetching items:', error);
-    return [];
-  }
-
-  return (data || []).map((row: any) => ({
-    id: row.id,
-    name: row.name,
-    description: row.description,
-    category: row.category,
-    tags: row.tags || [],
-    expirationDate: row.expiration_date,
-    value: row.value,
-    currency: row.currency,
-    merchant: row.merchant,
-    accountNumber: row.account_number,
-    autoRenew: row.auto_renew || false,
-    notifyDaysBefore: row.notify_days_before || 0,
-    priority: row.priority || 5,
-    color: row.color,
-    isClosed: row.is_closed || false,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  }));
+  return getStorageAdapter().getItems();
 };
 
 export const addItem = async (item: Item): Promise<void> => {
-  const { client, userId } = await requireAuth();
-
-  // Build insert object with only relevant fields based on category
-  const insertData: any = {
-    id: item.id,
-    user_id: userId,
-    name: item.name,
-    description: item.description,
-    category: item.category,
-    tags: item.tags || [],
-    priority: item.priority || 5,
-    color: item.color,
-    is_closed: item.isClosed || false,
-    created_at: item.createdAt,
-    updated_at: item.updatedAt || item.createdAt
-  };
-
-  // Only add category-specific fields if not a Note
-  if (item.category !== 'Note') {
-    insertData.expiration_date = item.expirationDate || null;
-    insertData.notify_days_before = item.notifyDaysBefore || 0;
-  }
-
-  // Add value/currency for Gift Cards and Subscriptions
-  if (item.category === 'Gift Card' || item.category === 'Subscription') {
-    insertData.value = item.value || null;
-    insertData.currency = item.currency || 'USD';
-  }
-
-  // Add merchant for Gift Cards, Subscriptions, and Warranties
-  if (item.category === 'Gift Card' || item.category === 'Subscription' || item.category === 'Warranty') {
-    insertData.merchant = item.merchant || null;
-  }
-
-  // Add account number for Gift Cards
-  if (item.category === 'Gift Card') {
-    insertData.account_number = item.accountNumber || null;
-  }
-
-  // Add auto_renew for Subscriptions
-  if (item.category === 'Subscription') {
-    insertData.auto_renew = item.autoRenew || false;
-  }
-
-  // Add value for Warranties (purchase value)
-  if (item.category === 'Warranty') {
-    insertData.value = item.value || null;
-    insertData.currency = item.currency || 'USD';
-  }
-
-  const { error } = await client
-    .from('myday_items')
-    .insert([insertData]);
-
-  if (error) throw error;
+  await getStorageAdapter().addItem(item);
 };
 
 export const updateItem = async (itemId: string, updates: Partial<Item>): Promise<void> => {
-  const { client } = await requireAuth();
-
-  // Get the current item to check its category
-  const items = await getItems();
-  const currentItem = items.find(item => item.id === itemId);
-  const category = updates.category || currentItem?.category || 'Note';
-
-  const dbUpdates: any = {
-    updated_at: new Date().toISOString()
-  };
-  
-  if (updates.name !== undefined) dbUpdates.name = updates.name;
-  if (updates.description !== undefined) dbUpdates.description = updates.description;
-  if (updates.category !== undefined) dbUpdates.category = updates.category;
-  if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
-  if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
-  if (updates.color !== undefined) dbUpdates.color = updates.color;
-  if (updates.isClosed !== undefined) dbUpdates.is_closed = updates.isClosed;
-
-  // Only update category-specific fields if not a Note
-  if (category !== 'Note') {
-    if (updates.expirationDate !== undefined) dbUpdates.expiration_date = updates.expirationDate;
-    if (updates.notifyDaysBefore !== undefined) dbUpdates.notify_days_before = updates.notifyDaysBefore;
-  } else {
-    // For Notes, explicitly set these to null if they exist
-    dbUpdates.expiration_date = null;
-    dbUpdates.notify_days_before = 0;
-  }
-
-  // Update value/currency for Gift Cards, Subscriptions, and Warranties
-  if (category === 'Gift Card' || category === 'Subscription' || category === 'Warranty') {
-    if (updates.value !== undefined) dbUpdates.value = updates.value;
-    if (updates.currency !== undefined) dbUpdates.currency = updates.currency;
-  } else if (category === 'Note') {
-    // For Notes, set these to null
-    dbUpdates.value = null;
-    dbUpdates.currency = null;
-  }
-
-  // Update merchant for Gift Cards, Subscriptions, and Warranties
-  if (category === 'Gift Card' || category === 'Subscription' || category === 'Warranty') {
-    if (updates.merchant !== undefined) dbUpdates.merchant = updates.merchant;
-  } else if (category === 'Note') {
-    dbUpdates.merchant = null;
-  }
-
-  // Update account number for Gift Cards
-  if (category === 'Gift Card') {
-    if (updates.accountNumber !== undefined) dbUpdates.account_number = updates.accountNumber;
-  } else if (category === 'Note') {
-    dbUpdates.account_number = null;
-  }
-
-  // Update auto_renew for Subscriptions
-  if (category === 'Subscription') {
-    if (updates.autoRenew !== undefined) dbUpdates.auto_renew = updates.autoRenew;
-  } else if (category === 'Note') {
-    dbUpdates.auto_renew = false;
-  }
-
-  const { error } = await client
-    .from('myday_items')
-    .update(dbUpdates)
-    .eq('id', itemId);
-
-  if (error) throw error;
+  await getStorageAdapter().updateItem(itemId, updates);
 };
 
 export const deleteItem = async (itemId: string): Promise<void> => {
-  const { client } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_items')
-    .delete()
-    .eq('id', itemId);
-
-  if (error) throw error;
+  await getStorageAdapter().deleteItem(itemId);
 };
 
 export const getExpiringItems = async (daysAhead: number = 30): Promise<Item[]> => {
   const items = await getItems();
   if (items.length === 0) return [];
 
-  const today = new Date();
-  const futureDate = new Date();
+  const today = getTodayDate();
+  const futureDate = getTodayDate();
   futureDate.setDate(today.getDate() + daysAhead);
 
   return items.filter(item => {
@@ -680,56 +477,15 @@ export const getExpiringItems = async (daysAhead: number = 30): Promise<Item[]>
 // ===== JOURNAL ENTRIES =====
 
 export const getJournalEntries = async (): Promise<JournalEntry[]> => {
-  const { client } = await requireAuth();
-
-  const { data, error } = await client
-    .from('myday_journal_entries')
-    .select('*')
-    .order('entry_date', { ascending: false });
-
-  if (error) {
-    console.error('Error fetching journal entries:', error);
-    return [];
-  }
-
-  return (data || []).map(entry => ({
-    id: entry.id,
-    date: entry.entry_date,
-    content: entry.content,
-    mood: entry.mood,
-    tags: entry.tags || [],
-    createdAt: entry.created_at || new Date().toISOString(),
-    updatedAt: entry.updated_at || new Date().toISOString()
-  }));
+  return getStorageAdapter().getJournalEntries();
 };
 
 export const saveJournalEntry = async (entry: JournalEntry): Promise<void> => {
-  const { client, userId } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_journal_entries')
-    .upsert([{
-      id: entry.id || generateUUID(),
-      user_id: userId,
-      entry_date: entry.date,
-      content: entry.content,
-      tags: entry.tags
-    }], {
-      onConflict: 'user_id,entry_date'
-    });
-
-  if (error) throw error;
+  await getStorageAdapter().saveJournalEntry(entry);
 };
 
 export const deleteJournalEntry = async (entryId: string): Promise<void> => {
-  const { client } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_journal_entries')
-    .delete()
-    .eq('id', entryId);
-
-  if (error) throw error;
+  await getStorageAdapter().deleteJournalEntry(entryId);
 };
 
 export const getJournalEntryByDate = async (date: string): Promise<JournalEntry | null> => {
@@ -740,60 +496,15 @@ export const getJournalEntryByDate = async (date: string): Promise<JournalEntry
 // ===== ROUTINES =====
 
 export const getRoutines = async (): Promise<Routine[]> => {
-  const { client } = await requireAuth();
-
-  const { data, error } = await client
-    .from('myday_routines')
-    .select('*')
-    .order('name', { ascending: true });
-
-  if (error) {
-    console.error('Error fetching routines:', error);
-    return [];
-  }
-
-  return (data || []).map(routine => ({
-    id: routine.id,
-    name: routine.name,
-    description: routine.description,
-    taskIds: routine.task_ids || [],
-    timeOfDay: routine.time_of_day,
-    isPreDefined: routine.is_pre_defined || false,
-    isActive: routine.is_active !== false, // Default to true for backward compatibility
-    createdAt: routine.created_at || new Date().toISOString()
-  }));
+  return getStorageAdapter().getRoutines();
 };
 
 export const saveRoutine = async (routine: Routine): Promise<void> => {
-  const { client, userId } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_routines')
-    .upsert([{
-      id: routine.id || generateUUID(),
-      user_id: userId,
-      name: routine.name,
-      description: routine.description,
-      task_ids: routine.taskIds,
-      time_of_day: routine.timeOfDay,
-      is_pre_defined: routine.isPreDefined || false,
-      is_active: routine.isActive !== false
-    }], {
-      onConflict: 'id'
-    });
-
-  if (error) throw error;
+  await getStorageAdapter().saveRoutine(routine);
 };
 
 export const deleteRoutine = async (routineId: string): Promise<void> => {
-  const { client } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_routines')
-    .delete()
-    .eq('id', routineId);
-
-  if (error) throw error;
+  await getStorageAdapter().deleteRoutine(routineId);
 };
 
 // Aliases for backward compatibility
@@ -807,97 +518,58 @@ export const updateRoutine = async (routineId: string, updates: Partial<Routine>
 
 export const initializeDefaultRoutines = async (): Promise<void> => {
   try {
-    const { client, userId } = await requireAuth();
-    
     // Check if sample routines already exist
-    const { data: existingRoutines, error: checkError } = await client
-      .from('myday_routines')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('is_pre_defined', true);
-
-    if (checkError) throw checkError;
+    const existingRoutines = (await getRoutines()).filter(r => r.isPreDefined);
     
     // If sample routines already exist, don't create duplicates
-    if (existingRoutines && existingRoutines.length > 0) {
+    if (existingRoutines.length > 0) {
       return;
     }
 
     // Create sample routines (inactive by default)
-    const sampleRoutines = [
+    const sampleRoutines: Array<Pick<Routine, 'name' | 'description' | 'timeOfDay'>> = [
       {
-        id: generateUUID(),
-        user_id: userId,
         name: '🌅 Morning Energizer',
         description: 'Start your day with energy and focus',
-        time_of_day: 'morning',
-        task_ids: [],
-        is_pre_defined: true,
-        is_active: false,
-        created_at: new Date().toISOString()
+        timeOfDay: 'morning'
       },
       {
-        id: generateUUID(),
-        user_id: userId,
         name: '🌙 Evening Wind Down',
         description: 'Relax and prepare for restful sleep',
-        time_of_day: 'evening',
-        task_ids: [],
-        is_pre_defined: true,
-        is_active: false,
-        created_at: new Date().toISOString()
+        timeOfDay: 'evening'
       },
       {
-        id: generateUUID(),
-        user_id: userId,
         name: '💪 Workout Session',
         description: 'Complete workout and fitness routine',
-        time_of_day: 'anytime',
-        task_ids: [],
-        is_pre_defined: true,
-        is_active: false,
-        created_at: new Date().toISOString()
+        timeOfDay: 'anytime'
       },
       {
-        id: generateUUID(),
-        user_id: userId,
         name: '🧘 Mindfulness Break',
         description: 'Meditation, breathing, and mental reset',
-        time_of_day: 'anytime',
-        task_ids: [],
-        is_pre_defined: true,
-        is_active: false,
-        created_at: new Date().toISOString()
+        timeOfDay: 'anytime'
       },
       {
-        id: generateUUID(),
-        user_id: userId,
         name: '📚 Study Session',
         description: 'Focused learning and skill development',
-        time_of_day: 'afternoon',
-        task_ids: [],
-        is_pre_defined: true,
-        is_active: false,
-        created_at: new Date().toISOString()
+        timeOfDay: 'afternoon'
       },
       {
-        id: generateUUID(),
-        user_id: userId,
         name: '🏠 Home Reset',
         description: 'Quick cleaning and organization routine',
-        time_of_day: 'anytime',
-        task_ids: [],
-        is_pre_defined: true,
-        is_active: false,
-        created_at: new Date().toISOString()
+        timeOfDay: 'anytime'
       }
     ];
 
-    const { error: insertError } = await client
-      .from('myday_routines')
-      .insert(sampleRoutines);
-
-    if (insertError) throw insertError;
+    for (const sample of sampleRoutines) {
+      await saveRoutine({
+        ...sample,
+        id: generateUUID(),
+        taskIds: [],
+        isPreDefined: true,
+        isActive: false,
+        createdAt: new Date().toISOString()
+      });
+    }
     
     console.log('✅ Sample routines initialized successfully');
   } catch (error) {
@@ -908,56 +580,15 @@ export const initializeDefaultRoutines = async (): Promise<void> => {
 // ===== TAGS =====
 
 export const getTags = async (): Promise<Tag[]> => {
-  const { client } = await requireAuth();
-
-  const { data, error } = await client
-    .from('myday_tags')
-    .select('*')
-    .order('name', { ascending: true });
-
-  if (error) {
-    console.error('Error fetching tags:', error);
-    return [];
-  }
-
-  return (data || []).map(tag => ({
-    id: tag.id,
-    name: tag.name,
-    color: tag.color,
-    trackable: tag.trackable || false,
-    description: tag.description,
-    createdAt: tag.created_at || new Date().toISOString()
-  }));
+  return getStorageAdapter().getTags();
 };
 
 export const saveTag = async (tag: Tag): Promise<void> => {
-  const { client, userId } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_tags')
-    .upsert([{
-      id: tag.id || generateUUID(),
-      user_id: userId,
-      name: tag.name,
-      color: tag.color,
-      trackable: tag.trackable,
-      description: tag.description
-    }], {
-      onConflict: 'user_id,name'
-    });
-
-  if (error) throw error;
+  await getStorageAdapter().saveTag(tag);
 };
 
 export const deleteTag = async (tagId: string): Promise<void> => {
-  const { client } = await requireAuth();
-
-  const { error } = await client
-    .from('myday_tags')
-    .delete()
-    .eq('id', tagId);
-
-  if (error) throw error;
+  await getStorageAdapter().deleteTag(tagId);
 };
 
 // Aliases for backward compatibility
@@ -976,24 +607,10 @@ const USER_SETTINGS_KEY = 'routine-ruby-user-settings';
 
 export const loadUserSettings = async (): Promise<UserSettings> => {
   try {
-    const { client, userId } = await requireAuth();
-    const { data, error } = await client
-      .from('myday_user_settings')
-      .select('theme, dashboard_layout, notifications_enabled, location')
-      .eq('user_id', userId)
-      .single();
-    
-    if (error && error.code !== 'PGRST116') { // PGRST116 means no rows found
-      console.error('Error loading user settings:', error);
-    }
-    
-    if (data) {
-      return {
-        theme: data.theme || 'purple',
-        dashboardLayout: data.dashboard_layout || 'uniform',
-        notifications: data.notifications_enabled ?? true,
-        location: data.location ? JSON.parse(data.location) : undefined
-      };
+    const settings = await getStorageAdapter().loadUserSettings();
+    if (settings) {
+      setTimeZone(settings.timeZone);
+      return settings;
     }
   } catch (error) {
     console.error('Error loading user settings:', error);
@@ -1009,24 +626,9 @@ export const loadUserSettings = async (): Promise<UserSettings> => {
 };
 
 export const saveUserSettings = async (settings: Partial<UserSettings>): Promise<void> => {
-  const { client, userId } = await requireAuth();
-  
-  const dbUpdates: any = {};
-  if (settings.theme !== undefined) dbUpdates.theme = settings.theme;
-  if (settings.dashboardLayout !== undefined) dbUpdates.dashboard_layout = settings.dashboardLayout;
-  if (settings.notifications !== undefined) dbUpdates.notifications_enabled = settings.notifications;
-  if (settings.location !== undefined) dbUpdates.location = JSON.stringify(settings.location);
-  
-  const { error } = await client
-    .from('myday_user_settings')
-    .upsert([{
-      user_id: userId,
-      ...dbUpdates
-    }], {
-      onConflict: 'user_id'
-    });
-  
-  if (error) throw error;
+  await getStorageAdapter().saveUserSettings(settings);
+  // null switches back to following the device
+  if (settings.timeZone !== undefined) setTimeZone(settings.timeZone);
   
   // Also update localStorage cache
   try {
@@ -1081,10 +683,13 @@ export const markOnboardingComplete = (): void => {
 // ===== DATA OPERATIONS =====
 
 export const loadData = async (): Promise<AppData> => {
-  const [tasks, completions, events, journalEntries, routines, tags, items] = await Promise.all([
+  const [tasks, completions, spillovers, vacations, events, eventAcknowledgments, journalEntries, routines, tags, items] = await Promise.all([
     getTasks(),
     getCompletions(),
+    getSpillovers(),
+    getVacations(),
     getEvents(),
+    getEventAcknowledgments(),
     getJournalEntries(),
     getRoutines(),
     getTags(),
@@ -1094,9 +699,10 @@ export const loadData = async (): Promise<AppData> => {
   return {
     tasks,
     completions,
-    spillovers: [], // Not implemented yet
+    spillovers,
+    vacations,
     events,
-    eventAcknowledgments: [], // Not implemented yet
+    eventAcknowledgments,
     journalEntries,
     routines,
     tags,
@@ -1113,22 +719,22 @@ export const isTaskCompletedToday = (taskId: string, date: string, completions?:
     console.warn('isTaskCompletedToday called without completions data');
     return false;
   }
-  return completions.some(c => c.taskId === taskId && c.date === date);
+  return completions.some(c => c.taskId === taskId && c.date === date && isCompletionDone(c));
 };
 
-export const getTaskSpilloversForDate = async (date: string): Promise<any[]> => {
-  // Spillovers not yet implemented in Supabase
-  return [];
+// True if the task was moved away from this date (it shouldn't count as missed there)
+export const isTaskSpilledOver = (taskId: string, date: string, spillovers: TaskSpillover[]): boolean => {
+  return spillovers.some(s => s.taskId === taskId && s.fromDate === date);
 };
 
-export const moveTaskToNextDay = async (taskId: string, fromDate: string, toDate: string): Promise<void> => {
-  // Spillovers not yet implemented in Supabase
-  console.log('Move to next day not yet implemented');
+// How many times a task was moved to another day since the given date
+export const getTaskSpilloverCount = (taskId: string, spillovers: TaskSpillover[], sinceDate?: string): number => {
+  return spillovers.filter(s => s.taskId === taskId && (!sinceDate || s.fromDate >= sinceDate)).length;
 };
 
 export const getCompletionCountForPeriod = async (taskId: string, startDate: string, endDate: string): Promise<number> => {
   const completions = await getCompletions();
-  return completions.filter(c => c.taskId === taskId && c.date >= startDate && c.date <= endDate).length;
+  return completions.filter(c => c.taskId === taskId && c.date >= startDate && c.date <= endDate && isCompletionDone(c)).length;
 };
 
 export const saveTaskOrder = (taskIds: string[]): void => {
@@ -1147,28 +753,43 @@ export const loadTaskOrder = (): string[] => {
   return [];
 };
 
+// Tasks the user chose to do before their prerequisites, per date
+const UNLOCKED_TASKS_KEY = 'routine-ruby-unlocked-tasks';
+
+export const getUnlockedTaskIds = (date: string): string[] => {
+  try {
+    const stored = localStorage.getItem(UNLOCKED_TASKS_KEY);
+    if (stored) {
+      return JSON.parse(stored)[date] || [];
+    }
+  } catch (error) {
+    console.error('Error loading unlocked tasks:', error);
+  }
+  return [];
+};
+
+// Only the given date is kept, so overrides never pile up
+export const unlockTaskForDay = (taskId: string, date: string): void => {
+  const ids = getUnlockedTaskIds(date);
+  if (ids.includes(taskId)) return;
+  localStorage.setItem(UNLOCKED_TASKS_KEY, JSON.stringify({ [date]: [...ids, taskId] }));
+};
+
 export const getUpcomingEvents = async (daysAhead: number = 7, baseDate?: string): Promise<Array<{ event: Event; date: string; daysUntil: number }>> => {
-  const { client, userId } = await requireAuth();
-  const today = new Date();
+  const today = getTodayDate();
   today.setHours(0, 0, 0, 0);
   
   // Use baseDate if provided (for selected date navigation), otherwise use today
-  const selectedDate = baseDate || today.toISOString().split('T')[0];
+  const selectedDate = baseDate || getTodayString();
   const selectedDateObj = new Date(selectedDate + 'T00:00:00');
   const mmdd = `${String(selectedDateObj.getMonth() + 1).padStart(2, '0')}-${String(selectedDateObj.getDate()).padStart(2, '0')}`;
   
-  // Query reminders table for the selected date
-  // Match MM-DD for yearly events or YYYY-MM-DD for one-time events
-  const { data: reminders, error } = await client
-    .from('myday_notifybeforedays')
-    .select(`
-      *,
-      event:myday_events(*)
-    `)
-    .eq('user_id', userId)
-    .or(`reminder_date.eq.${mmdd},reminder_date.eq.${selectedDate}`);
-  
-  if (error) {
+  // Query reminders for the selected date
+  // Reminders are stored as YYYY-MM-DD; yearly ones saved before that used MM-DD
+  let reminders: EventReminder[];
+  try {
+    reminders = await getStorageAdapter().getEventReminders([mmdd, selectedDate]);
+  } catch (error) {
     console.error('Error fetching reminders:', error);
     // Fallback to old logic if table doesn't exist yet
     return getUpcomingEventsLegacy(daysAhead, baseDate);
@@ -1176,87 +797,44 @@ export const getUpcomingEvents = async (daysAhead: number = 7, baseDate?: string
   
   // Also check for events on the actual date (not just reminders)
   const events = await getEvents();
+  const eventsById = new Map(events.map(event => [event.id, event]));
   const upcoming: Array<{ event: Event; date: string; daysUntil: number }> = [];
   const seenEventIds = new Set<string>();
   
   // Process reminders
-  if (reminders && reminders.length > 0) {
-    reminders.forEach((reminder: any) => {
-      const eventData = reminder.event;
-      if (!eventData || eventData.hide_from_dashboard) return;
-      
-      // Match by frequency pattern
-      const matches = (reminder.frequency === 'yearly' && reminder.reminder_date === mmdd) ||
-                     (reminder.frequency === 'one-time' && reminder.reminder_date === selectedDate);
-      
-      if (matches) {
-        const eventKey = `${eventData.id}-${reminder.reminder_date}-${reminder.days_until_event}`;
-        if (!seenEventIds.has(eventKey)) {
-          seenEventIds.add(eventKey);
-          
-          // Map database event to Event type
-          const event: Event = {
-            id: eventData.id,
-            name: eventData.name,
-            description: eventData.description,
-            category: eventData.category,
-            tags: eventData.tags || [],
-            date: eventData.date_text || eventData.event_date,
-            frequency: eventData.frequency || 'yearly',
-            customFrequency: eventData.custom_frequency,
-            year: eventData.year,
-            notifyDaysBefore: eventData.notify_days_before || 0,
-            color: eventData.color,
-            priority: eventData.priority || 5,
-            hideFromDashboard: eventData.hide_from_dashboard || false,
-            createdAt: eventData.created_at || new Date().toISOString()
-          };
-          
-          upcoming.push({
-            event,
-            date: reminder.reminder_date,
-            daysUntil: reminder.days_until_event
-          });
-        }
+  reminders.forEach(reminder => {
+    const event = eventsById.get(reminder.eventId);
+    if (!event || event.hideFromDashboard) return;
+    
+    const matches = reminder.reminderDate === selectedDate ||
+                   (reminder.frequency === 'yearly' && reminder.reminderDate === mmdd);
+    
+    if (matches) {
+      const eventKey = `${event.id}-${reminder.reminderDate}-${reminder.daysUntilEvent}`;
+      if (!seenEventIds.has(eventKey)) {
+        seenEventIds.add(eventKey);
+        upcoming.push({
+          event,
+          date: reminder.reminderDate,
+          daysUntil: reminder.daysUntilEvent
+        });
       }
-    });
-  }
+    }
+  });
   
   // Also check for events on the actual date (not just reminders)
   events.forEach(event => {
     if (event.hideFromDashboard) return;
     
-    let eventDate: Date;
-    let eventDateStr: string;
-    
-    if (event.frequency === 'yearly') {
-      const [eventMonth, eventDay] = event.date.split('-').map(Number);
-      const baseMonth = selectedDateObj.getMonth() + 1;
-      const baseDay = selectedDateObj.getDate();
-      
-      // Check if event is on the selected date
-      if (eventMonth === baseMonth && eventDay === baseDay) {
-        const eventKey = `${event.id}-${selectedDate}-0`;
-        if (!seenEventIds.has(eventKey)) {
-          seenEventIds.add(eventKey);
-          upcoming.push({
-            event,
-            date: selectedDate,
-            daysUntil: 0 // TODAY!
-          });
-        }
-      }
-    } else if (event.frequency === 'one-time') {
-      if (event.date === selectedDate) {
-        const eventKey = `${event.id}-${selectedDate}-0`;
-        if (!seenEventIds.has(eventKey)) {
-          seenEventIds.add(eventKey);
-          upcoming.push({
-            event,
-            date: selectedDate,
-            daysUntil: 0 // TODAY!
-          });
-        }
+    if (eventOccursOn(event, selectedDate)) {
+      const eventKey = `${event.id}-${selectedDate}-0`;
+      if (!seenEventIds.has(eventKey)) {
+        seenEventIds.add(eventKey);
+        upcoming.push({
+          event,
+          date: selectedDate,
+          daysUntil: 0 // TODAY!
+        });
       }
     }
   });
@@ -1265,102 +843,82 @@ export const getUpcomingEvents = async (daysAhead: number = 7, baseDate?: string
   return upcoming.sort((a, b) => a.daysUntil - b.daysUntil);
 };
 
-// Legacy function as fallback (old complex logic)
+// Fallback without reminder rows: events within their notify window of the
+// selected date, from the same occurrences as reminders (custom, lunar, Feb 29)
 const getUpcomingEventsLegacy = async (daysAhead: number = 7, baseDate?: string): Promise<Array<{ event: Event; date: string; daysUntil: number }>> => {
   const events = await getEvents();
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const base = baseDate ? new Date(baseDate + 'T00:00:00') : today;
-  base.setHours(0, 0, 0, 0);
-  
+  const today = getTodayString();
+  const base = baseDate || today;
+
   const upcoming: Array<{ event: Event; date: string; daysUntil: number }> = [];
-  const seenEventIds = new Set<string>();
-  
+
   events.forEach(event => {
     if (event.hideFromDashboard) return;
     const notifyDays = event.notifyDaysBefore || 7;
-    let eventDate: Date;
-    let eventDateStr: string;
-    
-    if (event.frequency === 'yearly') {
-      eventDateStr = event.date;
-      if (!eventDateStr || !eventDateStr.includes('-')) return;
-      const [eventMonth, eventDay] = eventDateStr.split('-').map(Number);
-      if (isNaN(eventMonth) || isNaN(eventDay)) return;
-      const currentYear = base.getFullYear();
-      eventDate = new Date(currentYear, eventMonth - 1, eventDay);
-      eventDate.setHours(0, 0, 0, 0);
-      const baseMonth = base.getMonth() + 1;
-      const baseDay = base.getDate();
-      const eventMatchesToday = (eventMonth === baseMonth && eventDay === baseDay);
-      if (eventMatchesToday) {
-        eventDate = new Date(base);
-        eventDate.setHours(0, 0, 0, 0);
-      } else {
-        const daysDiff = Math.floor((eventDate.getTime() - base.getTime()) / (1000 * 60 * 60 * 24));
-        if (daysDiff < 0) {
-          eventDate = new Date(currentYear + 1, eventMonth - 1, eventDay);
-          eventDate.setHours(0, 0, 0, 0);
-        }
-      }
-    } else if (event.frequency === 'one-time') {
-      eventDateStr = event.date;
-      eventDate = new Date(eventDateStr + 'T00:00:00');
-      if (isNaN(eventDate.getTime())) return;
-      eventDate.setHours(0, 0, 0, 0);
-    } else {
-      return;
-    }
-    
-    const daysUntil = Math.floor((eventDate.getTime() - base.getTime()) / (1000 * 60 * 60 * 24));
-    const daysUntilFromToday = Math.floor((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    const shouldShow = daysUntilFromToday >= 0 && (
-      daysUntil === 0 ||
-      (daysUntil > 0 && daysUntil <= notifyDays) ||
-      (daysUntil < 0 && daysUntil >= -notifyDays)
-    );
-    
-    if (shouldShow) {
-      const eventDateStrForKey = event.frequency === 'yearly' 
-        ? `${eventDate.getFullYear()}-${String(eventDate.getMonth() + 1).padStart(2, '0')}-${String(eventDate.getDate()).padStart(2, '0')}`
-        : eventDateStr;
-      const eventKey = `${event.id}-${eventDateStrForKey}-${daysUntil}`;
-      if (!seenEventIds.has(eventKey)) {
-        seenEventIds.add(eventKey);
-        upcoming.push({
-          event,
-          date: eventDateStrForKey,
-          daysUntil: daysUntil === 0 ? 0 : daysUntil
-        });
-      }
-    }
+
+    // Past occurrences stay listed for a while after a past base date, but never before today
+    const windowStart = addDays(base, -notifyDays);
+    const from = windowStart > today ? windowStart : today;
+    getEventOccurrences(event, from, addDays(base, notifyDays)).forEach(date => {
+      upcoming.push({ event, date, daysUntil: daysBetween(base, date) });
+    });
   });
-  
+
   return upcoming.sort((a, b) => a.daysUntil - b.daysUntil);
 };
 
-const EVENT_ACK_KEY = 'routine-ruby-event-acknowledgments';
+// ===== EVENT ACKNOWLEDGMENTS =====
+
+// Acknowledgments used to be kept per device in localStorage
+const LEGACY_EVENT_ACK_KEY = 'routine-ruby-event-acknowledgments';
+
+const migrateLegacyEventAcknowledgments = async (): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_EVENT_ACK_KEY);
+  if (!stored) return;
 
-export const acknowledgeEvent = (eventId: string, date: string): void => {
   try {
-    const stored = localStorage.getItem(EVENT_ACK_KEY);
-    const acks = stored ? JSON.parse(stored) : {};
-    acks[`${eventId}-${date}`] = true;
-    localStorage.setItem(EVENT_ACK_KEY, JSON.stringify(acks));
+    // Keys are `${eventId}-${YYYY-MM-DD}`
+    const acks: Record<string, boolean> = JSON.parse(stored);
+    const acknowledgedAt = new Date().toISOString();
+    for (const key of Object.keys(acks)) {
+      if (!acks[key] || key.length < 12) continue;
+      await getStorageAdapter().saveEventAcknowledgment({
+        eventId: key.slice(0, -11),
+        date: key.slice(-10),
+        acknowledgedAt
+      });
+    }
+    localStorage.removeItem(LEGACY_EVENT_ACK_KEY);
   } catch (error) {
-    console.error('Error acknowledging event:', error);
+    console.error('Error migrating event acknowledgments:', error);
   }
 };
 
-export const isEventAcknowledged = (eventId: string, date: string): boolean => {
-  try {
-    const stored = localStorage.getItem(EVENT_ACK_KEY);
-    const acks = stored ? JSON.parse(stored) : {};
-    return !!acks[`${eventId}-${date}`];
-  } catch (error) {
-    console.error('Error checking event acknowledgment:', error);
-    return false;
-  }
+export const getEventAcknowledgments = async (): Promise<EventAcknowledgment[]> => {
+  await migrateLegacyEventAcknowledgments();
+  return getStorageAdapter().getEventAcknowledgments();
+};
+
+export const acknowledgeEvent = async (eventId: string, date: string): Promise<void> => {
+  await getStorageAdapter().saveEventAcknowledgment({
+    eventId,
+    date,
+    acknowledgedAt: new Date().toISOString()
+  });
+};
+
+// Store an acknowledgment as-is, e.g. when restoring a backup
+export const saveEventAcknowledgment = async (acknowledgment: EventAcknowledgment): Promise<void> => {
+  await getStorageAdapter().saveEventAcknowledgment(acknowledgment);
+};
+
+export const unacknowledgeEvent = async (eventId: string, date: string): Promise<void> => {
+  await getStorageAdapter().deleteEventAcknowledgment(eventId, date);
+};
+
+// Synchronous version that works with pre-loaded data
+export const isEventAcknowledged = (eventId: string, date: string, acknowledgments: EventAcknowledgment[]): boolean => {
+  return acknowledgments.some(a => a.eventId === eventId && a.date === date);
 };
 
 export const bulkHoldTasks = async (endDate?: string, reason?: string): Promise<void> => {
@@ -1376,22 +934,100 @@ export const bulkHoldTasks = async (endDate?: string, reason?: string): Promise<
 };
 
 export const bulkUnholdTasks = async (): Promise<void> => {
+  const today = getTodayString();
   const tasks = await getTasks();
   for (const task of tasks) {
     if (task.onHold) {
-      await updateTask(task.id, {
-        onHold: false,
-        holdStartDate: undefined,
-        holdEndDate: undefined,
-        holdReason: undefined
-      });
+      await updateTask(task.id, getResumeUpdates(task, today));
+    }
+  }
+};
+
+/**
+ * Updates that take a task off hold from resumeDate on. The finished hold is
+ * kept in holdHistory so its days still don't count as missed. Hold fields are
+ * cleared with null - adapters skip undefined values.
+ */
+export const getResumeUpdates = (task: Task, resumeDate: string): Partial<Task> => {
+  const dayBefore = addDays(resumeDate, -1);
+  const lastHeldDay = task.holdEndDate && task.holdEndDate < dayBefore ? task.holdEndDate : dayBefore;
+  const history = [...(task.holdHistory || [])];
+
+  // A hold that never started leaves nothing to remember
+  if (!task.holdStartDate || task.holdStartDate <= lastHeldDay) {
+    history.push({
+      startDate: task.holdStartDate || undefined,
+      endDate: lastHeldDay,
+      reason: task.holdReason || undefined,
+      resumedOn: getTodayString()
+    });
+  }
+
+  return {
+    onHold: false,
+    holdStartDate: null,
+    holdEndDate: null,
+    holdReason: null,
+    holdHistory: history
+  };
+};
+
+// Day the app was last opened, so notices can cover what happened in between
+const LAST_VISIT_KEY = 'routine-ruby-last-visit';
+let previousVisit: string | null | undefined;
+
+/**
+ * The day the app was last opened before this session (null on a first
+ * visit). Records today as the latest visit the first time it's called.
+ */
+export const getPreviousVisitDate = (): string | null => {
+  if (previousVisit === undefined) {
+    previousVisit = localStorage.getItem(LAST_VISIT_KEY);
+    localStorage.setItem(LAST_VISIT_KEY, getTodayString());
+  }
+  return previousVisit;
+};
+
+// Date of the last finished reconciliation, and the run in progress
+let holdsReconciledOn: string | null = null;
+let holdReconciliation: Promise<Task[]> | null = null;
+
+/**
+ * Clears holds whose end date has passed, so the stored onHold flag agrees
+ * with what the schedule already shows. Runs once per day; safe to call from
+ * several places at startup. Returns the tasks resumed by this run.
+ */
+export const reconcileExpiredHolds = async (): Promise<Task[]> => {
+  const today = getTodayString();
+  if (holdsReconciledOn === today) return [];
+  if (holdReconciliation) return holdReconciliation;
+
+  holdReconciliation = (async () => {
+    const tasks = await getTasks();
+    const resumed: Task[] = [];
+    for (const task of tasks) {
+      if (!task.onHold || !task.holdEndDate || task.holdEndDate >= today) continue;
+      const updates = getResumeUpdates(task, addDays(task.holdEndDate, 1));
+      await updateTask(task.id, updates);
+      resumed.push({ ...task, ...updates });
     }
+    holdsReconciledOn = today;
+    return resumed;
+  })();
+
+  try {
+    return await holdReconciliation;
+  } finally {
+    holdReconciliation = null;
   }
 };
 
 // ===== USER PROFILE =====
+// Profiles live in Supabase only; guests keep theirs in the UserContext localStorage cache
 
 export const getUserProfile = async (): Promise<{ username: string; email: string; avatarEmoji: string } | null> => {
+  if (getStorageMode() !== 'supabase') return null;
+
   try {
     const { client, userId } = await requireAuth();
     const { data, error } = await client
@@ -1417,6 +1053,8 @@ export const getUserProfile = async (): Promise<{ username: string; email: strin
 };
 
 export const updateUserProfile = async (updates: { username?: string; email?: string; avatarEmoji?: string }): Promise<void> => {
+  if (getStorageMode() !== 'supabase') return;
+
   const { client, userId } = await requireAuth();
   
   const dbUpdates: any = {};
@@ -1438,7 +1076,8 @@ export const clearLocalStorage = (): void => {
   const keys = Object.keys(localStorage);
   keys.forEach(key => {
     if (key.startsWith('myday-') || key.startsWith('routine-ruby-')) {
-      if (key !== USER_SETTINGS_KEY && key !== ONBOARDING_KEY) {
+      // Legacy acknowledgments are removed by their migration once moved to the backend
+      if (key !== USER_SETTINGS_KEY && key !== ONBOARDING_KEY && key !== STORAGE_MODE_KEY && key !== UNLOCKED_TASKS_KEY && key !== LAST_VISIT_KEY && key !== LEGACY_EVENT_ACK_KEY) {
         localStorage.removeItem(key);
       }
     }
@@ -1457,381 +1096,351 @@ export const importSampleEvents = async (replace: boolean = false): Promise<bool
 
 export const importSampleItems = async (replace: boolean = false): Promise<boolean> => {
   try {
-    const { client, userId } = await requireAuth();
-    
     if (replace) {
       // Delete all existing items
-      const { error: deleteError } = await client
-        .from('myday_items')
-        .delete()
-        .eq('user_id', userId);
-      
-      if (deleteError) {
-        console.error('Error deleting existing items:', deleteError);
-        return false;
+      const existingItems = await getItems();
+      for (const item of existingItems) {
+        await deleteItem(item.id);
       }
     }
     
-    const now = new Date();
-    const sampleItems = [
+    const now = getTodayDate();
+    const sampleItems: Item[] = [
       // Gift Cards (5 items)
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Amazon Gift Card',
         description: 'Received as birthday gift',
         category: 'Gift Card',
         tags: [],
-        expiration_date: null,
+        expirationDate: undefined,
         value: 50.00,
         currency: 'USD',
         merchant: 'Amazon',
-        account_number: '****1234',
-        auto_renew: false,
-        notify_days_before: 0,
+        accountNumber: '****1234',
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 7,
         color: '#ff9900',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Starbucks Gift Card',
         description: 'Coffee fund',
         category: 'Gift Card',
         tags: [],
-        expiration_date: null,
+        expirationDate: undefined,
         value: 25.00,
         currency: 'USD',
         merchant: 'Starbucks',
-        account_number: '****5678',
-        auto_renew: false,
-        notify_days_before: 0,
+        accountNumber: '****5678',
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 5,
         color: '#00704a',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Target Gift Card',
         description: 'For household items',
         category: 'Gift Card',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 1, 11, 31).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 1, 11, 31)),
         value: 100.00,
         currency: 'USD',
         merchant: 'Target',
-        account_number: '****9012',
-        auto_renew: false,
-        notify_days_before: 30,
+        accountNumber: '****9012',
+        autoRenew: false,
+        notifyDaysBefore: 30,
         priority: 6,
         color: '#cc0000',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Apple Store Gift Card',
         description: 'For accessories',
         category: 'Gift Card',
         tags: [],
-        expiration_date: null,
+        expirationDate: undefined,
         value: 75.00,
         currency: 'USD',
         merchant: 'Apple',
-        account_number: '****3456',
-        auto_renew: false,
-        notify_days_before: 0,
+        accountNumber: '****3456',
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 8,
         color: '#000000',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Restaurant Gift Card',
         description: 'Local Italian restaurant',
         category: 'Gift Card',
         tags: [],
-        expiration_date: new Date(now.getFullYear(), now.getMonth() + 6, now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear(), now.getMonth() + 6, now.getDate())),
         value: 40.00,
         currency: 'USD',
         merchant: 'Bella Italia',
-        account_number: null,
-        auto_renew: false,
-        notify_days_before: 14,
+        accountNumber: undefined,
+        autoRenew: false,
+        notifyDaysBefore: 14,
         priority: 5,
         color: '#8b4513',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       
       // Subscriptions (5 items)
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Netflix Subscription',
         description: 'Monthly streaming service',
         category: 'Subscription',
         tags: [],
-        expiration_date: new Date(now.getFullYear(), now.getMonth() + 1, now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear(), now.getMonth() + 1, now.getDate())),
         value: 15.99,
         currency: 'USD',
         merchant: 'Netflix',
-        account_number: 'user@example.com',
-        auto_renew: true,
-        notify_days_before: 3,
+        accountNumber: 'user@example.com',
+        autoRenew: true,
+        notifyDaysBefore: 3,
         priority: 8,
         color: '#e50914',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Spotify Premium',
         description: 'Music streaming',
         category: 'Subscription',
         tags: [],
-        expiration_date: new Date(now.getFullYear(), now.getMonth() + 1, now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear(), now.getMonth() + 1, now.getDate())),
         value: 9.99,
         currency: 'USD',
         merchant: 'Spotify',
-        account_number: 'premium@example.com',
-        auto_renew: true,
-        notify_days_before: 3,
+        accountNumber: 'premium@example.com',
+        autoRenew: true,
+        notifyDaysBefore: 3,
         priority: 7,
         color: '#1db954',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Adobe Creative Cloud',
         description: 'Annual subscription',
         category: 'Subscription',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 1, now.getMonth(), now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 1, now.getMonth(), now.getDate())),
         value: 599.88,
         currency: 'USD',
         merchant: 'Adobe',
-        account_number: 'creative@example.com',
-        auto_renew: true,
-        notify_days_before: 30,
+        accountNumber: 'creative@example.com',
+        autoRenew: true,
+        notifyDaysBefore: 30,
         priority: 9,
         color: '#ff0000',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Gym Membership',
         description: 'Monthly fitness center',
         category: 'Subscription',
         tags: [],
-        expiration_date: new Date(now.getFullYear(), now.getMonth() + 1, now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear(), now.getMonth() + 1, now.getDate())),
         value: 49.99,
         currency: 'USD',
         merchant: 'FitLife Gym',
-        account_number: 'MEMBER-12345',
-        auto_renew: true,
-        notify_days_before: 7,
+        accountNumber: 'MEMBER-12345',
+        autoRenew: true,
+        notifyDaysBefore: 7,
         priority: 6,
         color: '#0066cc',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Microsoft 365',
         description: 'Office suite subscription',
         category: 'Subscription',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 1, now.getMonth(), now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 1, now.getMonth(), now.getDate())),
         value: 99.99,
         currency: 'USD',
         merchant: 'Microsoft',
-        account_number: 'office@example.com',
-        auto_renew: true,
-        notify_days_before: 30,
+        accountNumber: 'office@example.com',
+        autoRenew: true,
+        notifyDaysBefore: 30,
         priority: 8,
         color: '#0078d4',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       
       // Warranties (4 items)
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'iPhone 15 Pro Warranty',
         description: 'AppleCare+ coverage',
         category: 'Warranty',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 2, now.getMonth(), now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 2, now.getMonth(), now.getDate())),
         value: 1299.00,
         currency: 'USD',
         merchant: 'Apple',
-        account_number: 'SN-ABC123XYZ',
-        auto_renew: false,
-        notify_days_before: 60,
+        accountNumber: 'SN-ABC123XYZ',
+        autoRenew: false,
+        notifyDaysBefore: 60,
         priority: 9,
         color: '#000000',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Laptop Warranty',
         description: 'Extended warranty for Dell XPS',
         category: 'Warranty',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 1, now.getMonth() + 6, now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 1, now.getMonth() + 6, now.getDate())),
         value: 1499.99,
         currency: 'USD',
         merchant: 'Dell',
-        account_number: 'SVC-789456',
-        auto_renew: false,
-        notify_days_before: 90,
+        accountNumber: 'SVC-789456',
+        autoRenew: false,
+        notifyDaysBefore: 90,
         priority: 8,
         color: '#007db8',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Refrigerator Warranty',
         description: 'Home appliance warranty',
         category: 'Warranty',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 4, now.getMonth(), now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 4, now.getMonth(), now.getDate())),
         value: 899.00,
         currency: 'USD',
         merchant: 'Samsung',
-        account_number: 'MOD-2024-001',
-        auto_renew: false,
-        notify_days_before: 180,
+        accountNumber: 'MOD-2024-001',
+        autoRenew: false,
+        notifyDaysBefore: 180,
         priority: 6,
         color: '#1428a0',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Car Extended Warranty',
         description: 'Vehicle service contract',
         category: 'Warranty',
         tags: [],
-        expiration_date: new Date(now.getFullYear() + 3, now.getMonth(), now.getDate()).toISOString().split('T')[0],
+        expirationDate: getTodayString(new Date(now.getFullYear() + 3, now.getMonth(), now.getDate())),
         value: 25000.00,
         currency: 'USD',
         merchant: 'AutoCare Plus',
-        account_number: 'VIN-123456789',
-        auto_renew: false,
-        notify_days_before: 90,
+        accountNumber: 'VIN-123456789',
+        autoRenew: false,
+        notifyDaysBefore: 90,
         priority: 10,
         color: '#ff6600',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       
       // Notes (4 items)
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'WiFi Password',
         description: 'Home network: MyNetwork2024!',
         category: 'Note',
         tags: [],
-        expiration_date: null,
-        value: null,
-        currency: null,
-        merchant: null,
-        account_number: null,
-        auto_renew: false,
-        notify_days_before: 0,
+        expirationDate: undefined,
+        value: undefined,
+        currency: undefined,
+        merchant: undefined,
+        accountNumber: undefined,
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 7,
         color: '#6366f1',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Insurance Policy Numbers',
         description: 'Health: POL-123456\nAuto: POL-789012\nHome: POL-345678',
         category: 'Note',
         tags: [],
-        expiration_date: null,
-        value: null,
-        currency: null,
-        merchant: null,
-        account_number: null,
-        auto_renew: false,
-        notify_days_before: 0,
+        expirationDate: undefined,
+        value: undefined,
+        currency: undefined,
+        merchant: undefined,
+        accountNumber: undefined,
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 9,
         color: '#059669',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Emergency Contacts',
         description: 'Doctor: Dr. Smith - 555-0101\nVet: Animal Hospital - 555-0202\nPlumber: Fix-It Now - 555-0303',
         category: 'Note',
         tags: [],
-        expiration_date: null,
-        value: null,
-        currency: null,
-        merchant: null,
-        account_number: null,
-        auto_renew: false,
-        notify_days_before: 0,
+        expirationDate: undefined,
+        value: undefined,
+        currency: undefined,
+        merchant: undefined,
+        accountNumber: undefined,
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 10,
         color: '#dc2626',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       },
       {
         id: generateUUID(),
-        user_id: userId,
         name: 'Important Account Numbers',
         description: 'Bank Account: ****5678\nCredit Card: ****9012\nSSN: ***-**-1234',
         category: 'Note',
         tags: [],
-        expiration_date: null,
-        value: null,
-        currency: null,
-        merchant: null,
-        account_number: null,
-        auto_renew: false,
-        notify_days_before: 0,
+        expirationDate: undefined,
+        value: undefined,
+        currency: undefined,
+        merchant: undefined,
+        accountNumber: undefined,
+        autoRenew: false,
+        notifyDaysBefore: 0,
         priority: 8,
         color: '#7c3aed',
-        created_at: now.toISOString(),
-        updated_at: now.toISOString()
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
       }
     ];
     
-    const { error } = await client
-      .from('myday_items')
-      .insert(sampleItems);
-    
-    if (error) {
-      console.error('Error importing sample items:', error);
-      return false;
+    for (const item of sampleItems) {
+      await addItem(item);
     }
     
     return true;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CompletionStatus, Task, TaskCompletion, Vacation } from './types';
+import { getDayStreakEffect, getStreaks, isPerfectDay } from './streaks';
+
+// 2024-01-01 is a Monday
+const makeTask = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  name: id,
+  weightage: 5,
+  frequency: 'daily',
+  startDate: '2024-01-01',
+  createdAt: '2024-01-01T08:00:00.000Z',
+  ...changes
+});
+
+const tasks = [makeTask('run'), makeTask('read')];
+
+const row = (taskId: string, date: string, status?: CompletionStatus): TaskCompletion => ({
+  taskId,
+  date,
+  completedAt: `${date}T09:00:00.000Z`,
+  status
+});
+
+const both = (date: string, status?: CompletionStatus) => [row('run', date), row('read', date, status)];
+
+const vacations: Vacation[] = [
+  { id: 'vacation-1', startDate: '2024-01-04', endDate: '2024-01-05', createdAt: '2024-01-01T00:00:00.000Z' }
+];
+
+describe('getDayStreakEffect', () => {
+  it.each([
+    ['every task done', both('2024-01-02'), 'extend'],
+    ['a skipped task', both('2024-01-02', 'skipped'), 'extend'],
+    ['an excused task', [row('run', '2024-01-02', 'excused'), row('read', '2024-01-02', 'skipped')], 'keep'],
+    ['a missed task', [row('run', '2024-01-02')], 'break']
+  ] as const)('%s', (_, completions, expected) => {
+    expect(getDayStreakEffect(tasks, '2024-01-02', [...completions])).toBe(expected);
+  });
+
+  it('passes over vacation days', () => {
+    expect(getDayStreakEffect(tasks, '2024-01-04', [], vacations)).toBeNull();
+  });
+});
+
+describe('isPerfectDay', () => {
+  it.each([
+    ['every task done', both('2024-01-02'), true],
+    ['a skipped task', both('2024-01-02', 'skipped'), false],
+    ['an excused task', both('2024-01-02', 'excused'), true],
+    ['a missed task', [row('run', '2024-01-02')], false]
+  ] as const)('%s', (_, completions, expected) => {
+    expect(isPerfectDay(tasks, '2024-01-02', [...completions])).toBe(expected);
+  });
+});
+
+describe('getStreaks', () => {
+  it('keeps the streak over skipped and vacation days without extending it', () => {
+    const completions = [
+      ...both('2024-01-01'),
+      ...both('2024-01-02', 'skipped'),
+      row('run', '2024-01-03', 'skipped'),
+      row('read', '2024-01-03', 'excused'),
+      ...both('2024-01-06')
+    ];
+    expect(getStreaks(tasks, completions, vacations, '2024-01-06')).toEqual({ currentStreak: 3, longestStreak: 3, perfectDays: 2 });
+  });
+
+  it('breaks on a missed day but not on an unfinished today', () => {
+    const completions = [...both('2024-01-01'), ...both('2024-01-02'), ...both('2024-01-04'), row('run', '2024-01-05')];
+    expect(getStreaks(tasks, completions, [], '2024-01-05')).toEqual({ currentStreak: 1, longestStreak: 2, perfectDays: 3 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Overall Streaks
+ *
+ * Day-by-day streaks across all tasks, following the rules in taskProgress.ts:
+ * a day with every scheduled task done extends the streak, partial, skipped
+ * and excused tasks keep it, and a scheduled task with nothing recorded
+ * breaks it. Days with nothing scheduled (vacations, holds, rest days) are
+ * passed over. Count-based tasks have no fixed days, so they don't count.
+ */
+
+import { Task, TaskCompletion, Vacation } from './types';
+import { occursOn } from './recurrence';
+import { getCompletionScore, getStreakEffect } from './taskProgress';
+import { addDays } from './dateMath';
+
+// How far back streaks and perfect days are counted
+const MAX_STREAK_DAYS = 365;
+
+const getScheduledTasks = (tasks: Task[], date: string, completions: TaskCompletion[], vacations: Vacation[]): Task[] => {
+  return tasks.filter(task => task.frequency !== 'count-based' && occursOn(task, date, vacations, completions));
+};
+
+/**
+ * A day's effect on the overall streak, or null when nothing was scheduled
+ */
+export const getDayStreakEffect = (
+  tasks: Task[],
+  date: string,
+  completions: TaskCompletion[],
+  vacations: Vacation[] = []
+): 'extend' | 'keep' | 'break' | null => {
+  const scheduled = getScheduledTasks(tasks, date, completions, vacations);
+  if (scheduled.length === 0) return null;
+
+  const effects = scheduled.map(task => getStreakEffect(completions.find(c => c.taskId === task.id && c.date === date)));
+  if (effects.includes('break')) return 'break';
+  return effects.includes('extend') ? 'extend' : 'keep';
+};
+
+// Every scheduled task got full credit; excused tasks aren't counted
+export const isPerfectDay = (tasks: Task[], date: string, completions: TaskCompletion[], vacations: Vacation[] = []): boolean => {
+  const scheduled = getScheduledTasks(tasks, date, completions, vacations);
+  const scores = scheduled.map(task => getCompletionScore(task.id, [date], completions));
+  const counted = scores.reduce((sum, s) => sum + s.counted, 0);
+  const credit = scores.reduce((sum, s) => sum + s.credit, 0);
+  return counted > 0 && credit === counted;
+};
+
+/**
+ * Current and longest streak and perfect days up to `today`, from the first
+ * recorded day (at most MAX_STREAK_DAYS back). Today can't break the current
+ * streak while it's still going.
+ */
+export const getStreaks = (
+  tasks: Task[],
+  completions: TaskCompletion[],
+  vacations: Vacation[],
+  today: string
+): { currentStreak: number; longestStreak: number; perfectDays: number } => {
+  const firstRecorded = completions.reduce<string | null>((first, c) => !first || c.date < first ? c.date : first, null);
+  const earliest = addDays(today, -MAX_STREAK_DAYS);
+  if (!firstRecorded || firstRecorded > today) return { currentStreak: 0, longestStreak: 0, perfectDays: 0 };
+
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let perfectDays = 0;
+
+  for (let date = firstRecorded > earliest ? firstRecorded : earliest; date <= today; date = addDays(date, 1)) {
+    const effect = getDayStreakEffect(tasks, date, completions, vacations);
+    if (effect === 'break' && date !== today) {
+      currentStreak = 0;
+    } else if (effect === 'extend') {
+      currentStreak++;
+    }
+    longestStreak = Math.max(longestStreak, currentStreak);
+    if (isPerfectDay(tasks, date, completions, vacations)) perfectDays++;
+  }
+
+  return { currentStreak, longestStreak, perfectDays };
+};
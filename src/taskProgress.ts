@@ -0,0 +1,130 @@
+/**
+ * Task Progress
+ *
+ * How a day's completion row counts. Tasks with a targetValue ("8 glasses of
+ * water", "3 sets of pushups") are logged in steps and are partial until the
+ * target that applied that day is reached. Tasks with a checklist are partial
+ * until every item is ticked (then done, if autoCompleteChecklist is on, or
+ * once the task is completed). Any task can also be marked partial, skipped
+ * or excused:
+ *
+ *   status    streak   missed   completion rate
+ *   done      extends  no       full credit
+ *   partial   kept     no       part credit (share of target, otherwise half)
+ *   skipped   kept     no       no credit
+ *   excused   kept     no       day not counted
+ *   (none)    broken   yes      no credit
+ */
+
+import { Task, TaskCompletion, CompletionStatus } from './types';
+
+export const COMPLETION_STATUS_INFO: Record<CompletionStatus, { label: string; icon: string }> = {
+  done: { label: 'Done', icon: '✅' },
+  partial: { label: 'Partial', icon: '◐' },
+  skipped: { label: 'Skipped', icon: '⏭️' },
+  excused: { label: 'Excused', icon: '🛌' }
+};
+
+export const isQuantitative = (task: Task): boolean => {
+  return !!task.targetValue && task.targetValue > 0;
+};
+
+export const hasChecklist = (task: Task): boolean => {
+  return !!task.checklist && task.checklist.length > 0;
+};
+
+// Items ticked on a day's row, in checklist order; items since removed are ignored
+export const getCheckedItemIds = (task: Task, completion?: TaskCompletion): string[] => {
+  const checked = completion?.checkedItemIds || [];
+  return (task.checklist || []).map(item => item.id).filter(id => checked.includes(id));
+};
+
+export const getChecklistProgress = (task: Task, date: string, completions: TaskCompletion[]): { checked: number; total: number } => {
+  const completion = completions.find(c => c.taskId === task.id && c.date === date);
+  return { checked: getCheckedItemIds(task, completion).length, total: task.checklist?.length || 0 };
+};
+
+export const getCompletionStatus = (completion: TaskCompletion): CompletionStatus => {
+  if (completion.status) return completion.status;
+  return completion.targetValue && (completion.value || 0) < completion.targetValue ? 'partial' : 'done';
+};
+
+export const isCompletionDone = (completion: TaskCompletion): boolean => {
+  return getCompletionStatus(completion) === 'done';
+};
+
+// Only a day with nothing recorded breaks a streak; only a done day extends it
+export const getStreakEffect = (completion?: TaskCompletion): 'extend' | 'keep' | 'break' => {
+  if (!completion) return 'break';
+  return isCompletionDone(completion) ? 'extend' : 'keep';
+};
+
+// Share of a day's credit towards the completion rate (0-1)
+export const getCompletionCredit = (completion?: TaskCompletion): number => {
+  if (!completion) return 0;
+  switch (getCompletionStatus(completion)) {
+    case 'done':
+      return 1;
+    case 'partial':
+      return completion.targetValue ? Math.min(1, (completion.value || 0) / completion.targetValue) : 0.5;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Credit earned over the dates a task was due. Excused days are left out of
+ * `counted`; partial days earn part of a day's credit.
+ */
+export const getCompletionScore = (taskId: string, dates: string[], completions: TaskCompletion[]): { counted: number; credit: number } => {
+  const records = dates
+    .map(date => completions.find(c => c.taskId === taskId && c.date === date))
+    .filter(c => !c || getCompletionStatus(c) !== 'excused');
+
+  return {
+    counted: records.length,
+    credit: records.reduce((sum, c) => sum + getCompletionCredit(c), 0)
+  };
+};
+
+/**
+ * Amount a completion stands for. Done rows logged before a target existed
+ * count as the full target; partial, skipped and excused rows only count what
+ * was actually logged.
+ */
+export const getCompletionValue = (completion: TaskCompletion, task: Task): number => {
+  if (completion.status) return completion.value ?? 0;
+  return completion.value ?? (task.targetValue || 1);
+};
+
+// Amount logged for a task on a date (0 if nothing logged)
+export const getLoggedValue = (task: Task, date: string, completions: TaskCompletion[]): number => {
+  const completion = completions.find(c => c.taskId === task.id && c.date === date);
+  return completion ? getCompletionValue(completion, task) : 0;
+};
+
+export const formatQuantity = (value: number, task: Task): string => {
+  return task.unit ? `${value} ${task.unit}` : String(value);
+};
+
+/**
+ * Totals for a quantitative task over a set of dates
+ */
+export const getQuantityStats = (
+  task: Task,
+  completions: TaskCompletion[],
+  dates: string[]
+): { total: number; loggedDays: number; average: number; best: number } => {
+  const values = completions
+    .filter(c => c.taskId === task.id && dates.includes(c.date))
+    .map(c => getCompletionValue(c, task))
+    .filter(value => value > 0); // Skipped and excused days log nothing
+  const total = values.reduce((sum, v) => sum + v, 0);
+
+  return {
+    total,
+    loggedDays: values.length,
+    average: values.length > 0 ? Math.round((total / values.length) * 10) / 10 : 0,
+    best: values.length > 0 ? Math.max(...values) : 0
+  };
+};
@@ -1,4 +1,4 @@
-export type FrequencyType = 'daily' | 'weekly' | 'monthly' | 'custom' | 'count-based' | 'interval';
+export type FrequencyType = 'daily' | 'weekly' | 'monthly' | 'custom' | 'count-based' | 'interval' | 'rrule';
 export type IntervalUnit = 'days' | 'weeks' | 'months' | 'years';
 
 export interface Tag {
@@ -26,28 +26,59 @@ export interface Task {
   intervalValue?: number; // e.g., 47 for "every 47 days"
   intervalUnit?: IntervalUnit; // 'days' | 'weeks' | 'months' | 'years'
   intervalStartDate?: string; // YYYY-MM-DD - reference date for interval calculation
+  repeatAfterCompletion?: boolean; // Interval counts from the latest completion instead of intervalStartDate
+  rrule?: string; // RFC 5545 rule, e.g. "FREQ=MONTHLY;BYDAY=-1FR" (for 'rrule'); startDate is its DTSTART
+  exDates?: string[]; // YYYY-MM-DD dates skipped by the rrule (EXDATE)
   timeOfDay?: 'morning' | 'afternoon' | 'evening' | 'anytime'; // Time component for routines
   startDate?: string; // YYYY-MM-DD - task won't appear before this date
   endDate?: string; // YYYY-MM-DD - task won't appear after this date
   specificDate?: string; // YYYY-MM-DD - for one-time tasks (when frequency is 'custom')
+  deadline?: string; // YYYY-MM-DD - hard deadline for one-time tasks, separate from the scheduled specificDate
   color?: string;
   customBackgroundColor?: string; // User-defined background color for the card
   dependentTaskIds?: string[]; // Task IDs that when completed, will auto-complete this task
+  prerequisiteTaskIds?: string[]; // Task IDs that must be done first the same day - this task stays locked until then
   onHold?: boolean; // If true, task is paused
   holdStartDate?: string; // YYYY-MM-DD - when hold started
   holdEndDate?: string; // YYYY-MM-DD - when hold will automatically end (optional)
   holdReason?: string; // Optional reason for holding
+  holdHistory?: HoldPeriod[]; // Finished holds - those days still don't count as missed
   endTime?: string; // HH:mm - scheduled end time for task (for timer countdown to end time)
+  targetValue?: number; // e.g., 8 for "8 glasses of water" - logged in steps, done once reached
+  unit?: string; // e.g., "glasses", "sets" (for targetValue)
+  checklist?: ChecklistItem[]; // Ordered subtasks, checked off day by day
+  autoCompleteChecklist?: boolean; // Checking the last item completes the task
   order?: number; // For custom ordering
   createdAt: string;
 }
 
+export interface ChecklistItem {
+  id: string;
+  title: string;
+}
+
+export interface HoldPeriod {
+  startDate?: string; // YYYY-MM-DD - first day on hold (missing = open-ended, as the hold was set)
+  endDate: string; // YYYY-MM-DD - last day on hold
+  reason?: string;
+  resumedOn: string; // YYYY-MM-DD - when the hold was cleared
+}
+
+// How a scheduled day went. A day with no completion at all is a miss.
+export type CompletionStatus = 'done' | 'partial' | 'skipped' | 'excused';
+
 export interface TaskCompletion {
   taskId: string;
   date: string; // YYYY-MM-DD
   completedAt: string; // ISO timestamp
   durationMinutes?: number; // Optional: how long the task took
   startedAt?: string; // Optional: ISO timestamp when task was started
+  value?: number; // Amount logged that day (tasks with a targetValue)
+  targetValue?: number; // Task's target when logged - the completion is done once value reaches it
+  status?: CompletionStatus; // Unset means done (or partial while value is below targetValue)
+  reason?: string; // Optional note for partial, skipped and excused days
+  checkedItemIds?: string[]; // Checklist items ticked that day
+  autoCompleted?: boolean; // Created by completing a task this one depends on, not by the user
 }
 
 export interface TaskSpillover {
@@ -57,25 +88,49 @@ export interface TaskSpillover {
   movedAt: string; // ISO timestamp
 }
 
+// Scheduled break: affected tasks pause from startDate through endDate and resume on their own
+export interface Vacation {
+  id: string;
+  name?: string; // e.g., "Beach trip"
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD (inclusive)
+  taskIds?: string[]; // Tasks paused; with tagIds, tasks matching either. Neither = all tasks
+  tagIds?: string[]; // Tasks with any of these tags are paused
+  createdAt: string;
+}
+
 export type EventFrequencyType = 'yearly' | 'one-time' | 'custom';
 
+// Non-Gregorian calendars a yearly event can follow
+export type CalendarSystem = 'chinese' | 'hebrew' | 'hindu';
+
 export interface Event {
   id: string;
   name: string;
   description?: string;
   category?: string; // e.g., "Birthday", "Anniversary", "Holiday", etc.
   tags?: string[]; // Array of tag IDs
-  date: string; // MM-DD format for yearly, YYYY-MM-DD for one-time
+  date: string; // MM-DD format for yearly (in calendarSystem if set), YYYY-MM-DD for one-time
   frequency: EventFrequencyType;
   customFrequency?: string; // e.g., "every 5 years"
+  calendarSystem?: CalendarSystem | null; // Yearly events on a lunar date; MM-DD is in that calendar (Hindu DD is the tithi, 1-30). null = Gregorian
+  isLeapMonth?: boolean; // Lunar leap month (Hebrew: Adar I), used in years that have one
   year?: number; // For one-time events or tracking age/years
   notifyDaysBefore?: number; // Show on dashboard N days before (default 0 = day of)
   priority?: number; // 1-10, controls display size on dashboard (default 5)
   hideFromDashboard?: boolean; // If true, event won't show on Today dashboard
   color?: string;
+  sourceUid?: string; // UID of the calendar entry it was imported from, so re-imports update it
   createdAt: string;
 }
 
+export interface EventReminder {
+  eventId: string;
+  reminderDate: string; // YYYY-MM-DD the reminder shows on (older yearly rows used MM-DD)
+  daysUntilEvent: number;
+  frequency: EventFrequencyType;
+}
+
 export interface JournalEntry {
   id: string;
   date: string; // YYYY-MM-DD
@@ -92,6 +147,7 @@ export interface UserSettings {
   dashboardLayout: DashboardLayout;
   theme?: string;
   notifications?: boolean;
+  timeZone?: string; // IANA zone, e.g. "America/Denver" - days start and end here. Unset = follow the device
   location?: {
     zipCode?: string;
     city?: string;
@@ -142,6 +198,7 @@ export interface AppData {
   tasks: Task[];
   completions: TaskCompletion[];
   spillovers: TaskSpillover[];
+  vacations: Vacation[];
   events: Event[];
   eventAcknowledgments: EventAcknowledgment[];
   tags: Tag[];
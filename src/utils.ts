@@ -1,4 +1,6 @@
 import { Task } from './types';
+import { occursOn } from './recurrence';
+import { getToday } from './dateService';
 
 export const formatDate = (date: Date): string => {
   const year = date.getFullYear();
@@ -7,132 +9,14 @@ export const formatDate = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
+// Today in the user's time zone; a given Date is formatted by its calendar fields
 export const getTodayString = (date?: Date): string => {
-  return formatDate(date || new Date());
+  return date ? formatDate(date) : getToday();
 };
 
+// Frequency rules live in the recurrence engine
 export const shouldTaskShowToday = (task: Task): boolean => {
-  const today = new Date();
-  const todayStr = getTodayString();
-  const dayOfWeek = today.getDay(); // 0-6
-  const dayOfMonth = today.getDate(); // 1-31
-
-  // Check if task is on hold
-  if (task.onHold) {
-    // Check if hold should automatically end
-    if (task.holdEndDate && todayStr > task.holdEndDate) {
-      // Hold period has ended, task should show (need to update task status)
-      return true;
-    }
-    // Task is on hold and hold hasn't ended
-    return false;
-  }
-
-  // Check start date - task shouldn't appear before this date
-  if (task.startDate && todayStr < task.startDate) {
-    return false;
-  }
-
-  // Check end date - task shouldn't appear after this date
-  if (task.endDate && todayStr > task.endDate) {
-    return false;
-  }
-
-  // Check specific date - for one-time tasks
-  if (task.specificDate) {
-    return todayStr === task.specificDate;
-  }
-
-  // Now check frequency-based logic
-  switch (task.frequency) {
-    case 'daily':
-      return true;
-    
-    case 'weekly':
-      if (task.daysOfWeek && task.daysOfWeek.length > 0) {
-        return task.daysOfWeek.includes(dayOfWeek);
-      }
-      return false;
-    
-    case 'monthly':
-      if (task.dayOfMonth) {
-        return dayOfMonth === task.dayOfMonth;
-      }
-      return false;
-    
-    case 'count-based':
-      // Count-based tasks always show until the count is met for the period
-      return true;
-    
-    case 'custom':
-      // For custom frequency, we'll check if it matches today
-      if (task.customFrequency) {
-        // Simple parsing for "1st of every month", "15th of every month", etc.
-        const monthMatch = task.customFrequency.match(/(\d+)(st|nd|rd|th)\s+of\s+every\s+month/i);
-        if (monthMatch) {
-          const day = parseInt(monthMatch[1]);
-          return dayOfMonth === day;
-        }
-        // Add more custom frequency patterns as needed
-      }
-      return false;
-    
-    case 'interval':
-      // Check if task should show based on interval
-      if (!task.intervalValue || !task.intervalUnit || !task.intervalStartDate) {
-        return false;
-      }
-      
-      const startDate = new Date(task.intervalStartDate);
-      const currentDate = new Date(todayStr);
-      
-      // Calculate the difference in the appropriate unit
-      const diffInMs = currentDate.getTime() - startDate.getTime();
-      const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
-      
-      let shouldShow = false;
-      
-      switch (task.intervalUnit) {
-        case 'days':
-          shouldShow = diffInDays >= 0 && diffInDays % task.intervalValue === 0;
-          break;
-          
-        case 'weeks':
-          const diffInWeeks = Math.floor(diffInDays / 7);
-          shouldShow = diffInDays >= 0 && diffInWeeks % task.intervalValue === 0 && (diffInDays % 7 === 0);
-          break;
-          
-        case 'months':
-          // Calculate month difference
-          const startMonth = startDate.getMonth();
-          const startYear = startDate.getFullYear();
-          const currentMonth = currentDate.getMonth();
-          const currentYear = currentDate.getFullYear();
-          const monthsDiff = (currentYear - startYear) * 12 + (currentMonth - startMonth);
-          
-          // Check if it's the same day of month and the month interval matches
-          shouldShow = currentDate.getDate() === startDate.getDate() && 
-                       monthsDiff >= 0 && 
-                       monthsDiff % task.intervalValue === 0;
-          break;
-          
-        case 'years':
-          // Calculate year difference
-          const yearsDiff = currentDate.getFullYear() - startDate.getFullYear();
-          
-          // Check if it's the same day and month, and the year interval matches
-          shouldShow = currentDate.getDate() === startDate.getDate() &&
-                       currentDate.getMonth() === startDate.getMonth() &&
-                       yearsDiff >= 0 &&
-                       yearsDiff % task.intervalValue === 0;
-          break;
-      }
-      
-      return shouldShow;
-    
-    default:
-      return false;
-  }
+  return occursOn(task, getTodayString());
 };
 
 export const getWeekBounds = (date: Date): { start: string; end: string } => {
@@ -175,6 +59,15 @@ export const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
+// Generate a valid UUID v4
+export const generateUUID = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+};
+
 export const getColorForTask = (index: number): string => {
   const colors = [
     '#3B82F6', // blue
@@ -5,12 +5,7 @@
  */
 
 import { Task } from '../types';
-
-// Helper to get today's date in YYYY-MM-DD format
-const getTodayString = (): string => {
-  const today = new Date();
-  return today.toISOString().split('T')[0];
-};
+import { getTodayString } from '../utils';
 
 export const loadSampleTasks = (): Task[] => {
   const today = getTodayString();
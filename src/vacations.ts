@@ -0,0 +1,32 @@
+/**
+ * Vacations
+ *
+ * A vacation pauses the tasks it covers from its start date through its end
+ * date. Paused days aren't scheduled, so they don't show on the dashboard and
+ * don't count against streaks, heatmaps or completion rates. Tasks resume by
+ * themselves once the vacation is over.
+ */
+
+import { Task, Vacation } from './types';
+
+// No task or tag selection means the vacation covers every task
+export const vacationAppliesTo = (vacation: Vacation, task: Task): boolean => {
+  const taskIds = vacation.taskIds || [];
+  const tagIds = vacation.tagIds || [];
+  if (taskIds.length === 0 && tagIds.length === 0) return true;
+
+  return taskIds.includes(task.id) || (task.tags || []).some(tagId => tagIds.includes(tagId));
+};
+
+export const isVacationActiveOn = (vacation: Vacation, date: string): boolean => {
+  return date >= vacation.startDate && date <= vacation.endDate;
+};
+
+// The vacation pausing a task on a date, if any
+export const getVacationFor = (task: Task, date: string, vacations: Vacation[]): Vacation | undefined => {
+  return vacations.find(v => isVacationActiveOn(v, date) && vacationAppliesTo(v, task));
+};
+
+export const isOnVacation = (task: Task, date: string, vacations: Vacation[]): boolean => {
+  return !!getVacationFor(task, date, vacations);
+};
@@ -0,0 +1,108 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { convertVCardsToEvents, importFromVCard, parseVCards } from './vcardParser';
+
+// Trimmed real exports, with CRLF line endings and folded lines as written by each app
+const readFixture = (name: string): string => {
+  return readFileSync(new URL(`./__fixtures__/vcard/${name}`, import.meta.url), 'utf8');
+};
+
+const summarize = (events: Awaited<ReturnType<typeof importFromVCard>>) => events.map(event => ({
+  name: event.name,
+  category: event.category,
+  date: event.date,
+  year: event.year,
+  sourceUid: event.sourceUid
+}));
+
+describe('Apple Contacts export (vCard 3.0)', () => {
+  const content = readFixture('apple.vcf');
+
+  it('reads labelled X-ABDATE anniversaries and skips other labels', () => {
+    expect(parseVCards(content)).toEqual([
+      {
+        name: 'Chidi Okafor',
+        uid: '6A0C1F2E-3B4D-4E5F-8A9B-0C1D2E3F4A5B',
+        dates: [
+          { kind: 'birthday', monthDay: '03-17', year: 1988 },
+          { kind: 'anniversary', monthDay: '09-10', year: 2016 }
+        ]
+      },
+      // Placeholder year 1604; a custom label that mentions an anniversary
+      {
+        name: 'Dr. Ana Lucía Martínez, MD',
+        uid: '7B1D2F3A-4C5E-4F60-9B0C-1D2E3F4A5B6C',
+        dates: [
+          { kind: 'birthday', monthDay: '11-02' },
+          { kind: 'anniversary', monthDay: '06-14' }
+        ]
+      }
+    ]);
+  });
+
+  it('converts contacts', async () => {
+    expect(summarize(await importFromVCard(content))).toEqual([
+      { name: "Chidi Okafor's Birthday", category: 'Birthday', date: '03-17', year: 1988, sourceUid: '6A0C1F2E-3B4D-4E5F-8A9B-0C1D2E3F4A5B#birthday' },
+      { name: "Chidi Okafor's Anniversary", category: 'Anniversary', date: '09-10', year: 2016, sourceUid: '6A0C1F2E-3B4D-4E5F-8A9B-0C1D2E3F4A5B#anniversary' },
+      { name: "Dr. Ana Lucía Martínez, MD's Birthday", category: 'Birthday', date: '11-02', year: undefined, sourceUid: '7B1D2F3A-4C5E-4F60-9B0C-1D2E3F4A5B6C#birthday' },
+      { name: "Dr. Ana Lucía Martínez, MD's Anniversary", category: 'Anniversary', date: '06-14', year: undefined, sourceUid: '7B1D2F3A-4C5E-4F60-9B0C-1D2E3F4A5B6C#anniversary' }
+    ]);
+  });
+});
+
+describe('Google Contacts export (vCard 3.0)', () => {
+  const content = readFixture('google.vcf');
+
+  it('unfolds and unescapes FN', () => {
+    const [priya] = parseVCards(content);
+    expect(priya.name).toBe('Priya Raghunathan-Venkataraman (college roommate, Chennai; now in Austin)');
+  });
+
+  it('converts contacts', async () => {
+    expect(summarize(await importFromVCard(content))).toEqual([
+      // --MMDD has no year; the X-ABDATE is labelled Graduation
+      { name: "Priya Raghunathan-Venkataraman (college roommate, Chennai; now in Austin)'s Birthday", category: 'Birthday', date: '04-12', year: undefined, sourceUid: undefined },
+      // An empty FN falls back to N
+      { name: "Erik Lindqvist's Birthday", category: 'Birthday', date: '12-24', year: 1961, sourceUid: undefined },
+      { name: "Erik Lindqvist's Anniversary", category: 'Anniversary', date: '07-06', year: 1985, sourceUid: undefined }
+    ]);
+  });
+});
+
+describe('Nextcloud export (vCard 4.0)', () => {
+  const content = readFixture('nextcloud.vcf');
+
+  it('converts contacts', async () => {
+    expect(summarize(await importFromVCard(content))).toEqual([
+      { name: "Jamal O'Neil's Birthday", category: 'Birthday', date: '02-28', year: 1979, sourceUid: '2f4c9a1e-7d3b-4e8a-9c61-5b0d8e2f7a13#birthday' },
+      { name: "Jamal O'Neil's Anniversary", category: 'Anniversary', date: '06-11', year: 2005, sourceUid: '2f4c9a1e-7d3b-4e8a-9c61-5b0d8e2f7a13#anniversary' },
+      // --MM-DD and --MMDD
+      { name: "Mei Chen's Birthday", category: 'Birthday', date: '07-04', year: undefined, sourceUid: '9e1b7c3d-2a6f-4b8e-8d05-3c7a1f9e4b26#birthday' },
+      { name: "Mei Chen's Anniversary", category: 'Anniversary', date: '10-03', year: undefined, sourceUid: '9e1b7c3d-2a6f-4b8e-8d05-3c7a1f9e4b26#anniversary' },
+      // Free-text birthdays are skipped; a time after the date is ignored
+      { name: "Sam Doe's Birthday", category: 'Birthday', date: '01-01', year: 2000, sourceUid: 'e7f9a3b5-8c1d-4e2f-b6a7-2d3e4f5a6b7c#birthday' }
+    ]);
+  });
+});
+
+describe('parseVCards', () => {
+  it.each([
+    ['1985-04-12', { monthDay: '04-12', year: 1985 }],
+    ['19850412', { monthDay: '04-12', year: 1985 }],
+    ['--04-12', { monthDay: '04-12' }],
+    ['--0412', { monthDay: '04-12' }],
+    ['1985-04-12T00:00:00', { monthDay: '04-12', year: 1985 }]
+  ])('reads BDAY:%s', (value, expected) => {
+    const [contact] = parseVCards(`BEGIN:VCARD\r\nFN:Sam\r\nBDAY:${value}\r\nEND:VCARD\r\n`);
+    expect(contact.dates).toEqual([{ kind: 'birthday', ...expected }]);
+  });
+
+  it.each(['1985', '--04', '1985-13-01', '1985-04-32', 'April 12'])('skips BDAY:%s', value => {
+    expect(parseVCards(`BEGIN:VCARD\r\nFN:Sam\r\nBDAY:${value}\r\nEND:VCARD\r\n`)).toEqual([]);
+  });
+
+  it('keeps the first date of each kind', () => {
+    const contacts = parseVCards('BEGIN:VCARD\r\nFN:Sam\r\nBDAY:--0412\r\nBDAY:--0501\r\nEND:VCARD\r\n');
+    expect(convertVCardsToEvents(contacts).map(event => event.date)).toEqual(['04-12']);
+  });
+});
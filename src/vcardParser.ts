@@ -0,0 +1,188 @@
+/**
+ * vCard Parser Utility
+ *
+ * Reads contacts exported from phone address books (vCard 3.0 / 4.0, .vcf)
+ * and turns their birthdays and anniversaries into yearly events:
+ * - BDAY and ANNIVERSARY, plus the X-ANNIVERSARY variants of Evolution,
+ *   KAddressBook and Outlook and Apple's labelled X-ABDATE
+ * - Year-less dates (--MM-DD, --MMDD, or Apple's placeholder year 1604) keep
+ *   no year; others record it so the age shows up
+ * - Each event takes the contact's UID (with the kind appended), so importing
+ *   the same address book again updates the events instead of duplicating them
+ */
+
+import { Event } from './types';
+import { parseContentLine, unescapeText, unfoldLines } from './icalParser';
+
+export type VCardDateKind = 'birthday' | 'anniversary';
+
+export interface VCardDate {
+  kind: VCardDateKind;
+  monthDay: string; // MM-DD
+  year?: number; // Absent for year-less dates
+}
+
+export interface VCardContact {
+  name: string;
+  uid?: string;
+  dates: VCardDate[];
+}
+
+// A contact while its lines are read
+interface ContactDraft {
+  fn?: string;
+  n?: string;
+  org?: string;
+  uid?: string;
+  dates: VCardDate[];
+  groupDates: Map<string, Omit<VCardDate, 'kind'>>; // Apple X-ABDATE by group
+  groupLabels: Map<string, string>; // Apple X-ABLabel by group
+}
+
+const DEFAULT_NOTIFY_DAYS = 3;
+
+// Apple writes year-less dates with this year and an X-APPLE-OMIT-YEAR parameter
+const APPLE_OMITTED_YEAR = 1604;
+
+const ANNIVERSARY_PROPERTIES = ['ANNIVERSARY', 'X-ANNIVERSARY', 'X-EVOLUTION-ANNIVERSARY', 'X-MS-ANNIVERSARY'];
+
+const DATE_KIND_INFO: Record<VCardDateKind, { category: string; suffix: string; color: string }> = {
+  birthday: { category: 'Birthday', suffix: "'s Birthday", color: '#EC4899' },
+  anniversary: { category: 'Anniversary', suffix: "'s Anniversary", color: '#EF4444' }
+};
+
+// ===== PARSING =====
+
+/**
+ * A vCard date: 1985-04-12, 19850412, --04-12, --0412, optionally followed by a
+ * time (ignored). Free text (VALUE=text) and dates without a month and day are skipped.
+ */
+const parseVCardDate = (value: string, params: Record<string, string>): Omit<VCardDate, 'kind'> | null => {
+  if (params.VALUE?.toLowerCase() === 'text') return null;
+
+  const match = value.trim().match(/^(\d{4}|--)-?(\d{2})-?(\d{2})(?:T.*)?$/);
+  if (!match) return null;
+
+  const month = parseInt(match[2]);
+  const day = parseInt(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const monthDay = `${match[2]}-${match[3]}`;
+  const year = match[1] === '--' ? undefined : parseInt(match[1]);
+  const omittedYear = params['X-APPLE-OMIT-YEAR'] ? parseInt(params['X-APPLE-OMIT-YEAR']) : undefined;
+  if (!year || year === omittedYear || year === APPLE_OMITTED_YEAR) return { monthDay };
+  return { monthDay, year };
+};
+
+// N is "Family;Given;Additional;Prefix;Suffix"
+const nameFromStructured = (value: string): string => {
+  const [family = '', given = ''] = value.split(';').map(part => unescapeText(part).trim());
+  return [given, family].filter(Boolean).join(' ');
+};
+
+/**
+ * Parse vCard content into contacts that have at least one birthday or anniversary
+ */
+export const parseVCards = (content: string): VCardContact[] => {
+  const contacts: VCardContact[] = [];
+  let current: ContactDraft | null = null;
+
+  for (const line of unfoldLines(content)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+
+    // Apple groups a date with its label: item1.X-ABDATE / item1.X-ABLabel
+    const dot = parsed.name.indexOf('.');
+    const group = dot > 0 ? parsed.name.substring(0, dot) : '';
+    const name = dot > 0 ? parsed.name.substring(dot + 1) : parsed.name;
+    const value = parsed.value;
+
+    if (name === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      current = { dates: [], groupDates: new Map(), groupLabels: new Map() };
+      continue;
+    }
+    if (!current) continue;
+
+    if (name === 'END' && value.trim().toUpperCase() === 'VCARD') {
+      current.groupDates.forEach((date, key) => {
+        if (/anniversary/i.test(current!.groupLabels.get(key) || '')) {
+          current!.dates.push({ kind: 'anniversary', ...date });
+        }
+      });
+
+      const contactName = current.fn || current.n || current.org;
+      if (contactName && current.dates.length > 0) {
+        // One date of each kind per contact
+        const dates = (['birthday', 'anniversary'] as VCardDateKind[])
+          .map(kind => current!.dates.find(date => date.kind === kind))
+          .filter((date): date is VCardDate => !!date);
+        contacts.push({ name: contactName, uid: current.uid, dates });
+      }
+      current = null;
+      continue;
+    }
+
+    switch (name) {
+      case 'FN':
+        current.fn = unescapeText(value).trim() || undefined;
+        break;
+      case 'N':
+        current.n = nameFromStructured(value) || undefined;
+        break;
+      case 'ORG':
+        current.org = unescapeText(value.split(';')[0]).trim() || undefined;
+        break;
+      case 'UID':
+        current.uid = value.trim() || undefined;
+        break;
+      case 'BDAY': {
+        const date = parseVCardDate(value, parsed.params);
+        if (date) current.dates.push({ kind: 'birthday', ...date });
+        break;
+      }
+      case 'X-ABDATE': {
+        const date = parseVCardDate(value, parsed.params);
+        if (date && group) current.groupDates.set(group, date);
+        break;
+      }
+      case 'X-ABLABEL':
+        if (group) current.groupLabels.set(group, unescapeText(value));
+        break;
+      default:
+        if (ANNIVERSARY_PROPERTIES.includes(name)) {
+          const date = parseVCardDate(value, parsed.params);
+          if (date) current.dates.push({ kind: 'anniversary', ...date });
+        }
+    }
+  }
+
+  return contacts;
+};
+
+// ===== CONVERSION =====
+
+/**
+ * Convert contacts to yearly events, one per birthday or anniversary
+ */
+export const convertVCardsToEvents = (contacts: VCardContact[]): Omit<Event, 'id' | 'createdAt'>[] => {
+  return contacts.flatMap(contact => contact.dates.map(date => {
+    const info = DATE_KIND_INFO[date.kind];
+    return {
+      name: `${contact.name}${info.suffix}`,
+      category: info.category,
+      date: date.monthDay,
+      frequency: 'yearly' as const,
+      year: date.year,
+      notifyDaysBefore: DEFAULT_NOTIFY_DAYS,
+      color: info.color,
+      sourceUid: contact.uid ? `${contact.uid}#${date.kind}` : undefined
+    };
+  }));
+};
+
+/**
+ * Main function to import birthdays and anniversaries from a vCard file
+ */
+export const importFromVCard = async (fileContent: string): Promise<Omit<Event, 'id' | 'createdAt'>[]> => {
+  return convertVCardsToEvents(parseVCards(fileContent));
+};
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_STORAGE_MODE?: 'supabase' | 'local'
   readonly APP_VERSION: string
   readonly BUILD_DATE: string
   readonly BUILD_TIME: string
@@ -0,0 +1,19 @@
+-- Task spillovers: "move to next day", one per task per source date
+create table if not exists public.myday_task_spillovers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null references public.myday_tasks (id) on delete cascade,
+  from_date date not null,
+  to_date date not null,
+  moved_at timestamptz not null default now(),
+  unique (user_id, task_id, from_date)
+);
+
+create index if not exists myday_task_spillovers_to_date_idx
+  on public.myday_task_spillovers (user_id, to_date);
+
+alter table public.myday_task_spillovers enable row level security;
+
+drop policy if exists "Users manage their own spillovers" on public.myday_task_spillovers;
+create policy "Users manage their own spillovers" on public.myday_task_spillovers
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Event acknowledgments: one per event per date, synced across devices
+create table if not exists public.myday_event_acknowledgments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_id uuid not null references public.myday_events (id) on delete cascade,
+  ack_date date not null,
+  acknowledged_at timestamptz not null default now(),
+  unique (user_id, event_id, ack_date)
+);
+
+alter table public.myday_event_acknowledgments enable row level security;
+
+drop policy if exists "Users manage their own event acknowledgments" on public.myday_event_acknowledgments;
+create policy "Users manage their own event acknowledgments" on public.myday_event_acknowledgments
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
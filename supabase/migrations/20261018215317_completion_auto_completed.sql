@@ -0,0 +1,4 @@
+-- Completions created by completing a task they depend on, so undoing that
+-- task only removes these and keeps the ones the user logged
+alter table public.myday_task_completions
+  add column if not exists auto_completed boolean not null default false;
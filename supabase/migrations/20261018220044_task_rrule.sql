@@ -0,0 +1,4 @@
+-- RRULE recurrence mode: the rule (DTSTART is start_date) and its skipped dates
+alter table public.myday_tasks
+  add column if not exists rrule text,
+  add column if not exists ex_dates text[];
@@ -0,0 +1,9 @@
+-- Quantitative habits: a task's daily target and unit, and the amount logged
+-- on each completion (with the target at the time, so later edits keep history)
+alter table public.myday_tasks
+  add column if not exists target_value numeric,
+  add column if not exists unit text;
+
+alter table public.myday_task_completions
+  add column if not exists value numeric,
+  add column if not exists target_value numeric;
@@ -0,0 +1,11 @@
+-- How a scheduled day went: null means done (or partial while value is below
+-- target_value); partial, skipped and excused days can carry a note
+alter table public.myday_task_completions
+  add column if not exists status text,
+  add column if not exists reason text;
+
+alter table public.myday_task_completions
+  drop constraint if exists myday_task_completions_status_check;
+alter table public.myday_task_completions
+  add constraint myday_task_completions_status_check
+  check (status is null or status in ('done', 'partial', 'skipped', 'excused'));
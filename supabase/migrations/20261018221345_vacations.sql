@@ -0,0 +1,21 @@
+-- Scheduled vacations that pause tasks. No task_ids or tag_ids means every task.
+create table if not exists public.myday_vacations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text,
+  start_date date not null,
+  end_date date not null,
+  task_ids text[],
+  tag_ids text[],
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists myday_vacations_user_id_idx
+  on public.myday_vacations (user_id, start_date);
+
+alter table public.myday_vacations enable row level security;
+
+drop policy if exists "Users manage their own vacations" on public.myday_vacations;
+create policy "Users manage their own vacations" on public.myday_vacations
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
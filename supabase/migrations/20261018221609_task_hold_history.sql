@@ -0,0 +1,3 @@
+-- Finished holds ([{ startDate, endDate, reason, resumedOn }]) so their days still don't count as missed
+alter table public.myday_tasks
+  add column if not exists hold_history jsonb;
@@ -0,0 +1,3 @@
+-- IANA time zone days start and end in (e.g. America/Denver); null follows the device
+alter table public.myday_user_settings
+  add column if not exists time_zone text;
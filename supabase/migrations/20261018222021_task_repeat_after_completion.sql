@@ -0,0 +1,3 @@
+-- Interval tasks that count from their latest completion instead of interval_start_date
+alter table public.myday_tasks
+  add column if not exists repeat_after_completion boolean not null default false;
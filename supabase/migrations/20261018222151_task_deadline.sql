@@ -0,0 +1,3 @@
+-- Hard deadline for one-time tasks, separate from the scheduled specific_date
+alter table public.myday_tasks
+  add column if not exists deadline date;
@@ -0,0 +1,7 @@
+-- Task checklists ([{ id, title }]) and the items ticked on each day's completion
+alter table public.myday_tasks
+  add column if not exists checklist jsonb,
+  add column if not exists auto_complete_checklist boolean not null default false;
+
+alter table public.myday_task_completions
+  add column if not exists checked_item_ids text[];
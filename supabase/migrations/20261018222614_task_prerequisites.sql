@@ -0,0 +1,3 @@
+-- Tasks that must be done first the same day; this task stays locked until then
+alter table public.myday_tasks
+  add column if not exists prerequisite_task_ids text[];
@@ -0,0 +1,3 @@
+-- UID of the calendar entry an event was imported from, so re-imports update it
+alter table public.myday_events
+  add column if not exists source_uid text;
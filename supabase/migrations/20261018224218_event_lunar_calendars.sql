@@ -0,0 +1,11 @@
+-- Yearly events on a lunar date: date_text is MM-DD in calendar_system
+-- (null = Gregorian); is_leap_month picks the leap month (Hebrew: Adar I)
+alter table public.myday_events
+  add column if not exists calendar_system text,
+  add column if not exists is_leap_month boolean not null default false;
+
+alter table public.myday_events
+  drop constraint if exists myday_events_calendar_system_check;
+alter table public.myday_events
+  add constraint myday_events_calendar_system_check
+  check (calendar_system is null or calendar_system in ('chinese', 'hebrew', 'hindu'));